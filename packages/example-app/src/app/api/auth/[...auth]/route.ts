@@ -0,0 +1,5 @@
+import { createAuthHandlers } from 'nextauth-simple';
+import { config } from '@/lib/auth';
+
+// Serves login, register, logout, session, csrf, sessions and every enabled feature route
+export const { GET, POST, DELETE } = createAuthHandlers(config);
@@ -1,35 +0,0 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { registerUser } from 'nextauth-simple';
-import { config } from '@/lib/auth';
-
-export async function POST(request: NextRequest) {
-  try {
-    const { email, password } = await request.json();
-
-    // Validate input
-    if (!email || !password) {
-      return NextResponse.json(
-        { error: 'Email and password are required' },
-        { status: 400 }
-      );
-    }
-    
-    // Attempt registration
-    const result = await registerUser({ email, password }, config);
-    
-    if (result.success) {
-      return NextResponse.json({ success: true });
-    } else {
-      return NextResponse.json(
-        { error: result.error || 'Registration failed' },
-        { status: 400 }
-      );
-    }
-  } catch (error) {
-    console.error('Registration error:', error);
-    return NextResponse.json(
-      { error: 'An unexpected error occurred' },
-      { status: 500 }
-    );
-  }
-}
@@ -22,12 +22,15 @@ export default function Home() {
             </pre>
           </div>
           
-          <Link 
-            href="/api/auth/logout"
-            className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600"
-          >
-            Logout
-          </Link>
+          {/* Same-origin form posts pass the CSRF Origin check */}
+          <form method="post" action="/api/auth/logout">
+            <button
+              type="submit"
+              className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600"
+            >
+              Logout
+            </button>
+          </form>
         </div>
       ) : (
         <div>
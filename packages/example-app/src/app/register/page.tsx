@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { getCsrfToken } from 'nextauth-simple';
 
 export default function RegisterPage() {
   const router = useRouter();
@@ -36,6 +37,7 @@ export default function RegisterPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'x-csrf-token': await getCsrfToken(),
         },
         body: JSON.stringify({ email, password }),
       });
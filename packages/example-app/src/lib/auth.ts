@@ -20,6 +20,7 @@ const defaultConfig = createDefaultConfig({
 // NextAuth-Simple configuration
 export const config = {
   ...defaultConfig,
+  secret: process.env.NEXTAUTH_SECRET,
   features: {
     ...defaultConfig.features,
     twoFactor: {
@@ -35,6 +36,9 @@ export const config = {
     }
     // Enable other features as needed
   },
+  middleware: {
+    strategy: 'hint' as const // Issue the session hint cookie read by src/middleware.ts
+  },
   loginUrl: '/login',
   publicPaths: ['/login', '/register', '/api/auth']
 };
\ No newline at end of file
@@ -1,21 +1,20 @@
-import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { authMiddleware } from 'nextauth-simple';
-import { config as authConfig } from '@/lib/auth';
+import { authMiddleware } from 'nextauth-simple/middleware';
 
 // Define public paths that don't require authentication
 const publicPaths = [
   '/login',
   '/register',
-  '/api/auth/login',
-  '/api/auth/register',
-  '/api/auth/session'
+  '/api/auth' // createAuthHandlers checks the session itself where a route needs one
 ];
 
 // Export middleware function
+// Runs in the Edge runtime, so it must not import the database-backed config from '@/lib/auth'
 export function middleware(request: NextRequest) {
   return authMiddleware(request, {
-    ...authConfig,
+    secret: process.env.NEXTAUTH_SECRET,
+    middleware: { strategy: 'hint' },
+    loginUrl: '/login',
     publicPaths
   });
 }
@@ -0,0 +1,535 @@
+import { and, desc, eq, gte, inArray, lt, lte, ne, sql, type SQL } from 'drizzle-orm';
+import { type MySqlTable } from 'drizzle-orm/mysql-core';
+import { type MySql2Database } from 'drizzle-orm/mysql2';
+import {
+  type PgColumn,
+  type PgInsertValue,
+  type PgTable,
+  type PgUpdateSetSource
+} from 'drizzle-orm/pg-core';
+import { getBundledTables, type BundledTables, type DrizzleDatabase, type PostgresTables, type QueryDatabase } from '../db/tables';
+import { type DatabaseDialect, type Session, type User } from '../core/types';
+import { type AuditLog, type AuditLogQueryOptions } from '../features/audit/types';
+import { type WebAuthnChallenge, type WebAuthnCredential } from '../features/passkeys/types';
+import { type Role, type UserRole } from '../features/rbac/types';
+import {
+  type AccountLockout,
+  type AuthAdapter,
+  type MagicUrlToken,
+  type SocialAccount,
+  type TwoFactorChallenge,
+  type TwoFactorSetup,
+  type UserToken,
+  type UserVerificationStatus
+} from './types';
+
+// Tables used by the Drizzle adapter; feature tables default to the bundled schemas of the dialect
+export interface DrizzleAdapterTables {
+  users: BundledTables['users'];
+  sessions: BundledTables['sessions'];
+  accountLockouts?: BundledTables['accountLockouts'];
+  usersTwoFactor?: BundledTables['usersTwoFactor'];
+  twoFactorChallenges?: BundledTables['twoFactorChallenges'];
+  magicUrlTokens?: BundledTables['magicUrlTokens'];
+  passwordResetTokens?: BundledTables['passwordResetTokens'];
+  accountVerificationTokens?: BundledTables['accountVerificationTokens'];
+  userVerificationStatus?: BundledTables['userVerificationStatus'];
+  socialAccounts?: BundledTables['socialAccounts'];
+  webAuthnCredentials?: BundledTables['webAuthnCredentials'];
+  webAuthnChallenges?: BundledTables['webAuthnChallenges'];
+  roles?: BundledTables['roles'];
+  userRoles?: BundledTables['userRoles'];
+  auditLogs?: BundledTables['auditLogs'];
+}
+
+/**
+ * Get the first row of a query result
+ */
+function first<T>(rows: readonly unknown[]): T | null {
+  return rows.length > 0 ? rows[0] as T : null;
+}
+
+/**
+ * Get the rows of a query result; nullable columns are read as null
+ */
+function all<T>(rows: readonly unknown[]): T[] {
+  return rows as T[];
+}
+
+/**
+ * Drizzle ORM adapter for PostgreSQL, SQLite and MySQL (the default adapter)
+ *
+ * Used automatically when `config.db` is set and no `config.adapter` is given.
+ */
+export class DrizzleAdapter implements AuthAdapter {
+  private client: QueryDatabase;
+  private dialect: DatabaseDialect;
+  private tables: PostgresTables;
+
+  constructor(client: DrizzleDatabase, tables: DrizzleAdapterTables, dialect: DatabaseDialect = 'postgres') {
+    this.client = client as unknown as QueryDatabase;
+    this.dialect = dialect;
+    this.tables = { ...getBundledTables(dialect), ...tables } as PostgresTables;
+  }
+
+  /**
+   * Insert a row, or update the existing row with the same key, in one statement
+   *
+   * MySQL has no RETURNING clause, so its upsert returns null instead of the row.
+   */
+  private async upsert<T extends PgTable>(
+    table: T,
+    target: PgColumn,
+    values: PgInsertValue<T>,
+    set: PgUpdateSetSource<T>
+  ): Promise<T['$inferSelect'] | null> {
+    if (this.dialect === 'mysql') {
+      const client = this.client as unknown as MySql2Database;
+      await client.insert(table as unknown as MySqlTable).values(values).onDuplicateKeyUpdate({ set }).execute();
+      return null;
+    }
+
+    const rows = await this.client.insert(table).values(values).onConflictDoUpdate({ target, set }).returning().execute();
+    return first(rows as unknown[]);
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    const { users } = this.tables;
+    return first(await this.client.select().from(users).where(eq(users.id, id)).limit(1).execute());
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const { users } = this.tables;
+    return first(await this.client.select().from(users).where(eq(users.email, email.toLowerCase())).limit(1).execute());
+  }
+
+  async createUser(user: User): Promise<User> {
+    await this.client.insert(this.tables.users).values(user).execute();
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<Omit<User, 'id'>>): Promise<void> {
+    const { users } = this.tables;
+    await this.client.update(users).set(data).where(eq(users.id, id)).execute();
+  }
+
+  async createSession(session: Session): Promise<Session> {
+    await this.client.insert(this.tables.sessions).values(session).execute();
+    return session;
+  }
+
+  async getSessionAndUser(token: string): Promise<{ session: Session; user: User } | null> {
+    const { sessions, users } = this.tables;
+
+    return first(await this.client
+      .select({ session: sessions, user: users })
+      .from(sessions)
+      .innerJoin(users, eq(sessions.userId, users.id))
+      .where(eq(sessions.token, token))
+      .limit(1)
+      .execute());
+  }
+
+  async listSessions(userId?: string): Promise<Session[]> {
+    const { sessions } = this.tables;
+
+    return await this.client
+      .select()
+      .from(sessions)
+      .where(userId ? eq(sessions.userId, userId) : undefined)
+      .orderBy(desc(sessions.updatedAt))
+      .execute();
+  }
+
+  async updateSession(id: string, data: Partial<Omit<Session, 'id'>>): Promise<void> {
+    const { sessions } = this.tables;
+    await this.client.update(sessions).set(data).where(eq(sessions.id, id)).execute();
+  }
+
+  async deleteSession(id: string, userId?: string): Promise<void> {
+    const { sessions } = this.tables;
+    const condition = userId ? and(eq(sessions.id, id), eq(sessions.userId, userId)) : eq(sessions.id, id);
+    await this.client.delete(sessions).where(condition).execute();
+  }
+
+  async deleteSessionByToken(token: string): Promise<void> {
+    const { sessions } = this.tables;
+    await this.client.delete(sessions).where(eq(sessions.token, token)).execute();
+  }
+
+  async deleteUserSessions(userId: string, options: { exceptToken?: string } = {}): Promise<void> {
+    const { sessions } = this.tables;
+
+    const condition = options.exceptToken
+      ? and(eq(sessions.userId, userId), ne(sessions.token, options.exceptToken))
+      : eq(sessions.userId, userId);
+
+    await this.client.delete(sessions).where(condition).execute();
+  }
+
+  async getLockout(userId: string): Promise<AccountLockout | null> {
+    const { accountLockouts } = this.tables;
+    return first(await this.client.select().from(accountLockouts).where(eq(accountLockouts.userId, userId)).limit(1).execute());
+  }
+
+  async setLockout(lockout: AccountLockout): Promise<void> {
+    const { accountLockouts } = this.tables;
+    const { userId, ...values } = lockout;
+    await this.upsert(accountLockouts, accountLockouts.userId, lockout, values);
+  }
+
+  async incrementFailedAttempts(userId: string, updatedAt: Date): Promise<AccountLockout> {
+    const { accountLockouts } = this.tables;
+
+    const lockout = await this.upsert(
+      accountLockouts,
+      accountLockouts.userId,
+      { userId, failedAttempts: 1, lockCount: 0, lockedUntil: null, unlockToken: null, updatedAt },
+      { failedAttempts: sql`${accountLockouts.failedAttempts} + 1`, updatedAt }
+    );
+
+    // On MySQL the row is read back after the increment
+    return lockout || (await this.getLockout(userId))!;
+  }
+
+  async deleteLockout(userId: string): Promise<void> {
+    const { accountLockouts } = this.tables;
+    await this.client.delete(accountLockouts).where(eq(accountLockouts.userId, userId)).execute();
+  }
+
+  async getTwoFactor(userId: string): Promise<TwoFactorSetup | null> {
+    const { usersTwoFactor } = this.tables;
+    return first(await this.client.select().from(usersTwoFactor).where(eq(usersTwoFactor.userId, userId)).limit(1).execute());
+  }
+
+  async createTwoFactor(setup: TwoFactorSetup): Promise<void> {
+    await this.client.insert(this.tables.usersTwoFactor).values(setup).execute();
+  }
+
+  async updateTwoFactor(userId: string, data: Partial<Omit<TwoFactorSetup, 'userId'>>): Promise<void> {
+    const { usersTwoFactor } = this.tables;
+    await this.client.update(usersTwoFactor).set(data).where(eq(usersTwoFactor.userId, userId)).execute();
+  }
+
+  async deleteTwoFactor(userId: string): Promise<void> {
+    const { usersTwoFactor } = this.tables;
+    await this.client.delete(usersTwoFactor).where(eq(usersTwoFactor.userId, userId)).execute();
+  }
+
+  async createTwoFactorChallenge(challenge: TwoFactorChallenge): Promise<void> {
+    await this.client.insert(this.tables.twoFactorChallenges).values(challenge).execute();
+  }
+
+  async getTwoFactorChallenge(userId: string, token: string): Promise<TwoFactorChallenge | null> {
+    const { twoFactorChallenges } = this.tables;
+
+    return first(await this.client
+      .select()
+      .from(twoFactorChallenges)
+      .where(and(eq(twoFactorChallenges.userId, userId), eq(twoFactorChallenges.token, token)))
+      .limit(1)
+      .execute());
+  }
+
+  async deleteTwoFactorChallenge(token: string): Promise<void> {
+    const { twoFactorChallenges } = this.tables;
+    await this.client.delete(twoFactorChallenges).where(eq(twoFactorChallenges.token, token)).execute();
+  }
+
+  async deleteTwoFactorChallenges(userId: string): Promise<void> {
+    const { twoFactorChallenges } = this.tables;
+    await this.client.delete(twoFactorChallenges).where(eq(twoFactorChallenges.userId, userId)).execute();
+  }
+
+  async createMagicUrlToken(token: MagicUrlToken): Promise<void> {
+    await this.client.insert(this.tables.magicUrlTokens).values(token).execute();
+  }
+
+  async getMagicUrlToken(token: string, email: string): Promise<MagicUrlToken | null> {
+    const { magicUrlTokens } = this.tables;
+
+    return first(await this.client
+      .select()
+      .from(magicUrlTokens)
+      .where(and(eq(magicUrlTokens.token, token), eq(magicUrlTokens.email, email.toLowerCase())))
+      .limit(1)
+      .execute());
+  }
+
+  async markMagicUrlTokenUsed(id: string): Promise<void> {
+    const { magicUrlTokens } = this.tables;
+    await this.client.update(magicUrlTokens).set({ usedAt: new Date() }).where(eq(magicUrlTokens.id, id)).execute();
+  }
+
+  async createPasswordResetToken(token: UserToken): Promise<void> {
+    await this.client.insert(this.tables.passwordResetTokens).values(token).execute();
+  }
+
+  async getPasswordResetToken(token: string, userId: string): Promise<UserToken | null> {
+    const { passwordResetTokens } = this.tables;
+
+    return first(await this.client
+      .select()
+      .from(passwordResetTokens)
+      .where(and(eq(passwordResetTokens.token, token), eq(passwordResetTokens.userId, userId)))
+      .limit(1)
+      .execute());
+  }
+
+  async markPasswordResetTokenUsed(id: string): Promise<void> {
+    const { passwordResetTokens } = this.tables;
+    await this.client.update(passwordResetTokens).set({ usedAt: new Date() }).where(eq(passwordResetTokens.id, id)).execute();
+  }
+
+  async deletePasswordResetTokens(userId: string): Promise<void> {
+    const { passwordResetTokens } = this.tables;
+    await this.client.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId)).execute();
+  }
+
+  async createVerificationToken(token: UserToken): Promise<void> {
+    await this.client.insert(this.tables.accountVerificationTokens).values(token).execute();
+  }
+
+  async getVerificationToken(token: string, userId: string): Promise<UserToken | null> {
+    const { accountVerificationTokens } = this.tables;
+
+    return first(await this.client
+      .select()
+      .from(accountVerificationTokens)
+      .where(and(eq(accountVerificationTokens.token, token), eq(accountVerificationTokens.userId, userId)))
+      .limit(1)
+      .execute());
+  }
+
+  async markVerificationTokenUsed(id: string): Promise<void> {
+    const { accountVerificationTokens } = this.tables;
+    await this.client.update(accountVerificationTokens).set({ usedAt: new Date() }).where(eq(accountVerificationTokens.id, id)).execute();
+  }
+
+  async deleteVerificationTokens(userId: string): Promise<void> {
+    const { accountVerificationTokens } = this.tables;
+    await this.client.delete(accountVerificationTokens).where(eq(accountVerificationTokens.userId, userId)).execute();
+  }
+
+  async getVerificationStatus(userId: string): Promise<UserVerificationStatus | null> {
+    const { userVerificationStatus } = this.tables;
+
+    return first(await this.client
+      .select()
+      .from(userVerificationStatus)
+      .where(eq(userVerificationStatus.userId, userId))
+      .limit(1)
+      .execute());
+  }
+
+  async setVerificationStatus(status: UserVerificationStatus): Promise<void> {
+    const { userVerificationStatus } = this.tables;
+    const { userId, ...values } = status;
+
+    if (await this.getVerificationStatus(userId)) {
+      await this.client.update(userVerificationStatus).set(values).where(eq(userVerificationStatus.userId, userId)).execute();
+    } else {
+      await this.client.insert(userVerificationStatus).values(status).execute();
+    }
+  }
+
+  async getSocialAccount(provider: string, providerAccountId: string): Promise<SocialAccount | null> {
+    const { socialAccounts } = this.tables;
+
+    return first(await this.client
+      .select()
+      .from(socialAccounts)
+      .where(and(eq(socialAccounts.provider, provider), eq(socialAccounts.providerAccountId, providerAccountId)))
+      .limit(1)
+      .execute());
+  }
+
+  async createSocialAccount(account: SocialAccount): Promise<void> {
+    await this.client.insert(this.tables.socialAccounts).values(account).execute();
+  }
+
+  async updateSocialAccount(id: string, data: Partial<Omit<SocialAccount, 'id'>>): Promise<void> {
+    const { socialAccounts } = this.tables;
+    await this.client.update(socialAccounts).set(data).where(eq(socialAccounts.id, id)).execute();
+  }
+
+  async createWebAuthnChallenge(challenge: WebAuthnChallenge): Promise<void> {
+    await this.client.insert(this.tables.webAuthnChallenges).values(challenge).execute();
+  }
+
+  async getWebAuthnChallenge(challenge: string): Promise<WebAuthnChallenge | null> {
+    const { webAuthnChallenges } = this.tables;
+
+    return first(await this.client
+      .select()
+      .from(webAuthnChallenges)
+      .where(eq(webAuthnChallenges.challenge, challenge))
+      .limit(1)
+      .execute());
+  }
+
+  async markWebAuthnChallengeUsed(id: string): Promise<void> {
+    const { webAuthnChallenges } = this.tables;
+    await this.client.update(webAuthnChallenges).set({ usedAt: new Date() }).where(eq(webAuthnChallenges.id, id)).execute();
+  }
+
+  async createWebAuthnCredential(credential: WebAuthnCredential): Promise<void> {
+    await this.client.insert(this.tables.webAuthnCredentials).values(credential).execute();
+  }
+
+  async getWebAuthnCredential(credentialId: string): Promise<WebAuthnCredential | null> {
+    const { webAuthnCredentials } = this.tables;
+
+    return first(await this.client
+      .select()
+      .from(webAuthnCredentials)
+      .where(eq(webAuthnCredentials.credentialId, credentialId))
+      .limit(1)
+      .execute());
+  }
+
+  async listWebAuthnCredentials(userId: string): Promise<WebAuthnCredential[]> {
+    const { webAuthnCredentials } = this.tables;
+    return all(await this.client.select().from(webAuthnCredentials).where(eq(webAuthnCredentials.userId, userId)).execute());
+  }
+
+  async updateWebAuthnCredential(id: string, data: Partial<Omit<WebAuthnCredential, 'id'>>): Promise<void> {
+    const { webAuthnCredentials } = this.tables;
+    await this.client.update(webAuthnCredentials).set(data).where(eq(webAuthnCredentials.id, id)).execute();
+  }
+
+  async deleteWebAuthnCredential(credentialId: string): Promise<void> {
+    const { webAuthnCredentials } = this.tables;
+    await this.client.delete(webAuthnCredentials).where(eq(webAuthnCredentials.credentialId, credentialId)).execute();
+  }
+
+  async getRole(id: string): Promise<Role | null> {
+    const { roles } = this.tables;
+    return first(await this.client.select().from(roles).where(eq(roles.id, id)).limit(1).execute());
+  }
+
+  async getRoleByName(name: string): Promise<Role | null> {
+    const { roles } = this.tables;
+    return first(await this.client.select().from(roles).where(eq(roles.name, name)).limit(1).execute());
+  }
+
+  async listRoles(ids?: string[]): Promise<Role[]> {
+    const { roles } = this.tables;
+
+    if (ids && ids.length === 0) {
+      return [];
+    }
+
+    return all(await this.client
+      .select()
+      .from(roles)
+      .where(ids ? inArray(roles.id, ids) : undefined)
+      .execute());
+  }
+
+  async createRole(role: Role): Promise<void> {
+    await this.client.insert(this.tables.roles).values(role).execute();
+  }
+
+  async updateRole(id: string, data: Partial<Omit<Role, 'id'>>): Promise<void> {
+    const { roles } = this.tables;
+    await this.client.update(roles).set(data).where(eq(roles.id, id)).execute();
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    const { roles, userRoles } = this.tables;
+    await this.client.delete(userRoles).where(eq(userRoles.roleId, id)).execute();
+    await this.client.delete(roles).where(eq(roles.id, id)).execute();
+  }
+
+  async getUserRole(userId: string, roleId: string): Promise<UserRole | null> {
+    const { userRoles } = this.tables;
+
+    return first(await this.client
+      .select()
+      .from(userRoles)
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.roleId, roleId)))
+      .limit(1)
+      .execute());
+  }
+
+  async listUserRoles(userId: string): Promise<UserRole[]> {
+    const { userRoles } = this.tables;
+    return await this.client.select().from(userRoles).where(eq(userRoles.userId, userId)).execute();
+  }
+
+  async createUserRole(userRole: UserRole): Promise<void> {
+    await this.client.insert(this.tables.userRoles).values(userRole).execute();
+  }
+
+  async deleteUserRole(userId: string, roleId: string): Promise<void> {
+    const { userRoles } = this.tables;
+    await this.client.delete(userRoles).where(and(eq(userRoles.userId, userId), eq(userRoles.roleId, roleId))).execute();
+  }
+
+  async createAuditLog(log: AuditLog): Promise<void> {
+    await this.client.insert(this.tables.auditLogs).values(log).execute();
+  }
+
+  async getAuditLog(id: string): Promise<AuditLog | null> {
+    const { auditLogs } = this.tables;
+    return first(await this.client.select().from(auditLogs).where(eq(auditLogs.id, id)).limit(1).execute());
+  }
+
+  async queryAuditLogs(options: AuditLogQueryOptions): Promise<{ logs: AuditLog[]; total: number }> {
+    const { auditLogs } = this.tables;
+    const conditions: SQL[] = [];
+
+    if (options.userId) conditions.push(eq(auditLogs.userId, options.userId));
+    if (options.action) conditions.push(eq(auditLogs.action, options.action));
+    if (options.resource) conditions.push(eq(auditLogs.resource, options.resource));
+    if (options.resourceId) conditions.push(eq(auditLogs.resourceId, options.resourceId));
+    if (options.status) conditions.push(eq(auditLogs.status, options.status));
+    if (options.startDate) conditions.push(gte(auditLogs.createdAt, options.startDate));
+    if (options.endDate) conditions.push(lte(auditLogs.createdAt, options.endDate));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await this.client
+      .select({ total: sql<number>`count(*)` })
+      .from(auditLogs)
+      .where(where)
+      .execute();
+
+    let query = this.client
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.createdAt))
+      .$dynamic();
+
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return { logs: all(await query.execute()), total: Number(total) };
+  }
+
+  async deleteAuditLogsBefore(date: Date): Promise<number> {
+    const { auditLogs } = this.tables;
+
+    // MySQL has no RETURNING clause but reports the affected rows
+    if (this.dialect === 'mysql') {
+      const client = this.client as unknown as MySql2Database;
+      const [result] = await client.delete(auditLogs as unknown as MySqlTable).where(lt(auditLogs.createdAt, date)).execute();
+      return result.affectedRows;
+    }
+
+    const deleted = await this.client
+      .delete(auditLogs)
+      .where(lt(auditLogs.createdAt, date))
+      .returning({ id: auditLogs.id })
+      .execute();
+
+    return deleted.length;
+  }
+}
@@ -0,0 +1,37 @@
+import { type NextAuthSimpleConfig } from '../core/types';
+import { DrizzleAdapter } from './drizzle';
+import { type AuthAdapter } from './types';
+
+export * from './types';
+export * from './drizzle';
+export * from './memory';
+
+// Default adapters built from `config.db`, one per database configuration
+const defaultAdapters = new WeakMap<object, AuthAdapter>();
+
+/**
+ * Get the storage adapter for a configuration
+ *
+ * Returns `config.adapter` when set, otherwise a Drizzle adapter for `config.db`.
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Storage adapter
+ */
+export function getAdapter(config: Pick<NextAuthSimpleConfig, 'adapter' | 'db'>): AuthAdapter {
+  if (config.adapter) {
+    return config.adapter;
+  }
+
+  if (!config.db?.client) {
+    throw new Error('NextAuth-Simple requires either `adapter` or `db` to be configured');
+  }
+
+  let adapter = defaultAdapters.get(config.db);
+
+  if (!adapter) {
+    adapter = new DrizzleAdapter(config.db.client, config.db.tables, config.db.dialect);
+    defaultAdapters.set(config.db, adapter);
+  }
+
+  return adapter;
+}
@@ -0,0 +1,386 @@
+import { type Session, type User } from '../core/types';
+import { type AuditLog, type AuditLogQueryOptions } from '../features/audit/types';
+import { type WebAuthnChallenge, type WebAuthnCredential } from '../features/passkeys/types';
+import { type Role, type UserRole } from '../features/rbac/types';
+import {
+  type AccountLockout,
+  type AuthAdapter,
+  type MagicUrlToken,
+  type SocialAccount,
+  type TwoFactorChallenge,
+  type TwoFactorSetup,
+  type UserToken,
+  type UserVerificationStatus
+} from './types';
+
+/**
+ * In-memory table keyed by its primary key
+ *
+ * Rows are copied on the way in and out so callers never share state with the
+ * store, and unique columns are enforced like the bundled schemas do.
+ */
+class MemoryTable<T extends object> {
+  private rows = new Map<string, T>();
+
+  constructor(private primaryKey: keyof T, private uniqueKeys: (keyof T)[] = []) {}
+
+  get(key: string): T | null {
+    const row = this.rows.get(key);
+    return row ? { ...row } : null;
+  }
+
+  find(predicate: (row: T) => boolean): T | null {
+    for (const row of this.rows.values()) {
+      if (predicate(row)) {
+        return { ...row };
+      }
+    }
+
+    return null;
+  }
+
+  filter(predicate: (row: T) => boolean = () => true): T[] {
+    return [...this.rows.values()].filter(predicate).map((row) => ({ ...row }));
+  }
+
+  insert(row: T): void {
+    const key = String(row[this.primaryKey]);
+
+    if (this.rows.has(key)) {
+      throw new Error(`Duplicate value for ${String(this.primaryKey)}`);
+    }
+
+    for (const column of this.uniqueKeys) {
+      if (this.find((existing) => existing[column] === row[column])) {
+        throw new Error(`Duplicate value for ${String(column)}`);
+      }
+    }
+
+    this.rows.set(key, { ...row });
+  }
+
+  update(key: string, data: Partial<T>): void {
+    const row = this.rows.get(key);
+
+    if (row) {
+      this.rows.set(key, { ...row, ...data, [this.primaryKey]: row[this.primaryKey] });
+    }
+  }
+
+  // Returns the number of deleted rows
+  delete(predicate: (row: T) => boolean): number {
+    let deleted = 0;
+
+    for (const [key, row] of this.rows) {
+      if (predicate(row)) {
+        this.rows.delete(key);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+}
+
+/**
+ * In-memory adapter for tests and local prototyping
+ *
+ * Implements every adapter method with plain maps, so complete flows (sign-up,
+ * sessions, 2FA, magic links, RBAC, ...) run without a database. Data lives as
+ * long as the adapter instance and is never shared between processes.
+ */
+export class MemoryAdapter implements AuthAdapter {
+  private users = new MemoryTable<User>('id', ['email']);
+  private sessions = new MemoryTable<Session>('id', ['token']);
+  private accountLockouts = new MemoryTable<AccountLockout>('userId');
+  private usersTwoFactor = new MemoryTable<TwoFactorSetup>('userId');
+  private twoFactorChallenges = new MemoryTable<TwoFactorChallenge>('id');
+  private magicUrlTokens = new MemoryTable<MagicUrlToken>('id', ['token']);
+  private passwordResetTokens = new MemoryTable<UserToken>('id', ['token']);
+  private accountVerificationTokens = new MemoryTable<UserToken>('id', ['token']);
+  private userVerificationStatus = new MemoryTable<UserVerificationStatus>('userId');
+  private socialAccounts = new MemoryTable<SocialAccount>('id');
+  private webAuthnCredentials = new MemoryTable<WebAuthnCredential>('id', ['credentialId']);
+  private webAuthnChallenges = new MemoryTable<WebAuthnChallenge>('id', ['challenge']);
+  private roles = new MemoryTable<Role>('id', ['name']);
+  private userRoles = new MemoryTable<UserRole>('id');
+  private auditLogs = new MemoryTable<AuditLog>('id');
+
+  async getUser(id: string): Promise<User | null> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const normalized = email.toLowerCase();
+    return this.users.find((user) => user.email === normalized);
+  }
+
+  async createUser(user: User): Promise<User> {
+    this.users.insert(user);
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<Omit<User, 'id'>>): Promise<void> {
+    this.users.update(id, data);
+  }
+
+  async createSession(session: Session): Promise<Session> {
+    this.sessions.insert(session);
+    return session;
+  }
+
+  async getSessionAndUser(token: string): Promise<{ session: Session; user: User } | null> {
+    const session = this.sessions.find((row) => row.token === token);
+    const user = session ? this.users.get(session.userId) : null;
+
+    return session && user ? { session, user } : null;
+  }
+
+  async listSessions(userId?: string): Promise<Session[]> {
+    return this.sessions
+      .filter((session) => !userId || session.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async updateSession(id: string, data: Partial<Omit<Session, 'id'>>): Promise<void> {
+    this.sessions.update(id, data);
+  }
+
+  async deleteSession(id: string, userId?: string): Promise<void> {
+    this.sessions.delete((session) => session.id === id && (!userId || session.userId === userId));
+  }
+
+  async deleteSessionByToken(token: string): Promise<void> {
+    this.sessions.delete((session) => session.token === token);
+  }
+
+  async deleteUserSessions(userId: string, options: { exceptToken?: string } = {}): Promise<void> {
+    this.sessions.delete((session) => session.userId === userId && session.token !== options.exceptToken);
+  }
+
+  async getLockout(userId: string): Promise<AccountLockout | null> {
+    return this.accountLockouts.get(userId);
+  }
+
+  async setLockout(lockout: AccountLockout): Promise<void> {
+    this.accountLockouts.delete((row) => row.userId === lockout.userId);
+    this.accountLockouts.insert(lockout);
+  }
+
+  async incrementFailedAttempts(userId: string, updatedAt: Date): Promise<AccountLockout> {
+    const lockout = this.accountLockouts.get(userId)
+      || { userId, failedAttempts: 0, lockCount: 0, lockedUntil: null, unlockToken: null, updatedAt };
+
+    // No await between reading and writing, so concurrent calls cannot lose a failure
+    this.accountLockouts.delete((row) => row.userId === userId);
+    this.accountLockouts.insert({ ...lockout, failedAttempts: lockout.failedAttempts + 1, updatedAt });
+
+    return this.accountLockouts.get(userId)!;
+  }
+
+  async deleteLockout(userId: string): Promise<void> {
+    this.accountLockouts.delete((row) => row.userId === userId);
+  }
+
+  async getTwoFactor(userId: string): Promise<TwoFactorSetup | null> {
+    return this.usersTwoFactor.get(userId);
+  }
+
+  async createTwoFactor(setup: TwoFactorSetup): Promise<void> {
+    this.usersTwoFactor.insert(setup);
+  }
+
+  async updateTwoFactor(userId: string, data: Partial<Omit<TwoFactorSetup, 'userId'>>): Promise<void> {
+    this.usersTwoFactor.update(userId, data);
+  }
+
+  async deleteTwoFactor(userId: string): Promise<void> {
+    this.usersTwoFactor.delete((row) => row.userId === userId);
+  }
+
+  async createTwoFactorChallenge(challenge: TwoFactorChallenge): Promise<void> {
+    this.twoFactorChallenges.insert(challenge);
+  }
+
+  async getTwoFactorChallenge(userId: string, token: string): Promise<TwoFactorChallenge | null> {
+    return this.twoFactorChallenges.find((row) => row.userId === userId && row.token === token);
+  }
+
+  async deleteTwoFactorChallenge(token: string): Promise<void> {
+    this.twoFactorChallenges.delete((row) => row.token === token);
+  }
+
+  async deleteTwoFactorChallenges(userId: string): Promise<void> {
+    this.twoFactorChallenges.delete((row) => row.userId === userId);
+  }
+
+  async createMagicUrlToken(token: MagicUrlToken): Promise<void> {
+    this.magicUrlTokens.insert(token);
+  }
+
+  async getMagicUrlToken(token: string, email: string): Promise<MagicUrlToken | null> {
+    const normalized = email.toLowerCase();
+    return this.magicUrlTokens.find((row) => row.token === token && row.email === normalized);
+  }
+
+  async markMagicUrlTokenUsed(id: string): Promise<void> {
+    this.magicUrlTokens.update(id, { usedAt: new Date() });
+  }
+
+  async createPasswordResetToken(token: UserToken): Promise<void> {
+    this.passwordResetTokens.insert(token);
+  }
+
+  async getPasswordResetToken(token: string, userId: string): Promise<UserToken | null> {
+    return this.passwordResetTokens.find((row) => row.token === token && row.userId === userId);
+  }
+
+  async markPasswordResetTokenUsed(id: string): Promise<void> {
+    this.passwordResetTokens.update(id, { usedAt: new Date() });
+  }
+
+  async deletePasswordResetTokens(userId: string): Promise<void> {
+    this.passwordResetTokens.delete((row) => row.userId === userId);
+  }
+
+  async createVerificationToken(token: UserToken): Promise<void> {
+    this.accountVerificationTokens.insert(token);
+  }
+
+  async getVerificationToken(token: string, userId: string): Promise<UserToken | null> {
+    return this.accountVerificationTokens.find((row) => row.token === token && row.userId === userId);
+  }
+
+  async markVerificationTokenUsed(id: string): Promise<void> {
+    this.accountVerificationTokens.update(id, { usedAt: new Date() });
+  }
+
+  async deleteVerificationTokens(userId: string): Promise<void> {
+    this.accountVerificationTokens.delete((row) => row.userId === userId);
+  }
+
+  async getVerificationStatus(userId: string): Promise<UserVerificationStatus | null> {
+    return this.userVerificationStatus.get(userId);
+  }
+
+  async setVerificationStatus(status: UserVerificationStatus): Promise<void> {
+    this.userVerificationStatus.delete((row) => row.userId === status.userId);
+    this.userVerificationStatus.insert(status);
+  }
+
+  async getSocialAccount(provider: string, providerAccountId: string): Promise<SocialAccount | null> {
+    return this.socialAccounts.find((row) => row.provider === provider && row.providerAccountId === providerAccountId);
+  }
+
+  async createSocialAccount(account: SocialAccount): Promise<void> {
+    this.socialAccounts.insert(account);
+  }
+
+  async updateSocialAccount(id: string, data: Partial<Omit<SocialAccount, 'id'>>): Promise<void> {
+    this.socialAccounts.update(id, data);
+  }
+
+  async createWebAuthnChallenge(challenge: WebAuthnChallenge): Promise<void> {
+    this.webAuthnChallenges.insert(challenge);
+  }
+
+  async getWebAuthnChallenge(challenge: string): Promise<WebAuthnChallenge | null> {
+    return this.webAuthnChallenges.find((row) => row.challenge === challenge);
+  }
+
+  async markWebAuthnChallengeUsed(id: string): Promise<void> {
+    this.webAuthnChallenges.update(id, { usedAt: new Date() });
+  }
+
+  async createWebAuthnCredential(credential: WebAuthnCredential): Promise<void> {
+    this.webAuthnCredentials.insert(credential);
+  }
+
+  async getWebAuthnCredential(credentialId: string): Promise<WebAuthnCredential | null> {
+    return this.webAuthnCredentials.find((row) => row.credentialId === credentialId);
+  }
+
+  async listWebAuthnCredentials(userId: string): Promise<WebAuthnCredential[]> {
+    return this.webAuthnCredentials.filter((row) => row.userId === userId);
+  }
+
+  async updateWebAuthnCredential(id: string, data: Partial<Omit<WebAuthnCredential, 'id'>>): Promise<void> {
+    this.webAuthnCredentials.update(id, data);
+  }
+
+  async deleteWebAuthnCredential(credentialId: string): Promise<void> {
+    this.webAuthnCredentials.delete((row) => row.credentialId === credentialId);
+  }
+
+  async getRole(id: string): Promise<Role | null> {
+    return this.roles.get(id);
+  }
+
+  async getRoleByName(name: string): Promise<Role | null> {
+    return this.roles.find((role) => role.name === name);
+  }
+
+  async listRoles(ids?: string[]): Promise<Role[]> {
+    return this.roles.filter((role) => !ids || ids.includes(role.id));
+  }
+
+  async createRole(role: Role): Promise<void> {
+    this.roles.insert(role);
+  }
+
+  async updateRole(id: string, data: Partial<Omit<Role, 'id'>>): Promise<void> {
+    this.roles.update(id, data);
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    this.userRoles.delete((row) => row.roleId === id);
+    this.roles.delete((role) => role.id === id);
+  }
+
+  async getUserRole(userId: string, roleId: string): Promise<UserRole | null> {
+    return this.userRoles.find((row) => row.userId === userId && row.roleId === roleId);
+  }
+
+  async listUserRoles(userId: string): Promise<UserRole[]> {
+    return this.userRoles.filter((row) => row.userId === userId);
+  }
+
+  async createUserRole(userRole: UserRole): Promise<void> {
+    this.userRoles.insert(userRole);
+  }
+
+  async deleteUserRole(userId: string, roleId: string): Promise<void> {
+    this.userRoles.delete((row) => row.userId === userId && row.roleId === roleId);
+  }
+
+  async createAuditLog(log: AuditLog): Promise<void> {
+    this.auditLogs.insert(log);
+  }
+
+  async getAuditLog(id: string): Promise<AuditLog | null> {
+    return this.auditLogs.get(id);
+  }
+
+  async queryAuditLogs(options: AuditLogQueryOptions): Promise<{ logs: AuditLog[]; total: number }> {
+    const matches = this.auditLogs
+      .filter((log) =>
+        (!options.userId || log.userId === options.userId) &&
+        (!options.action || log.action === options.action) &&
+        (!options.resource || log.resource === options.resource) &&
+        (!options.resourceId || log.resourceId === options.resourceId) &&
+        (!options.status || log.status === options.status) &&
+        (!options.startDate || log.createdAt >= options.startDate) &&
+        (!options.endDate || log.createdAt <= options.endDate)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    const offset = options.offset || 0;
+    const end = options.limit ? offset + options.limit : undefined;
+
+    return { logs: matches.slice(offset, end), total: matches.length };
+  }
+
+  async deleteAuditLogsBefore(date: Date): Promise<number> {
+    return this.auditLogs.delete((log) => log.createdAt < date);
+  }
+}
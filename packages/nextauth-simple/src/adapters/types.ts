@@ -0,0 +1,175 @@
+import { type Session, type User } from '../core/types';
+import { type AuditLog, type AuditLogQueryOptions } from '../features/audit/types';
+import { type WebAuthnChallenge, type WebAuthnCredential } from '../features/passkeys/types';
+import { type Role, type UserRole } from '../features/rbac/types';
+
+/**
+ * Storage adapter types
+ *
+ * Core and feature modules only talk to storage through an AuthAdapter. Records
+ * mirror the rows of the bundled schemas; token fields always hold the value the
+ * calling module chose to store (e.g. session token digests, never raw tokens).
+ */
+
+// Progressive lockout state of a user (see core/lockout)
+export interface AccountLockout {
+  userId: string;
+  failedAttempts: number; // Consecutive failures since the last lock
+  lockCount: number; // Number of locks so far, drives the backoff
+  lockedUntil: Date | null;
+  unlockToken: string | null; // SHA-256 digest of the emailed unlock token
+  updatedAt: Date;
+}
+
+// TOTP setup of a user
+export interface TwoFactorSetup {
+  userId: string;
+  secret: string;
+  enabled: boolean;
+  backupCodes: string | null; // JSON string of hashed backup codes
+  verifiedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Pending second-factor challenge issued after a successful password check
+export interface TwoFactorChallenge {
+  id: string;
+  userId: string;
+  token: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// Emailed magic link token
+export interface MagicUrlToken {
+  id: string;
+  email: string;
+  token: string;
+  expiresAt: Date;
+  createdAt: Date;
+  usedAt?: Date | null;
+  callbackUrl?: string | null;
+}
+
+// Single-use token bound to a user (password reset and account verification)
+export interface UserToken {
+  id: string;
+  userId: string;
+  token: string;
+  expiresAt: Date;
+  createdAt: Date;
+  usedAt?: Date | null;
+}
+
+// Account verification state of a user
+export interface UserVerificationStatus {
+  userId: string;
+  verified: boolean;
+  verifiedAt?: Date | null;
+  verificationMethod?: string | null; // 'email', 'phone', etc.
+  updatedAt: Date;
+}
+
+// OAuth account linked to a user
+export interface SocialAccount {
+  id: string;
+  userId: string;
+  provider: string; // 'google', 'apple', etc.
+  providerAccountId: string;
+  refreshToken?: string | null;
+  accessToken?: string | null;
+  expiresAt?: Date | null;
+  tokenType?: string | null;
+  scope?: string | null;
+  idToken?: string | null;
+  profile?: any; // Full provider profile
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Storage backend for users, sessions and all feature data
+export interface AuthAdapter {
+  // Users
+  getUser(id: string): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>; // Emails are stored lowercased
+  createUser(user: User): Promise<User>;
+  updateUser(id: string, data: Partial<Omit<User, 'id'>>): Promise<void>;
+
+  // Sessions (looked up by token digest)
+  createSession(session: Session): Promise<Session>;
+  getSessionAndUser(token: string): Promise<{ session: Session; user: User } | null>;
+  listSessions(userId?: string): Promise<Session[]>; // Most recently updated first; all sessions without a userId
+  updateSession(id: string, data: Partial<Omit<Session, 'id'>>): Promise<void>;
+  deleteSession(id: string, userId?: string): Promise<void>; // Only deletes the session if it belongs to userId, when given
+  deleteSessionByToken(token: string): Promise<void>;
+  deleteUserSessions(userId: string, options?: { exceptToken?: string }): Promise<void>;
+
+  // Account lockout
+  getLockout(userId: string): Promise<AccountLockout | null>;
+  setLockout(lockout: AccountLockout): Promise<void>; // Insert or replace
+  incrementFailedAttempts(userId: string, updatedAt: Date): Promise<AccountLockout>; // Atomically adds a failure, inserting the row if missing
+  deleteLockout(userId: string): Promise<void>;
+
+  // Two-Factor Authentication
+  getTwoFactor(userId: string): Promise<TwoFactorSetup | null>;
+  createTwoFactor(setup: TwoFactorSetup): Promise<void>;
+  updateTwoFactor(userId: string, data: Partial<Omit<TwoFactorSetup, 'userId'>>): Promise<void>;
+  deleteTwoFactor(userId: string): Promise<void>;
+  createTwoFactorChallenge(challenge: TwoFactorChallenge): Promise<void>;
+  getTwoFactorChallenge(userId: string, token: string): Promise<TwoFactorChallenge | null>;
+  deleteTwoFactorChallenge(token: string): Promise<void>;
+  deleteTwoFactorChallenges(userId: string): Promise<void>;
+
+  // Magic URL
+  createMagicUrlToken(token: MagicUrlToken): Promise<void>;
+  getMagicUrlToken(token: string, email: string): Promise<MagicUrlToken | null>;
+  markMagicUrlTokenUsed(id: string): Promise<void>;
+
+  // Password Reset
+  createPasswordResetToken(token: UserToken): Promise<void>;
+  getPasswordResetToken(token: string, userId: string): Promise<UserToken | null>;
+  markPasswordResetTokenUsed(id: string): Promise<void>;
+  deletePasswordResetTokens(userId: string): Promise<void>;
+
+  // Account Verification
+  createVerificationToken(token: UserToken): Promise<void>;
+  getVerificationToken(token: string, userId: string): Promise<UserToken | null>;
+  markVerificationTokenUsed(id: string): Promise<void>;
+  deleteVerificationTokens(userId: string): Promise<void>;
+  getVerificationStatus(userId: string): Promise<UserVerificationStatus | null>;
+  setVerificationStatus(status: UserVerificationStatus): Promise<void>; // Insert or replace
+
+  // Social Login
+  getSocialAccount(provider: string, providerAccountId: string): Promise<SocialAccount | null>;
+  createSocialAccount(account: SocialAccount): Promise<void>;
+  updateSocialAccount(id: string, data: Partial<Omit<SocialAccount, 'id'>>): Promise<void>;
+
+  // Passkeys (WebAuthn)
+  createWebAuthnChallenge(challenge: WebAuthnChallenge): Promise<void>;
+  getWebAuthnChallenge(challenge: string): Promise<WebAuthnChallenge | null>;
+  markWebAuthnChallengeUsed(id: string): Promise<void>;
+  createWebAuthnCredential(credential: WebAuthnCredential): Promise<void>;
+  getWebAuthnCredential(credentialId: string): Promise<WebAuthnCredential | null>;
+  listWebAuthnCredentials(userId: string): Promise<WebAuthnCredential[]>;
+  updateWebAuthnCredential(id: string, data: Partial<Omit<WebAuthnCredential, 'id'>>): Promise<void>;
+  deleteWebAuthnCredential(credentialId: string): Promise<void>;
+
+  // Role-Based Access Control
+  getRole(id: string): Promise<Role | null>;
+  getRoleByName(name: string): Promise<Role | null>;
+  listRoles(ids?: string[]): Promise<Role[]>; // All roles without ids
+  createRole(role: Role): Promise<void>;
+  updateRole(id: string, data: Partial<Omit<Role, 'id'>>): Promise<void>;
+  deleteRole(id: string): Promise<void>; // Also removes the role from all users
+  getUserRole(userId: string, roleId: string): Promise<UserRole | null>;
+  listUserRoles(userId: string): Promise<UserRole[]>;
+  createUserRole(userRole: UserRole): Promise<void>;
+  deleteUserRole(userId: string, roleId: string): Promise<void>;
+
+  // Audit Logging
+  createAuditLog(log: AuditLog): Promise<void>;
+  getAuditLog(id: string): Promise<AuditLog | null>;
+  queryAuditLogs(options: AuditLogQueryOptions): Promise<{ logs: AuditLog[]; total: number }>; // Newest first
+  deleteAuditLogsBefore(date: Date): Promise<number>; // Returns the number of deleted logs
+}
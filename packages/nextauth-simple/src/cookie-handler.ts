@@ -1,4 +1,6 @@
 import { type NextRequest } from 'next/server';
+import { getLogger } from './core/logger';
+import { type NextAuthSimpleConfig } from './core/types';
 
 // Cookie handling interface to support both App Router and Pages Router
 export interface CookieHandler {
@@ -11,12 +13,14 @@ export interface CookieHandler {
     sameSite?: 'strict' | 'lax' | 'none';
     expires?: Date;
     path?: string;
+    domain?: string;
   }): void;
-  delete(name: string): void;
+  // Domain and path must match the ones the cookie was set with
+  delete(name: string, options?: { domain?: string; path?: string }): void;
 }
 
 // Function to get the appropriate cookie handler based on environment
-export function getCookieHandler(req?: NextRequest, res?: any): CookieHandler {
+export function getCookieHandler(req?: NextRequest, res?: any, config?: NextAuthSimpleConfig): CookieHandler {
   // Check if we're in a browser environment
   const isBrowser = typeof window !== 'undefined';
   
@@ -46,14 +50,16 @@ export function getCookieHandler(req?: NextRequest, res?: any): CookieHandler {
             cookie.sameSite ? `SameSite=${cookie.sameSite};` : ''
           } ${cookie.expires ? `Expires=${cookie.expires.toUTCString()};` : ''} ${
             cookie.path ? `Path=${cookie.path};` : ''
-          }`;
+          } ${cookie.domain ? `Domain=${cookie.domain};` : ''}`;
         }
       },
-      delete: (name: string) => {
+      delete: (name: string, options?: { domain?: string; path?: string }) => {
         if (res && res.cookies && typeof res.cookies.delete === 'function') {
-          res.cookies.delete(name);
+          res.cookies.delete(options ? { name, ...options } : name);
         } else if (isBrowser) {
-          document.cookie = `${name}=; Max-Age=0; Path=/;`;
+          document.cookie = `${name}=; Max-Age=0; Path=${options?.path || '/'};${
+            options?.domain ? ` Domain=${options.domain};` : ''
+          }`;
         }
       }
     };
@@ -66,20 +72,22 @@ export function getCookieHandler(req?: NextRequest, res?: any): CookieHandler {
     return {
       get: (name: string) => cookies().get(name),
       set: (cookie) => cookies().set(cookie),
-      delete: (name: string) => cookies().delete(name)
+      delete: (name: string, options?: { domain?: string; path?: string }) =>
+        cookies().delete(options ? { name, ...options } : name)
     };
   } catch (e) {
     // If next/headers is not available, return a dummy handler that logs warnings
+    const logger = getLogger(config);
     return {
       get: (name: string) => {
-        console.warn('Cookie access attempted without proper context. Please provide req/res objects.');
+        logger.warn('Cookie access attempted without proper context. Please provide req/res objects.');
         return undefined;
       },
       set: (cookie) => {
-        console.warn('Cookie setting attempted without proper context. Please provide req/res objects.');
+        logger.warn('Cookie setting attempted without proper context. Please provide req/res objects.');
       },
-      delete: (name: string) => {
-        console.warn('Cookie deletion attempted without proper context. Please provide req/res objects.');
+      delete: (name: string, options?: { domain?: string; path?: string }) => {
+        logger.warn('Cookie deletion attempted without proper context. Please provide req/res objects.');
       }
     };
   }
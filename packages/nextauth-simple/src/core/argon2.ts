@@ -0,0 +1,40 @@
+import argon2 from 'argon2';
+import { type PasswordHasher } from './types';
+
+/**
+ * Argon2id password hasher (`$argon2id$v=19$m=<KiB>,t=<passes>,p=<lanes>$...` hashes)
+ *
+ * Imported from `nextauth-simple/argon2` so `argon2` stays optional.
+ * Defaults follow the OWASP minimum of 19 MiB, 2 passes and 1 lane.
+ */
+export class Argon2idHasher implements PasswordHasher {
+  readonly algorithm = 'argon2id';
+  private options: { memoryCost: number; timeCost: number; parallelism: number };
+
+  /**
+   * @param options - Memory in KiB (default: 19456), passes (default: 2) and lanes (default: 1)
+   */
+  constructor(options: { memoryCost?: number; timeCost?: number; parallelism?: number } = {}) {
+    this.options = {
+      memoryCost: options.memoryCost ?? 19456,
+      timeCost: options.timeCost ?? 2,
+      parallelism: options.parallelism ?? 1
+    };
+  }
+
+  async hash(password: string): Promise<string> {
+    return argon2.hash(password, { type: argon2.argon2id, ...this.options });
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    return argon2.verify(hash, password);
+  }
+
+  identifies(hash: string): boolean {
+    return hash.startsWith('$argon2id$');
+  }
+
+  needsRehash(hash: string): boolean {
+    return argon2.needsRehash(hash, this.options);
+  }
+}
@@ -1,16 +1,33 @@
 import crypto from 'crypto';
 import { type NextRequest } from 'next/server';
 import { getCookieHandler } from '../cookie-handler';
-import { hashPassword, comparePassword } from '../utils/password';
+import { getDeviceLabel } from '../utils/user-agent';
+import { consumeRateLimit, getClientIp, getRateLimitKeys, resetRateLimit } from './rate-limit';
+import { getLockoutStatus, recordFailedLogin, recordSuccessfulLogin } from './lockout';
+import { createSessionTokenPayload, getAbsoluteExpiry, hashSessionToken, setSessionCookie } from './session';
+import { decodeSessionToken, encodeSessionToken } from './jwt';
+import { revokeSessionToken } from './revocation';
+import { getSessionHintCookieName, setSessionHintCookie } from './session-hint';
+import { deleteCookie, getSessionCookieName } from './cookies';
+import { getSessionClaims } from './session-claims';
+import { hashPassword, verifyPassword } from './password';
+import { checkPasswordPolicy, getPasswordPolicy } from './password-policy';
+import { runAuthHooks } from './events';
+import { authError } from './errors';
+import { completeSignIn } from './sign-in';
+import { getAdapter } from '../adapters';
 import {
+  type ActiveSession,
+  type AuthError,
+  type AuthErrorCode,
   type AuthResult,
+  type ChangePasswordInput,
   type LoginInput,
   type NextAuthSimpleConfig,
   type RegisterInput,
-  type Session,
-  type User
+  type Session
 } from './types';
-import { eq } from 'drizzle-orm';
+import { getLogger } from './logger';
 
 /**
  * Register a new user with email and password
@@ -29,69 +46,127 @@ export async function registerUser(
 ): Promise<AuthResult> {
   try {
     // Validate input
-    const validationResult = validateRegistrationInput(input);
-    if (!validationResult.valid) {
-      return { success: false, error: validationResult.error };
+    const invalidInput = validateRegistrationInput(input, config);
+    if (invalidInput) {
+      return invalidInput;
     }
 
     const { email, password } = input;
-    const { db, security = {} } = config;
-    const { bcryptWorkFactor = 12 } = security;
+    const adapter = getAdapter(config);
+
+    // Check password against the configured policy
+    const policy = await checkPasswordPolicy(password, getPasswordPolicy(config), { email }, config);
+    if (!policy.valid) {
+      return { ...authError('WEAK_PASSWORD', config, policy.failures[0].message), passwordPolicyFailures: policy.failures };
+    }
 
     // Check if user already exists - O(1) with indexed email field
-    const existingUser = await db.client
-      .select()
-      .from(db.tables.users)
-      .where(eq(db.tables.users.email, email.toLowerCase()))
-      .limit(1)
-      .execute();
-
-    if (existingUser.length > 0) {
-      return { success: false, error: 'User already exists' };
+    const existingUser = await adapter.getUserByEmail(email);
+
+    if (existingUser) {
+      return authError('USER_EXISTS', config);
     }
 
-    // Hash password - O(1) runtime with bcrypt or browser fallback
-    const hashedPassword = await hashPassword(password, bcryptWorkFactor);
+    return await createRegisteredUser(email, password, config, req, res);
+  } catch (error) {
+    getLogger(config).error('Registration error', { error });
+    return authError('INTERNAL_ERROR', config, 'Registration failed');
+  }
+}
 
-    // Create user - using Drizzle ORM to prevent SQL injection
-    const userId = crypto.randomUUID();
-    const now = new Date();
+/**
+ * Register a user who signs in without a password, e.g. with a magic URL or a social account
+ * 
+ * Runs the same registration hooks as `registerUser`. The stored password is the
+ * hash of a random value, so password logins fail until the user resets it.
+ * 
+ * @param email - Email address, not yet taken
+ * @param config - NextAuth-Simple configuration
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
+ * @returns Authentication result with the user and their first session
+ */
+export async function registerPasswordlessUser(
+  email: string,
+  config: NextAuthSimpleConfig,
+  req?: NextRequest,
+  res?: any
+): Promise<AuthResult> {
+  try {
+    return await createRegisteredUser(email, crypto.randomBytes(32).toString('hex'), config, req, res);
+  } catch (error) {
+    getLogger(config).error('Registration error', { error });
+    return authError('INTERNAL_ERROR', config, 'Registration failed');
+  }
+}
 
-    const newUser = {
-      id: userId,
-      email: email.toLowerCase(),
-      password: hashedPassword,
-      createdAt: now,
-      updatedAt: now
-    };
+/**
+ * Create a user and their first session between the registration hooks
+ * 
+ * @param email - Email address, not yet taken
+ * @param password - Plaintext password, hashed before it is stored
+ * @param config - NextAuth-Simple configuration
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
+ * @returns Authentication result
+ */
+async function createRegisteredUser(
+  email: string,
+  password: string,
+  config: NextAuthSimpleConfig,
+  req?: NextRequest,
+  res?: any
+): Promise<AuthResult> {
+  const preRegistration = await runAuthHooks('preRegistration', { email }, config);
+  if (!preRegistration.success) {
+    return { success: false, code: preRegistration.code, error: preRegistration.error };
+  }
 
-    await db.client.insert(db.tables.users).values(newUser).execute();
+  // Hash password with the configured hasher (bcrypt by default)
+  const hashedPassword = await hashPassword(password, config);
 
-    // Create session
-    const session = await createSession(userId, config, req, res);
+  // Create user
+  const userId = crypto.randomUUID();
+  const now = new Date();
 
-    // Return success with user (excluding password)
-    const { password: _, ...userWithoutPassword } = newUser;
-    return {
-      success: true,
-      user: userWithoutPassword,
-      session: {
-        id: session.id,
-        userId: session.userId,
-        expiresAt: session.expiresAt,
-        createdAt: session.createdAt,
-        updatedAt: session.updatedAt
-      }
-    };
-  } catch (error) {
-    console.error('Registration error:', error);
-    return { success: false, error: 'Registration failed' };
-  }
+  const newUser = {
+    id: userId,
+    email: email.toLowerCase(),
+    password: hashedPassword,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await getAdapter(config).createUser(newUser);
+
+  // Create session
+  const session = await createSession(userId, config, req, res);
+
+  // Return success with user (excluding password)
+  const { password: _, ...userWithoutPassword } = newUser;
+  const { token: __, ...sessionWithoutToken } = session;
+  await runAuthHooks('postRegistration', { user: userWithoutPassword, session: sessionWithoutToken }, config);
+
+  return {
+    success: true,
+    user: userWithoutPassword,
+    userId,
+    session: {
+      id: session.id,
+      userId: session.userId,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt
+    }
+  };
 }
 
 /**
  * Login a user with email and password
  * 
+ * The sign-in is completed by `completeSignIn`, which creates the session or,
+ * for users with 2FA, a two-factor challenge.
+ * 
  * @param input - Login input containing email and password
  * @param config - NextAuth-Simple configuration
  * @param req - Optional NextRequest object (for Pages Router)
@@ -106,48 +181,144 @@ export async function loginUser(
 ): Promise<AuthResult> {
   try {
     // Validate input
-    const validationResult = validateLoginInput(input);
-    if (!validationResult.valid) {
-      return { success: false, error: validationResult.error };
+    const invalidInput = validateLoginInput(input, config);
+    if (invalidInput) {
+      return invalidInput;
     }
 
     const { email, password } = input;
-    const { db } = config;
+
+    // Count the attempt before verifying it, so parallel guesses cannot slip past the limit
+    const rateLimitKeys = getRateLimitKeys('login', { email, ip: getClientIp(req, config) });
+    const rateLimit = await consumeRateLimit(rateLimitKeys, config);
+    if (rateLimit.limited) {
+      return { ...authError('RATE_LIMITED', config), rateLimited: true, retryAfter: rateLimit.retryAfter };
+    }
 
     // Find user by email - O(1) with indexed email field
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where(eq(db.tables.users.email, email.toLowerCase()))
-      .limit(1)
-      .execute();
-
-    if (users.length === 0) {
-      return { success: false, error: 'Invalid email or password' };
+    const user = await getAdapter(config).getUserByEmail(email);
+
+    if (!user) {
+      return authError('INVALID_CREDENTIALS', config);
     }
 
-    const user = users[0] as User;
+    // Locked accounts are rejected before the password is checked
+    const lockout = await getLockoutStatus(user.id, config);
+    if (lockout.locked) {
+      return { ...authError('ACCOUNT_LOCKED', config), locked: true, lockedUntil: lockout.lockedUntil };
+    }
 
-    // Verify password - O(1) for bcrypt verification or browser fallback
-    const passwordMatch = await comparePassword(password, user.password);
+    // Verify password with the algorithm that produced the stored hash
+    const { valid: passwordMatch, needsRehash } = await verifyPassword(password, user.password, config);
     if (!passwordMatch) {
-      return { success: false, error: 'Invalid email or password' };
+      const lockoutAfterFailure = await recordFailedLogin(user, config);
+      if (lockoutAfterFailure.locked) {
+        return { ...authError('ACCOUNT_LOCKED', config), locked: true, lockedUntil: lockoutAfterFailure.lockedUntil };
+      }
+
+      return authError('INVALID_CREDENTIALS', config);
+    }
+
+    // Successful login clears the per-email counter; the per-IP counter is kept
+    await resetRateLimit(getRateLimitKeys('login', { email }), config);
+    await recordSuccessfulLogin(user.id, config);
+
+    // Upgrade hashes of outdated algorithms or work factors while the plaintext is at hand
+    if (needsRehash) {
+      await rehashPassword(user.id, password, config);
     }
 
-    // Create session
-    // const session = await createSession(user.id, config, req, res);
+    // Issue the session, or the two-factor challenge
+    return await completeSignIn(user.id, { method: 'password' }, config, req, res);
+  } catch (error) {
+    getLogger(config).error('Login error', { error });
+    return authError('INTERNAL_ERROR', config, 'Login failed');
+  }
+}
+
+/**
+ * Change the password of a signed-in user
+ * 
+ * Other sessions of the user are signed out; the session of the current
+ * request is kept.
+ * 
+ * @param input - User ID, current password and new password
+ * @param config - NextAuth-Simple configuration
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
+ * @returns Authentication result
+ */
+export async function changePassword(
+  input: ChangePasswordInput,
+  config: NextAuthSimpleConfig,
+  req?: NextRequest,
+  res?: any
+): Promise<AuthResult> {
+  try {
+    const { userId, currentPassword, newPassword } = input;
+    const adapter = getAdapter(config);
+
+    // A stolen session must not allow guessing the current password
+    const rateLimitKeys = getRateLimitKeys('change-password', { userId });
+    const rateLimit = await consumeRateLimit(rateLimitKeys, config);
+    if (rateLimit.limited) {
+      return { ...authError('RATE_LIMITED', config), rateLimited: true, retryAfter: rateLimit.retryAfter };
+    }
+
+    const user = await adapter.getUser(userId);
+
+    if (!user) {
+      return authError('USER_NOT_FOUND', config);
+    }
+
+    const { valid } = await verifyPassword(currentPassword || '', user.password, config);
+    if (!valid) {
+      return authError('INVALID_CREDENTIALS', config, 'Current password is incorrect');
+    }
+
+    await resetRateLimit(rateLimitKeys, config);
+
+    const policy = await checkPasswordPolicy(newPassword, getPasswordPolicy(config), { email: user.email }, config);
+    if (!policy.valid) {
+      return { ...authError('WEAK_PASSWORD', config, policy.failures[0].message), passwordPolicyFailures: policy.failures };
+    }
+
+    await adapter.updateUser(userId, {
+      password: await hashPassword(newPassword, config),
+      updatedAt: new Date()
+    });
+
+    // Stateless sessions cannot be listed, so only database sessions are signed out
+    if (config.session?.strategy !== 'jwt') {
+      const currentToken = getCurrentTokenDigest(config, req, res);
+      await adapter.deleteUserSessions(userId, { exceptToken: currentToken || undefined });
+    }
 
-    // Return success with user (excluding password)
     const { password: _, ...userWithoutPassword } = user;
-    return {
-      success: true,
-      user: userWithoutPassword,
-      userId: user.id,
-      twoFactorRequired: config.features?.twoFactor?.enabled
-    };
+    return { success: true, user: userWithoutPassword };
   } catch (error) {
-    console.error('Login error:', error);
-    return { success: false, error: 'Login failed' };
+    getLogger(config).error('Error changing password', { userId: input.userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to change password');
+  }
+}
+
+/**
+ * Replace a user's password hash with one from the configured hasher
+ * 
+ * Failures are logged and ignored; the old hash keeps working.
+ * 
+ * @param userId - User ID
+ * @param password - Verified plaintext password
+ * @param config - NextAuth-Simple configuration
+ */
+async function rehashPassword(userId: string, password: string, config: NextAuthSimpleConfig): Promise<void> {
+  try {
+    await getAdapter(config).updateUser(userId, {
+      password: await hashPassword(password, config),
+      updatedAt: new Date()
+    });
+  } catch (error) {
+    getLogger(config).error('Error upgrading password hash', { userId, error });
   }
 }
 
@@ -163,26 +334,159 @@ export async function logoutUser(
   config: NextAuthSimpleConfig,
   req?: NextRequest,
   res?: any
-): Promise<{ success: boolean }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
   try {
-    const cookieHandler = getCookieHandler(req, res);
-    const sessionToken = cookieHandler.get('nextauth-simple-session')?.value;
+    const cookieHandler = getCookieHandler(req, res, config);
+    const sessionToken = cookieHandler.get(getSessionCookieName(config))?.value;
 
     if (sessionToken) {
-      // Delete session from database - O(1) with indexed token field
-      await config.db.client
-        .delete(config.db.tables.sessions)
-        .where(eq(config.db.tables.sessions.token, sessionToken))
-        .execute();
-
-      // Clear cookie
-      cookieHandler.delete('nextauth-simple-session');
+      if (config.session?.strategy === 'jwt') {
+        // Stateless tokens stay valid until they expire unless they are revoked
+        const payload = await decodeSessionToken(sessionToken, config);
+
+        if (payload) {
+          await revokeSessionToken(payload.jti, new Date(payload.exp * 1000), config);
+        }
+      } else {
+        // Delete session from database by token digest - O(1) with indexed token field
+        await getAdapter(config).deleteSessionByToken(hashSessionToken(sessionToken, config));
+      }
+
+      // Clear cookies
+      deleteCookie(cookieHandler, getSessionCookieName(config), config);
+      deleteCookie(cookieHandler, getSessionHintCookieName(config), config);
     }
 
     return { success: true };
   } catch (error) {
-    console.error('Logout error:', error);
-    return { success: false };
+    getLogger(config).error('Logout error', { error });
+    return authError('INTERNAL_ERROR', config, 'Logout failed');
+  }
+}
+
+/**
+ * List the active sessions of a user
+ * 
+ * @param userId - User ID
+ * @param config - NextAuth-Simple configuration
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
+ * @returns Sessions (without tokens), most recently used first
+ */
+export async function listUserSessions(
+  userId: string,
+  config: NextAuthSimpleConfig,
+  req?: NextRequest,
+  res?: any
+): Promise<{ success: boolean; sessions?: ActiveSession[]; code?: AuthErrorCode; error?: string }> {
+  try {
+    if (config.session?.strategy === 'jwt') {
+      return authError('UNSUPPORTED', config, 'Listing sessions requires the database session strategy');
+    }
+
+    const currentToken = getCurrentTokenDigest(config, req, res);
+    const sessions = await getAdapter(config).listSessions(userId);
+
+    const now = new Date();
+
+    return {
+      success: true,
+      sessions: sessions
+        .filter(session => new Date(session.expiresAt) > now)
+        .map(({ token, ...session }) => ({ ...session, isCurrent: token === currentToken }))
+    };
+  } catch (error) {
+    getLogger(config).error('Error listing sessions', { userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to list sessions');
+  }
+}
+
+/**
+ * Revoke a single session
+ * 
+ * With the jwt strategy, sessions are not stored, so a user can only revoke the
+ * session of the current request when `userId` is given.
+ *
+ * @param sessionId - Session ID
+ * @param config - NextAuth-Simple configuration
+ * @param options - Restrict the revocation to sessions of this user (recommended for user-facing routes)
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
+ * @returns Success status
+ */
+export async function revokeSession(
+  sessionId: string,
+  config: NextAuthSimpleConfig,
+  options: { userId?: string } = {},
+  req?: NextRequest,
+  res?: any
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
+  try {
+    const { security = {} } = config;
+
+    if (config.session?.strategy === 'jwt') {
+      const store = config.session.jwt?.revocationStore;
+
+      if (!store) {
+        return authError('UNSUPPORTED', config, 'Revoking sessions requires session.jwt.revocationStore');
+      }
+
+      // Only the request's own token proves who owns a session ID
+      if (options.userId) {
+        const token = getCookieHandler(req, res, config).get(getSessionCookieName(config))?.value;
+        const payload = token ? await decodeSessionToken(token, config) : null;
+
+        if (payload?.jti !== sessionId || payload.sub !== options.userId) {
+          return authError('FORBIDDEN', config, 'Only the current session can be revoked with the jwt strategy');
+        }
+      }
+
+      // The token's exact expiry is unknown here; no token outlives a full session lifetime from now
+      const { sessionExpiryDays = 30 } = security;
+      await store.revoke(sessionId, new Date(Date.now() + sessionExpiryDays * 24 * 60 * 60 * 1000));
+
+      return { success: true };
+    }
+
+    await getAdapter(config).deleteSession(sessionId, options.userId);
+
+    return { success: true };
+  } catch (error) {
+    getLogger(config).error('Error revoking session', { userId: options.userId, sessionId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to revoke session');
+  }
+}
+
+/**
+ * Revoke all sessions of a user (e.g. "sign out everywhere")
+ * 
+ * @param userId - User ID
+ * @param config - NextAuth-Simple configuration
+ * @param options - Keep the session of the current request signed in
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
+ * @returns Success status
+ */
+export async function revokeAllSessions(
+  userId: string,
+  config: NextAuthSimpleConfig,
+  options: { exceptCurrent?: boolean } = {},
+  req?: NextRequest,
+  res?: any
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
+  try {
+    if (config.session?.strategy === 'jwt') {
+      return authError('UNSUPPORTED', config, 'Revoking all sessions requires the database session strategy');
+    }
+
+    const currentToken = options.exceptCurrent ? getCurrentTokenDigest(config, req, res) : null;
+
+    await getAdapter(config).deleteUserSessions(userId, { exceptToken: currentToken || undefined });
+
+    return { success: true };
+  } catch (error) {
+    getLogger(config).error('Error revoking sessions', { userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to revoke sessions');
   }
 }
 
@@ -193,92 +497,135 @@ export async function logoutUser(
  * @param config - NextAuth-Simple configuration
  * @param req - Optional NextRequest object (for Pages Router)
  * @param res - Optional Response object (for Pages Router)
+ * @param options - Whether sign-in was completed with a second factor
  * @returns Session object
  */
 export async function createSession(
   userId: string,
   config: NextAuthSimpleConfig,
   req?: NextRequest,
-  res?: any
+  res?: any,
+  options: { twoFactorVerified?: boolean } = {}
 ): Promise<Session> {
-  const { db, security = {} } = config;
+  const { security = {} } = config;
   const { sessionExpiryDays = 30 } = security;
+  const adapter = getAdapter(config);
 
   // Generate secure random token - cryptographically secure
   const token = crypto.randomUUID();
   const now = new Date();
 
-  // Calculate expiry date
-  const expiresAt = new Date();
+  // Calculate expiry date, never beyond the absolute maximum lifetime
+  let expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + sessionExpiryDays);
 
-  // Create session in database
+  const absoluteExpiry = getAbsoluteExpiry(now, config);
+  if (absoluteExpiry && absoluteExpiry < expiresAt) {
+    expiresAt = absoluteExpiry;
+  }
+
+  // Device metadata for session listings and audit logs
+  const userAgent = req?.headers?.get('user-agent') || null;
+
   const session: Session = {
     id: crypto.randomUUID(),
     userId,
     token,
     expiresAt,
+    ipAddress: getClientIp(req, config) || null,
+    userAgent,
+    deviceLabel: getDeviceLabel(userAgent),
+    lastActiveAt: now,
+    twoFactorVerified: !!options.twoFactorVerified,
     createdAt: now,
     updatedAt: now
   };
 
-  await db.client.insert(db.tables.sessions).values(session).execute();
+  if (config.session?.strategy === 'jwt') {
+    // Stateless session - the cookie carries the session and a user summary
+    const existingUser = await adapter.getUser(userId);
+
+    if (!existingUser) {
+      throw new Error('User not found');
+    }
+
+    const { password: _, ...user } = existingUser;
+    session.token = await encodeSessionToken(createSessionTokenPayload(session, user), config);
+  } else {
+    // Create session in database, storing only the token digest
+    await adapter.createSession({
+      ...session,
+      token: hashSessionToken(token, config)
+    });
+  }
 
   // Set session cookie using the appropriate handler
-  const cookieHandler = getCookieHandler(req, res);
-  cookieHandler.set({
-    name: 'nextauth-simple-session',
-    value: token,
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'strict',
-    expires: expiresAt,
-    path: '/'
-  });
+  const cookieHandler = getCookieHandler(req, res, config);
+  setSessionCookie(cookieHandler, session.token, expiresAt, config);
+  await setSessionHintCookie(cookieHandler, session, config, () => getSessionClaims(session, config));
 
   return session;
 }
 
+/**
+ * Get the digest of the session token in the current request's cookie
+ * 
+ * @param config - NextAuth-Simple configuration
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
+ * @returns Token digest or null
+ */
+function getCurrentTokenDigest(
+  config: NextAuthSimpleConfig,
+  req?: NextRequest,
+  res?: any
+): string | null {
+  const token = getCookieHandler(req, res, config).get(getSessionCookieName(config))?.value;
+  return token ? hashSessionToken(token, config) : null;
+}
+
 /**
  * Validate registration input
  * 
  * @param input - Registration input
- * @returns Validation result
+ * @param config - NextAuth-Simple configuration
+ * @returns Failed result, or null when the input is valid
  */
-function validateRegistrationInput(input: RegisterInput): { valid: boolean; error?: string } {
+function validateRegistrationInput(input: RegisterInput, config: NextAuthSimpleConfig): AuthError | null {
   const { email, password } = input;
 
   // Validate email
   if (!email || !email.includes('@') || email.length < 5) {
-    return { valid: false, error: 'Invalid email address' };
+    return authError('INVALID_EMAIL', config);
   }
 
-  // Validate password
-  if (!password || password.length < 8) {
-    return { valid: false, error: 'Password must be at least 8 characters long' };
+  // Password rules are checked against the password policy
+  if (!password) {
+    return authError('INVALID_INPUT', config, 'Password is required');
   }
 
-  return { valid: true };
+  return null;
 }
 
 /**
  * Validate login input
  * 
  * @param input - Login input
- * @returns Validation result
+ * @param config - NextAuth-Simple configuration
+ * @returns Failed result, or null when the input is valid
  */
-function validateLoginInput(input: LoginInput): { valid: boolean; error?: string } {
+function validateLoginInput(input: LoginInput, config: NextAuthSimpleConfig): AuthError | null {
   const { email, password } = input;
 
   // Validate email
   if (!email || !email.includes('@')) {
-    return { valid: false, error: 'Invalid email address' };
+    return authError('INVALID_EMAIL', config);
   }
 
   // Validate password
   if (!password) {
-    return { valid: false, error: 'Password is required' };
+    return authError('INVALID_INPUT', config, 'Password is required');
   }
 
-  return { valid: true };
+  return null;
 }
@@ -0,0 +1,1202 @@
+/**
+ * Frequently used passwords, lowercased, bundled so the policy check works offline
+ *
+ * The 10,000 most frequent passwords of at least six characters in the
+ * password frequency list of zxcvbn (MIT License, Copyright (c) 2012-2016
+ * Dan Wheeler and Dropbox, Inc.), drawn from public breach corpora.
+ */
+export const commonPasswords: ReadonlySet<string> = new Set([
+  '0.0.0.000', '0.0.000', '000000', '0000007', '000001', '000007', '000111', '007007', '007bond',
+  '01011900', '01011910', '01011950', '01011960', '01011961', '01011970', '01011971', '01011972',
+  '01011973', '01011974', '01011975', '01011976', '01011977', '01011978', '01011979', '01011980',
+  '01011981', '01011982', '01011983', '01011984', '01011985', '01011986', '01011987', '01011988',
+  '01011989', '01011990', '01011991', '01011992', '01011993', '01011994', '01011995', '01011999',
+  '01012000', '01012001', '01012010', '01012011', '010170', '010180', '010181', '010191', '010203',
+  '01020304', '01021980', '01021985', '01021986', '01021987', '01021988', '01021989', '01021990',
+  '01021992', '01031980', '01031981', '01031983', '01031984', '01031985', '01031986', '01031987',
+  '01031988', '01031989', '01031991', '010390', '01041979', '01041980', '01041981', '01041982',
+  '01041983', '01041985', '01041986', '01041987', '01041988', '01041989', '01041990', '01041992',
+  '01041993', '01051980', '01051983', '01051985', '01051986', '01051987', '01051988', '01051989',
+  '01051990', '01061979', '01061983', '01061984', '01061985', '01061986', '01061987', '01061988',
+  '01061990', '01061992', '01071980', '01071983', '01071984', '01071985', '01071986', '01071987',
+  '01071988', '01071989', '01071990', '01081980', '01081985', '01081986', '01081988', '01081989',
+  '01081990', '01081992', '01091979', '01091980', '01091984', '01091985', '01091986', '01091987',
+  '01091988', '01091989', '01091992', '01101985', '01101987', '01111987', '01111990', '01121984',
+  '01121985', '01121986', '01121987', '01121988', '01121990', '0192837465', '02011971', '02011974',
+  '02011975', '02011976', '02011977', '02011978', '02011979', '02011980', '02011981', '02011982',
+  '02011983', '02011984', '02011985', '02011986', '02011987', '02011988', '02011989', '02011990',
+  '02021971', '02021973', '02021974', '02021976', '02021977', '02021978', '02021979', '02021980',
+  '02021981', '02021982', '02021983', '02021984', '02021985', '02021986', '02021987', '02021988',
+  '02021989', '02021990', '02021991', '02031970', '02031973', '02031974', '02031975', '02031976',
+  '02031977', '02031978', '02031979', '02031980', '02031981', '02031982', '02031983', '02031984',
+  '02031985', '02031986', '02031987', '02031988', '02031989', '02031990', '02031991', '02041970',
+  '02041972', '02041973', '02041974', '02041975', '02041976', '02041977', '02041978', '02041979',
+  '02041980', '02041981', '02041982', '02041983', '02041984', '02041985', '02041986', '02041987',
+  '02041988', '02041989', '02051970', '02051972', '02051973', '02051974', '02051975', '02051976',
+  '02051977', '02051978', '02051979', '02051980', '02051981', '02051982', '02051983', '02051984',
+  '02051985', '02051986', '02051987', '02051988', '02051989', '02051990', '02061970', '02061971',
+  '02061972', '02061973', '02061974', '02061975', '02061976', '02061977', '02061978', '02061979',
+  '02061980', '02061981', '02061982', '02061983', '02061984', '02061985', '02061986', '02061987',
+  '02061988', '02061989', '02061990', '02071971', '02071974', '02071975', '02071976', '02071977',
+  '02071978', '02071979', '02071980', '02071981', '02071982', '02071983', '02071984', '02071985',
+  '02071986', '02071987', '02071988', '02071989', '02081970', '02081971', '02081972', '02081973',
+  '02081974', '02081975', '02081976', '02081977', '02081978', '02081979', '02081980', '02081981',
+  '02081982', '02081983', '02081984', '02081985', '02081986', '02081987', '02081988', '02081989',
+  '02091971', '02091972', '02091973', '02091974', '02091975', '02091976', '02091977', '02091978',
+  '02091979', '02091980', '02091981', '02091982', '02091983', '02091984', '02091985', '02091986',
+  '02091987', '02091988', '02091989', '02101973', '02101974', '02101975', '02101976', '02101977',
+  '02101978', '02101979', '02101980', '02101981', '02101982', '02101983', '02101984', '02101985',
+  '02101986', '02101987', '02101988', '02101989', '02111987', '02121983', '03011984', '03011986',
+  '03011987', '03011991', '03021982', '03021986', '03021987', '03021989', '03031983', '03031984',
+  '03031986', '03031987', '03031988', '03031989', '03031990', '03031991', '03031992', '03031993',
+  '03041980', '03041983', '03041984', '03041986', '03041987', '03041989', '03041991', '03051984',
+  '03051985', '03051986', '03051987', '03051988', '03061984', '03061985', '03061986', '03061987',
+  '03061988', '03071983', '03071984', '03071985', '03071986', '03071987', '03071989', '03081984',
+  '03081988', '03081989', '03082006', '03091983', '03091984', '03091986', '03091988', '03101983',
+  '03101984', '03101985', '03101988', '03101989', '03101991', '03111986', '03111987', '03121986',
+  '04011987', '04011988', '04011990', '04021985', '04021987', '04021990', '04031982', '04031991',
+  '04041983', '04041984', '04041985', '04041986', '04041987', '04041988', '04041990', '04041991',
+  '04051983', '04051984', '04051985', '04051987', '04051988', '04051990', '04061982', '04061984',
+  '04061986', '04061987', '04061988', '04061990', '04061991', '04071983', '04071986', '04071987',
+  '04071988', '04081985', '04081986', '04081987', '04081989', '04091986', '04111986', '04111988',
+  '04111989', '04111991', '04121982', '04121984', '04121985', '04121986', '04121987', '04121988',
+  '05011987', '05021985', '05021987', '05021988', '05021989', '05031986', '05031987', '05031988',
+  '05031990', '05031991', '05041983', '05041984', '05041985', '05041986', '05041990', '05041991',
+  '05051980', '05051982', '05051983', '05051985', '05051986', '05051987', '05051988', '05051989',
+  '05051990', '05051991', '05061983', '05061985', '05061986', '05061987', '05061988', '05061989',
+  '05061990', '05071983', '05071984', '05071985', '05071986', '05071988', '05081985', '05081986',
+  '05081987', '05081988', '05081989', '05081992', '05091985', '05091987', '05091988', '05101983',
+  '05101984', '05101986', '05111986', '05121983', '05121985', '05121986', '05121988', '05121990',
+  '06011982', '06011987', '06011988', '06021986', '06021987', '06021989', '06031983', '06031984',
+  '06031985', '06031986', '06031988', '06031992', '06041984', '06041987', '06041988', '06051983',
+  '06051985', '06051986', '06051987', '06061981', '06061982', '06061983', '06061985', '06061986',
+  '06061987', '06061988', '06061990', '06071983', '06071984', '06071985', '06071986', '06071987',
+  '06071988', '06071990', '06081985', '06081986', '06081987', '06081988', '06081990', '06091989',
+  '06101986', '06101989', '06111984', '06111985', '06111986', '06111990', '07011988', '07011989',
+  '07021980', '07021984', '07021986', '07021987', '07021989', '07021991', '07031985', '07031986',
+  '07031988', '07031989', '07041983', '07041985', '07041986', '07041987', '07041988', '07041989',
+  '07051987', '07051990', '07061985', '07061986', '07061988', '07071977', '07071980', '07071982',
+  '07071984', '07071985', '07071986', '07071987', '07071988', '07071989', '07071990', '07081982',
+  '07081984', '07081986', '07081987', '07081989', '07091982', '07091985', '07091988', '07091990',
+  '07101984', '07101985', '07101987', '07111987', '07121987', '08011986', '08011988', '08021985',
+  '08021989', '08021990', '08031983', '08031985', '08031986', '08031987', '08031988', '08041985',
+  '08041986', '08041988', '08051987', '08051989', '08051990', '08061986', '08061987', '08061989',
+  '08071985', '08071986', '08071987', '08071988', '08081979', '08081983', '08081985', '08081986',
+  '08081988', '08081989', '08081990', '08091988', '08101980', '08101986', '08111983', '08111984',
+  '08121986', '08121987', '09011985', '09011987', '09011990', '09021988', '09021989', '09031987',
+  '09031988', '09041985', '09041986', '09041987', '09041990', '09051945', '09051983', '09051984',
+  '09051985', '09051986', '09051987', '09051990', '09061990', '09071984', '09071986', '09071987',
+  '09081985', '09081988', '09091986', '09091988', '09101985', '09101986', '09111987', '09121982',
+  '09121983', '09121987', '100000', '1000000', '10011980', '10011983', '10011986', '10011988',
+  '10011989', '10011990', '10011992', '10021983', '10021985', '10021986', '10021987', '10021988',
+  '10031980', '10031984', '10031985', '10031986', '10031987', '10031988', '10031989', '10031990',
+  '10031991', '10031993', '10041982', '10041983', '10041984', '10041985', '10041986', '10041987',
+  '10041989', '10041990', '10041991', '100500', '10051983', '10051984', '10051985', '10051986',
+  '10051987', '10051988', '10051989', '10051990', '10061984', '10061985', '10061986', '10061987',
+  '10061989', '10071983', '10071984', '10071985', '10071986', '10071987', '10071988', '10071989',
+  '10071990', '10081983', '10081985', '10081987', '10081988', '10081989', '10081990', '10081991',
+  '10091984', '10091985', '10091986', '10091988', '10091989', '10101980', '10101982', '10101983',
+  '10101985', '10101986', '10101987', '10101988', '10101989', '10101990', '10101991', '101080',
+  '101091m', '10111981', '10111983', '10111986', '10111987', '10111988', '10111989', '10121979',
+  '10121982', '10121984', '10121985', '10121986', '10121987', '10121989', '102030', '10203040',
+  '1020304050', '102938', '10293847', '1029384756', '11011980', '11011982', '11011985', '11011987',
+  '11011989', '11011990', '11011991', '11021981', '11021984', '11021985', '11021987', '11021988',
+  '11021990', '11031982', '11031983', '11031984', '11031986', '11031987', '11031988', '11031990',
+  '11041983', '11041985', '11041986', '11041987', '11041988', '11041990', '11041991', '11051979',
+  '11051984', '11051985', '11051986', '11051987', '11051988', '11051989', '11051990', '11061984',
+  '11061985', '11061986', '11061987', '11061988', '11061989', '11061991', '11071983', '11071984',
+  '11071985', '11071986', '11071987', '11071988', '11071989', '11081982', '11081983', '11081984',
+  '11081985', '11081986', '11081987', '11081988', '11081989', '11081990', '11091983', '11091984',
+  '11091985', '11091986', '11091987', '11091989', '11091990', '111000', '11101985', '11101986',
+  '11101987', '11101990', '111111', '11111111', '111111a', '111111q', '11111979', '11111982',
+  '11111983', '11111986', '11111987', '11111991', '11111a', '11111q', '11112222', '1111qqqq',
+  '11121981', '11121984', '11121985', '11121986', '11121987', '11121990', '111222', '111222333',
+  '111333', '111555', '111777', '111aaa', '111qqq', '112211', '11221122', '112233', '11223344',
+  '1122334455', '112233445566', '112358', '11235813', '1123581321', '114477', '115599', '12011985',
+  '12011987', '12011988', '12011989', '12021980', '12021984', '12021985', '12021986', '12021987',
+  '12021988', '12021990', '12021991', '12031984', '12031985', '12031986', '12031987', '12031988',
+  '12031989', '12031990', '12041978', '12041983', '12041984', '12041985', '12041986', '12041987',
+  '12041988', '12041990', '12041991', '12051981', '12051985', '12051986', '12051987', '12051988',
+  '12051989', '12051990', '12061980', '12061984', '12061986', '12061987', '12061988', '12061990',
+  '120676', '120689', '12071982', '12071983', '12071984', '12071985', '12071987', '12071988',
+  '12071989', '12071990', '12071991', '12071992', '120786', '12081983', '12081984', '12081985',
+  '12081986', '12081987', '12081988', '12081990', '12081993', '12091986', '12091987', '12091988',
+  '12091990', '12091991', '120986', '12101984', '12101985', '12101986', '12101987', '12101988',
+  '12101989', '12101990', '12111984', '12111985', '12111987', '12111990', '12111991', '12121977',
+  '12121980', '12121981', '12121982', '12121984', '12121985', '12121986', '12121987', '12121988',
+  '12121989', '12121990', '12121991', '12131213', '121314', '12131415', '12211221', '122333',
+  '123000', '12301230', '123098', '123123', '12312312', '1231234', '123123a', '123123q',
+  '1232323q', '123321', '123321123', '123321a', '123321q', '1234123', '1234321', '12344321',
+  '123450', '1234509876', '123451', '123454321', '123455', '1234554321', '123456', '1234560',
+  '1234561', '123456123', '1234566', '123456654321', '1234567', '12345677', '12345678',
+  '123456789', '1234567890', '1234567890a', '1234567890q', '1234567890z', '1234567891',
+  '12345678910', '1234567899', '123456789987654321', '123456789a', '123456789d', '123456789m',
+  '123456789o', '123456789q', '123456789qwe', '123456789r', '123456789s', '123456789v',
+  '123456789z', '12345678a', '12345678q', '12345679', '1234567a', '1234567aa', '1234567q',
+  '1234568', '123456987', '123456a', '123456aa', '123456as', '123456c', '123456d', '123456f',
+  '123456g', '123456k', '123456l', '123456m', '123456n', '123456q', '123456qqq', '123456qw',
+  '123456qwe', '123456qwerty', '123456r', '123456ru', '123456s', '123456t', '123456v', '123456w',
+  '123456z', '123457', '123459', '12345a', '12345abc', '12345d', '12345m', '12345q', '12345qaz',
+  '12345qw', '12345qwe', '12345qwer', '12345qwert', '12345qwerty', '12345r', '12345s', '12345t',
+  '12345z', '123465', '12348765', '1234abcd', '1234asdf', '1234qaz', '1234qw', '1234qwe',
+  '1234qwer', '1234rewq', '1234zxcv', '123567', '1235789', '123581321', '123654', '12365478',
+  '123654789', '1236987', '12369874', '123698745', '123789', '123789456', '1237895', '123890',
+  '123987', '123aaa', '123abc', '123asd', '123ewq', '123q123', '123qaz', '123qq123', '123qwe',
+  '123qwe123', '123qweasd', '123qweasdzxc', '123qwer', '123qwert', '123qwerty', '123zxc', '124038',
+  '124578', '128500', '12qw12', '12qw12qw', '12qw34er', '12qwas', '12qwaszx', '13011981',
+  '13011983', '13011984', '13011985', '13011987', '13011988', '13021984', '13021985', '13021987',
+  '13021989', '13021990', '13021991', '13031980', '13031985', '13031986', '13031987', '13031989',
+  '13031990', '13031991', '13041984', '13041987', '13041988', '13041989', '13051983', '13051985',
+  '13051986', '13051987', '13051988', '13051989', '13051990', '13061983', '13061984', '13061985',
+  '13061986', '13061987', '13061989', '13061990', '13061991', '130680', '13071982', '13071983',
+  '13071984', '13071985', '13071987', '13071988', '13071989', '13071990', '13071991', '13081982',
+  '13081984', '13081985', '13081986', '13081987', '13081988', '13081990', '13091984', '13091985',
+  '13091986', '13091987', '13091988', '13091990', '13101982', '13101985', '13101987', '13101988',
+  '13101990', '13101992', '13111984', '13111985', '13111986', '13111988', '13111990', '13121983',
+  '13121984', '13121985', '13121986', '13121988', '13121989', '13121990', '131313', '132435',
+  '13243546', '132456', '132465', '134679', '134679852', '135246', '135790', '1357908642',
+  '135791', '1357911', '135792468', '1357924680', '135798642', '1366613', '14011986', '14011987',
+  '14011988', '14011989', '14021983', '14021984', '14021985', '14021986', '14021987', '14021988',
+  '14021989', '14021990', '14021991', '14031984', '14031985', '14031986', '14031987', '14031988',
+  '14031989', '14031990', '14041984', '14041986', '14041987', '14041988', '14041991', '14041992',
+  '14051983', '14051985', '14051986', '14051987', '14051990', '14061982', '14061983', '14061984',
+  '14061985', '14061988', '14061991', '14071983', '14071986', '14071987', '14071988', '14081982',
+  '14081985', '14081986', '14081988', '14081989', '14081990', '14091982', '14091986', '14091987',
+  '14091988', '14091989', '14091990', '14101983', '14101985', '14101986', '14101987', '14101988',
+  '14101989', '14101991', '14111982', '14111984', '14111986', '14111987', '14111988', '14111989',
+  '14121986', '14121987', '14121988', '14121989', '141627', '142536', '142857', '145236', '147258',
+  '14725836', '147258369', '147369', '1475369', '147741', '147852', '14785236', '147852369',
+  '147896', '1478963', '14789632', '147896325', '147963', '14881488', '15011981', '15011983',
+  '15011985', '15011986', '15011987', '15011988', '15011990', '15021983', '15021985', '15021986',
+  '15021988', '15021990', '15021991', '15031984', '15031985', '15031986', '15031987', '15031988',
+  '15031989', '15031990', '15031991', '15041982', '15041983', '15041985', '15041987', '15041988',
+  '15051981', '15051982', '15051985', '15051986', '15051987', '15051989', '15051990', '15051991',
+  '15051992', '15061983', '15061984', '15061985', '15061987', '15061988', '15071983', '15071984',
+  '15071985', '15071986', '15071987', '15071988', '15071990', '150781', '15081980', '15081984',
+  '15081985', '15081986', '15081987', '15081988', '15081989', '15081990', '15081991', '15091983',
+  '15091985', '15091987', '15091988', '15091989', '15101983', '15101986', '15101987', '15101991',
+  '15111984', '15111985', '15111986', '15111987', '15111988', '15111989', '15121983', '15121985',
+  '15121986', '15121987', '15121989', '153624', '15426378', '159263', '159357', '159357a',
+  '159632', '159753', '1598753', '159951', '16011985', '16011986', '16011987', '16011989',
+  '16011991', '16021982', '16021983', '16021987', '16021988', '16021989', '16021990', '16031985',
+  '16031986', '16031987', '16031988', '16031990', '16041984', '16041985', '16041986', '16041988',
+  '16051985', '16051986', '16051987', '16051988', '16051989', '16051990', '16061984', '16061985',
+  '16061986', '16061987', '16061988', '16061990', '16071983', '16071985', '16071986', '16071987',
+  '16071991', '16081985', '16081986', '16091986', '16091987', '16091988', '16091990', '16101985',
+  '16101986', '16101987', '16111982', '16111983', '16111986', '16111987', '16111989', '16111990',
+  '16121982', '16121985', '16121986', '16121987', '16121991', '162534', '17011701', '17011985',
+  '17011986', '17011987', '17011990', '17021982', '17021985', '17021986', '17021987', '17021988',
+  '17021989', '17031983', '17031984', '17031987', '17031992', '17041985', '17041986', '17041987',
+  '17041991', '17051983', '17051986', '17051987', '17051988', '17051989', '17051990', '17061986',
+  '17061987', '17061988', '17061989', '17061991', '17071984', '17071985', '17071986', '17071987',
+  '17071989', '17071990', '17081984', '17081988', '17081990', '17091984', '17091985', '17091986',
+  '17091987', '17101986', '17101987', '17111982', '17111985', '17111986', '17111987', '17111988',
+  '17111989', '17121983', '17121985', '17121986', '17121987', '172839', '18011984', '18011985',
+  '18011986', '18011987', '18011988', '18011989', '18021982', '18021984', '18021986', '18021987',
+  '18021988', '18021992', '18031981', '18031986', '18031988', '18031991', '18041983', '18041985',
+  '18041986', '18041988', '18041990', '18041991', '18051982', '18051985', '18051987', '18051988',
+  '18051989', '18051990', '18061985', '18061986', '18061987', '18061990', '18061991', '18071983',
+  '18071986', '18071988', '18071989', '18071990', '18081986', '18081987', '18081988', '18081989',
+  '18091984', '18091985', '18091986', '18091987', '18101985', '18101987', '18101989', '18111983',
+  '18111984', '18111986', '18111987', '18121812', '18121983', '18121984', '18121985', '18121987',
+  '18121990', '18436572', '19011985', '19011986', '19011987', '19011989', '19021982', '19021985',
+  '19021990', '19021991', '19031980', '19031985', '19031987', '19041985', '19041986', '19041987',
+  '19041988', '19051983', '19051986', '19051987', '19061984', '19061985', '19061986', '19061987',
+  '19061990', '19061991', '19061992', '19071983', '19071985', '19071986', '19071988', '19071989',
+  '19071990', '19081983', '19081985', '19081986', '19081987', '19081988', '19091983', '19091986',
+  '19091988', '19091990', '19101982', '19101983', '19101986', '19101987', '19101989', '19101990',
+  '19111985', '19111986', '19111987', '19121985', '19121986', '19121988', '19121989', '192837',
+  '19283746', '192837465', '19411945', '196969', '1a2b3c', '1a2b3c4d', '1a2s3d', '1a2s3d4f',
+  '1bitch', '1dragon', '1master', '1michael', '1million', '1passwor', '1pussy', '1q2q3q',
+  '1q2q3q4q', '1q2w3e', '1q2w3e4r', '1q2w3e4r5', '1q2w3e4r5t', '1q2w3e4r5t6y', '1qa2ws',
+  '1qa2ws3ed', '1qaz2ws', '1qaz2wsx', '1qaz2wsx3edc', '1qaz2wsx3edc4rfv', '1qazxsw', '1qazxsw2',
+  '1qazxsw23edc', '1qazzaq1', '1qw23er4', '1qwerty', '1x2zkg8w', '1z2x3c', '1z2x3c4v',
+  '1z2x3c4v5b', '200000', '20011981', '20011983', '20011984', '20011985', '20011987', '20011988',
+  '20011989', '20021981', '20021983', '20021985', '20021986', '20021988', '20021990', '20021991',
+  '20031980', '20031984', '20031985', '20031986', '20031987', '20031988', '20031990', '20031991',
+  '20031992', '20041981', '20041985', '20041986', '20041988', '20041990', '20051981', '20051983',
+  '20051984', '20051985', '20051986', '20051987', '20051988', '20051989', '20061980', '20061981',
+  '20061983', '20061984', '20061986', '20061987', '20061988', '20061989', '20061990', '20061991',
+  '20071981', '20071984', '20071985', '20071986', '20071988', '20081986', '20081987', '20081990',
+  '20081991', '20091983', '20091984', '20091986', '20091988', '20091991', '20101986', '20101987',
+  '20101988', '20111984', '20111985', '20111986', '20111987', '20121985', '20121986', '20121988',
+  '20121989', '20spanks', '21011985', '21011986', '21011987', '21011988', '21011989', '21011990',
+  '21011991', '21021983', '21021984', '21021985', '21021986', '21021987', '21021988', '21021989',
+  '21021990', '21031984', '21031985', '21031986', '21031987', '21031988', '21031990', '21041985',
+  '21041986', '21041987', '21041990', '21041991', '21041992', '21051983', '21051984', '21051985',
+  '21051986', '21051988', '21051989', '21051990', '21051991', '21061985', '21061986', '21061987',
+  '21061988', '21061989', '21071983', '21071985', '21071986', '21071987', '21071989', '21071990',
+  '21071992', '21081985', '21081987', '21081990', '21091984', '21091986', '21091987', '21091988',
+  '21091989', '21091990', '21101983', '21101986', '21101987', '21101988', '21101989', '21111983',
+  '21111985', '21111986', '21111989', '21111990', '21121980', '21121984', '21121985', '21121986',
+  '21121987', '21121988', '21121989', '21122112', '2128506', '214365', '22011985', '22011986',
+  '22011988', '22011992', '22021984', '22021985', '22021986', '22021988', '22021989', '22021990',
+  '22031984', '22031986', '22031987', '22031991', '22041983', '22041985', '22041986', '22041987',
+  '22041988', '22041991', '22051980', '22051986', '22051987', '22051988', '22051989', '22051990',
+  '22051991', '22061941', '22061984', '22061985', '22061987', '22061988', '22061989', '22061990',
+  '22061991', '22071983', '22071984', '22071985', '22071986', '22071987', '22071988', '22071989',
+  '22071990', '22071991', '22071992', '22081983', '22081985', '22081986', '22081987', '22081990',
+  '22081991', '22091983', '22091984', '22091985', '22091986', '22091987', '22091988', '22091990',
+  '22091991', '22101985', '22101988', '22111982', '22111985', '22111988', '22121982', '22121983',
+  '22121986', '22121987', '22121989', '222333', '222777', '223322', '223344', '224466', '22446688',
+  '225588', '23011984', '23011985', '23011988', '23011989', '23011990', '23021983', '23021984',
+  '23021985', '23021986', '23021987', '23021988', '23021989', '23021991', '23021992', '23031983',
+  '23031985', '23031986', '23031987', '23031988', '23031989', '23031990', '23041985', '23041986',
+  '23041987', '23041988', '23041991', '23051983', '23051984', '23051985', '23051986', '23051987',
+  '23051990', '23051991', '23061980', '23061983', '23061985', '23061987', '23061988', '23061989',
+  '23061990', '23061992', '23071984', '23071985', '23071986', '23071988', '23081984', '23081986',
+  '23091982', '23091983', '23091985', '23091986', '23091987', '23091989', '23091991', '23101987',
+  '23101988', '23111982', '23111985', '23111986', '23111987', '23111989', '23121986', '235689',
+  '23skidoo', '24011985', '24011986', '24011987', '24011989', '24011990', '24021985', '24021986',
+  '24021987', '24021988', '24021991', '24031987', '24031988', '24031990', '24041984', '24041985',
+  '24041986', '24041988', '24041990', '24051985', '24051986', '24051987', '24051989', '24051990',
+  '24061984', '24061985', '24061986', '24061987', '24061988', '24061992', '24071986', '24071987',
+  '24071989', '24071990', '24071991', '24071992', '24081986', '24081987', '24081988', '24081990',
+  '24091986', '24091991', '24101980', '24101984', '24101985', '24101986', '24101987', '24101988',
+  '24101989', '24101990', '24101991', '24111983', '24111987', '24111989', '24111990', '24121982',
+  '24121984', '24121985', '24121986', '24121987', '24121988', '24121989', '24121990', '246810',
+  '24681012', '25011985', '25011986', '25011988', '25011990', '25011993', '25021978', '25021983',
+  '25021984', '25021985', '25021986', '25021987', '25021988', '25031983', '25031984', '25031986',
+  '25031987', '25031991', '25041980', '25041983', '25041984', '25041985', '25041987', '25041988',
+  '25041991', '25051980', '25051984', '25051985', '25051987', '25051988', '25051989', '250588',
+  '25061985', '25061986', '25061987', '25071983', '25071985', '25071986', '25071987', '25071989',
+  '25071990', '25081983', '25081985', '25081986', '25081987', '25081988', '25081989', '25091984',
+  '25091985', '25091986', '25091987', '25091988', '25091989', '25091990', '25091991', '25091992',
+  '25101986', '25101988', '25101989', '25111986', '25111987', '25111988', '25111991', '25121982',
+  '25121985', '25121986', '25121987', '258000', '25800852', '25802580', '258369', '258456',
+  '258852', '258963', '26011981', '26011986', '26011987', '26011989', '26011990', '26021985',
+  '26021987', '26021990', '26021992', '26031984', '26031986', '26031987', '26031988', '26031990',
+  '26031991', '26041983', '26041984', '26041986', '26041988', '26041990', '26041991', '26051986',
+  '26051987', '26051988', '26051990', '26061983', '26061985', '26061986', '26061987', '26061989',
+  '26061991', '26071984', '26071986', '26071987', '26071989', '26081983', '26081985', '26081986',
+  '26091984', '26091985', '26091986', '26101984', '26101986', '26101987', '26111984', '26111985',
+  '26111987', '26121983', '26121984', '26121985', '26121987', '26121989', '27011983', '27011985',
+  '27011986', '27011988', '27011990', '27021986', '27021990', '27021991', '27021992', '27031983',
+  '27031985', '27031986', '27031987', '27031989', '27031992', '27041985', '27041987', '27041988',
+  '27041990', '27051984', '27051986', '27051987', '27051991', '27061983', '27061984', '27061985',
+  '27061988', '27061989', '27061990', '27071982', '27071983', '27071984', '27071985', '27071987',
+  '27071988', '27081986', '27081989', '27081990', '27091983', '27091984', '27091985', '27091987',
+  '27091991', '27101987', '27101989', '27111985', '27111989', '27111990', '27121986', '27121988',
+  '28011987', '28011988', '28011989', '28021981', '28021983', '28021984', '28021985', '28021986',
+  '28021989', '28021990', '28021992', '28031982', '28031983', '28031984', '28031986', '28041983',
+  '28041986', '28041987', '28041988', '28041992', '28051981', '28051983', '28051985', '28051986',
+  '28051987', '28051988', '28051989', '28051990', '28061983', '28061984', '28061985', '28061986',
+  '28061988', '28071983', '28071984', '28071985', '28071986', '28071987', '28071988', '28071989',
+  '28081984', '28081985', '28081986', '28081990', '28091982', '28091984', '28091985', '28091987',
+  '28101986', '28101988', '28111984', '28111986', '28111987', '28121984', '28121986', '28121987',
+  '28121988', '28121989', '28121990', '29011982', '29011983', '29011985', '29011987', '29011988',
+  '29011990', '29031982', '29031983', '29031986', '29031988', '29031990', '29041984', '29041985',
+  '29041986', '29041987', '29041988', '29041989', '29051984', '29051985', '29051986', '29051987',
+  '29051989', '29051990', '29051992', '29061984', '29061985', '29061986', '29061987', '29061988',
+  '29061989', '29061990', '29071983', '29071985', '29071986', '29071987', '29071988', '29081982',
+  '29081983', '29081985', '29081987', '29081988', '29081990', '29091982', '29091985', '29091986',
+  '29091987', '29091990', '29101985', '29111983', '29111987', '29111988', '29111989', '29121984',
+  '29121985', '29121986', '29121987', '29121988', '2fast4u', '2hot4u', '2sweet', '2wsx3edc',
+  '3000gt', '30011980', '30011983', '30011985', '30011986', '30011987', '30011990', '30031986',
+  '30031988', '30031992', '30041985', '30041986', '30041987', '30041988', '30041991', '30051984',
+  '30051985', '30051986', '30051987', '30051988', '30051989', '30061982', '30061983', '30061985',
+  '30061986', '30061987', '30061988', '30061989', '30071983', '30071985', '30071986', '30071992',
+  '30081984', '30081989', '30091985', '30091989', '30101984', '30101986', '30101987', '30101988',
+  '30111987', '30121985', '30121986', '30121987', '30121988', '31011983', '31011985', '31011987',
+  '31011990', '31031986', '31031987', '31031988', '31031990', '31051982', '31051985', '31051986',
+  '31051987', '31051991', '31051993', '31071985', '31071986', '31071990', '31081985', '31081989',
+  '31101986', '31101987', '31101991', '31121983', '31121985', '31121986', '31121987', '31121988',
+  '31121990', '314159', '31415926', '315475', '321123', '321456', '321654', '321654987', '321678',
+  '332211', '333444', '333555', '333666', '333777', '334455', '336699', '357159', '357951',
+  '362436', '369258', '369258147', '369852', '369963', '3ip76k2', '3rjs1la7qe', '3x7pxr', '415263',
+  '420000', '420247', '426hemi', '44332211', '444555', '445566', '456123', '456321', '456654',
+  '456852', '456987', '45m2do5bs', '4815162342', '4runner', '50cent', '50spanks', '515000',
+  '515051', '51505150', '5201314', '5551212', '555666', '555777', '556677', '55bgates', '57chevy',
+  '5wr2i7h8', '635241', '654123', '655321', '66613666', '666666', '666777', '666999', '6751520',
+  '696969', '69camaro', '6uldv8', '73501505', '74108520', '7412369', '741258', '741258963',
+  '741852', '741852963', '741963', '748596', '753159', '753951', '77347734', '7753191', '777333',
+  '777555', '777666', '7777777', '7777777a', '777888', '7779311', '777999', '778899', '784512',
+  '787898', '789123', '789456', '78945612', '789456123', '7894561230', '7895123', '7896321',
+  '789632145', '789654', '789654123', '789987', '794613', '7grout', '7ugd5hip2j', '81fukkc',
+  '852258', '852456', '8675309', '875421', '888999', '895623', '8inches', '8j4ye3uz', '902100',
+  '906090', '9111961', '911911', '918273', '918273645', '9293709b13', '9379992', '951357',
+  '951753', '9562876', '963258', '963852', '963852741', '986532', '987123', '987321', '987456',
+  '987456321', '987654321a', '996633', '99762000', '998877', '999000', '999666', '999888',
+  'a11111', 'a12345', 'a123456', 'a1234567', 'a12345678', 'a123456789', 'a1a2a3', 'a1a2a3a4',
+  'a1b2c3', 'a1b2c3d4', 'a1b2c3d4e5', 'a1s2d3', 'a1s2d3f4', 'a1s2d3f4g5', 'aa123456', 'aaa111',
+  'aaa123', 'aaaa1111', 'aaaaa1', 'aaabbb', 'aaasss', 'aaliyah', 'aardvark', 'aaron1', 'abacab',
+  'abacus', 'abbott', 'abc123', 'abc1234', 'abc12345', 'abc123456', 'abcd123', 'abcd1234',
+  'abcdefg1', 'abdullah', 'aberdeen', 'abgrtyu', 'abigail', 'abnormal', 'abracadabra', 'abraham',
+  'abrakadabra', 'abraxas', 'absolut', 'absolute', 'absolutely', 'acapulco', 'accept', 'access',
+  'access1', 'access14', 'access99', 'accord', 'account', 'achilles', 'achtung', 'acidburn',
+  'acmilan', 'action', 'active', 'adam12', 'addict', 'addicted', 'addison', 'address', 'adelaide',
+  'adelina', 'adgjmptw', 'adidas', 'adidas1', 'admin1', 'admiral', 'adonis', 'adrenalin', 'adrian',
+  'adriana', 'adriano', 'adrienne', 'adults', 'advance', 'advanced', 'advent', 'adventure',
+  'aezakmi', 'africa', 'afrika', 'agassi', 'agent007', 'aggies', 'aikido', 'aikman', 'aileen',
+  'airborne', 'airbus', 'aircraft', 'airforce', 'airman', 'airplane', 'airport', 'airwolf',
+  'alabama', 'aladdin', 'aladin', 'alanis', 'alaska', 'albany', 'albatros', 'albert', 'alberta',
+  'alberto', 'albina', 'albion', 'alcatel', 'alcatraz', 'alchemy', 'alcohol', 'alejandr',
+  'alejandro', 'aleksandr', 'aleksandra', 'aleksei', 'aleksey', 'alenka', 'alessand', 'alessandro',
+  'alex12', 'alex123', 'alex1234', 'alexalex', 'alexande', 'alexander', 'alexander1', 'alexandr',
+  'alexandra', 'alexandre', 'alexey', 'alexia', 'alexis', 'alexus', 'alexxx', 'alfonso', 'alfred',
+  'alfredo', 'algebra', 'alibaba', 'alice1', 'alicia', 'aliens', 'alinka', 'alisha', 'alison',
+  'alissa', 'all4one', 'allday', 'allegro', 'allen1', 'alleycat', 'allgood', 'alliance', 'allison',
+  'allison1', 'allmine', 'allsop', 'allstar', 'allstate', 'almighty', 'almond', 'alpha1',
+  'alpha123', 'alphabet', 'alpina', 'alpine', 'altair', 'alterego', 'althea', 'altima', 'altoids',
+  'alucard', 'alvaro', 'always', 'alyson', 'alyssa', 'amadeus', 'amalia', 'amanda', 'amanda1',
+  'amateur', 'amateurs', 'amatory', 'amature', 'amazing', 'amazon', 'amber1', 'ambers', 'ambrose',
+  'ambrosia', 'amelia', 'amelie', 'americ', 'america', 'america1', 'american', 'amerika',
+  'amethyst', 'amigos', 'amonra', 'amorcit', 'amstel', 'amsterda', 'amsterdam', 'anaconda',
+  'anakin', 'analog', 'analsex', 'ananas', 'anarchy', 'anastasi', 'anastasia', 'anastasiya',
+  'anchor', 'anders', 'andersen', 'anderson', 'andrea', 'andrea1', 'andreas', 'andrei', 'andres',
+  'andrew', 'andrew1', 'andrews', 'andrey', 'andromed', 'andromeda', 'andyandy', 'andyod22',
+  'anfield', 'anfisa', 'angel1', 'angel123', 'angel2', 'angela', 'angela1', 'angelic', 'angelica',
+  'angelika', 'angelina', 'angell', 'angelo', 'angels', 'angelus', 'angus1', 'anhyeuem', 'animal',
+  'animals', 'animated', 'ankara', 'annaanna', 'annabell', 'annette', 'annie1', 'annika',
+  'annmarie', 'anonymous', 'another', 'answer', 'antares', 'antelope', 'anthon', 'anthony',
+  'anthony1', 'anthony7', 'anthrax', 'antoine', 'anton1', 'antoni', 'antonia', 'antonina',
+  'antonio', 'antonov', 'antony', 'anubis', 'anything', 'anytime', 'aol123', 'aolsucks', 'apache',
+  'apollo', 'apollo11', 'apollo13', 'apple1', 'apple123', 'applepie', 'apples', 'apricot',
+  'april1', 'aprilia', 'aptiva', 'aquarius', 'aragon', 'aragorn', 'aramis', 'arcadia', 'archange',
+  'archer', 'archie', 'architec', 'arctic', 'area51', 'argentin', 'argentina', 'ariana', 'ariane',
+  'arianna', 'arizona', 'arizona1', 'arkansas', 'arlene', 'armada', 'armagedon', 'armand',
+  'armando', 'armani', 'armstron', 'arnold', 'around', 'arrows', 'arsena', 'arsenal', 'arsenal1',
+  'artemis', 'artemka', 'arthur', 'artist', 'arturo', 'as123456', 'asd123', 'asd222', 'asdasd',
+  'asdasd123', 'asddsa', 'asdf12', 'asdf123', 'asdf1234', 'asdfasdf', 'asdffdsa', 'asdfg123',
+  'asdfgh', 'asdfgh01', 'asdfgh1', 'asdfghj', 'asdfghjk', 'asdfghjkl', 'asdfjkl', 'asdfqwer',
+  'asdfzxcv', 'asdqwe', 'asdqwe123', 'asdzxc', 'asgard', 'ashlee', 'ashleigh', 'ashley', 'ashley1',
+  'ashton', 'asians', 'asimov', 'aspire', 'aspirin', 'aspirine', 'ass123', 'assasin', 'assass',
+  'assassin', 'assfuck', 'asshol', 'asshole', 'asshole1', 'assholes', 'assman', 'asswipe',
+  'assword', 'asterix', 'astral', 'astrid', 'astros', 'athena', 'athens', 'athlon', 'athome',
+  'atlanta', 'atlantic', 'atlantis', 'atomic', 'atreides', 'attack', 'atticus', 'attila',
+  'attitude', 'attract', 'aubrey', 'auburn', 'auckland', 'audi80', 'audia4', 'audia6', 'auditt',
+  'audrey', 'auggie', 'august', 'augusta', 'augustin', 'augustus', 'aurora', 'aussie', 'austin',
+  'austin1', 'austin31', 'australi', 'australia', 'austria', 'autumn', 'avalanch', 'avalon',
+  'avatar', 'avenger', 'avenue', 'aviation', 'aviator', 'awesome', 'awesome1', 'awnyce', 'ayanami',
+  'azamat', 'azazel', 'azerty', 'azertyui', 'azertyuiop', 'azrael', 'azsxdc', 'azsxdcfv', 'b12345',
+  'baberuth', 'babies', 'baboon', 'baby123', 'babybaby', 'babybear', 'babyblue', 'babyboy',
+  'babycake', 'babydoll', 'babyface', 'babygirl', 'babylon', 'babylon5', 'babylove', 'bacardi',
+  'bacchus', 'backbone', 'backdoor', 'backup', 'badabing', 'badass', 'badboy', 'badboy1',
+  'badboys', 'baddest', 'baddog', 'badger', 'badgers', 'badgirl', 'badman', 'baggins', 'baggio',
+  'bagira', 'bagpuss', 'bahamas', 'bahamut', 'bailey', 'bailey1', 'balance', 'baldwin', 'baller',
+  'ballet', 'ballin', 'balloon', 'balloons', 'ballsack', 'baltimor', 'bambam', 'bamboo', 'banana',
+  'banana1', 'bananas', 'banane', 'bandit', 'bandit1', 'bangbang', 'banger', 'bangkok', 'banker',
+  'banner', 'banshee', 'banzai', 'baracuda', 'barbados', 'barbara', 'barber', 'barbie', 'barcelon',
+  'barcelona', 'barefeet', 'barefoot', 'barfly', 'baritone', 'barker', 'barkley', 'barley',
+  'barnes', 'barney', 'barney1', 'baronn', 'barrage', 'barrett', 'barron', 'barry1', 'barselona',
+  'barsik', 'bartman', 'barton', 'basebal', 'baseball', 'baseball1', 'basement', 'basket',
+  'basketba', 'basketball', 'basset', 'bassman', 'bastard', 'bastards', 'bathing', 'batista',
+  'batman', 'batman1', 'batman12', 'battery', 'battle', 'bauhaus', 'baxter', 'bayern', 'baylor',
+  'bazooka', 'bbking', 'bcfields', 'bdfyjd', 'beach1', 'beaches', 'beacon', 'beagle', 'beaker',
+  'beamer', 'beaner', 'beanie', 'bearbear', 'bearcat', 'bearcats', 'beardog', 'bears1', 'beast1',
+  'beastie', 'beater', 'beatle', 'beatles', 'beatles1', 'beatrice', 'beautifu', 'beautiful',
+  'beauty', 'beaver', 'beavers', 'beavis', 'beavis1', 'because', 'becker', 'beckham', 'beckham7',
+  'bedford', 'bedlam', 'beefcake', 'beemer', 'beerbeer', 'beerman', 'beerme', 'beethove', 'beetle',
+  'beezer', 'begemot', 'behappy', 'belair', 'believe', 'belinda', 'belinea', 'belkin', 'bella1',
+  'bellaco', 'bellagio', 'belmont', 'beloved', 'bender', 'bendover', 'benedict', 'benessere',
+  'benfica', 'bengal', 'bengals', 'benito', 'benjami', 'benjamin', 'bennett', 'bennie', 'benny1',
+  'benoit', 'benson', 'bentley', 'benton', 'beowulf', 'beretta', 'bergen', 'berger', 'bergkamp',
+  'berkeley', 'berlin', 'bermuda', 'bernard', 'bernardo', 'bernice', 'bernie', 'bertha', 'bertie',
+  'bertram', 'bessie', 'bestbuy', 'bethany', 'better', 'bettina', 'bettyboo', 'beverley',
+  'beverly', 'bhbirf', 'bianca', 'biatch', 'bicycle', 'bigass', 'bigballs', 'bigbang', 'bigbear',
+  'bigben', 'bigbird', 'bigblack', 'bigblock', 'bigblue', 'bigbob', 'bigboobs', 'bigbooty',
+  'bigboss', 'bigboy', 'bigbucks', 'bigbutt', 'bigcat', 'bigcock', 'bigdaddy', 'bigdawg',
+  'bigdick', 'bigdick1', 'bigdicks', 'bigdog', 'bigdog1', 'bigfish', 'bigfoot', 'bigger', 'biggie',
+  'biggles', 'biggun', 'bigguns', 'bigguy', 'bighead', 'bigjim', 'bigjohn', 'bigmac', 'bigman',
+  'bigmike', 'bigmoney', 'bigone', 'bigones', 'bigpimp', 'bigpoppa', 'bigred', 'bigsexy',
+  'bigtime', 'bigtit', 'bigtits', 'bigtruck', 'bikers', 'bikini', 'billabon', 'billbill', 'billie',
+  'billy1', 'billybob', 'billyboy', 'bimmer', 'binder', 'bingo1', 'binladen', 'biohazard',
+  'biology', 'bird33', 'birddog', 'birdie', 'birdman', 'birgit', 'birthday', 'biscuit', 'bisexual',
+  'bishop', 'bismarck', 'bismark', 'bismilla', 'bismillah', 'bitch1', 'bitchass', 'bitches',
+  'bitchy', 'biteme', 'biteme1', 'bitter', 'bizkit', 'bizzare', 'blabla', 'black1', 'blackberry',
+  'blackbir', 'blackbird', 'blackcat', 'blackdog', 'blackhaw', 'blackhawk', 'blackice', 'blackie',
+  'blackjac', 'blackjack', 'blacklab', 'blackman', 'blackops', 'blackout', 'blacks', 'blacky',
+  'blade1', 'blades', 'blahblah', 'blaine', 'blake1', 'blanca', 'blanche', 'blanco', 'blaster',
+  'blazer', 'blazers', 'bleach', 'bledsoe', 'blessed', 'blessing', 'blink182', 'blinky',
+  'blizzard', 'blobby', 'blonde', 'blondes', 'blondie', 'blonds', 'bloody', 'blossom', 'blowfish',
+  'blowjob', 'blowme', 'blubber', 'blue11', 'blue12', 'blue123', 'blue1234', 'blue22', 'blue23',
+  'blue32', 'blue42', 'blue99', 'blueball', 'bluebell', 'blueberr', 'blueberry', 'bluebird',
+  'blueblue', 'blueboy', 'bluedog', 'blueeyes', 'bluefish', 'bluejay', 'bluejays', 'bluemoon',
+  'blues1', 'bluesky', 'bluesman', 'bluestar', 'blunts', 'bmw325', 'boater', 'boating', 'bob123',
+  'bobafett', 'bobbie', 'bobbob', 'bobby1', 'bobcat', 'bobdole', 'bobdylan', 'bobmarley', 'boeing',
+  'bogart', 'bogdan', 'bogota', 'bohica', 'boiler', 'bolitas', 'bollocks', 'bollox', 'bologna',
+  'bolton', 'bombay', 'bomber', 'bombers', 'bonanza', 'bond007', 'bondage', 'bonehead', 'boners',
+  'bonita', 'bonjour', 'bonjovi', 'bonkers', 'bonner', 'bonnie', 'bonovox', 'bonsai', 'boobear',
+  'boobie', 'boobies', 'booboo', 'booboo1', 'booger', 'booger1', 'boogie', 'booker', 'bookie',
+  'bookworm', 'boomboom', 'boomer', 'boomer1', 'booster', 'bootie', 'bootsie', 'bootsy', 'bootys',
+  'booyah', 'boozer', 'borabora', 'bordeaux', 'border', 'borders', 'boricua', 'boris1', 'boroda',
+  'borussia', 'bosco1', 'bossman', 'boston', 'boston1', 'bottle', 'bottom', 'boulder', 'bounce',
+  'bouncer', 'bounty', 'bourbon', 'bowler', 'bowling', 'bowman', 'bowser', 'bowtie', 'bowwow',
+  'boxcar', 'boxers', 'boxing', 'boxster', 'boytoy', 'bp2002', 'br0d3r', 'bracken', 'bradford',
+  'bradley', 'bradley1', 'brains', 'bramble', 'brandi', 'brando', 'brandon', 'brandon1', 'brandy',
+  'brandy1', 'brasil', 'braves', 'braves1', 'brazil', 'breaker', 'breanna', 'breast', 'breasts',
+  'breeze', 'bremen', 'brenda', 'brendan', 'brenna', 'brennan', 'brewer', 'brewster', 'brian1',
+  'briana', 'brianna', 'bricks', 'bridge', 'bridget', 'briggs', 'bright', 'brighton', 'brigitte',
+  'bristol', 'british', 'britney', 'brittany', 'brittney', 'broadway', 'brodie', 'broken',
+  'broker', 'bronco', 'broncos', 'broncos1', 'bronson', 'bronze', 'brooke', 'brooklyn', 'brooks',
+  'brother', 'brothers', 'brown1', 'brownie', 'browning', 'browns', 'bruce1', 'brucelee', 'bruins',
+  'bruiser', 'bruno1', 'brutus', 'bryan1', 'bryant', 'bubba1', 'bubba123', 'bubba69', 'bubbas',
+  'bubble', 'bubbles', 'bubbles1', 'buceta', 'bucker', 'bucket', 'buckeye', 'buckeyes', 'buckley',
+  'buckshot', 'budapest', 'buddah', 'buddha', 'buddie', 'buddies', 'buddy1', 'buddy123', 'buddy2',
+  'buddyboy', 'buddydog', 'buddys', 'budgie', 'budlight', 'budman', 'budweise', 'budweiser',
+  'buffalo', 'buffalo1', 'buffet', 'buffett', 'buffy1', 'buford', 'bugger', 'builder', 'building',
+  'bukkake', 'bukowski', 'bulldog', 'bulldog1', 'bulldogs', 'bullet', 'bullfrog', 'bullit',
+  'bullseye', 'bullshit', 'bumble', 'bummer', 'bumper', 'bunghole', 'bungle', 'bunker', 'bunnies',
+  'bunny1', 'burger', 'burner', 'burning', 'burnout', 'burrito', 'burton', 'bushido', 'business',
+  'busted', 'buster', 'buster1', 'buster12', 'bustle', 'butcher', 'butkus', 'butler', 'butter',
+  'buttercu', 'buttercup', 'butterfl', 'butterfly', 'butters', 'buttfuck', 'butthead', 'butthole',
+  'buttman', 'button', 'buttons', 'buzzard', 'buzzer', 'bynthytn', 'byteme', 'c2h5oh', 'cabbage',
+  'cabernet', 'cabron', 'cactus', 'cadillac', 'caesar', 'cafc91', 'caitlin', 'calgary', 'calibra',
+  'calico', 'caliente', 'californ', 'california', 'caligula', 'calimero', 'callaway', 'callie',
+  'calling', 'callisto', 'callum', 'calvin', 'calvin1', 'calypso', 'camaro', 'camaross', 'camber',
+  'cambiami', 'cambridg', 'camden', 'came11', 'camelot', 'camels', 'cameltoe', 'camera', 'camero',
+  'camero1', 'cameron', 'cameron1', 'camila', 'camilla', 'camille', 'campbell', 'camper',
+  'camping', 'canada', 'canada1', 'canadian', 'canary', 'cancel', 'cancer', 'cancun', 'candace',
+  'candice', 'candies', 'candle', 'candy1', 'candyass', 'candyman', 'canine', 'cannabis',
+  'cannibal', 'cannon', 'canton', 'cantona', 'cantona7', 'canuck', 'canucks', 'canyon', 'capcom',
+  'capecod', 'capetown', 'capital', 'capitals', 'capone', 'caprice', 'capricor', 'capricorn',
+  'capslock', 'captain', 'captain1', 'caracas', 'caramel', 'caravan', 'carbon', 'cardiff',
+  'cardinal', 'cardinals', 'care1839', 'carebear', 'carina', 'carlisle', 'carlito', 'carlitos',
+  'carlos', 'carlos1', 'carlton', 'carman', 'carmel', 'carmen', 'carmex2', 'carnage', 'carnival',
+  'carola', 'carole', 'carolin', 'carolina', 'caroline', 'carolyn', 'carpedie', 'carpente',
+  'carpet', 'carrera', 'carrie', 'carroll', 'carrot', 'carrots', 'carson', 'carter', 'cartman',
+  'cartman1', 'cartoon', 'cartoons', 'carver', 'casanova', 'cascade', 'caserta', 'casey1',
+  'cashflow', 'cashmone', 'cashmoney', 'casino', 'casper', 'casper1', 'cassandr', 'cassandra',
+  'cassidy', 'cassie', 'caster', 'castillo', 'castle', 'castor', 'castro', 'cat123', 'catalina',
+  'catch22', 'catcher', 'catdog', 'catfight', 'catfish', 'catherin', 'catherine', 'catman',
+  'catnip', 'cattle', 'catwoman', 'caught', 'cavalier', 'caveman', 'cayman', 'cbr600', 'cbr900',
+  'cbr900rr', 'ccbill', 'cdtnbr', 'cdtnkfyf', 'ceasar', 'cecile', 'cecilia', 'cedric', 'celebrity',
+  'celeron', 'celeste', 'celica', 'celina', 'celine', 'celtic', 'celtics', 'cement', 'center',
+  'central', 'century', 'cerberus', 'cessna', 'cevthrb', 'cfitymrf', 'cfvceyu', 'cgfhnfr',
+  'chachi', 'chadwick', 'chains', 'chainsaw', 'chairman', 'challeng', 'chamber', 'chambers',
+  'champ1', 'champion', 'champs', 'chance', 'chandler', 'chandra', 'chanel', 'change', 'changed',
+  'changeme', 'changes', 'channel', 'chantal', 'chaos1', 'chapman', 'chappy', 'charge', 'charger',
+  'chargers', 'charisma', 'charity', 'charle', 'charlene', 'charles', 'charles1', 'charley',
+  'charli', 'charlie', 'charlie1', 'charlie2', 'charlott', 'charlotte', 'charlton', 'charly',
+  'charmed', 'charon', 'charter', 'chase1', 'chaser', 'chavez', 'cheater', 'checker', 'checkers',
+  'cheddar', 'cheech', 'cheeks', 'cheeky', 'cheerleaers', 'cheers', 'cheese', 'cheese1', 'cheetah',
+  'chelle', 'chelse', 'chelsea', 'chelsea1', 'chemical', 'chemist', 'cherokee', 'cherries',
+  'cherry', 'cheryl', 'cheshire', 'chessie', 'chester', 'chester1', 'chestnut', 'chevelle',
+  'chevrole', 'chevrolet', 'chevy1', 'chevys', 'chewbacc', 'chewie', 'cheyenne', 'chiara',
+  'chicago', 'chicago1', 'chichi', 'chicken', 'chicken1', 'chickens', 'chickenwing101', 'chicks',
+  'chiefs', 'children', 'chilli', 'chillin', 'chilly', 'chimera', 'chinese', 'chinook', 'chipmunk',
+  'chipper', 'chippy', 'chiquita', 'chitown', 'chivas', 'chloe1', 'chocha', 'chocolat',
+  'chocolate', 'choice', 'choochoo', 'chopin', 'chopper', 'chopper1', 'chouchou', 'chris1',
+  'chris123', 'chrisbln', 'chriss', 'chrissy', 'christ', 'christa', 'christi', 'christia',
+  'christian', 'christie', 'christin', 'christina', 'christine', 'christma', 'christmas',
+  'christop', 'christophe', 'christopher', 'christy', 'chrome', 'chronic', 'chrono', 'chrysler',
+  'chuang', 'chubby', 'chuck1', 'chuckie', 'chuckles', 'chucky', 'chunky', 'church', 'ciaociao',
+  'ciccio', 'cicero', 'cigars', 'cinder', 'cindy1', 'cinema', 'cinnamon', 'circle', 'circus',
+  'cirrus', 'citadel', 'citation', 'citizen', 'citroen', 'civicsi', 'civilwar', 'cjkysirj',
+  'cjkywt', 'claire', 'clancy', 'clapton', 'clarence', 'clarinet', 'clarissa', 'clarke', 'classic',
+  'classics', 'claude', 'claudi', 'claudia', 'claudia1', 'claudio', 'claymore', 'clayton',
+  'cleaner', 'clement', 'clemente', 'clemson', 'cleopatr', 'cleopatra', 'clevelan', 'cleveland',
+  'clever', 'clifford', 'clifton', 'climax', 'climber', 'climbing', 'clinton', 'clipper',
+  'clippers', 'clitoris', 'closer', 'cloud9', 'clouds', 'cloudy', 'clover', 'clovis', 'clowns',
+  'clutch', 'cnfybckfd', 'cobain', 'cobalt', 'cobra1', 'cobras', 'cocacol', 'cocacola', 'cocaine',
+  'cocker', 'cocksuck', 'cocksucker', 'coconut', 'codered', 'coffee', 'cohiba', 'coldbeer',
+  'coldplay', 'coleman', 'colleen', 'college', 'collie', 'collin', 'collins', 'colnago',
+  'colombia', 'colonel', 'colonial', 'colorado', 'colors', 'colt45', 'colton', 'coltrane',
+  'columbia', 'columbus', 'comanche', 'combat', 'comcast', 'comedy', 'comein', 'comeon', 'comets',
+  'comfort', 'comics', 'coming', 'command', 'commande', 'commander', 'commando', 'common',
+  'compact', 'company', 'compaq', 'compaq1', 'compass', 'complete', 'compton', 'compute',
+  'computer', 'computer1', 'concord', 'concorde', 'concrete', 'condom', 'condor', 'confirm',
+  'confused', 'connect', 'conner', 'connie', 'connor', 'conover', 'conquest', 'conrad', 'constant',
+  'consult', 'consumer', 'contact', 'content', 'contest', 'continue', 'contour', 'contra',
+  'contract', 'control', 'converse', 'conway', 'coochie', 'cookie', 'cookie1', 'cookies', 'cool12',
+  'cool123', 'coolcat', 'coolcool', 'cooldude', 'cooler', 'coolguy', 'coolhand', 'coolio',
+  'coolman', 'coolness', 'cooper', 'cooper1', 'cooter', 'copenhag', 'copper', 'corazo', 'corinna',
+  'corinne', 'corleone', 'corndog', 'cornelia', 'cornell', 'corner', 'cornwall', 'corolla',
+  'corona', 'corrado', 'corsair', 'corvette', 'corwin', 'cosmic', 'cosmos', 'costello', 'cosworth',
+  'cottage', 'cotton', 'cougar', 'cougars', 'counter', 'country', 'county', 'courage', 'courtney',
+  'cousin', 'coventry', 'cowboy', 'cowboy1', 'cowboys', 'cowboys1', 'cowgirl', 'coyote', 'cracker',
+  'crackers', 'cramps', 'crappy', 'craving', 'crawford', 'crazy1', 'crazybab', 'crazyman',
+  'creampie', 'creamy', 'create', 'creation', 'creative', 'creature', 'credit', 'creepers',
+  'crescent', 'cricket', 'cricket1', 'criminal', 'crimson', 'crispy', 'cristian', 'cristina',
+  'critter', 'crjhgbjy', 'cromwell', 'cruise', 'cruiser', 'crumbs', 'crunch', 'crusader',
+  'crusher', 'crusty', 'crysis', 'crystal', 'crystal1', 'cthtuf', 'cthulhu', 'cthutq', 'ctrhtn',
+  'cubbies', 'cubswin', 'cucumber', 'cuddles', 'cuervo', 'culinary', 'cullen', 'cumming',
+  'cummins', 'cumshot', 'cumslut', 'cupcake', 'curious', 'curtis', 'custer', 'custom', 'customer',
+  'cutiepie', 'cutlass', 'cutter', 'cvthnm', 'cxfcnmt', 'cyborg', 'cyclone', 'cyclones', 'cyclops',
+  'cygnus', 'cygnusx1', 'cynthia', 'cypher', 'cypress', 'cyprus', 'cyrano', 'dabears', 'dabomb',
+  'daddy1', 'daddyo', 'daddys', 'daemon', 'daewoo', 'dagger', 'daisey', 'daisy1', 'daisydog',
+  'dakota', 'dakota1', 'dalejr', 'dallas', 'dallas1', 'dallas22', 'dalshe', 'dalton', 'damage',
+  'damian', 'damien', 'dammit', 'damnit', 'dan123', 'dancer', 'dancing', 'danger', 'dangerous',
+  'daniel', 'daniel1', 'daniela', 'daniele', 'daniell', 'daniella', 'danielle', 'daniels',
+  'daniil', 'danila', 'danilka', 'danish', 'danny1', 'dannyboy', 'danzig', 'daphne', 'daredevi',
+  'daredevil', 'darian', 'darina', 'darius', 'darkange', 'darkangel', 'darkelf', 'darklord',
+  'darkman', 'darkness', 'darkone', 'darkside', 'darkstar', 'darlene', 'darling', 'darrel',
+  'darrell', 'darren', 'darryl', 'darthvad', 'darwin', 'dasani', 'dasher', 'datsun', 'daughter',
+  'davedave', 'david1', 'david123', 'davide', 'davids', 'davidson', 'davies', 'davinci', 'dawson',
+  'daylight', 'dayton', 'daytona', 'dbnfkbr', 'dbrnjh', 'dbrnjhbz', 'deacon', 'deadhead', 'deadly',
+  'deadman', 'deadpool', 'deadspin', 'dealer', 'deanna', 'death1', 'death666', 'deathnote',
+  'deaths', 'debbie', 'deborah', 'december', 'decimal', 'decker', 'deedee', 'deejay', 'deeper',
+  'deepthroat', 'deerhunt', 'deeznuts', 'deeznutz', 'default', 'defender', 'defense', 'defiant',
+  'deftones', 'dejavu', 'delaney', 'delaware', 'delete', 'delfin', 'delight', 'delilah',
+  'delldell', 'delmar', 'delphi', 'delpiero', 'delta1', 'deltas', 'deluxe', 'demon1', 'demon666',
+  'demons', 'denali', 'denied', 'deniro', 'denise', 'deniska', 'denmark', 'dennis', 'density',
+  'dental', 'dentist', 'denver', 'depeche', 'deputy', 'derparol', 'derrick', 'descent', 'desert',
+  'design', 'designer', 'desire', 'desiree', 'deskjet', 'desktop', 'desmond', 'destin', 'destiny',
+  'destiny1', 'destroy', 'detroit', 'deutsch', 'devil666', 'devildog', 'deville', 'devils',
+  'dewalt', 'dexter', 'dfcbkbcf', 'dfcbkbq', 'dfhdfhf', 'dfkthbz', 'dfkthf', 'dfktynby',
+  'dfktynbyf', 'dfvgbh', 'dfytxrf', 'dharma', 'diablo', 'diablo2', 'dialog', 'diamon', 'diamond',
+  'diamond1', 'diamonds', 'diana1', 'dianna', 'dianne', 'diaper', 'diapers', 'dickdick', 'dickens',
+  'dicker', 'dickhead', 'dickie', 'didier', 'diehard', 'diesel', 'dietcoke', 'dieter', 'digger',
+  'diggler', 'digimon', 'digital', 'digital1', 'dilbert', 'dilbert1', 'dilligaf', 'dillon',
+  'dima123', 'dimadima', 'dimitri', 'dimples', 'dinamo', 'dinara', 'dindom', 'dingbat', 'dingdong',
+  'dinger', 'dingle', 'dinner', 'dinosaur', 'dipper', 'dipset', 'dipshit', 'dipstick', 'direct',
+  'director', 'dirtbike', 'dirty1', 'dirtydog', 'disaster', 'discover', 'discus', 'disney',
+  'diver1', 'divers', 'divine', 'diving', 'divorce', 'dixie1', 'django', 'dkflbckfd', 'dkflbr',
+  'dkflbvbh', 'dmitriy', 'dnsadm', 'doberman', 'doctor', 'dodge1', 'dodger', 'dodgeram', 'dodgers',
+  'dodgers1', 'dog123', 'dogbert', 'dogbone', 'dogboy', 'dogcat', 'dogface', 'dogfart', 'dogfood',
+  'dogger', 'doggie', 'doggies', 'doggy1', 'doghouse', 'dogman', 'dogmeat', 'dogpound', 'dogshit',
+  'dogwood', 'doitnow', 'doktor', 'dolemite', 'dollar', 'dollars', 'dolores', 'dolphin',
+  'dolphin1', 'dolphins', 'domain', 'domingo', 'dominic', 'dominik', 'dominion', 'dominiqu',
+  'dominique', 'domino', 'donald', 'donjuan', 'donkey', 'donna1', 'donner', 'donnie', 'donovan',
+  'dontknow', 'donuts', 'doobie', 'doodle', 'doodles', 'doofus', 'doogie', 'dookie', 'dooley',
+  'doomsday', 'dorado', 'doreen', 'dorian', 'dorothy', 'dortmund', 'dotcom', 'dottie', 'double',
+  'doubled', 'douche', 'dougal', 'doughboy', 'doughnut', 'dougie', 'douglas', 'downer', 'downhill',
+  'download', 'downtown', 'dracula', 'drag0n', 'dragon', 'dragon01', 'dragon1', 'dragon12',
+  'dragon69', 'dragonba', 'dragonball', 'dragonballz', 'dragonfl', 'dragonfly', 'dragons',
+  'dragoon', 'dragster', 'drakon', 'draven', 'dreamcas', 'dreamer', 'dreaming', 'dreams',
+  'dresden', 'drifter', 'driller', 'driven', 'driver', 'drizzt', 'droopy', 'drowssap', 'drpepper',
+  'drummer', 'drummer1', 'dthjybrf', 'dtkjcbgtl', 'dtxyjcnm', 'dublin', 'ducati', 'duchess',
+  'duckduck', 'duckie', 'duckman', 'dudedude', 'dudeman', 'dudley', 'duffer', 'duffman',
+  'dukeduke', 'dumbass', 'dunbar', 'duncan', 'dundee', 'dungeon', 'dunlop', 'dupont', 'durango',
+  'durham', 'duster', 'dustin', 'dusty1', 'dutchess', 'dwayne', 'dwight', 'dylan1', 'dynamic',
+  'dynamite', 'dynamo', 'dynasty', 'eagle1', 'eagle2', 'eagles', 'eagles1', 'earnhard',
+  'earthlink', 'easter', 'eastern', 'easton', 'eastside', 'eastwood', 'eating', 'eatmenow',
+  'eatpussy', 'eatshit', 'eclipse', 'eclipse1', 'edcrfv', 'eddie1', 'edison', 'editor', 'edmonton',
+  'eduard', 'eduardo', 'edward', 'edward1', 'edwards', 'eeyore', 'egghead', 'eggman', 'eggplant',
+  'egorka', 'eighteen', 'eileen', 'einstein', 'ekaterina', 'ekmzyf', 'elaine', 'elcamino',
+  'eldiablo', 'eldorado', 'eleanor', 'electra', 'electric', 'electro', 'electron', 'elefant',
+  'element', 'elements', 'eleonora', 'elephant', 'eleven', 'elijah', 'elisabet', 'elizabet',
+  'elizabeth', 'elizaveta', 'elliot', 'elliott', 'elmira', 'eloise', 'elpaso', 'elvira', 'elvis1',
+  'elvisp', 'elway7', 'elwood', 'emanuel', 'emerald', 'emerson', 'emilia', 'emilie', 'emilio',
+  'emily1', 'eminem', 'emmanuel', 'emmett', 'emmitt', 'emperor', 'empire', 'encore', 'energy',
+  'enforcer', 'engage', 'engine', 'engineer', 'england', 'england1', 'english', 'enigma', 'enrico',
+  'enrique', 'enter1', 'enterme', 'enternow', 'enterpri', 'enterprise', 'enters', 'entrance',
+  'entropy', 'envelope', 'epsilon', 'equinox', 'eraser', 'erection', 'ericsson', 'ernest',
+  'ernesto', 'erotic', 'erotica', 'errors', 'escalade', 'escape', 'escorpio', 'escort', 'eskimo',
+  'espana', 'espresso', 'esprit', 'esquire', 'estelle', 'esther', 'estrell', 'estrella', 'eternal',
+  'eternity', 'eugene', 'eunice', 'eureka', 'europa', 'europe', 'evangelion', 'evelyn', 'everest',
+  'everett', 'everlast', 'everton', 'evgeniy', 'evolutio', 'evolution', 'excalibu', 'excalibur',
+  'exchange', 'excite', 'exeter', 'exigen', 'exigent', 'exodus', 'exotic', 'experienced', 'expert',
+  'explore', 'explorer', 'export', 'express', 'extreme', 'ezekiel', 'f00tball', 'fabian',
+  'fabienn', 'fabric', 'fabulous', 'facebook', 'facial', 'factory', 'faggot', 'fairlane', 'faith1',
+  'faithful', 'falcon', 'falcon1', 'falcons', 'fallen', 'fallon', 'fallout', 'family', 'famous',
+  'fandango', 'fantasia', 'fantasy', 'fantom', 'fantomas', 'faraon', 'farley', 'farmboy', 'farmer',
+  'farscape', 'farside', 'fashion', 'fastball', 'faster', 'fatass', 'fatboy', 'fatcat', 'father',
+  'fatima', 'fatman', 'favorite', 'favorite6', 'fduecn', 'fearless', 'feather', 'feathers',
+  'february', 'federal', 'federico', 'feelgood', 'felicia', 'feline', 'felipe', 'felix1',
+  'fellatio', 'fellow', 'female', 'females', 'fender', 'fender1', 'fenris', 'fenway', 'fergie',
+  'fergus', 'ferguson', 'fernand', 'fernande', 'fernando', 'ferrari', 'ferrari1', 'ferret',
+  'ferris', 'fester', 'festival', 'festus', 'fetish', 'fghtkm', 'fgtkmcby', 'ficken', 'fiction',
+  'fiddle', 'fidelio', 'fidelity', 'fields', 'fiesta', 'figaro', 'fighter', 'fighting', 'figure',
+  'filter', 'filthy', 'finalfantasy', 'finally', 'finance', 'finder', 'finger', 'fingers',
+  'finish', 'finland', 'fireball', 'firebird', 'fireblad', 'firedog', 'firefigh', 'firefire',
+  'firefly', 'firefox', 'fireman', 'firenze', 'firestorm', 'firewall', 'fischer', 'fishbone',
+  'fishcake', 'fisher', 'fisherma', 'fisherman', 'fishes', 'fishfish', 'fishhead', 'fishin',
+  'fishing', 'fishing1', 'fishman', 'fishon', 'fishtank', 'fister', 'fisting', 'fitness', 'fitter',
+  'fivestar', 'fkbyjxrf', 'fktrcfylh', 'fktrcfylhf', 'fktrctq', 'fktyrf', 'flamengo', 'flames',
+  'flamingo', 'flanders', 'flanker', 'flash1', 'flasher', 'flashman', 'flathead', 'flatron',
+  'fleming', 'fletch', 'fletcher', 'flexible', 'flicks', 'flight', 'flipflop', 'flipper',
+  'flipper1', 'floppy', 'florence', 'flores', 'florian', 'florida', 'florida1', 'flounder',
+  'flower', 'flower1', 'flower2', 'flowers', 'fluffy', 'flvbybcnhfnjh', 'flyboy', 'flyers',
+  'flyers88', 'flyfish', 'flying', 'follow', 'foobar', 'foolish', 'footbal', 'football',
+  'football1', 'footjob', 'forbes', 'fordf150', 'foreplay', 'foreskin', 'forest', 'foreve',
+  'forever', 'forever1', 'forfun', 'forget', 'forgetit', 'forgot', 'forlife', 'format', 'formula',
+  'formula1', 'forrest', 'forsaken', 'forsberg', 'fortress', 'fortuna', 'fortune', 'forward',
+  'foryou', 'fossil', 'foster', 'fosters', 'fountain', 'fowler', 'foxfire', 'foxtrot', 'foxylady',
+  'france', 'frances', 'francesc', 'francesco', 'francine', 'francis', 'francisc', 'francisco',
+  'franco', 'francois', 'frank1', 'frankie', 'frankie1', 'franklin', 'franks', 'franky', 'fraser',
+  'frazier', 'freaks', 'freaky', 'freckles', 'freddie', 'freddy', 'freddy1', 'frederic',
+  'frederik', 'fredfred', 'fredrick', 'freebird', 'freedo', 'freedom', 'freedom1', 'freefall',
+  'freefree', 'freeman', 'freepass', 'freeporn', 'freesex', 'freestyle', 'freeuser', 'freeway',
+  'freeze', 'french', 'frenchy', 'fresno', 'friday', 'friday13', 'friend', 'friendly', 'friends',
+  'friendster', 'fright', 'fringe', 'frisbee', 'frisco', 'frisky', 'frodo1', 'frogger', 'froggie',
+  'froggy', 'frogman', 'front242', 'frontier', 'frosch', 'frosty', 'frozen', 'fruity', 'fuck123',
+  'fuck69', 'fuck_inside', 'fucked', 'fucker', 'fucker1', 'fuckers', 'fuckface', 'fuckfuck',
+  'fuckhead', 'fuckher', 'fuckin', 'fucking', 'fuckinside', 'fuckit', 'fuckme', 'fuckme1',
+  'fuckme2', 'fuckme69', 'fuckoff', 'fuckoff1', 'fuckthis', 'fucku2', 'fuckyo', 'fuckyou',
+  'fuckyou1', 'fuckyou2', 'fugazi', 'fujifilm', 'fujitsu', 'fulham', 'fuller', 'fullmoon',
+  'function', 'fungus', 'funny1', 'funstuff', 'funtime', 'furball', 'fusion', 'fussball', 'futbol',
+  'futurama', 'future', 'fuzzy1', 'fyfcnfcbz', 'fyfnjkbq', 'fylhtq', 'fynjirf', 'fytxrf',
+  'fyutkbyf', 'fyutkjxtr', 'gabber', 'gabrie', 'gabriel', 'gabriel1', 'gabriela', 'gabriele',
+  'gabriell', 'gabrielle', 'gadget', 'gagarin', 'gagged', 'gagging', 'galant', 'galary', 'galaxy',
+  'galileo', 'galina', 'gallaries', 'galore', 'galway', 'gambit', 'gamble', 'gambler', 'gameboy',
+  'gamecock', 'gamecube', 'gameover', 'gandalf', 'gandalf1', 'ganesh', 'gangbang', 'gangbanged',
+  'gangsta', 'gangster', 'gannibal', 'garage', 'garbage', 'garcia', 'garden', 'gardner', 'gareth',
+  'garfield', 'gargoyle', 'garion', 'garlic', 'garner', 'garnet', 'garrett', 'garrison', 'gasman',
+  'gaston', 'gateway', 'gateway1', 'gateway2', 'gator1', 'gatorade', 'gators', 'gators1', 'gatsby',
+  'gawker', 'gaylord', 'gaymen', 'gbhfvblf', 'gbpltw', 'gdtrfb', 'geezer', 'gegcbr', 'geheim',
+  'gemini', 'general', 'general1', 'generals', 'generic', 'genesis', 'genesis1', 'geneva',
+  'genius', 'gentle', 'geoffrey', 'george', 'george1', 'georgia', 'georgia1', 'georgie',
+  'georgina', 'gerald', 'gerard', 'gerber', 'gerbil', 'gerhard', 'german', 'germany', 'geronimo',
+  'gerrard', 'gertrude', 'gesperrt', 'getlost', 'getmoney', 'getoff', 'getout', 'getsome',
+  'getting', 'gfhjkm', 'gfhjkm1', 'gfhjkm123', 'gfhjkmgfhjkm', 'gfynthf', 'ghbdtn', 'ghbdtn123',
+  'ghbdtnbr', 'ghbdtndctv', 'ghbdtnrfrltkf', 'ghblehjr', 'ghbrjk', 'ghbywtccf', 'ghetto',
+  'ghhh47hj7649', 'ghjcnbnenrf', 'ghjcnj', 'ghjcnjgfhjkm', 'ghjcnjnfr', 'ghjcnjq', 'ghjuhfvvf',
+  'ghost1', 'ghostrider', 'ghosts', 'gianluca', 'gianni', 'giants', 'giants1', 'gibson', 'gideon',
+  'gidget', 'gigabyte', 'giggle', 'giggles', 'gilbert', 'gilles', 'gillian', 'gilligan', 'gilmore',
+  'ginger', 'ginger1', 'giorgi', 'giorgio', 'giovanna', 'giovanni', 'giraffe', 'girlie', 'girlies',
+  'girls1', 'giulia', 'giuseppe', 'gizmo1', 'gizmodo', 'gizmodo1', 'gizmos', 'gizzmo', 'gjkbyf',
+  'glacier', 'gladiato', 'gladiator', 'gladys', 'glamour', 'glasgow', 'glasses', 'glenda',
+  'glitter', 'global', 'globus', 'gloria', 'glover', 'gloves', 'gmoney', 'gn56gn56', 'goalie',
+  'goaway', 'gobears', 'goblin', 'goblue', 'gobucks', 'gocubs', 'godawgs', 'godbless', 'goddess',
+  'godfathe', 'godfather', 'godiva', 'godlike', 'godsmack', 'godspeed', 'godzilla', 'gofast',
+  'gofish', 'goforit', 'gogators', 'gohome', 'goirish', 'goldberg', 'golden', 'golden1',
+  'goldeney', 'goldeneye', 'goldfing', 'goldfish', 'goldie', 'goldstar', 'goldwing', 'golfball',
+  'golfer', 'golfer1', 'golfgolf', 'golfgti', 'golfing', 'golfnut', 'golfpro', 'goliath', 'gollum',
+  'gonavy', 'gonzales', 'gonzalez', 'gonzo1', 'goober', 'good123654', 'goodboy', 'goodbye',
+  'goodday', 'goodgirl', 'goodie', 'goodluck', 'goodman', 'goodtime', 'goodyear', 'goofball',
+  'goofy1', 'google', 'gooner', 'goose1', 'gopher', 'gordon', 'gordon24', 'gorgeous', 'gorilla',
+  'gotcha', 'gotenks', 'gotham', 'gothic', 'gotmilk', 'gotohell', 'gotribe', 'govols', 'grace1',
+  'gracie', 'graduate', 'graham', 'gramma', 'granada', 'grandam', 'grande', 'grandma', 'grandpa',
+  'granite', 'granny', 'grapes', 'graphics', 'grateful', 'gratis', 'graves', 'gravity', 'grayson',
+  'graywolf', 'grease', 'great1', 'greatone', 'greece', 'greedisgood', 'greedy', 'green1',
+  'green123', 'greenbay', 'greenday', 'greene', 'greenman', 'greens', 'gregor', 'gregory',
+  'gremlin', 'grendel', 'gretchen', 'gretzky', 'greywolf', 'griffey', 'griffin', 'griffith',
+  'grimace', 'grinch', 'gringo', 'grisha', 'grizzly', 'gromit', 'groove', 'groovy', 'groucho',
+  'ground', 'groups', 'grover', 'grumpy', 'gryphon', 'gsxr1000', 'gsxr750', 'gthcbr', 'gtnhjdbx',
+  'guardian', 'guillaum', 'guillerm', 'guiness', 'guinness', 'guitar', 'guitar1', 'guitars',
+  'gundam', 'gunnar', 'gunner', 'gunners', 'gunther', 'gustav', 'gustavo', 'guyver', 'gymnast',
+  'habibi', 'hacked', 'hacker', 'hacking', 'haggis', 'hailey', 'hairball', 'hal9000', 'halflife',
+  'halifax', 'hallie', 'hallo123', 'hallowee', 'halloween', 'hambone', 'hamburg', 'hamilton',
+  'hamish', 'hamlet', 'hammer', 'hammer1', 'hammers', 'hammond', 'hamper', 'hampton', 'hamster',
+  'hancock', 'handbag', 'handball', 'handsome', 'handyman', 'hannah', 'hannah1', 'hannes',
+  'hannibal', 'hansen', 'hansol', 'hansolo', 'hanson', 'hanuman', 'happines', 'happiness',
+  'happy1', 'happy123', 'happy2', 'happyday', 'happyman', 'harald', 'harbor', 'harcore',
+  'hardball', 'hardcock', 'hardcore', 'harddick', 'harder', 'hardon', 'hardone', 'hardrock',
+  'hardware', 'hardwood', 'harlem', 'harley', 'harley1', 'harman', 'harmon', 'harmony', 'harold',
+  'harper', 'harpoon', 'harrier', 'harriet', 'harris', 'harrison', 'harry1', 'harrypotter',
+  'hartford', 'harvard', 'harvest', 'harvey', 'hassan', 'hastings', 'hatred', 'hatter', 'hattrick',
+  'havana', 'havefun', 'having', 'hawaii', 'hawaii50', 'hawaiian', 'hawkeye', 'hawkeyes',
+  'hawkins', 'hayabusa', 'hayden', 'hayley', 'hazard', 'health', 'hearts', 'heater', 'heather',
+  'heather1', 'heaven', 'heavenly', 'heckfy', 'hector', 'hedgehog', 'heidi1', 'heineken',
+  'heinrich', 'hejsan', 'helena', 'helene', 'helios', 'hellas', 'hellboy', 'hellfire', 'hello1',
+  'hello12', 'hello123', 'hello2', 'hellokitty', 'helloo', 'hellos', 'hellsing', 'hellyeah',
+  'helmet', 'helmut', 'helper', 'helpme', 'helsinki', 'hemlock', 'hendrix', 'henrik', 'henry1',
+  'hentai', 'herbert', 'herbie', 'hercules', 'herewego', 'heritage', 'herman', 'hermes', 'heroes',
+  'herring', 'hershey', 'hesoyam', 'hetfield', 'hewitt', 'hewlett', 'heynow', 'heyyou', 'hfytnrb',
+  'hidden', 'higgins', 'highbury', 'highheel', 'highland', 'highlander', 'highlife', 'highway',
+  'hiking', 'hilary', 'hillary', 'hillbill', 'hillside', 'hilltop', 'hilton', 'hiphop', 'hippie',
+  'history', 'hitachi', 'hithere', 'hitler', 'hitman', 'hiziad', 'hjccbz', 'hjvfirf', 'hobart',
+  'hobbes', 'hobbit', 'hockey', 'hockey1', 'hoffman', 'hogtied', 'hokies', 'holden', 'holein1',
+  'holger', 'holiday', 'holidays', 'holland', 'hollie', 'hollow', 'holly1', 'hollywoo',
+  'hollywood', 'holmes', 'holycow', 'holyshit', 'homeboy', 'homemade', 'homepage', 'homer1',
+  'homerj', 'homers', 'homerun', 'homework', 'honda1', 'hondacbr', 'hondas', 'honduras', 'honest',
+  'honesty', 'honey1', 'honeybee', 'honeybun', 'honeys', 'hongkong', 'honolulu', 'hookem',
+  'hooker', 'hookers', 'hookup', 'hooligan', 'hooper', 'hoosier', 'hoosiers', 'hooter', 'hooters',
+  'hootie', 'hoover', 'hooyah', 'hopeful', 'hopeless', 'hopkins', 'hopper', 'horace', 'horatio',
+  'horizon', 'horndog', 'hornet', 'hornets', 'horney', 'horny1', 'horror', 'horse1', 'horses',
+  'horton', 'hospital', 'hotass', 'hotbox', 'hotboy', 'hotdog', 'hotgirl', 'hotgirls', 'hotlips',
+  'hotone', 'hotpussy', 'hotrats', 'hotred', 'hotrod', 'hotsex', 'hotshot', 'hotstuff', 'hottest',
+  'hottie', 'hotties', 'houdini', 'hounddog', 'house1', 'houses', 'housewifes', 'houston',
+  'houston1', 'howard', 'howell', 'htubcnhfwbz', 'hubert', 'hudson', 'hugetits', 'hughes',
+  'hugoboss', 'humbug', 'hummer', 'humphrey', 'hungry', 'hunter', 'hunter1', 'hunting', 'hurley',
+  'hurrican', 'hurricane', 'husband', 'husker', 'huskers', 'huskers1', 'huskies', 'hustler',
+  'hydrogen', 'hyperion', 'hyundai', 'iamgod', 'ib6ub9', 'ibanez', 'ibrahim', 'icarus', 'iceberg',
+  'icecold', 'icecream', 'icecube', 'icehouse', 'iceland', 'iceman', 'iceman1', 'icu812', 'idefix',
+  'idontkno', 'idontknow', 'idunno', 'iforget', 'iforgot', 'iguana', 'ihateyou', 'ijrjkfl',
+  'ilikeit', 'ilikepie', 'illini', 'illinois', 'illusion', 'ilovegod', 'iloveme', 'ilovepussy',
+  'ilovesex', 'iloveu', 'iloveyo', 'iloveyou', 'iloveyou1', 'iloveyou2', 'ilya1234', 'imagine',
+  'imation', 'immortal', 'impact', 'impala', 'imperial', 'implants', 'impreza', 'incubus',
+  'indain', 'india123', 'indian', 'indiana', 'indians', 'indigo', 'indira', 'infamous', 'infantry',
+  'infected', 'inferno', 'infiniti', 'infinity', 'information', 'ingrid', 'inlove', 'innocent',
+  'insane', 'insanity', 'insert', 'inside', 'insight', 'insomnia', 'inspiron', 'install',
+  'instant', 'instinct', 'integra', 'integral', 'interacial', 'intercourse', 'interest',
+  'internal', 'interne', 'internet', 'intrepid', 'intruder', 'inuyasha', 'invest', 'iomega',
+  'ipswich', 'ireland', 'ireland1', 'irinka', 'irish1', 'irishka', 'irishman', 'iriska',
+  'ironmaiden', 'ironman', 'irving', 'isabel', 'isabell', 'isabella', 'isabelle', 'isaiah',
+  'iscool', 'island', 'islander', 'ismail', 'israel', 'issues', 'istanbul', 'istheman', 'italia',
+  'italian', 'italiano', 'itisme', 'ivanov', 'ivanova', 'iverson', 'iverson3', 'iwantu', 'jabber',
+  'jabroni', 'jackal', 'jackass', 'jackass1', 'jackie', 'jackie1', 'jackjack', 'jackoff',
+  'jackpot', 'jackson', 'jackson1', 'jackson5', 'jacob1', 'jacobs', 'jacques', 'jaeger', 'jagger',
+  'jaguar', 'jaguar1', 'jaguars', 'jakarta', 'jakejake', 'jamaica', 'james007', 'james1',
+  'james123', 'jamesbon', 'jamesbond', 'jameson', 'jamess', 'jamie1', 'jammer', 'jammin',
+  'janelle', 'janice', 'janine', 'january', 'japanese', 'jarhead', 'jarrett', 'jarrod', 'jarvis',
+  'jasmin', 'jasmine', 'jasmine1', 'jason1', 'jasper', 'javelin', 'javier', 'jaybird', 'jayden',
+  'jayhawk', 'jayhawks', 'jayson', 'jazzman', 'jeanette', 'jeanne', 'jeannie', 'jeeper', 'jeepers',
+  'jeepster', 'jefferso', 'jefferson', 'jeffery', 'jeffrey', 'jeffrey1', 'jehovah', 'jellybea',
+  'jellybean', 'jenifer', 'jenkins', 'jennaj', 'jennie', 'jennife', 'jennifer', 'jennifer1',
+  'jennings', 'jenny1', 'jensen', 'jeremiah', 'jeremy', 'jeremy1', 'jericho', 'jerkoff',
+  'jermaine', 'jerome', 'jerry1', 'jersey', 'jesper', 'jesse1', 'jessic', 'jessica', 'jessica1',
+  'jessica2', 'jessie', 'jester', 'jesus1', 'jesus123', 'jesus777', 'jeter2', 'jethro', 'jetski',
+  'jewels', 'jewish', 'jezebel', 'jiggaman', 'jillian', 'jimbeam', 'jimbo1', 'jimbob', 'jimmie',
+  'jimmy1', 'jimmys', 'jingle', 'jingles', 'jktxrf', 'jktymrf', 'joanna', 'joanne', 'jocelyn',
+  'jockey', 'joe123', 'joebob', 'joecool', 'joejoe', 'joelle', 'joemama', 'johann', 'johanna',
+  'johannes', 'john123', 'john316', 'johnboy', 'johncena', 'johndeer', 'johndoe', 'johngalt',
+  'johnjohn', 'johnnie', 'johnny', 'johnny1', 'johnny5', 'johnson', 'johnson1', 'joker1', 'jokers',
+  'jolene', 'jomama', 'jonatha', 'jonathan', 'jonathon', 'jones1', 'jonesy', 'jordan', 'jordan1',
+  'jordan2', 'jordan23', 'jordon', 'joseph', 'joseph1', 'josephin', 'joshua', 'joshua1', 'josiah',
+  'journey', 'joystick', 'jrcfyf', 'jsbach', 'juanita', 'jubilee', 'judith', 'juggalo', 'jughead',
+  'julia1', 'julian', 'juliana', 'julie1', 'julien', 'juliet', 'juliette', 'julius', 'jumper',
+  'junebug', 'jungle', 'junior', 'junior1', 'juniper', 'junkie', 'junkmail', 'jupiter', 'jupiter1',
+  'jupiter2', 'jurassic', 'just4fun', 'just4me', 'justdoit', 'justice', 'justice1', 'justin',
+  'justin1', 'justine', 'justme', 'justus', 'juventus', 'k.lvbkf', 'kaboom', 'kahlua', 'kahuna',
+  'kaiser', 'kaitlyn', 'kakashi', 'kakashka', 'kaktus', 'kalina', 'kamasutra', 'kamikadze',
+  'kamikaze', 'kamila', 'kamilla', 'kangaroo', 'kansas', 'karachi', 'karaoke', 'karate', 'karen1',
+  'karina', 'karine', 'karolina', 'kashmir', 'kasper', 'katana', 'katarina', 'katelyn', 'katerina',
+  'katherin', 'katherine', 'kathleen', 'kathryn', 'kathy1', 'katie1', 'katrin', 'katrina',
+  'kawasaki', 'kaylee', 'kayleigh', 'kazantip', 'kcchiefs', 'kcj9wx5n', 'keegan', 'keenan',
+  'keeper', 'keepout', 'keisha', 'keith1', 'keller', 'kelley', 'kellie', 'kelly1', 'kelsey',
+  'kelvin', 'kendall', 'kendra', 'kennedy', 'kenneth', 'kenneth1', 'kenny1', 'kenobi', 'kenshin',
+  'kentucky', 'kenwood', 'kenworth', 'kenzie', 'kermit', 'kernel', 'kerouac', 'kerstin', 'kestrel',
+  'kevin1', 'keyboard', 'keystone', 'keywest', 'kfgjxrf', 'kfhbcf', 'kickass', 'kicker',
+  'kicksass', 'kidrock', 'kieran', 'kikimora', 'killbill', 'killer', 'killer1', 'killer12',
+  'killer123', 'killers', 'killian', 'killjoy', 'killkill', 'killme', 'kilroy', 'kimball',
+  'kimber', 'kimberly', 'kimmie', 'kinder', 'kingdom', 'kingfish', 'kingking', 'kingkong',
+  'kingpin', 'kingston', 'kipper', 'kirill', 'kirkland', 'kirsten', 'kirsty', 'kismet', 'kisses',
+  'kissing', 'kisskiss', 'kissme', 'kissmyas', 'kissmyass', 'kitchen', 'kiteboy', 'kitkat',
+  'kitten', 'kittens', 'kittie', 'kitties', 'kitty1', 'kittycat', 'kittykat', 'kittys', 'kjkszpj',
+  'kjrjvjnbd', 'klaste', 'klaster', 'kleopatra', 'klingon', 'klizma', 'klondike', 'knickers',
+  'knicks', 'knight', 'knight1', 'knights', 'knockers', 'knopka', 'knuckles', 'kodiak', 'kokomo',
+  'kolbasa', 'kolobok', 'kolokol', 'komodo', 'konstantin', 'kontakt', 'kontol', 'koolaid',
+  'kordell1', 'korean', 'koroleva', 'korova', 'koshka', 'kosmos', 'kostya', 'kotaku', 'kotenok',
+  'kramer', 'krasotka', 'krishna', 'krissy', 'krista', 'kristen', 'kristen1', 'kristi', 'kristian',
+  'kristie', 'kristin', 'kristin1', 'kristina', 'kristine', 'kristy', 'krokodil', 'krolik',
+  'kronos', 'krusty', 'krypton', 'krystal', 'ksenia', 'ksusha', 'ktyjxrf', 'kubrick', 'kungfu',
+  'kurtis', 'labrador', 'labtec', 'lacoste', 'lacrosse', 'ladder', 'laddie', 'ladies', 'ladyboy',
+  'ladybug', 'laetitia', 'lagnaf', 'laguna', 'lakers', 'lakers1', 'lakeside', 'lakewood', 'lakota',
+  'lalakers', 'lambda', 'lambert', 'lamont', 'lancelot', 'lancer', 'lancia', 'lander', 'landmark',
+  'landon', 'lansing', 'lantern', 'lapochka', 'laptop', 'larisa', 'larissa', 'larkin', 'larry1',
+  'larsen', 'larson', 'laser1', 'laserjet', 'lassie', 'lasvega', 'lasvegas', 'latina', 'latinas',
+  'latino', 'laughing', 'laura1', 'laurel', 'lauren', 'lauren1', 'laurence', 'laurent', 'laurie',
+  'lavalamp', 'lawman', 'lawrence', 'lawson', 'lawyer', 'lazarus', 'leader', 'leanne', 'leather',
+  'leavemealone', 'leaves', 'lebowski', 'ledzep', 'leeann', 'leedsutd', 'left4dead', 'legacy',
+  'legend', 'legenda', 'legion', 'legman', 'legolas', 'lehjxrf', 'leinad', 'lekker', 'leland',
+  'lemans', 'lemmein', 'lemonade', 'lemons', 'lennon', 'lennox', 'lenochka', 'leonard', 'leonardo',
+  'leonid', 'leonidas', 'leonie', 'leopard', 'leopold', 'lesbian', 'lesbians', 'lesley', 'leslie',
+  'lespaul', 'lestat', 'lester', 'letme1n', 'letmei', 'letmein', 'letmein1', 'letmein2',
+  'letsdoit', 'letsfuck', 'letsgo', 'letter', 'lexmark', 'lfitymrf', 'lfybbk', 'lfybkf', 'lhfrjy',
+  'libero', 'libertad', 'liberty', 'liberty1', 'library', 'licker', 'licking', 'lickit', 'lickme',
+  'lifehack', 'lifetime', 'light1', 'lighter', 'lighthou', 'lighting', 'lightnin', 'lightning',
+  'lights', 'lilbit', 'lilian', 'liliana', 'lilith', 'liliya', 'lillian', 'lillie', 'lilwayne',
+  'limewire', 'limited', 'lincoln', 'lincoln1', 'linda1', 'linden', 'lindros', 'lindsay',
+  'lindsey', 'lineage', 'lineage2', 'linkin', 'lionel', 'lionhear', 'lionheart', 'lionking',
+  'lipstick', 'lipton', 'liquid', 'lisalisa', 'listen', 'lister', 'lithium', 'little', 'little1',
+  'livelife', 'liverpoo', 'liverpool', 'liverpool1', 'livewire', 'living', 'lizard', 'lizzard',
+  'lizzie', 'ljxtymrf', 'llamas', 'loaded', 'loader', 'lobster', 'lockdown', 'lockout', 'locoloco',
+  'locust', 'locutus', 'logan1', 'logger', 'logitech', 'lokiloki', 'lokomotiv', 'lol123',
+  'lol12345', 'lolipop', 'lolita', 'lollipop', 'lollol', 'lollypop', 'london', 'london1', 'lonely',
+  'lonesome', 'lonestar', 'lonewolf', 'longbow', 'longdong', 'longer', 'longhair', 'longhorn',
+  'longjohn', 'lonnie', 'looker', 'lookin', 'looking', 'lookout', 'looney', 'looser', 'lorena',
+  'lorenzo', 'loretta', 'lorraine', 'losangeles', 'loser1', 'losers', 'lottie', 'louise', 'loulou',
+  'lourdes', 'love12', 'love123', 'love1234', 'love69', 'lovebug', 'lovehate', 'loveis', 'loveit',
+  'loveless', 'lovelife', 'lovelove', 'lovely', 'loveme', 'lover1', 'loverboy', 'loverman',
+  'lovers', 'lovesex', 'loveya', 'loveyou', 'loving', 'lowell', 'lowrider', 'ltkmaby', 'ltybcrf',
+  'lucas1', 'luciano', 'lucifer', 'lucille', 'lucky1', 'lucky123', 'lucky13', 'lucky7', 'luckydog',
+  'luckyone', 'ludacris', 'ludmila', 'ludwig', 'lumber', 'lumina', 'lunatic', 'lunchbox', 'luther',
+  'lvbnhbq', 'm123456', 'macaroni', 'macbeth', 'macdaddy', 'macgyver', 'machine', 'macintos',
+  'mackie', 'macleod', 'macman', 'macross', 'madagaskar', 'madcat', 'madcow', 'madden', 'maddie',
+  'maddog', 'madeline', 'madina', 'madison', 'madison1', 'madman', 'madmax', 'madness', 'madonna',
+  'madrid', 'maestro', 'magazine', 'magelan', 'magellan', 'magenta', 'maggie', 'maggie1', 'maggot',
+  'magic1', 'magic123', 'magic32', 'magical', 'magician', 'magick', 'magicman', 'magnet',
+  'magneto', 'magnolia', 'magnum', 'magnus', 'magpie', 'magpies', 'mahler', 'maiden',
+  'mailcreated5240', 'mailman', 'mailru', 'maison', 'majestic', 'makaka', 'makaveli', 'makayla',
+  'makeitso', 'maksim', 'maksimka', 'malachi', 'malaka', 'malaysia', 'malcolm', 'malibu', 'malice',
+  'malika', 'malina', 'malinka', 'malish', 'mallard', 'mallorca', 'mallory', 'mallrats', 'malone',
+  'mama123', 'mamacita', 'mamamia', 'mamapapa', 'mammoth', 'mamochka', 'manager', 'manchest',
+  'manchester', 'mancity', 'mandarin', 'mandingo', 'mandrake', 'mandy1', 'manfred', 'mangos',
+  'maniac', 'manila', 'mankind', 'manning', 'manolo', 'manowar', 'manson', 'mantis', 'mantle',
+  'mantra', 'manuel', 'manuela', 'manunited', 'manutd', 'maradona', 'marathon', 'marauder',
+  'marble', 'marbles', 'marcel', 'marcella', 'marcello', 'marcelo', 'marcia', 'marcin', 'marcius2',
+  'marcos', 'marcus', 'margaret', 'margarit', 'margarita', 'margie', 'margot', 'maria1', 'mariah',
+  'mariam', 'marian', 'mariana', 'marianna', 'marianne', 'marie1', 'mariel', 'marijuan',
+  'marijuana', 'marika', 'marilyn', 'marina', 'marine', 'marine1', 'mariner', 'mariners',
+  'marines', 'marines1', 'marino', 'marino13', 'mario1', 'mario66', 'marion', 'mariposa', 'marisa',
+  'marissa', 'marius', 'mariya', 'marjorie', 'marker', 'market', 'markie', 'markiz', 'markmark',
+  'markus', 'marlboro', 'marlene', 'marley', 'marlin', 'marlon', 'marquis', 'marriage', 'married',
+  'marseill', 'marseille', 'marsha', 'marshal', 'marshall', 'martha', 'martian', 'martin',
+  'martin1', 'martina', 'martine', 'martinez', 'martini', 'marty1', 'marvel', 'marvin', 'maryann',
+  'maryjane', 'maryland', 'masamune', 'maserati', 'mash4077', 'mashka', 'mason1', 'massage',
+  'massimo', 'massive', 'master', 'master1', 'master12', 'masterbate', 'masterbating',
+  'mastermind', 'masterp', 'masters', 'matador', 'matchbox', 'mathew', 'mathias', 'matilda',
+  'matisse', 'matrix', 'matrix1', 'matteo', 'matthe', 'matthew', 'matthew1', 'matthews',
+  'matthias', 'mattie', 'mature', 'maureen', 'maurice', 'maurici', 'maurizio', 'maveric',
+  'maverick', 'max123', 'max333', 'maxdog', 'maxell', 'maxima', 'maxime', 'maximka', 'maximo',
+  'maximum', 'maximus', 'maxine', 'maxmax', 'maxpower', 'maxwell', 'maxwell1', 'maxxxx', 'mayday',
+  'mayhem', 'maynard', 'mazafaka', 'mazda3', 'mazda323', 'mazda6', 'mazda626', 'mazdarx7',
+  'mcdonald', 'mckenzie', 'mclaren', 'meadow', 'meagan', 'meatball', 'meathead', 'meatloaf',
+  'mechanic', 'medic1', 'medical', 'medicine', 'medina', 'medion', 'medusa', 'medved', 'megadeth',
+  'megaman', 'megan1', 'megane', 'megapass', 'megatron', 'meggie', 'meghan', 'meister', 'melani',
+  'melanie', 'melanie1', 'melina', 'melinda', 'melisa', 'meliss', 'melissa', 'melissa1', 'mellon',
+  'mellow', 'melody', 'melons', 'melrose', 'melvin', 'member', 'memorex', 'memory', 'memphis',
+  'menace', 'mendoza', 'mental', 'menthol', 'mentor', 'meowmeow', 'mephisto', 'mercede',
+  'mercedes', 'mercer', 'merchant', 'mercury', 'mercury1', 'meredith', 'meridian', 'merlin',
+  'merlin1', 'merlot', 'mermaid', 'mersedes', 'messenger', 'messiah', 'met2002', 'metal1',
+  'metall', 'metallic', 'metallica', 'metallica1', 'meteor', 'method', 'methos', 'metroid',
+  'mexican', 'mexico', 'miami1', 'michae', 'michael', 'michael1', 'michael2', 'michaela',
+  'michaels', 'michal', 'micheal', 'michel', 'michele', 'michell', 'michelle', 'michigan',
+  'mickey', 'mickey1', 'microlab', 'micron', 'microphone', 'microsof', 'microsoft', 'middle',
+  'midget', 'midland', 'midnight', 'midnite', 'midway', 'mierda', 'mighty', 'miguel', 'mihail',
+  'mikael', 'mike123', 'mike1234', 'mikemike', 'mikey1', 'mikkel', 'milana', 'milano', 'mildred',
+  'milena', 'military', 'milkman', 'millenium', 'miller', 'miller1', 'millie', 'million',
+  'millions', 'millwall', 'milton', 'minecraft', 'minemine', 'minerva', 'mingus', 'minime',
+  'minimoni', 'ministry', 'minnesot', 'minnie', 'miracle', 'mirage', 'miranda', 'miriam', 'mirror',
+  'mischief', 'misery', 'misfit', 'misfit99', 'misfits', 'mishka', 'misiek', 'missie', 'mission',
+  'mississi', 'mississippi', 'missouri', 'missy1', 'mister', 'mistress', 'misty1', 'mitchell',
+  'mittens', 'mizuno', 'mizzou', 'mobile', 'mobydick', 'models', 'modelsne', 'modena', 'modern',
+  'mogwai', 'mohamed', 'mohammad', 'mohammed', 'mohawk', 'mollie', 'molly1', 'molly123',
+  'mollydog', 'moloko', 'molson', 'momdad', 'mommy1', 'momoney', 'monaco', 'monalisa', 'monarch',
+  'monday', 'mondeo', 'money1', 'money12', 'money123', 'moneyman', 'moneys', 'mongoose', 'monica',
+  'monika', 'monique', 'monitor', 'monkey', 'monkey1', 'monkey12', 'monkey69', 'monkeybo',
+  'monkeyboy', 'monkeys', 'monopoly', 'monroe', 'monste', 'monster', 'monster1', 'monsters',
+  'montag', 'montana', 'montana1', 'montecar', 'monterey', 'montgom240', 'montreal', 'montrose',
+  'monty1', 'moocow', 'mookie', 'moomoo', 'moonbeam', 'moondog', 'mooney', 'moonligh', 'moonlight',
+  'moonman', 'moonshin', 'moose1', 'mooses', 'morales', 'mordor', 'morena', 'moreno', 'morgan',
+  'morgan1', 'morgana', 'morgoth', 'moritz', 'morning', 'morpheus', 'morris', 'morrison',
+  'morrowind', 'mortal', 'morten', 'mortgage', 'mortimer', 'mortis', 'morton', 'moscow', 'moskva',
+  'mother', 'mother1', 'motherfucker', 'motherlode', 'mothers', 'motion', 'motley', 'motocros',
+  'motorola', 'motown', 'mountain', 'mouse1', 'mouser', 'mouses', 'mousey', 'movies', 'mozart',
+  'mudvayne', 'mufasa', 'muffin', 'muffin1', 'muhammad', 'mulder', 'mullet', 'mulligan',
+  'multiplelo', 'munchkin', 'munich', 'muppet', 'murder', 'murphy', 'murphy1', 'murray', 'murzik',
+  'musashi', 'muschi', 'muscle', 'muscles', 'mushroom', 'music1', 'musica', 'musical', 'musician',
+  'musicman', 'muslim', 'mustafa', 'mustan', 'mustang', 'mustang1', 'mustang2', 'mustang5',
+  'mustang6', 'mustangs', 'mustard', 'mutant', 'mutley', 'mybaby', 'mydick', 'mygirl', 'mygirls',
+  'mykids', 'mylife', 'mylove', 'myname', 'mynameis', 'mypass', 'mypassword', 'myporn', 'myrtle',
+  'myself', 'myspace1', 'mystery', 'mystic', 'mytime', 'myworld', 'myxworld', 'nachos', 'nadine',
+  'namaste', 'nancy1', 'nancy123', 'nanook', 'napalm', 'napass', 'napoleon', 'napoli', 'napster',
+  'narnia', 'naruto', 'nascar', 'nascar1', 'nascar24', 'nassau', 'nastena', 'nastia', 'nasty1',
+  'nastya', 'natali', 'natalia', 'natalie', 'natalie1', 'nataly', 'natalya', 'natasha', 'natasha1',
+  'natchez', 'natedogg', 'nathalie', 'nathan', 'nathan1', 'nathanie', 'nation', 'national',
+  'native', 'natural', 'nature', 'naughty', 'naughty1', 'nautica', 'nautilus', 'navajo',
+  'navigator', 'navyseal', 'nazgul', 'nbvjatq', 'ncc1701', 'ncc1701a', 'ncc1701d', 'ncc1701e',
+  'ncc74656', 'ne1469', 'nebraska', 'needles', 'negative', 'nellie', 'nelson', 'nemesis',
+  'nemrac58', 'neptune', 'nermal', 'nestle', 'nestor', 'netscape', 'network', 'neutron', 'nevada',
+  'nevermin', 'nevermind', 'nevermore', 'nevets', 'neville', 'newark', 'newbie', 'newcastl',
+  'newcastle', 'newlife', 'newman', 'newness', 'newpass', 'newpass6', 'newport', 'newton',
+  'newuser', 'newyear', 'newyork', 'newyork1', 'nextel', 'nfhfrfy', 'nfnmzyf', 'nfytxrf', 'nguyen',
+  'niceass', 'niceguy', 'nicetits', 'nicholas', 'nichole', 'nickel', 'nicola', 'nicolas', 'nicole',
+  'nicole1', 'nigger', 'niggers', 'nightmar', 'nightmare', 'nightowl', 'nights', 'nightwin',
+  'nightwish', 'nikita', 'nikitos', 'nikki1', 'nikola', 'nikolai', 'nikolas', 'nikolay', 'nimbus',
+  'nimitz', 'nimrod', 'nineball', 'nineinch', 'niners', 'nineteen', 'ninja1', 'ninjas', 'nintendo',
+  'nipper', 'nipple', 'nipples', 'nirvana', 'nirvana1', 'nissan', 'nissan1', 'nitram', 'nittany',
+  'nobody', 'noelle', 'nofear', 'nokia1', 'nokia123', 'nokia5530', 'nokia5800', 'nokia6233',
+  'nokia6300', 'nokian73', 'noles1', 'nolimit', 'nomore', 'noname', 'noname123', 'nonenone',
+  'noodle', 'noodles', 'nookie', 'nopass', 'nopassword', 'norbert', 'norfolk', 'normal', 'norman',
+  'normandy', 'norris', 'northern', 'norton', 'norway', 'norwich', 'nosferatu', 'nostromo',
+  'notebook', 'nothing', 'nothing1', 'notnow', 'notredam', 'notused', 'nounours', 'novell',
+  'november', 'nthvbyfnjh', 'ntktajy', 'ntktdbpjh', 'nuclear', 'nudist', 'nugget', 'nuggets',
+  'number', 'number1', 'nurlan', 'nurses', 'nursing', 'nutmeg', 'nutter', 'nuttertools',
+  'nwo4life', 'nygiants', 'nyjets', 'nylons', 'nymets', 'nympho', 'oakland', 'oakley', 'oaktree',
+  'oatmeal', 'obelix', 'oberon', 'obiwan', 'objects', 'oblivion', 'obsidian', 'oceans', 'ocelot',
+  'october', 'octopus', 'odessa', 'odyssey', 'office', 'officer', 'offshore', 'ohmygod', 'ohshit',
+  'ohyeah', 'oicu812', 'oilers', 'okinawa', 'oklahoma', 'oksana', 'oldman', 'olemiss', 'olenka',
+  'olesya', 'oliver', 'oliver1', 'olivia', 'olivier', 'olympia', 'olympic', 'olympus', 'omega1',
+  'onelove', 'onetime', 'onetwo', 'onions', 'online', 'onlyme', 'onlyone', 'ontario', 'opendoor',
+  'openit', 'opennow', 'openup', 'operator', 'ophelia', 'opiate', 'optimist', 'optimus', 'option',
+  'options', 'oracle', 'orange', 'orange1', 'oranges', 'orchard', 'orchid', 'oregon', 'orgasm',
+  'orient', 'original', 'orioles', 'orion1', 'orlando', 'orpheus', 'oscar1', 'oscars', 'osiris',
+  'osprey', 'oswald', 'othello', 'ottawa', 'ou8122', 'ou8123', 'outback', 'outkast', 'outlaw',
+  'outside', 'outsider', 'overkill', 'overlord', 'ownage', 'oxford', 'oxygen', 'oyster',
+  'p0015123', 'p0o9i8', 'p0o9i8u7', 'p4ssw0rd', 'p@ssw0rd', 'pa55w0rd', 'pa55word', 'pacers',
+  'pacific', 'pacino', 'packard', 'packer', 'packers', 'packers1', 'pacman', 'paddle', 'padres',
+  'paintbal', 'paintball', 'painter', 'painting', 'paisley', 'pajero', 'pakista', 'pakistan',
+  'palace', 'paladin', 'paladin1', 'palermo', 'pallmall', 'palmer', 'palmtree', 'paloma', 'pamela',
+  'panama', 'panasoni', 'panasonic', 'pancake', 'pancakes', 'pancho', 'panda1', 'pandas',
+  'pandora', 'panhead', 'panter', 'pantera', 'pantera1', 'panther', 'panther1', 'panthers',
+  'panties', 'pantyhos', 'panzer', 'papamama', 'paperino', 'papers', 'papillon', 'papito',
+  'paradigm', 'paradis', 'paradise', 'paradox', 'paragon', 'paramedi', 'paranoid', 'paris1',
+  'parker', 'parkour', 'parlament', 'parola', 'parrot', 'partner', 'pasadena', 'pascal', 'pass123',
+  'pass1234', 'passat', 'passes', 'passion', 'passmast', 'passme', 'passord', 'passpass',
+  'passport', 'passw0rd', 'passwd', 'passwor', 'passwor1', 'password', 'password01', 'password1',
+  'password11', 'password12', 'password123', 'password2', 'password9', 'password99', 'passwords',
+  'passwort', 'pastor', 'pasword', 'patches', 'patches1', 'pathetic', 'pathfind', 'patience',
+  'patric', 'patrice', 'patrici', 'patricia', 'patrick', 'patrick1', 'patrik', 'patriot',
+  'patriots', 'patrol', 'patton', 'paulie', 'paulin', 'paulina', 'pauline', 'paulpaul', 'pavement',
+  'pavilion', 'pavlik', 'pavlov', 'paxton', 'payday', 'payton', 'pdtplf', 'peabody', 'peace1',
+  'peaches', 'peaches1', 'peachy', 'peacock', 'peanut', 'peanut1', 'peanuts', 'pearl1', 'pearljam',
+  'pearls', 'pearson', 'peavey', 'pebble', 'pebbles', 'pecker', 'peddler', 'peekaboo', 'peeper',
+  'peewee', 'pegasus', 'pelican', 'pencil', 'penelope', 'penetration', 'penguin', 'penguin1',
+  'penguins', 'penis1', 'penny1', 'pentagon', 'penthous', 'pentium', 'people', 'pepito', 'pepper',
+  'pepper1', 'peppers', 'pepsi1', 'perfect', 'perfect1', 'perkins', 'persian', 'persik', 'person',
+  'persona', 'personal', 'pertinant', 'pervert', 'peter1', 'peterbil', 'peterpan', 'peters',
+  'peterson', 'petrov', 'petrova', 'petrovich', 'petunia', 'peugeot', 'peyton', 'phantom',
+  'phantom1', 'pharao', 'pharmacy', 'pheonix', 'phialpha', 'philip', 'philipp', 'philippe',
+  'philips', 'phillies', 'phillip', 'phillips', 'philly', 'phish1', 'phoebe', 'phoeni', 'phoenix',
+  'phoenix1', 'photo1', 'photon', 'photos', 'phyllis', 'physics', 'pianoman', 'pianos', 'piazza',
+  'picard', 'picasso', 'piccolo', 'pickle', 'pickles', 'pickup', 'picture', 'pictures', 'picturs',
+  'pierce', 'piercing', 'pierre', 'pigeon', 'piggies', 'piglet', 'pigpen', 'pikachu', 'pilgrim',
+  'pillow', 'pimpdadd', 'pimpdaddy', 'pimpin', 'pimping', 'pinball', 'pineappl', 'pineapple',
+  'pinetree', 'pingpong', 'pinhead', 'pinkfloy', 'pinkfloyd', 'pinkie', 'pinky1', 'pinnacle',
+  'pioneer', 'pipeline', 'pippen', 'pippen33', 'pippin', 'piramida', 'pirate', 'pirates', 'pisces',
+  'pisser', 'pissing', 'pissoff', 'pistol', 'piston', 'pistons', 'pitbull', 'pitcher', 'pitchers',
+  'pixies', 'pizdec', 'pizza1', 'pizzahut', 'pizzaman', 'pizzas', 'pjkjnj', 'placebo', 'placid',
+  'planes', 'planet', 'plants', 'plasma', 'plastic', 'plastics', 'platinum', 'platon', 'platypus',
+  'playball', 'playboy', 'playboy1', 'playboy2', 'player', 'player1', 'players', 'playing',
+  'playmate', 'playstat', 'playstation', 'playtime', 'please', 'please1', 'pleasure', 'ploppy',
+  'plumber', 'plymouth', 'pobeda', 'pocket', 'poetry', 'pointer', 'poison', 'pokemo', 'pokemon',
+  'pokemon1', 'poker1', 'poland', 'polaris', 'police', 'polina', 'polish', 'pollux',
+  'polniypizdec0211', 'polopolo', 'polska', 'pommes', 'pompey', 'poncho', 'pontiac', 'poochie',
+  'poodle', 'poohbear', 'pookey', 'pookie', 'pool6123', 'poontang', 'poop123', 'pooper',
+  'poophead', 'poopie', 'poopoo', 'pooppoop', 'pooter', 'popcorn', 'popcorn1', 'popeye', 'popova',
+  'popper', 'poppy1', 'poptart', 'porkchop', 'pornking', 'porno1', 'pornos', 'pornporn',
+  'pornstar', 'porsche', 'porsche1', 'porsche9', 'portal', 'porter', 'portia', 'portland',
+  'portugal', 'poseidon', 'positive', 'possum', 'postal', 'poster', 'postman', 'potato', 'pothead',
+  'potter', 'powder', 'powell', 'power1', 'power123', 'powerful', 'powerman', 'powers', 'prague',
+  'praise', 'prayer', 'prayers', 'preacher', 'precious', 'predator', 'prelude', 'premier',
+  'premium', 'presario', 'presiden', 'president', 'presley', 'pressure', 'presto', 'preston',
+  'pretty', 'pretzel', 'priest', 'primus', 'prince', 'prince1', 'princes', 'princesa', 'princess',
+  'princess1', 'pringles', 'printer', 'printing', 'prissy', 'privacy', 'private', 'private1',
+  'privet', 'pro100', 'probes', 'prodigy', 'producer', 'profile', 'profit', 'program', 'progress',
+  'project', 'promise', 'property', 'prophecy', 'prophet', 'prospect', 'prosper', 'protect',
+  'protocol', 'proton', 'prototype', 'proview', 'prowler', 'prozac', 'psycho', 'public', 'puddin',
+  'pudding', 'puffer', 'puffin', 'pufunga7782', 'pugsley', 'pulsar', 'pumper', 'pumpkin',
+  'pumpkin1', 'pumpkins', 'punisher', 'punkass', 'punker', 'punkin', 'punkrock', 'puppet',
+  'puppies', 'puppy1', 'puppydog', 'pupsik', 'purdue', 'purple', 'purple1', 'pushkin', 'pussey',
+  'pussie', 'pussies', 'pusssy', 'pussy1', 'pussy123', 'pussy69', 'pussycat', 'pussyman', 'pussys',
+  'putter', 'puzzle', 'pyramid', 'python', 'q11111', 'q12345', 'q123456', 'q1234567', 'q123456789',
+  'q1q2q3', 'q1q2q3q4q5', 'q1w2e3', 'q1w2e3r', 'q1w2e3r4', 'q1w2e3r4t5', 'q1w2e3r4t5y6', 'q2w3e4',
+  'q2w3e4r5', 'qawsed', 'qawsedrf', 'qaywsx', 'qaz123', 'qaz123wsx', 'qazqaz', 'qazwsx', 'qazwsx1',
+  'qazwsx12', 'qazwsx123', 'qazwsxed', 'qazwsxedc', 'qazwsxedc123', 'qazwsxedcrfv', 'qazxcv',
+  'qazxsw', 'qazxsw123', 'qazxswedc', 'qazzaq', 'qpalzm', 'qq123456', 'qqq111', 'qqqqq1', 'qqqwww',
+  'qqwwee', 'quality', 'quant4307s', 'quantum', 'quartz', 'quasar', 'quattro', 'quebec', 'queen1',
+  'queenie', 'queens', 'quentin', 'question', 'quincy', 'qw123456', 'qwaszx', 'qwe123',
+  'qwe123qwe', 'qwe321', 'qweasd', 'qweasd123', 'qweasdzx', 'qweasdzxc', 'qweasdzxc123', 'qwedsa',
+  'qweqwe', 'qwer12', 'qwer123', 'qwer1234', 'qwerasdf', 'qwerasdfzxcv', 'qwert1', 'qwert123',
+  'qwert12345', 'qwert40', 'qwerty', 'qwerty1', 'qwerty11', 'qwerty12', 'qwerty123', 'qwerty1234',
+  'qwerty12345', 'qwerty123456', 'qwerty13', 'qwerty7', 'qwertyu', 'qwertyui', 'qwertyuio',
+  'qwertyuiop', 'r2d2c3po', 'rabbit', 'rabbit1', 'rabbits', 'rabota', 'racecar', 'racer1',
+  'racers', 'racerx', 'rachael', 'rachel', 'rachel1', 'rachelle', 'racing', 'radeon', 'radical',
+  'radiohea', 'radiohead', 'raduga', 'rafael', 'ragnarok', 'raider', 'raiders', 'raiders1',
+  'railroad', 'rainbow', 'rainbow1', 'rainbow6', 'rainbows', 'rainer', 'raining', 'rainman',
+  'rainyday', 'raistlin', 'raleigh', 'ralph1', 'ralphie', 'rambler', 'rambo1', 'ramirez', 'ramjet',
+  'rammstein', 'ramona', 'ramones', 'rampage', 'ramrod', 'ramses', 'ramsey', 'rancid', 'randall',
+  'randolph', 'random', 'randy1', 'ranetki', 'ranger', 'ranger1', 'rangers', 'rangers1', 'raphael',
+  'rapper', 'raptor', 'raquel', 'rascal', 'rasdzv3', 'rasmus', 'rasputin', 'rastaman', 'ratboy',
+  'ratman', 'raven1', 'ravens', 'raymond', 'raymond1', 'rbhbkk', 'rctybz', 'reader', 'readers',
+  'reading', 'reagan', 'reality', 'really', 'realmadrid', 'reaper', 'reason', 'rebecca',
+  'rebecca1', 'rebel1', 'rebels', 'reboot', 'recall', 'reckless', 'record', 'records', 'recovery',
+  'red123', 'redalert', 'redbaron', 'redbird', 'redbone', 'redbull', 'redcar', 'reddevil',
+  'reddog', 'reddwarf', 'redeye', 'redfish', 'redfox', 'redhat', 'redhead', 'redheads', 'redhot',
+  'redleg', 'redlight', 'redline', 'redman', 'redneck', 'redone', 'redrose', 'redrum', 'redskin',
+  'redskins', 'redsox', 'redsox1', 'redstar', 'redwine', 'redwing', 'redwings', 'redwood',
+  'reebok', 'reefer', 'reeves', 'referee', 'reflex', 'reggae', 'reggie', 'regina', 'reginald',
+  'register', 'rehbwf', 'reilly', 'reload', 'reloaded', 'remember', 'remingto', 'remote', 'renata',
+  'renate', 'renato', 'renault', 'renegade', 'repair', 'report', 'reptile', 'republic', 'requiem',
+  'rereirf', 'rescue', 'research', 'reserve', 'resident', 'respect', 'restart', 'retard', 'retire',
+  'retired', 'return', 'reuben', 'reveal', 'revenge', 'review', 'revoluti', 'revolution',
+  'revolver', 'reynolds', 'rfgbnjirf', 'rfgecnf', 'rfhbyf', 'rfhfvtkmrf', 'rfhfylfi', 'rfhnjirf',
+  'rfnthbyf', 'rfntymrf', 'rfrfirf', 'rfrnec', 'rfvfcenhf', 'rhbcnbyf', 'rhfcfdbwf', 'rhfcjnf',
+  'rhfcjnrf', 'rhiannon', 'rhino1', 'rhinos', 'rhjkbr', 'rhjrjlbk', 'rhonda', 'rhtdtlrj',
+  'rhubarb', 'rhythm', 'ribbit', 'ricard', 'ricardo', 'riccardo', 'richar', 'richard', 'richard1',
+  'richards', 'richie', 'richmond', 'riddle', 'riders', 'riffraff', 'rightnow', 'riley1', 'rimmer',
+  'ringer', 'ripken', 'ripley', 'ripped', 'ripper', 'ripple', 'ritter', 'rivera', 'riverrat',
+  'rivers', 'riversid', 'rjhjkm', 'rjhjktdf', 'rjirfrgbde', 'rjntyjr', 'rjycnfynby', 'roadkill',
+  'roadking', 'roadrunn', 'roadrunner', 'roadster', 'roadway', 'robbie', 'robert', 'robert1',
+  'roberta', 'roberto', 'roberts', 'robin1', 'robins', 'robinson', 'robocop', 'robotech',
+  'robotics', 'rochelle', 'rocker', 'rocket', 'rocket1', 'rockets', 'rockford', 'rockhard',
+  'rockie', 'rockies', 'rockin', 'rocknrol', 'rocknroll', 'rockon', 'rockrock', 'rockstar',
+  'rockwell', 'rocky1', 'rocky2', 'rodman', 'rodney', 'rodrigo', 'rodrigue', 'roger1', 'rogers',
+  'roland', 'roller', 'rollin', 'rolling', 'rollins', 'rolltide', 'romance', 'romano', 'romans',
+  'romantic', 'romashka', 'romeo1', 'romero', 'rommel', 'ronald', 'ronaldinho', 'ronaldo',
+  'ronnie', 'roofer', 'rookie', 'rooney', 'rooster', 'roosters', 'rootbeer', 'rosario', 'roscoe',
+  'rosebud', 'rosebud1', 'rosemary', 'rosewood', 'roswell', 'rotary', 'rotten', 'route66',
+  'rovers', 'rowing', 'roxanne', 'royals', 'royalty', 'rrpass1', 'rtyuehe', 'rubber', 'rubble',
+  'rubicon', 'rudeboy', 'rudolf', 'rufus1', 'rugby1', 'rugger', 'rulezzz', 'rumble', 'runaway',
+  'runescape', 'runner', 'running', 'rupert', 'rush2112', 'ruslan', 'russel', 'russell', 'russia',
+  'russian', 'rustam', 'rusty1', 'rusty2', 'rustydog', 'ruthie', 's123456', 'sabbath', 'sabina',
+  'sabine', 'sabres', 'sabrina', 'sabrina1', 'sacred', 'sadie1', 'safari', 'safety', 'safeway',
+  'saffron', 'sahara', 'saigon', 'sailboat', 'sailing', 'sailor', 'saints', 'sairam', 'saiyan',
+  'sakura', 'salamander', 'salami', 'salasana', 'saleen', 'salinas', 'sally1', 'salman', 'salmon',
+  'salome', 'salomon', 'salope', 'salsero', 'salvador', 'salvatore', 'sam123', 'samanth',
+  'samantha', 'samara', 'samiam', 'samira', 'sammie', 'sammy1', 'sammy123', 'sammys', 'samoht',
+  'sampson', 'samson', 'samsun', 'samsung', 'samsung1', 'samtron', 'samuel', 'samuel1', 'samurai',
+  'sanchez', 'sancho', 'sandberg', 'sander', 'sanders', 'sandie', 'sandiego', 'sandman',
+  'sandman1', 'sandra', 'sandra1', 'sandrine', 'sandro', 'sandwich', 'sandy1', 'sanford',
+  'sanfran', 'sanity', 'santafe', 'santana', 'santiago', 'santos', 'sapper', 'sapphic', 'sapphire',
+  'sarah1', 'sarajevo', 'sarasara', 'saratoga', 'sarita', 'sascha', 'sasha1', 'sasha123',
+  'sasha_007', 'sashka', 'saskia', 'sassy1', 'sasuke', 'satan666', 'satana', 'satchmo',
+  'satellite', 'saturday', 'saturn', 'sauron', 'sausage', 'sausages', 'savage', 'savanna',
+  'savannah', 'savior', 'sawyer', 'saxophon', 'sayang', 'scamper', 'scania', 'scanner', 'scarface',
+  'scarlet', 'scarlett', 'schalke', 'schatz', 'scheisse', 'schmidt', 'school', 'schumi', 'science',
+  'scissors', 'scooby', 'scooby1', 'scoobydo', 'scoobydoo', 'scooter', 'scooter1', 'scorpio',
+  'scorpio1', 'scorpion', 'scotch', 'scotland', 'scott1', 'scottie', 'scotty', 'scouts',
+  'scrabble', 'scrapper', 'scrappy', 'scratch', 'scream', 'screamer', 'screen', 'screwy',
+  'screwyou', 'script', 'scrotum', 'scruffy', 'scuba1', 'scully', 'seabee', 'seadog', 'seadoo',
+  'seagull', 'seahawks', 'sealteam', 'seaman', 'seamus', 'searay', 'search', 'seaside', 'season',
+  'seattle', 'seawolf', 'sebastia', 'sebastian', 'sebora', 'sebring', 'second', 'secret',
+  'secret1', 'secrets', 'secure', 'security', 'sedona', 'seductive', 'seeker', 'seeking',
+  'segblue2', 'seinfeld', 'sekret', 'select', 'selena', 'selina', 'seminole', 'semper', 'semperfi',
+  'senate', 'senator', 'senators', 'seneca', 'senior', 'sensei', 'sentinel', 'sentry', 'sephirot',
+  'sephiroth', 'septembe', 'september', 'serega', 'serena', 'serenity', 'sergbest', 'sergeant',
+  'sergei', 'sergey', 'sergio', 'series', 'serious', 'serpent', 'sersolution', 'server', 'service',
+  'services', 'sesame', 'seven7', 'sevens', 'severin', 'sex123', 'sex4me', 'sexgod', 'sexman',
+  'sexsex', 'sextoy', 'sexual', 'sexxxx', 'sexxxy', 'sexy69', 'sexybabe', 'sexybitch', 'sexyboy',
+  'sexygirl', 'sexylady', 'sexyman', 'sexyone', 'sexysexy', 'seymour', 'sf49ers', 'shadow',
+  'shadow1', 'shadow12', 'shadows', 'shaggy', 'shakira', 'shakur', 'shalom', 'shaman', 'shampoo',
+  'shamrock', 'shamus', 'shane1', 'shaney14', 'shanghai', 'shania', 'shanna', 'shanno', 'shannon',
+  'shannon1', 'shanti', 'shaolin', 'shark1', 'sharks', 'sharky', 'sharon', 'sharpe', 'shasta',
+  'shauna', 'shaved', 'shawna', 'shayla', 'shazam', 'shearer', 'sheba1', 'sheeba', 'sheena',
+  'sheepdog', 'sheila', 'shelby', 'sheldon', 'shelley', 'shells', 'shelly', 'shemale', 'shepherd',
+  'sheridan', 'sheriff', 'sherlock', 'sherman', 'sherri', 'sherry', 'sherwood', 'sheryl', 'shibby',
+  'shield', 'shiloh', 'shiner', 'shinobi', 'shirley', 'shitface', 'shithead', 'shitshit', 'shitty',
+  'shocker', 'shodan', 'shogun', 'shojou', 'shonuf', 'shooter', 'shopper', 'shopping', 'shorty',
+  'shotgun', 'shovel', 'shower', 'showing', 'showme', 'showtime', 'shrimp', 'shuang', 'shurik',
+  'shuttle', 'shutup', 'sickboy', 'sickness', 'sidekick', 'sidney', 'siemens', 'sierra', 'sierra1',
+  'sigmachi', 'signal', 'silence', 'silent', 'silicon', 'silver', 'silver1', 'silverad', 'silvia',
+  'simba1', 'simmons', 'simon1', 'simona', 'simone', 'simons', 'simple', 'simple1', 'simpson',
+  'simpsons', 'sinatra', 'sinbad', 'sinclair', 'singapor', 'singapore', 'singer', 'single',
+  'sinister', 'sinned', 'sinner', 'siobhan', 'sirius', 'sister', 'sisters', 'sithlord', 'sixers',
+  'sixpack', 'sixty9', 'skateboard', 'skater', 'skeeter', 'skibum', 'skidoo', 'skiing', 'skilled',
+  'skillet', 'skinhead', 'skinner', 'skinny', 'skipper', 'skipper1', 'skippy', 'skittles',
+  'skolko', 'skorpion', 'skydive', 'skydiver', 'skyhawk', 'skylar', 'skylark', 'skyler', 'skyline',
+  'skywalke', 'skywalker', 'slacker', 'slamdunk', 'slammer', 'slapnuts', 'slapper', 'slappy',
+  'slapshot', 'slater', 'slave1', 'slavik', 'slayer', 'slayer1', 'sleeper', 'sleepy', 'slick1',
+  'slider', 'slimjim', 'slimshad', 'slimshady', 'slinky', 'slipknot', 'slipper', 'slippery',
+  'sliver', 'slonik', 'sloppy', 'slowhand', 'slugger', 'sluggo', 'sluttey', 'slutty', 'smackdow',
+  'smackdown', 'smalls', 'smart1', 'smartass', 'smashing', 'smeghead', 'smegma', 'smelly',
+  'smile1', 'smiles', 'smiley', 'smirnoff', 'smirnov', 'smirnova', 'smith1', 'smithers', 'smiths',
+  'smitty', 'smoke1', 'smoker', 'smokes', 'smokey', 'smokey1', 'smokie', 'smokin', 'smoking',
+  'smooch', 'smooth', 'smoothie', 'smother', 'smudge', 'snake1', 'snakes', 'snapon', 'snapper',
+  'snapple', 'snappy', 'snatch', 'sneakers', 'sneaky', 'snicker', 'snickers', 'sniffing', 'sniper',
+  'sniper1', 'snooker', 'snoopdog', 'snoopy', 'snoopy1', 'snowball', 'snowbird', 'snowboar',
+  'snowboard', 'snowflak', 'snowman', 'snuffy', 'snuggles', 'snyder', 'sobaka', 'soccer',
+  'soccer1', 'soccer10', 'soccer11', 'soccer12', 'socrates', 'softail', 'softball', 'softtail',
+  'software', 'sojdlg123aljg', 'sokolova', 'solace', 'solaris', 'soldat', 'soldier', 'soleil',
+  'solitude', 'solnce', 'solomon', 'solution', 'someday', 'someone', 'somerset', 'somethin',
+  'something', 'sommer', 'sonata', 'sonic1', 'sonics', 'sonoma', 'sonora', 'sonyericsson',
+  'sonyfuck', 'sonysony', 'sooner', 'sooners', 'sophia', 'sophie', 'sophie1', 'soprano',
+  'sopranos', 'soso123aljg', 'soulfly', 'soulmate', 'source', 'southern', 'southpar', 'southpark',
+  'southpaw', 'sowhat', 'spaceman', 'spanish', 'spanker', 'spanking', 'spankme', 'spanky',
+  'spanner', 'sparkle', 'sparkles', 'sparks', 'sparky', 'sparky1', 'sparrow', 'sparta', 'spartak',
+  'spartan', 'spartan1', 'spartans', 'speaker', 'speakers', 'spears', 'special', 'special1',
+  'specialk', 'spectre', 'spectrum', 'speedo', 'speedway', 'speedy', 'spence', 'spencer',
+  'spencer1', 'sperma', 'sphinx', 'spider', 'spider1', 'spiderma', 'spiderman', 'spiderman1',
+  'spidey', 'spiffy', 'spike1', 'spiker', 'spikes', 'spikey', 'spinner', 'spiral', 'spirit',
+  'spitfire', 'splash', 'spleen', 'splendid', 'spliff', 'splinter', 'spock1', 'spoiled', 'sponge',
+  'spongebo', 'spongebob', 'spooge', 'spooky', 'spooner', 'spoons', 'sporting', 'sports', 'sporty',
+  'spotty', 'spread', 'spring', 'springer', 'springs', 'sprint', 'sprinter', 'sprite', 'sprocket',
+  'sprout', 'spunky', 'spurs1', 'sputnik', 'spyder', 'sqdwfe', 'squall', 'square', 'squash',
+  'squeak', 'squeeze', 'squerting', 'squirrel', 'squirt', 'squirts', 'srinivas', 'stacey',
+  'stacie', 'stafford', 'stalin', 'stalker', 'stallion', 'standard', 'standby', 'stanford',
+  'stanislav', 'stanley', 'stanley1', 'stanton', 'staples', 'star123', 'star69', 'starbuck',
+  'starcraf', 'starcraft', 'stardust', 'starfire', 'starfish', 'stargate', 'starligh', 'starlight',
+  'starman', 'starship', 'starstar', 'start1', 'start123', 'starter', 'startrek', 'starwar',
+  'starwars', 'starwars1', 'stasik', 'static', 'station', 'status', 'stayout', 'stealth', 'steaua',
+  'steele', 'steeler', 'steelers', 'stefan', 'stefanie', 'stefano', 'steffen', 'steffi', 'stella',
+  'stellar', 'stepan', 'stephan', 'stephane', 'stephani', 'stephanie', 'stephen', 'stephen1',
+  'stephens', 'stereo', 'sterlin', 'sterling', 'sterva', 'steve1', 'steven', 'steven1', 'stevens',
+  'stevie', 'stewart', 'stewart1', 'stickman', 'sticks', 'sticky', 'stiffy', 'stigmata',
+  'stiletto', 'stimpy', 'stinger', 'stingray', 'stinker', 'stinky', 'stitch', 'stocking', 'stocks',
+  'stockton', 'stolen', 'stone1', 'stone55', 'stonecol', 'stonecold', 'stoned', 'stoner', 'stones',
+  'stonewal', 'stoney', 'stopit', 'stoppedby', 'storage', 'stories', 'storm1', 'storms', 'stormy',
+  'straight', 'strange', 'stranger', 'stratfor', 'stratus', 'strawber', 'strawberry', 'stream',
+  'streaming', 'street', 'streets', 'strelok', 'strength', 'stress', 'stretch', 'strider',
+  'strife', 'strike', 'striker', 'string', 'stripes', 'stripper', 'stroke', 'stroker', 'strong',
+  'stryker', 'stuart', 'stubby', 'student', 'studio', 'studly', 'studman', 'stumpy', 'stunner',
+  'stupid', 'stupid1', 'styles', 'stylus', 'subaru', 'sublime', 'submit', 'suburban', 'subway',
+  'subzero', 'success', 'success1', 'suckcock', 'suckdick', 'sucked', 'sucker', 'suckers',
+  'sucking', 'suckit', 'suckme', 'suckmydick', 'sugar1', 'sugars', 'suicide', 'sullivan', 'sultan',
+  'summer', 'summer1', 'summer69', 'summer99', 'summers', 'summit', 'sundance', 'sunday',
+  'sundevil', 'sunfire', 'sunflowe', 'sunflower', 'sunlight', 'sunny1', 'sunnyday', 'sunrise',
+  'sunset', 'sunshin', 'sunshine', 'sunshine1', 'super1', 'super12', 'super123', 'superb',
+  'superfly', 'superior', 'superma', 'superman', 'superman1', 'supernov', 'supernova',
+  'supersonic', 'supersta', 'superstar', 'support', 'supreme', 'surfer', 'surfer1', 'surfing',
+  'surgery', 'surprise', 'survey', 'surveyor', 'survivor', 'susan1', 'susana', 'susanna',
+  'susanne', 'susieq', 'suslik', 'sutton', 'suzanne', 'suzuki', 'svetik', 'svetlana', 'svoboda',
+  'swallow', 'sweden', 'swedish', 'sweeps', 'sweet1', 'sweetheart', 'sweetie', 'sweetnes',
+  'sweetness', 'sweetpea', 'sweets', 'sweety', 'swifty', 'swimmer', 'swimming', 'swinger',
+  'swingers', 'swinging', 'switch', 'swoosh', 'swordfis', 'swordfish', 'swords', 'sydney',
+  'sylveste', 'sylvia', 'sylvie', 'syncmaster', 'synergy', 'syracuse', 'system', 'system1',
+  'systems', 'syzygy', 'tabasco', 'tabatha', 'tabitha', 'tacobell', 'tacoma', 'tadpole',
+  'taekwondo', 'taichi', 'taipan', 'talbot', 'talisman', 'tamara', 'tamerlan', 'tammie', 'tammy1',
+  'tampabay', 'tangerin', 'tango1', 'tanker', 'tanner', 'tantra', 'tanya1', 'tarakan', 'tardis',
+  'target', 'tarheel', 'tarheels', 'tarpon', 'tarzan', 'tasha1', 'tatarin', 'tatiana', 'tatjana',
+  'tattoo', 'tatyana', 'taurus', 'taxman', 'taylor', 'taylor1', 'tazman', 'tazmania', 'tdutybq',
+  'tdutybz', 'teacher', 'teaser', 'technics', 'techno', 'teddy1', 'teddybea', 'teddybear',
+  'teenage', 'teensex', 'tekken', 'telefon', 'telephon', 'telephone', 'teller', 'temp123',
+  'tempest', 'templar', 'temple', 'temppass', 'tenchi', 'tender', 'tennesse', 'tennis', 'tennis1',
+  'tequier', 'tequila', 'terefon', 'teresa', 'terminal', 'terminat', 'terminator', 'termite',
+  'terrapin', 'terrell', 'terrier', 'terror', 'tessie', 'test12', 'test123', 'test1234', 'tester',
+  'testing', 'testing1', 'testpass', 'testtest', 'tetris', 'tetsuo', 'texas1', 'thailand',
+  'thanatos', 'thanks', 'thankyou', 'theater', 'theatre', 'thebear', 'thebeast', 'thebest',
+  'theboss', 'thecat', 'thecrow', 'thecure', 'thedog', 'thedon', 'thedoors', 'thedude', 'theend',
+  'theforce', 'thegame', 'thegreat', 'thekid', 'theking', 'thelma', 'theman', 'theodore', 'theone',
+  'therapy', 'theresa', 'therock', 'therock1', 'thesims', 'thewho', 'thierry', 'things',
+  'thinking', 'thirteen', 'thirty', 'thisisit', 'thomas', 'thomas1', 'thompson', 'thongs',
+  'thrasher', 'threesom', 'throat', 'thuglife', 'thumbs', 'thumper', 'thumper1', 'thunder',
+  'thunder1', 'thunderb', 'thursday', 'thx1138', 'tiamat', 'tiberius', 'tiburon', 'ticket',
+  'tickle', 'tickler', 'tickling', 'ticklish', 'tictac', 'tiffany', 'tiffany1', 'tiger1',
+  'tiger123', 'tiger2', 'tigercat', 'tigers', 'tigers1', 'tigger', 'tigger1', 'tigger2', 'tights',
+  'timber', 'timeout', 'timosha', 'timothy', 'timoxa94', 'tinker', 'tinkerbe', 'tinkerbell',
+  'tinman', 'tintin', 'tipper', 'titanic', 'titanium', 'titans', 'titfuck', 'titleist', 'titman',
+  'titten', 'titties', 'tkbpfdtnf', 'toaster', 'tobias', 'tobydog', 'toejam', 'toffee', 'together',
+  'toilet', 'tokiohotel', 'toledo', 'tolkien', 'tomahawk', 'tomato', 'tomcat', 'tommie', 'tommy1',
+  'tommyboy', 'tomorrow', 'tomtom', 'tongue', 'tonight', 'tonytony', 'toocool', 'toolbox',
+  'toolman', 'toomuch', 'toonarmy', 'tootie', 'tootsie', 'topcat', 'topdog', 'topgun', 'tophat',
+  'topher', 'topolino', 'topper', 'topsecret', 'toriamos', 'torino', 'tornado', 'toronto',
+  'torpedo', 'torres', 'tortoise', 'torture', 'toshiba', 'tosser', 'totoro', 'tottenha',
+  'tottenham', 'touching', 'towers', 'toyota', 'tracer', 'tracey', 'tracker', 'tractor', 'tracy1',
+  'trader', 'traffic', 'trailer', 'trainer', 'training', 'trains', 'traktor', 'tralala', 'trample',
+  'trance', 'tranny', 'transam', 'transfer', 'transit', 'translator', 'trapper', 'trauma',
+  'travel', 'traveler', 'travis', 'travis1', 'treasure', 'treble', 'trebor', 'treefrog', 'treetop',
+  'treetree', 'trenton', 'trevor', 'trfnthbyf', 'triangle', 'tribal', 'tribble', 'tricia',
+  'tricky', 'trident', 'trigger', 'trigun', 'trinidad', 'trinitro', 'trinitron', 'trinity',
+  'trinity1', 'triple', 'tripleh', 'triplex', 'tripod', 'tripper', 'trisha', 'trista', 'tristan',
+  'triton', 'triumph', 'trixie', 'trojan', 'trojans', 'trombone', 'trooper', 'trooper1',
+  'tropical', 'trouble', 'trouble1', 'trout1', 'trucker', 'trucking', 'trucks', 'trueblue',
+  'truelove', 'truman', 'trumpet', 'trumpet1', 'trunks', 'trustme', 'trustno', 'trustno1',
+  'tsunami', 'tucker', 'tucson', 'tuesday', 'tujhrf', 'tulips', 'tunafish', 'tundra', 'tuning',
+  'turbo1', 'turbos', 'turkey', 'turkey50', 'turner', 'turnip', 'turtle', 'turtles', 'tuxedo',
+  'tweety', 'twelve', 'twenty', 'twiggy', 'twilight', 'twinkie', 'twinkle', 'twisted', 'twister',
+  'tycoon', 'tyler1', 'typhoon', 'tyrant', 'tyrone', 'tyson1', 'ufkbyf', 'ukraine', 'ultima',
+  'ultimate', 'ulysses', 'umbrella', 'umpire', 'unbelievable', 'undead', 'underdog', 'underground',
+  'undertak', 'undertaker', 'underwear', 'unicorn', 'unique', 'united', 'universa', 'universal',
+  'universe', 'university', 'unknown', 'unlock', 'unreal', 'uptown', 'upyours', 'uranus', 'ursula',
+  'usa123', 'usarmy', 'username', 'usmarine', 'usnavy', 'usuckballz1', 'utjhubq', 'utopia',
+  'vacation', 'vader1', 'vagabond', 'vagina', 'valencia', 'valentin', 'valentina', 'valentine',
+  'valera', 'valeri', 'valeria', 'valerie', 'valeriya', 'valery', 'valhalla', 'valkyrie', 'valley',
+  'valleywa', 'vampir', 'vampire', 'vampire1', 'vampires', 'vancouve', 'vancouver', 'vanessa',
+  'vanessa1', 'vanguard', 'vanhalen', 'vanilla', 'vantage', 'varvara', 'vasilisa', 'vaughn',
+  'vauxhall', 'vbienrf', 'vbkfirf', 'vector', 'vectra', 'vedder', 'vegeta', 'vegitta', 'vegitto',
+  'vehpbr', 'velocity', 'velvet', 'vendetta', 'venera', 'venice', 'ventura', 'venture', 'verbatim',
+  'verena', 'veritas', 'verizon', 'vermont', 'vernon', 'verona', 'veronica', 'veronika', 'versace',
+  'vertigo', 'vfcnth', 'vfczyz', 'vfhbyf', 'vfhecz', 'vfhufhbnf', 'vfhujif', 'vfibyf', 'vfitymrf',
+  'vfksirf', 'vfndtq', 'vfntvfnbrf', 'vfrcbv', 'vfrcbvrf', 'vfvekz', 'vfvfgfgf', 'vfvjxrf',
+  'vh5150', 'viagra', 'vickie', 'victor', 'victori', 'victoria', 'victory', 'victory1', 'video1',
+  'videos', 'vienna', 'vietnam', 'viewsoni', 'viewsonic', 'viking', 'vikings', 'vikings1',
+  'viktor', 'viktoria', 'viktoriya', 'village', 'vincent', 'vincent1', 'vincenzo', 'vinnie',
+  'vintage', 'violet', 'violetta', 'violin', 'viper1', 'vipergts', 'vipers', 'virago', 'virgil',
+  'virgin', 'virginia', 'virginie', 'virtual', 'vision', 'visitor', 'visual', 'vitalik', 'vitamin',
+  'vivian', 'vjcrdf', 'vjkjrj', 'vjqgfhjkm', 'vkontakte', 'vladik', 'vladimir', 'vladislav',
+  'vodafone', 'volcano', 'volcom', 'volkov', 'volkswag', 'volley', 'volleyba', 'volleyball',
+  'volume', 'volvo1', 'voodoo', 'vortex', 'voyager', 'voyager1', 'voyeur', 'vqsablpzla', 'vsegda',
+  'vsjasnel12', 'vulcan', 'w_pass', 'wachtwoord', 'waffle', 'waffles', 'wagner', 'waiting',
+  'walker', 'wallace', 'wallet', 'walleye', 'wally1', 'walmart', 'walnut', 'walrus', 'walter',
+  'walton', 'wanderer', 'wanker', 'wanking', 'wannabe', 'wanrltw', 'wanted', 'wapbbs', 'warcraft',
+  'warcraft3', 'wareagle', 'warhamme', 'warhammer', 'warlock', 'warlord', 'warner', 'warning',
+  'warren', 'warrior', 'warrior1', 'warriors', 'warthog', 'warwick', 'wasabi', 'washburn',
+  'washingt', 'washington', 'wasser', 'wassup', 'wasted', 'watcher', 'water1', 'waterboy',
+  'waterfal', 'waterloo', 'waterman', 'waters', 'waterski', 'watford', 'watson', 'wayne1',
+  'wazzup', 'wdtnjxtr', 'wealth', 'weapon', 'weare138', 'wearing', 'weasel', 'weather', 'weaver',
+  'webber', 'webhompas', 'webmaste', 'webmaster', 'website', 'websol76', 'websolutions', 'webster',
+  'wedding', 'weed420', 'weekend', 'weezer', 'weiner', 'welcom', 'welcome', 'welcome1', 'welder',
+  'welkom', 'weller', 'wendy1', 'werder', 'werdna', 'werewolf', 'werner', 'werter', 'wesley',
+  'western', 'westham', 'weston', 'westside', 'westwood', 'wetpussy', 'wetter', 'wg8e3wjf',
+  'whales', 'whatever', 'whatsup', 'whatthe', 'whatup', 'whatwhat', 'wheeler', 'wheels',
+  'whiplash', 'whiskers', 'whiskey', 'whisky', 'whisper', 'whistler', 'white1', 'whiteboy',
+  'whiteout', 'whitesox', 'whitey', 'whitney', 'whocares', 'whoknows', 'whores', 'whynot',
+  'wibble', 'wiccan', 'wicked', 'widget', 'wilbur', 'wildbill', 'wildcard', 'wildcat', 'wildcats',
+  'wilder', 'wildfire', 'wildman', 'wildone', 'wildwood', 'wilhelm', 'willard', 'willem', 'willia',
+  'william', 'william1', 'williams', 'willie', 'willis', 'willow', 'wilson', 'windmill', 'window',
+  'windows', 'windsor', 'windsurf', 'winfield', 'winger', 'wingman', 'wingnut', 'winner',
+  'winner1', 'winners', 'winnie', 'winona', 'winston', 'winston1', 'winter', 'winter1', 'winter99',
+  'wireless', 'wisdom', 'wiseguy', 'wishbone', 'wizard', 'wizard1', 'wizards', 'wizzard',
+  'wolf359', 'wolfen', 'wolfgang', 'wolfie', 'wolfman', 'wolfpac', 'wolfpack', 'wolverin',
+  'wolverine', 'wolves', 'womans', 'wombat', 'womble', 'wonder', 'wonderboy', 'wonderfu',
+  'wonderful', 'woodie', 'woodland', 'woodman', 'woodstoc', 'woody1', 'woofer', 'woofwoof',
+  'woohoo', 'wookie', 'wordpass', 'wordup', 'worker', 'working', 'workout', 'wormix', 'worthy',
+  'wp2003wp', 'wraith', 'wrangler', 'wrench', 'wrestle', 'wrestler', 'wrestlin', 'wrestling',
+  'wright', 'wrinkle1', 'writer', 'wsxedc', 'wutang', 'wxcvbn', 'wyoming', 'xanadu', 'xander',
+  'xantia', 'xavier', 'xbox360', 'xerxes', 'xfiles', 'xtreme', 'xxx123', 'xxxpass', 'xxxxxx1',
+  'xyz123', 'yamaha', 'yamahar1', 'yamato', 'yankee', 'yankees', 'yankees1', 'yankees2',
+  'yaroslav', 'yasmin', 'ybrbnf', 'ybrjkfq', 'yeahbaby', 'yellow', 'yellow1', 'yessir', 'yfcntyf',
+  'yfcntymrf', 'yfnfif', 'yfnfkb', 'yfnfkmz', 'yinyang', 'yjdsqgfhjkm', 'yogibear', 'yolanda',
+  'yomama', 'yorkie', 'yosemite', 'youknow', 'young1', 'yourmom', 'yousuck', 'youtube', 'yoyoma',
+  'yugioh', 'yvette', 'yvonne', 'yzerman', 'z12345', 'z123456', 'z1x2c3', 'z1x2c3v4', 'z1x2c3v4b5',
+  'zachary', 'zachary1', 'zalupa', 'zander', 'zanzibar', 'zaphod', 'zapper', 'zaq123', 'zaq12wsx',
+  'zaq1xsw2', 'zaqwsx', 'zaqwsxcde', 'zaqxsw', 'zaqxswcde', 'zaraza', 'zarina', 'zasada', 'zebras',
+  'zenith', 'zephyr', 'zeppelin', 'zerocool', 'zerozero', 'zhjckfd', 'zhuang', 'zidane', 'ziggy1',
+  'zigzag', 'zildjian', 'zimmer', 'zinger', 'zipper', 'zodiac', 'zoloto', 'zombie', 'zoomzoom',
+  'zorro1', 'zurich', 'zvezda', 'zxasqw', 'zxasqw12', 'zxc123', 'zxcasd', 'zxcasdqwe',
+  'zxcasdqwe123', 'zxccxz', 'zxcv123', 'zxcv1234', 'zxcvasdf', 'zxcvb123', 'zxcvbn', 'zxcvbnm',
+  'zxcvbnm1', 'zxcvbnm123', 'zyjxrf', 'zzzxxx'
+]);
@@ -0,0 +1,110 @@
+import { type CookieHandler } from '../cookie-handler';
+import { type AuthMiddlewareConfig } from './types';
+
+/**
+ * Cookie settings
+ *
+ * Every cookie the library sets goes through these helpers, so the `cookies`
+ * config block applies consistently. Edge compatible.
+ */
+
+export interface CookieOptions {
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'strict' | 'lax' | 'none';
+  path: string;
+  domain?: string;
+}
+
+/**
+ * Resolve cookie attributes from configuration
+ *
+ * Browsers reject `__Host-` cookies unless they are Secure, have Path=/ and no
+ * Domain, and `SameSite=None` cookies unless they are Secure, so those attributes
+ * are enforced here.
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Cookie attributes
+ */
+export function getCookieOptions(config: AuthMiddlewareConfig): CookieOptions {
+  const {
+    prefix,
+    domain,
+    path = '/',
+    sameSite = 'strict',
+    secure = process.env.NODE_ENV === 'production'
+  } = config.cookies || {};
+
+  if (prefix === '__Host-') {
+    if (domain) {
+      throw new Error('Cookies with the __Host- prefix cannot set a domain');
+    }
+
+    return { httpOnly: true, secure: true, sameSite, path: '/' };
+  }
+
+  return {
+    httpOnly: true,
+    secure: secure || prefix === '__Secure-' || sameSite === 'none',
+    sameSite,
+    path,
+    domain
+  };
+}
+
+/**
+ * Get the name of a library cookie
+ *
+ * @param config - NextAuth-Simple configuration
+ * @param suffix - Suffix appended to the session cookie name (e.g. 'hint')
+ * @returns Full cookie name including the configured prefix
+ */
+export function getCookieName(config: AuthMiddlewareConfig, suffix?: string): string {
+  const { name = 'nextauth-simple-session', prefix = '' } = config.cookies || {};
+  return `${prefix}${name}${suffix ? `-${suffix}` : ''}`;
+}
+
+/**
+ * Get the name of the session cookie
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Session cookie name
+ */
+export function getSessionCookieName(config: AuthMiddlewareConfig): string {
+  return getCookieName(config);
+}
+
+/**
+ * Set a library cookie with the configured attributes
+ *
+ * @param cookieHandler - Cookie handler for the current request
+ * @param name - Cookie name
+ * @param value - Cookie value
+ * @param expires - Cookie expiry
+ * @param config - NextAuth-Simple configuration
+ */
+export function setCookie(
+  cookieHandler: CookieHandler,
+  name: string,
+  value: string,
+  expires: Date,
+  config: AuthMiddlewareConfig
+): void {
+  cookieHandler.set({ name, value, expires, ...getCookieOptions(config) });
+}
+
+/**
+ * Delete a library cookie
+ *
+ * @param cookieHandler - Cookie handler for the current request
+ * @param name - Cookie name
+ * @param config - NextAuth-Simple configuration
+ */
+export function deleteCookie(
+  cookieHandler: CookieHandler,
+  name: string,
+  config: AuthMiddlewareConfig
+): void {
+  const { domain, path } = getCookieOptions(config);
+  cookieHandler.delete(name, { domain, path });
+}
@@ -0,0 +1,178 @@
+import { type NextRequest } from 'next/server';
+import { getCookieHandler } from '../cookie-handler';
+import { base64UrlEncode, deriveKey, getSubtle, timingSafeEqual } from '../utils/webcrypto';
+import { getCookieName, setCookie } from './cookies';
+import { getSessionTokenKeys } from './jwt';
+import { authError } from './errors';
+import { type AuthErrorCode, type AuthMiddlewareConfig } from './types';
+
+/**
+ * CSRF protection
+ *
+ * Signed double-submit cookie: the token is stored in an HTTP-only cookie and
+ * must be echoed in a request header. Tokens are HMAC-signed when a secret is
+ * configured, so a cookie planted from a sibling subdomain is rejected. Requests
+ * without a token fall back to an Origin/Referer check, which covers plain HTML
+ * form posts from the same origin.
+ */
+
+const encoder = new TextEncoder();
+
+// Methods that must not change state and are therefore not checked
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Get the name of the CSRF cookie
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns CSRF cookie name
+ */
+export function getCsrfCookieName(config: AuthMiddlewareConfig): string {
+  return getCookieName(config, 'csrf');
+}
+
+/**
+ * Get the signing keys for CSRF tokens, if a secret is configured
+ */
+function getCsrfKeys(config: AuthMiddlewareConfig): { id: string; secret: string }[] {
+  return config.secret || config.session?.jwt?.keys?.length ? getSessionTokenKeys(config) : [];
+}
+
+/**
+ * Sign a CSRF token value
+ */
+async function signCsrfValue(value: string, secret: string): Promise<string> {
+  const key = await deriveKey(secret, 'csrf');
+  const signature = await getSubtle().sign('HMAC', key, encoder.encode(value));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+/**
+ * Check that a CSRF token was issued by this application
+ *
+ * @param token - CSRF token
+ * @param config - NextAuth-Simple configuration
+ * @returns Whether the token is well-formed and correctly signed
+ */
+async function isValidCsrfToken(token: string, config: AuthMiddlewareConfig): Promise<boolean> {
+  const keys = getCsrfKeys(config);
+  const [value, signature] = token.split('.');
+
+  if (!value) {
+    return false;
+  }
+
+  // Unsigned tokens are only accepted when no secret is configured
+  if (keys.length === 0) {
+    return !signature;
+  }
+
+  if (!signature) {
+    return false;
+  }
+
+  for (const key of keys) {
+    if (timingSafeEqual(signature, await signCsrfValue(value, key.secret))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Get the CSRF token for the current client, issuing a new one if needed
+ *
+ * Call this from a route handler (e.g. GET /api/auth/csrf) and return the token
+ * to the client, which sends it back in the CSRF header.
+ *
+ * @param config - NextAuth-Simple configuration
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
+ * @returns CSRF token
+ */
+export async function createCsrfToken(
+  config: AuthMiddlewareConfig,
+  req?: NextRequest,
+  res?: any
+): Promise<string> {
+  const cookieHandler = getCookieHandler(req, res, config);
+  const name = getCsrfCookieName(config);
+  const existing = cookieHandler.get(name)?.value;
+
+  if (existing && await isValidCsrfToken(existing, config)) {
+    return existing;
+  }
+
+  const value = base64UrlEncode(globalThis.crypto.getRandomValues(new Uint8Array(32)));
+  const [key] = getCsrfKeys(config);
+  const token = key ? `${value}.${await signCsrfValue(value, key.secret)}` : value;
+
+  const { sessionExpiryDays = 30 } = config.security || {};
+  setCookie(cookieHandler, name, token, new Date(Date.now() + sessionExpiryDays * 24 * 60 * 60 * 1000), config);
+
+  return token;
+}
+
+/**
+ * Get the origin of a URL, or null if it cannot be parsed
+ */
+function getOrigin(url: string | null | undefined): string | null {
+  if (!url) {
+    return null;
+  }
+
+  try {
+    return new URL(url).origin;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Verify that a state-changing request was made by this application
+ *
+ * @param req - The Next.js request object
+ * @param config - NextAuth-Simple configuration
+ * @returns Verification result
+ */
+export async function verifyCsrfRequest(
+  req: NextRequest,
+  config: AuthMiddlewareConfig
+): Promise<{ valid: boolean; code?: AuthErrorCode; error?: string }> {
+  const { enabled = true, headerName = 'x-csrf-token', trustedOrigins = [] } = config.csrf || {};
+
+  if (!enabled || SAFE_METHODS.includes(req.method.toUpperCase())) {
+    return { valid: true };
+  }
+
+  const headerToken = req.headers.get(headerName);
+
+  // Double-submit check: the header must match the (signed) cookie
+  if (headerToken) {
+    const cookieToken = req.cookies.get(getCsrfCookieName(config))?.value;
+
+    if (cookieToken && timingSafeEqual(headerToken, cookieToken) && await isValidCsrfToken(cookieToken, config)) {
+      return { valid: true };
+    }
+
+    const { code, error } = authError('CSRF_INVALID', config, 'Invalid CSRF token');
+    return { valid: false, code, error };
+  }
+
+  // Fallback: browsers always send Origin (or at least Referer) on cross-site POSTs
+  const origin = getOrigin(req.headers.get('origin')) || getOrigin(req.headers.get('referer'));
+
+  const allowedOrigins = [
+    req.nextUrl.origin,
+    getOrigin(process.env.NEXTAUTH_URL),
+    ...trustedOrigins.map(getOrigin)
+  ].filter(Boolean);
+
+  if (origin && allowedOrigins.includes(origin)) {
+    return { valid: true };
+  }
+
+  const { code, error } = authError('CSRF_INVALID', config);
+  return { valid: false, code, error };
+}
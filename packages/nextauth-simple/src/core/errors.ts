@@ -0,0 +1,90 @@
+import { type AuthError, type AuthErrorCode, type NextAuthSimpleConfig } from './types';
+
+// Built-in English messages
+export const defaultAuthErrorMessages: Record<AuthErrorCode, string> = {
+  INVALID_INPUT: 'Invalid request',
+  INVALID_EMAIL: 'Invalid email address',
+  WEAK_PASSWORD: 'Password does not meet the requirements',
+  PASSWORD_TOO_SHORT: 'Password must be at least {limit} characters long',
+  PASSWORD_TOO_LONG: 'Password must be at most {limit} characters long',
+  PASSWORD_NO_LOWERCASE: 'Password must contain a lowercase letter',
+  PASSWORD_NO_UPPERCASE: 'Password must contain an uppercase letter',
+  PASSWORD_NO_DIGIT: 'Password must contain a digit',
+  PASSWORD_NO_SYMBOL: 'Password must contain a symbol',
+  PASSWORD_CONTAINS_EMAIL: 'Password must not contain your email address',
+  PASSWORD_TOO_COMMON: 'Password is too common',
+  PASSWORD_BREACHED: 'Password has appeared in a data breach',
+  INVALID_CREDENTIALS: 'Invalid email or password',
+  USER_EXISTS: 'User already exists',
+  USER_NOT_FOUND: 'User not found',
+  ACCOUNT_LOCKED: 'Account is temporarily locked',
+  ACCOUNT_NOT_VERIFIED: 'Account not verified',
+  ACCOUNT_ALREADY_VERIFIED: 'Account is already verified',
+  RATE_LIMITED: 'Too many attempts. Please try again later',
+  TWO_FACTOR_REQUIRED: 'Two-factor authentication is required',
+  TWO_FACTOR_NOT_SET_UP: 'Two-factor authentication is not set up',
+  TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already enabled',
+  INVALID_TWO_FACTOR_CODE: 'Invalid verification code',
+  INVALID_CHALLENGE: 'Invalid or expired challenge',
+  INVALID_TOKEN: 'Invalid token',
+  TOKEN_EXPIRED: 'Token has expired',
+  TOKEN_USED: 'Token has already been used',
+  INVALID_STATE: 'Invalid or expired state',
+  OAUTH_FAILED: 'Authentication with the provider failed',
+  NOT_AUTHENTICATED: 'Not authenticated',
+  FORBIDDEN: 'Forbidden',
+  CSRF_INVALID: 'Missing or invalid CSRF token',
+  NOT_FOUND: 'Not found',
+  ALREADY_EXISTS: 'Already exists',
+  FEATURE_DISABLED: 'This feature is not enabled',
+  UNSUPPORTED: 'Not supported by the session strategy',
+  HOOK_REJECTED: 'Rejected by a hook',
+  EMAIL_FAILED: 'Failed to send email',
+  CONFIGURATION_ERROR: 'Invalid configuration',
+  INTERNAL_ERROR: 'An unexpected error occurred'
+};
+
+/**
+ * Get the message of an error code
+ *
+ * @example
+ * // In the UI, with the code of a result
+ * const message = getAuthErrorMessage(result.code, config, 'de');
+ *
+ * @param code - Error code
+ * @param config - NextAuth-Simple configuration with `errors.messages`
+ * @param locale - Locale of the message (default: `errors.locale`)
+ * @returns Message of the locale, or the built-in English message
+ */
+export function getAuthErrorMessage(
+  code: AuthErrorCode,
+  config: NextAuthSimpleConfig = {},
+  locale?: string
+): string {
+  return getLocalizedMessage(code, config, locale) ?? defaultAuthErrorMessages[code];
+}
+
+/**
+ * Create a failed result
+ *
+ * `message` describes the failure in more detail than the built-in message of
+ * the code, e.g. which field is missing; messages configured for the locale
+ * still take precedence.
+ *
+ * @param code - Error code
+ * @param config - NextAuth-Simple configuration
+ * @param message - Default message (default: built-in message of the code)
+ * @returns Failed result with the code and its message
+ */
+export function authError(code: AuthErrorCode, config: NextAuthSimpleConfig, message?: string): AuthError {
+  return {
+    success: false,
+    code,
+    error: getLocalizedMessage(code, config) ?? message ?? defaultAuthErrorMessages[code]
+  };
+}
+
+// Message configured for the locale, if any
+function getLocalizedMessage(code: AuthErrorCode, config: NextAuthSimpleConfig, locale?: string): string | undefined {
+  return config.errors?.messages?.[locale || config.errors?.locale || 'en']?.[code];
+}
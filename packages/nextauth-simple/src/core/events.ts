@@ -0,0 +1,66 @@
+import { authError } from './errors';
+import { type AuthEvent, type AuthEventMap, type AuthHook, type AuthHookResult, type AuthHooks, type NextAuthSimpleConfig } from './types';
+import { getLogger } from './logger';
+
+/**
+ * Combine hook sets, keeping the order of the sets for each event
+ *
+ * @param hookSets - Hook sets, e.g. those of features followed by the app's own
+ * @returns Combined hooks
+ */
+export function mergeAuthHooks(...hookSets: (AuthHooks | undefined)[]): AuthHooks {
+  const merged: Record<string, AuthHook<any>[]> = {};
+
+  for (const hooks of hookSets) {
+    for (const [event, eventHooks] of Object.entries(hooks || {})) {
+      merged[event] = [...(merged[event] || []), ...(eventHooks || [])];
+    }
+  }
+
+  return merged as AuthHooks;
+}
+
+/**
+ * Run the hooks of an auth event
+ *
+ * Pre-event hooks run in order until one fails, and that failure is returned;
+ * errors they throw propagate to the calling flow. Post-event hooks all run:
+ * the user or session already exists, so their failures are only logged.
+ *
+ * @param event - Auth event
+ * @param payload - Event payload
+ * @param config - NextAuth-Simple configuration
+ * @returns Success status, with the code and error of the failed pre-event hook
+ */
+export async function runAuthHooks<E extends AuthEvent>(
+  event: E,
+  payload: AuthEventMap[E],
+  config: NextAuthSimpleConfig
+): Promise<AuthHookResult> {
+  const hooks = (config.hooks?.[event] || []) as AuthHook<E>[];
+  const isPreEvent = event.startsWith('pre');
+
+  for (const hook of hooks) {
+    if (isPreEvent) {
+      const result = await hook(payload, config);
+
+      if (result && !result.success) {
+        return authError(result.code || 'HOOK_REJECTED', config, result.error);
+      }
+
+      continue;
+    }
+
+    try {
+      const result = await hook(payload, config);
+
+      if (result && !result.success) {
+        getLogger(config).error('Hook failed', { event, error: result.error });
+      }
+    } catch (error) {
+      getLogger(config).error('Error in hook', { event, error });
+    }
+  }
+
+  return { success: true };
+}
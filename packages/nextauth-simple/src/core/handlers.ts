@@ -0,0 +1,771 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { getCookieHandler } from '../cookie-handler';
+import {
+  changePassword,
+  listUserSessions,
+  loginUser,
+  logoutUser,
+  registerUser,
+  revokeAllSessions,
+  revokeSession
+} from './auth';
+import { getCookieName, getCookieOptions, deleteCookie } from './cookies';
+import { createCsrfToken, verifyCsrfRequest } from './csrf';
+import { authError } from './errors';
+import { getPluginRoutes } from './plugins';
+import { getServerSession } from './session';
+import { getSessionClaims } from './session-claims';
+import { type AuthErrorCode, type AuthResult, type NextAuthSimpleConfig } from './types';
+import { type NextAuthSimpleConfigWithAllFeatures } from '../features';
+import { completeTwoFactorLogin } from '../features/twoFactor/auth';
+import { createMagicUrlLogin, verifyMagicUrlToken } from '../features/magicUrl';
+import { completePasswordReset, requestPasswordReset, verifyPasswordResetToken } from '../features/password';
+import { requestVerification, verifyAccount } from '../features/verification';
+import { getAvailableSocialProviders, getSocialAuthorizationUrl, handleSocialCallback } from '../features/social';
+import {
+  getAuthenticationOptions,
+  getRegistrationOptions,
+  verifyAuthentication,
+  verifyRegistration
+} from '../features/passkeys';
+import { getLogger, withLogFields } from './logger';
+
+/**
+ * Catch-all route handlers
+ *
+ * `createAuthHandlers` serves every auth endpoint from a single
+ * `app/api/auth/[...auth]/route.ts`. Routes of disabled features answer 404,
+ * and every state-changing request passes the CSRF check first.
+ */
+
+type AuthMethod = 'GET' | 'POST' | 'DELETE';
+
+interface AuthRouteContext {
+  req: NextRequest;
+  config: NextAuthSimpleConfig;
+  params: Record<string, string>;
+}
+
+interface AuthRoute {
+  method: AuthMethod;
+  path: string; // Segments after the base path, ':name' captures a segment
+  enabled?: (config: NextAuthSimpleConfig) => boolean;
+  handle: (context: AuthRouteContext) => Promise<Response>;
+}
+
+export interface AuthHandlersOptions {
+  basePath?: string; // Path the catch-all route is mounted at (default: '/api/auth')
+}
+
+// OAuth state is only valid for the duration of the provider round trip
+const OAUTH_STATE_MAX_AGE_MS = 10 * 60 * 1000;
+
+/**
+ * Create the route handlers for a catch-all auth route
+ *
+ * @example
+ * // app/api/auth/[...auth]/route.ts
+ * export const { GET, POST, DELETE } = createAuthHandlers(config);
+ *
+ * @param config - NextAuth-Simple configuration with optional features
+ * @param options - Handler options
+ * @returns Route handlers by HTTP method
+ */
+export function createAuthHandlers(
+  config: NextAuthSimpleConfigWithAllFeatures,
+  options: AuthHandlersOptions = {}
+): Record<AuthMethod, (req: NextRequest) => Promise<Response>> {
+  const { basePath = '/api/auth' } = options;
+  const handle = (req: NextRequest) => handleAuthRequest(req, config, basePath);
+
+  return { GET: handle, POST: handle, DELETE: handle };
+}
+
+/**
+ * Dispatch a request to the matching auth route
+ *
+ * @param req - The Next.js request object
+ * @param config - NextAuth-Simple configuration
+ * @param basePath - Path the catch-all route is mounted at
+ * @returns Response
+ */
+async function handleAuthRequest(
+  req: NextRequest,
+  config: NextAuthSimpleConfigWithAllFeatures,
+  basePath: string
+): Promise<Response> {
+  // Entries logged while serving the request carry its ID
+  const requestId = req.headers.get('x-request-id');
+  const requestConfig = requestId ? { ...config, logger: withLogFields(getLogger(config), { requestId }) } : config;
+
+  try {
+    const segments = req.nextUrl.pathname.slice(basePath.length).split('/').filter(Boolean);
+    const match = matchAuthRoute(req.method.toUpperCase(), segments, requestConfig);
+
+    if (!match) {
+      return errorResponse(authError('NOT_FOUND', requestConfig), 404);
+    }
+
+    // Reject cross-site state-changing requests
+    const csrf = await verifyCsrfRequest(req, requestConfig);
+
+    if (!csrf.valid) {
+      return errorResponse(csrf, 403);
+    }
+
+    return await match.route.handle({ req, config: requestConfig, params: match.params });
+  } catch (error) {
+    getLogger(requestConfig).error('Auth handler error', { error });
+    return errorResponse(authError('INTERNAL_ERROR', requestConfig), 500);
+  }
+}
+
+/**
+ * Find the enabled route for a method and path
+ */
+function matchAuthRoute(
+  method: string,
+  segments: string[],
+  config: NextAuthSimpleConfigWithAllFeatures
+): { route: AuthRoute; params: Record<string, string> } | null {
+  // Built-in routes take precedence over plugin routes
+  const routes: AuthRoute[] = [...authRoutes, ...getPluginRoutes(config)];
+
+  for (const route of routes) {
+    if (route.method !== method || (route.enabled && !route.enabled(config))) {
+      continue;
+    }
+
+    const pattern = route.path.split('/');
+
+    if (pattern.length !== segments.length) {
+      continue;
+    }
+
+    const params: Record<string, string> = {};
+    const matches = pattern.every((part, i) => {
+      if (part.startsWith(':')) {
+        params[part.slice(1)] = segments[i];
+        return true;
+      }
+
+      return part === segments[i];
+    });
+
+    if (matches) {
+      return { route, params };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read a JSON or form-encoded request body
+ */
+async function readBody(req: NextRequest): Promise<Record<string, any>> {
+  const contentType = req.headers.get('content-type') || '';
+
+  try {
+    if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+      return Object.fromEntries(await req.formData());
+    }
+
+    const body = await req.json();
+
+    // Only JSON objects carry fields; null, arrays and primitives count as empty
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : {};
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Check whether a request was sent by an HTML form rather than fetch
+ */
+function isFormSubmission(req: NextRequest): boolean {
+  const contentType = req.headers.get('content-type') || '';
+  return contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data');
+}
+
+/**
+ * Resolve a post-login redirect target, never leaving this origin
+ */
+function getSafeRedirectUrl(url: string | null | undefined, req: NextRequest, fallback = '/'): URL {
+  try {
+    const target = new URL(url || fallback, req.nextUrl.origin);
+
+    if (target.origin === req.nextUrl.origin) {
+      return target;
+    }
+  } catch (error) {
+    // Fall through to the fallback
+  }
+
+  return new URL(fallback, req.nextUrl.origin);
+}
+
+/**
+ * Redirect back to the login page with an error code
+ */
+function redirectToLogin(req: NextRequest, config: NextAuthSimpleConfig, error: string): Response {
+  const url = new URL(config.loginUrl || '/login', req.nextUrl.origin);
+  url.searchParams.set('error', error);
+  return NextResponse.redirect(url);
+}
+
+/**
+ * Answer a sign-in that waits for the second factor
+ */
+function twoFactorChallengeResponse(
+  config: NextAuthSimpleConfig,
+  result: { user?: { id: string }; challengeToken?: string }
+): Response {
+  if (!result.user || !result.challengeToken) {
+    return errorResponse(authError('INTERNAL_ERROR', config, 'Failed to create two-factor challenge'), 500);
+  }
+
+  return NextResponse.json({
+    success: true,
+    code: 'TWO_FACTOR_REQUIRED',
+    twoFactorRequired: true,
+    userId: result.user.id,
+    challengeToken: result.challengeToken
+  });
+}
+
+/**
+ * Send a redirect-based sign-in that waits for the second factor to the code entry page
+ *
+ * The challenge is kept in a cookie rather than the URL, where it would end up
+ * in the browser history, server logs and Referer headers.
+ */
+function redirectToTwoFactorChallenge(
+  req: NextRequest,
+  config: NextAuthSimpleConfigWithAllFeatures,
+  result: { user?: { id: string }; challengeToken?: string }
+): Response {
+  if (!result.user || !result.challengeToken) {
+    return redirectToLogin(req, config, 'two_factor');
+  }
+
+  // Lax so the cookie survives the redirect chain of social sign-ins
+  const options = getCookieOptions(config);
+  const expiryMinutes = config.features?.twoFactor?.challengeExpiryMinutes || 5;
+  getCookieHandler(undefined, undefined, config).set({
+    name: getCookieName(config, 'two-factor-challenge'),
+    value: `${result.user.id}.${result.challengeToken}`,
+    expires: new Date(Date.now() + expiryMinutes * 60 * 1000),
+    ...options,
+    sameSite: options.sameSite === 'none' ? 'none' : 'lax'
+  });
+
+  // The page posts the code to /2fa/verify
+  return NextResponse.redirect(new URL(config.features?.twoFactor?.challengeUrl || config.loginUrl || '/login', req.nextUrl.origin));
+}
+
+/**
+ * Get the user ID and challenge token stored by a redirect-based sign-in
+ */
+function getTwoFactorChallengeCookie(config: NextAuthSimpleConfig): { userId?: string; challengeToken?: string } {
+  const value = getCookieHandler(undefined, undefined, config).get(getCookieName(config, 'two-factor-challenge'))?.value;
+  const separator = value ? value.lastIndexOf('.') : -1;
+
+  return separator > 0
+    ? { userId: value!.slice(0, separator), challengeToken: value!.slice(separator + 1) }
+    : {};
+}
+
+/**
+ * Answer with the code and message of a failed result
+ */
+function errorResponse(
+  result: { code?: AuthErrorCode; error?: string },
+  status: number,
+  init: ResponseInit = {}
+): Response {
+  return NextResponse.json({ code: result.code, error: result.error }, { ...init, status });
+}
+
+/**
+ * Turn a failed login result into an error response
+ */
+function authErrorResponse(config: NextAuthSimpleConfig, result: AuthResult, fallback: string, status = 401): Response {
+  if (result.rateLimited) {
+    return errorResponse(result, 429, { headers: { 'Retry-After': String(result.retryAfter ?? 60) } });
+  }
+
+  return errorResponse(result.error ? result : authError('INTERNAL_ERROR', config, fallback), status);
+}
+
+/**
+ * Load the session of the request, or return a 401 response
+ */
+async function requireSession(config: NextAuthSimpleConfig) {
+  const session = await getServerSession(config);
+  return session
+    ? { session, response: null }
+    : { session: null, response: errorResponse(authError('NOT_AUTHENTICATED', config), 401) };
+}
+
+const authRoutes: AuthRoute[] = [
+  {
+    method: 'GET',
+    path: 'session',
+    handle: async ({ config }) => {
+      const session = await getServerSession(config);
+
+      if (!session) {
+        return NextResponse.json({ session: null, user: null });
+      }
+
+      return NextResponse.json({
+        session: {
+          id: session.id,
+          expiresAt: session.expiresAt,
+          twoFactorVerified: session.twoFactorVerified,
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt
+        },
+        user: session.user,
+        // Evaluated by authMiddleware against its route rules
+        claims: await getSessionClaims(session, config)
+      });
+    }
+  },
+  {
+    method: 'GET',
+    path: 'csrf',
+    handle: async ({ config }) => NextResponse.json({ csrfToken: await createCsrfToken(config) })
+  },
+  {
+    method: 'POST',
+    path: 'register',
+    handle: async ({ req, config }) => {
+      const { email, password } = await readBody(req);
+
+      if (!email || !password) {
+        return errorResponse(authError('INVALID_INPUT', config, 'Email and password are required'), 400);
+      }
+
+      const result = await registerUser({ email, password }, config, req);
+      return result.success
+        ? NextResponse.json({ success: true })
+        : NextResponse.json(
+          { code: result.code, error: result.error, passwordPolicyFailures: result.passwordPolicyFailures },
+          { status: 400 }
+        );
+    }
+  },
+  {
+    method: 'POST',
+    path: 'login',
+    handle: async ({ req, config }) => {
+      const { email, password } = await readBody(req);
+
+      if (!email || !password) {
+        return errorResponse(authError('INVALID_INPUT', config, 'Email and password are required'), 400);
+      }
+
+      const result = await loginUser({ email, password }, config, req);
+
+      if (!result.success || !result.user) {
+        return authErrorResponse(config, result, 'Login failed');
+      }
+
+      // The session is only created once the second factor has been verified
+      if (result.twoFactorRequired) {
+        return twoFactorChallengeResponse(config, result);
+      }
+
+      return NextResponse.json({ success: true, user: result.user });
+    }
+  },
+  {
+    method: 'POST',
+    path: 'logout',
+    handle: async ({ req, config }) => {
+      const result = await logoutUser(config, req);
+
+      if (!result.success) {
+        return errorResponse(result, 500);
+      }
+
+      // Plain form posts get a redirect, fetch calls get JSON
+      return isFormSubmission(req)
+        ? NextResponse.redirect(new URL(config.loginUrl || '/login', req.url), { status: 303 })
+        : NextResponse.json({ success: true });
+    }
+  },
+  {
+    method: 'GET',
+    path: 'sessions',
+    handle: async ({ req, config }) => {
+      const { session, response } = await requireSession(config);
+
+      if (!session) {
+        return response;
+      }
+
+      const result = await listUserSessions(session.userId, config, req);
+      return result.success
+        ? NextResponse.json({ sessions: result.sessions })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'DELETE',
+    path: 'sessions',
+    handle: async ({ req, config }) => {
+      const { session, response } = await requireSession(config);
+
+      if (!session) {
+        return response;
+      }
+
+      const { sessionId, exceptCurrent } = await readBody(req);
+
+      // Revoke one session, or all sessions (optionally keeping this one)
+      const result = sessionId
+        ? await revokeSession(sessionId, config, { userId: session.userId }, req)
+        : await revokeAllSessions(session.userId, config, { exceptCurrent: !!exceptCurrent });
+
+      return result.success
+        ? NextResponse.json({ success: true })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'POST',
+    path: 'password',
+    handle: async ({ req, config }) => {
+      const { session, response } = await requireSession(config);
+
+      if (!session) {
+        return response;
+      }
+
+      const { currentPassword, newPassword } = await readBody(req);
+
+      if (!currentPassword || !newPassword) {
+        return errorResponse(authError('INVALID_INPUT', config, 'Current and new password are required'), 400);
+      }
+
+      const result = await changePassword({ userId: session.userId, currentPassword, newPassword }, config, req);
+
+      if (result.success) {
+        return NextResponse.json({ success: true });
+      }
+
+      return result.rateLimited
+        ? authErrorResponse(config, result, 'Failed to change password')
+        : NextResponse.json(
+          { code: result.code, error: result.error, passwordPolicyFailures: result.passwordPolicyFailures },
+          { status: 400 }
+        );
+    }
+  },
+  {
+    method: 'POST',
+    path: '2fa/verify',
+    enabled: config => !!config.features?.twoFactor?.enabled,
+    handle: async ({ req, config }) => {
+      const body = await readBody(req);
+
+      // Password logins send the challenge in the body, redirect-based sign-ins left it in a cookie
+      const { userId, challengeToken } = body.challengeToken ? body : getTwoFactorChallengeCookie(config);
+      const { code } = body;
+
+      // The challenge token proves the first factor succeeded
+      if (!userId || !code || !challengeToken) {
+        return errorResponse(authError('INVALID_INPUT', config, 'User ID, code and challenge token are required'), 400);
+      }
+
+      const result = await completeTwoFactorLogin({ userId, code, challengeToken }, config, req);
+
+      if (!result.success) {
+        return authErrorResponse(config, result, 'Invalid code', 400);
+      }
+
+      deleteCookie(getCookieHandler(undefined, undefined, config), getCookieName(config, 'two-factor-challenge'), config);
+      return NextResponse.json({ success: true, user: result.user });
+    }
+  },
+  {
+    method: 'POST',
+    path: 'magic-url',
+    enabled: config => !!config.features?.magicUrl?.enabled,
+    handle: async ({ req, config }) => {
+      const { email, callbackUrl } = await readBody(req);
+
+      if (!email) {
+        return errorResponse(authError('INVALID_INPUT', config, 'Email is required'), 400);
+      }
+
+      // Off-site callbacks fall back to the configured redirect
+      const target = callbackUrl ? getSafeRedirectUrl(callbackUrl, req, config.features?.magicUrl?.redirectUrl) : undefined;
+      const result = await createMagicUrlLogin(
+        { email, callbackUrl: target && target.pathname + target.search },
+        config
+      );
+
+      return result.success
+        ? NextResponse.json({ success: true })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'GET',
+    path: 'verify-magic-url',
+    enabled: config => !!config.features?.magicUrl?.enabled,
+    handle: async ({ req, config }) => {
+      const token = req.nextUrl.searchParams.get('token');
+      const email = req.nextUrl.searchParams.get('email');
+
+      if (!token || !email) {
+        return redirectToLogin(req, config, 'invalid_token');
+      }
+
+      const result = await verifyMagicUrlToken({ token, email }, config, req);
+
+      if (!result.success) {
+        return redirectToLogin(req, config, result.locked ? 'locked' : 'invalid_token');
+      }
+
+      return result.twoFactorRequired
+        ? redirectToTwoFactorChallenge(req, config, result)
+        : NextResponse.redirect(getSafeRedirectUrl(result.callbackUrl ?? config.features?.magicUrl?.redirectUrl, req));
+    }
+  },
+  {
+    method: 'POST',
+    path: 'password-reset/request',
+    enabled: config => !!config.features?.passwordReset?.enabled,
+    handle: async ({ req, config }) => {
+      const { email } = await readBody(req);
+
+      // The reset link always points at the configured page, never at a client-supplied URL
+      const result = await requestPasswordReset(
+        { email, redirectUrl: config.features?.passwordReset?.redirectUrl },
+        config
+      );
+
+      return result.success
+        ? NextResponse.json({ success: true })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'POST',
+    path: 'password-reset/verify',
+    enabled: config => !!config.features?.passwordReset?.enabled,
+    handle: async ({ req, config }) => {
+      const { token, email } = await readBody(req);
+
+      if (!token || !email) {
+        return errorResponse(authError('INVALID_INPUT', config, 'Token and email are required'), 400);
+      }
+
+      const result = await verifyPasswordResetToken({ token, email }, config);
+      return result.success
+        ? NextResponse.json({ valid: !!result.valid })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'POST',
+    path: 'password-reset/complete',
+    enabled: config => !!config.features?.passwordReset?.enabled,
+    handle: async ({ req, config }) => {
+      const { token, email, password } = await readBody(req);
+
+      if (!token || !email || !password) {
+        return errorResponse(authError('INVALID_INPUT', config, 'Token, email and password are required'), 400);
+      }
+
+      const result = await completePasswordReset({ token, email, password }, config);
+      return result.success
+        ? NextResponse.json({ success: true })
+        : NextResponse.json(
+          { code: result.code, error: result.error, passwordPolicyFailures: result.passwordPolicyFailures },
+          { status: 400 }
+        );
+    }
+  },
+  {
+    method: 'POST',
+    path: 'verification/request',
+    enabled: config => !!config.features?.verification?.enabled,
+    handle: async ({ config }) => {
+      const { session, response } = await requireSession(config);
+
+      if (!session) {
+        return response;
+      }
+
+      const result = await requestVerification(
+        {
+          userId: session.userId,
+          email: session.user.email,
+          redirectUrl: config.features?.verification?.redirectUrl
+        },
+        config
+      );
+
+      return result.success
+        ? NextResponse.json({ success: true })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'POST',
+    path: 'verification/verify',
+    enabled: config => !!config.features?.verification?.enabled,
+    handle: async ({ req, config }) => {
+      const { token, email } = await readBody(req);
+
+      if (!token || !email) {
+        return errorResponse(authError('INVALID_INPUT', config, 'Token and email are required'), 400);
+      }
+
+      const result = await verifyAccount({ token, email }, config);
+      return result.success
+        ? NextResponse.json({ success: true, verified: !!result.verified })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'GET',
+    path: 'social/:provider',
+    enabled: config => !!config.features?.social?.enabled,
+    handle: async ({ req, config, params }) => {
+      const provider = params.provider.toLowerCase();
+
+      if (!getAvailableSocialProviders(config).includes(provider)) {
+        return errorResponse(authError('NOT_FOUND', config), 404);
+      }
+
+      const callbackUrl = getSafeRedirectUrl(req.nextUrl.searchParams.get('callbackUrl'), req).pathname;
+      const { url, state } = getSocialAuthorizationUrl(
+        provider,
+        config,
+        config.features!.social!.providers[provider]!.redirectUri,
+        callbackUrl
+      );
+
+      // Bind the state to this browser; Lax so the cookie survives the provider's redirect back
+      const options = getCookieOptions(config);
+      getCookieHandler(undefined, undefined, config).set({
+        name: getCookieName(config, 'oauth-state'),
+        value: state,
+        expires: new Date(Date.now() + OAUTH_STATE_MAX_AGE_MS),
+        ...options,
+        sameSite: options.sameSite === 'none' ? 'none' : 'lax'
+      });
+
+      return NextResponse.redirect(url);
+    }
+  },
+  {
+    method: 'GET',
+    path: 'callback/:provider',
+    enabled: config => !!config.features?.social?.enabled,
+    handle: async ({ req, config, params }) => {
+      const provider = params.provider.toLowerCase();
+      const code = req.nextUrl.searchParams.get('code');
+      const state = req.nextUrl.searchParams.get('state');
+
+      const cookieHandler = getCookieHandler(undefined, undefined, config);
+      const stateCookieName = getCookieName(config, 'oauth-state');
+      const expectedState = cookieHandler.get(stateCookieName)?.value;
+      deleteCookie(cookieHandler, stateCookieName, config);
+
+      if (!code || !state || state !== expectedState || !getAvailableSocialProviders(config).includes(provider)) {
+        return redirectToLogin(req, config, 'oauth_state');
+      }
+
+      const result = await handleSocialCallback(provider, code, state, config, req);
+
+      if (!result.success) {
+        return redirectToLogin(req, config, result.locked ? 'locked' : 'oauth_callback');
+      }
+
+      if (result.twoFactorRequired) {
+        return redirectToTwoFactorChallenge(req, config, result);
+      }
+
+      const { callbackUrl } = JSON.parse(Buffer.from(state, 'base64').toString());
+      return NextResponse.redirect(getSafeRedirectUrl(callbackUrl, req));
+    }
+  },
+  {
+    method: 'POST',
+    path: 'passkeys/register/options',
+    enabled: config => !!config.features?.passkeys?.enabled,
+    handle: async ({ config }) => {
+      const { session, response } = await requireSession(config);
+
+      if (!session) {
+        return response;
+      }
+
+      const result = await getRegistrationOptions(
+        { userId: session.userId, username: session.user.email },
+        config
+      );
+
+      return result.success
+        ? NextResponse.json({ options: result.options })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'POST',
+    path: 'passkeys/register/verify',
+    enabled: config => !!config.features?.passkeys?.enabled,
+    handle: async ({ req, config }) => {
+      const { session, response } = await requireSession(config);
+
+      if (!session) {
+        return response;
+      }
+
+      const { credential } = await readBody(req);
+      const result = await verifyRegistration({ userId: session.userId, credential }, config);
+
+      return result.success
+        ? NextResponse.json({ success: true })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'POST',
+    path: 'passkeys/authenticate/options',
+    enabled: config => !!config.features?.passkeys?.enabled,
+    handle: async ({ config }) => {
+      // Discoverable credentials only, so clients cannot probe for user IDs
+      const result = await getAuthenticationOptions({}, config);
+
+      return result.success
+        ? NextResponse.json({ options: result.options })
+        : errorResponse(result, 400);
+    }
+  },
+  {
+    method: 'POST',
+    path: 'passkeys/authenticate/verify',
+    enabled: config => !!config.features?.passkeys?.enabled,
+    handle: async ({ req, config }) => {
+      const { credential } = await readBody(req);
+      const result = await verifyAuthentication({ credential }, config, req);
+
+      if (!result.success) {
+        return errorResponse(result, 401);
+      }
+
+      return result.twoFactorRequired
+        ? twoFactorChallengeResponse(config, result)
+        : NextResponse.json({ success: true, user: result.user });
+    }
+  }
+];
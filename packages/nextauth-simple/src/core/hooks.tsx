@@ -1,16 +1,42 @@
 "use client";
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { type SessionContextType } from './types';
+import { type ActiveSession, type SessionContextType } from './types';
 
 // Create context with default values
 const SessionContext = createContext<SessionContextType>({
   session: null,
   user: null,
   status: 'loading',
-  refetch: async () => { }
+  refetch: async () => { },
+  listSessions: async () => [],
+  revokeSession: async () => false,
+  revokeOtherSessions: async () => false
 });
 
+// CSRF token shared by all requests from this page
+let csrfTokenPromise: Promise<string> | null = null;
+
+/**
+ * Get the CSRF token to send with state-changing requests (x-csrf-token header)
+ * 
+ * @returns CSRF token
+ */
+export function getCsrfToken(): Promise<string> {
+  if (!csrfTokenPromise) {
+    csrfTokenPromise = fetch('/api/auth/csrf')
+      .then(res => res.json())
+      .then(data => data.csrfToken as string)
+      .catch(error => {
+        // Allow a retry on the next call
+        csrfTokenPromise = null;
+        throw error;
+      });
+  }
+
+  return csrfTokenPromise;
+}
+
 /**
  * SessionProvider component for client components
  * 
@@ -44,6 +70,45 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const listSessions = async (): Promise<ActiveSession[]> => {
+    try {
+      const res = await fetch('/api/auth/sessions');
+      if (!res.ok) {
+        return [];
+      }
+      const data = await res.json();
+      return data.sessions || [];
+    } catch (error) {
+      console.error('Error listing sessions:', error);
+      return [];
+    }
+  };
+
+  const revokeSessions = async (body: { sessionId?: string; exceptCurrent?: boolean }): Promise<boolean> => {
+    try {
+      const res = await fetch('/api/auth/sessions', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json', 'x-csrf-token': await getCsrfToken() },
+        body: JSON.stringify(body)
+      });
+      return res.ok;
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      return false;
+    }
+  };
+
+  const revokeSession = async (sessionId: string): Promise<boolean> => {
+    const revoked = await revokeSessions({ sessionId });
+
+    // Revoking the current session signs this client out
+    if (revoked && sessionId === sessionData?.session?.id) {
+      await fetchSession();
+    }
+
+    return revoked;
+  };
+
   useEffect(() => {
     fetchSession();
   }, []);
@@ -52,7 +117,10 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     session: sessionData?.session || null,
     user: sessionData?.user || null,
     status,
-    refetch: fetchSession
+    refetch: fetchSession,
+    listSessions,
+    revokeSession,
+    revokeOtherSessions: () => revokeSessions({ exceptCurrent: true })
   };
 
   return (
@@ -1,6 +1,21 @@
 // Main entry point for the NextAuth-Simple library
 export * from './auth';
 export * from './session';
+export * from './rate-limit';
+export * from './lockout';
+export * from './events';
+export * from './errors';
+export * from './logger';
+export * from './sign-in';
+export * from './plugins';
+export * from './jwt';
+export * from './revocation';
+export * from './cookies';
+export * from './csrf';
+export * from './session-hint';
+export * from './session-claims';
+export * from './routes';
+export * from './handlers';
 export * from './types';
 export * from './middleware';
 export * from './hooks';
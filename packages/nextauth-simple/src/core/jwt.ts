@@ -0,0 +1,154 @@
+import { type AuthMiddlewareConfig, type NextAuthSimpleConfig, type SessionTokenPayload } from './types';
+import { base64UrlDecode, base64UrlEncode, deriveKey, getSubtle } from '../utils/webcrypto';
+
+/**
+ * Stateless session tokens
+ *
+ * Tokens are signed (JWS, HS256) and then encrypted (JWE, dir + A256GCM) using
+ * WebCrypto only, so they can be verified in the Edge runtime as well as Node.js.
+ * Both keys are derived from the configured secrets with HKDF.
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Get the keys used for session tokens and session hints, current key first
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Key list
+ */
+export function getSessionTokenKeys(config: AuthMiddlewareConfig): { id: string; secret: string }[] {
+  const keys = config.session?.jwt?.keys;
+
+  if (keys && keys.length > 0) {
+    return keys;
+  }
+
+  if (config.secret) {
+    return [{ id: 'default', secret: config.secret }];
+  }
+
+  throw new Error('Signed session cookies require `secret` or `session.jwt.keys`');
+}
+
+/**
+ * Sign a payload as a compact JWS (HS256)
+ */
+async function sign(payload: object, key: { id: string; secret: string }): Promise<string> {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: key.id }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signingKey = await deriveKey(key.secret, 'signing');
+  const signature = await getSubtle().sign('HMAC', signingKey, encoder.encode(`${header}.${body}`));
+
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a compact JWS and return its payload
+ */
+async function verify(jws: string, key: { id: string; secret: string }): Promise<any | null> {
+  const [header, body, signature] = jws.split('.');
+
+  if (!header || !body || !signature) {
+    return null;
+  }
+
+  const signingKey = await deriveKey(key.secret, 'signing');
+  const valid = await getSubtle().verify(
+    'HMAC',
+    signingKey,
+    base64UrlDecode(signature),
+    encoder.encode(`${header}.${body}`)
+  );
+
+  return valid ? JSON.parse(decoder.decode(base64UrlDecode(body))) : null;
+}
+
+/**
+ * Encode a session payload as a signed and encrypted token
+ *
+ * @param payload - Session token payload
+ * @param config - NextAuth-Simple configuration
+ * @returns Compact JWE string
+ */
+export async function encodeSessionToken(
+  payload: SessionTokenPayload,
+  config: NextAuthSimpleConfig
+): Promise<string> {
+  const [key] = getSessionTokenKeys(config);
+  const jws = await sign(payload, key);
+
+  const header = base64UrlEncode(JSON.stringify({ alg: 'dir', enc: 'A256GCM', cty: 'JWT', kid: key.id }));
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const encryptionKey = await deriveKey(key.secret, 'encryption');
+
+  const encrypted = new Uint8Array(await getSubtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(header), tagLength: 128 },
+    encryptionKey,
+    encoder.encode(jws)
+  ));
+
+  // WebCrypto appends the 16 byte authentication tag to the ciphertext
+  const ciphertext = encrypted.slice(0, encrypted.length - 16);
+  const tag = encrypted.slice(encrypted.length - 16);
+
+  return `${header}..${base64UrlEncode(iv)}.${base64UrlEncode(ciphertext)}.${base64UrlEncode(tag)}`;
+}
+
+/**
+ * Decrypt and verify a session token
+ *
+ * Tokens issued with any configured key are accepted, so keys can be rotated by
+ * prepending a new key and removing the old one once its tokens have expired.
+ *
+ * @param token - Compact JWE string
+ * @param config - NextAuth-Simple configuration
+ * @returns Session payload, or null if the token is invalid or expired
+ */
+export async function decodeSessionToken(
+  token: string,
+  config: AuthMiddlewareConfig
+): Promise<SessionTokenPayload | null> {
+  try {
+    const [header, encryptedKey, iv, ciphertext, tag] = token.split('.');
+
+    if (!header || encryptedKey !== '' || !iv || !ciphertext || !tag) {
+      return null;
+    }
+
+    const { kid, alg, enc } = JSON.parse(decoder.decode(base64UrlDecode(header)));
+    if (alg !== 'dir' || enc !== 'A256GCM') {
+      return null;
+    }
+
+    const key = getSessionTokenKeys(config).find(candidate => candidate.id === kid);
+    if (!key) {
+      return null;
+    }
+
+    const ciphertextBytes = base64UrlDecode(ciphertext);
+    const tagBytes = base64UrlDecode(tag);
+    const encrypted = new Uint8Array(ciphertextBytes.length + tagBytes.length);
+    encrypted.set(ciphertextBytes);
+    encrypted.set(tagBytes, ciphertextBytes.length);
+
+    const encryptionKey = await deriveKey(key.secret, 'encryption');
+    const jws = decoder.decode(await getSubtle().decrypt(
+      { name: 'AES-GCM', iv: base64UrlDecode(iv), additionalData: encoder.encode(header), tagLength: 128 },
+      encryptionKey,
+      encrypted
+    ));
+
+    const payload = await verify(jws, key) as SessionTokenPayload | null;
+
+    if (!payload || typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return payload;
+  } catch (error) {
+    // Malformed, tampered or undecryptable tokens are treated as missing
+    return null;
+  }
+}
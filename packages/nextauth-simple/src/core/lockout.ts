@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import { getAdapter } from '../adapters';
+import { authError } from './errors';
+import { type AuthErrorCode, type LockoutStatus, type NextAuthSimpleConfig } from './types';
+import { getLogger } from './logger';
+
+/**
+ * Default email sending function
+ *
+ * @param to - Recipient email
+ * @param subject - Email subject
+ * @param html - Email HTML content
+ * @param config - NextAuth-Simple configuration
+ * @returns Promise resolving to success status
+ */
+async function defaultSendEmail(
+  to: string,
+  subject: string,
+  html: string,
+  config: NextAuthSimpleConfig
+): Promise<boolean> {
+  getLogger(config).warn('No email sending function configured; set security.lockout.sendEmail', { to, subject });
+  return true;
+}
+
+/**
+ * Resolve lockout settings from configuration
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Effective lockout settings
+ */
+function getLockoutSettings(config: NextAuthSimpleConfig) {
+  const {
+    enabled = false,
+    maxFailedAttempts = 10,
+    baseLockoutMinutes = 15,
+    maxLockoutMinutes = 24 * 60,
+    ...rest
+  } = config.security?.lockout || {};
+
+  return { enabled, maxFailedAttempts, baseLockoutMinutes, maxLockoutMinutes, ...rest };
+}
+
+/**
+ * Hash an unlock token for storage
+ *
+ * @param token - Unlock token
+ * @returns SHA-256 hex digest
+ */
+function hashUnlockToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Get the lockout status of a user
+ *
+ * @param userId - User ID
+ * @param config - NextAuth-Simple configuration
+ * @returns Lockout status
+ */
+export async function getLockoutStatus(
+  userId: string,
+  config: NextAuthSimpleConfig
+): Promise<LockoutStatus> {
+  if (!getLockoutSettings(config).enabled) {
+    return { locked: false, failedAttempts: 0 };
+  }
+
+  const row = await getAdapter(config).getLockout(userId);
+
+  if (!row) {
+    return { locked: false, failedAttempts: 0 };
+  }
+
+  const lockedUntil = row.lockedUntil ? new Date(row.lockedUntil) : undefined;
+  const locked = !!lockedUntil && lockedUntil.getTime() > Date.now();
+
+  return {
+    locked,
+    lockedUntil: locked ? lockedUntil : undefined,
+    failedAttempts: row.failedAttempts
+  };
+}
+
+/**
+ * Record a failed sign-in attempt and lock the account once the threshold is reached
+ *
+ * Each lock lasts twice as long as the previous one, capped at maxLockoutMinutes.
+ *
+ * @param user - User the attempt was made for
+ * @param config - NextAuth-Simple configuration
+ * @returns Lockout status after recording the failure
+ */
+export async function recordFailedLogin(
+  user: { id: string; email: string },
+  config: NextAuthSimpleConfig
+): Promise<LockoutStatus> {
+  const settings = getLockoutSettings(config);
+
+  if (!settings.enabled) {
+    return { locked: false, failedAttempts: 0 };
+  }
+
+  const adapter = getAdapter(config);
+  const now = new Date();
+
+  // Counted in one statement, so concurrent failures are never lost
+  const row = await adapter.incrementFailedAttempts(user.id, now);
+
+  if (row.failedAttempts < settings.maxFailedAttempts) {
+    return { locked: false, failedAttempts: row.failedAttempts };
+  }
+
+  const lockCount = row.lockCount + 1;
+  const minutes = Math.min(
+    settings.baseLockoutMinutes * Math.pow(2, lockCount - 1),
+    settings.maxLockoutMinutes
+  );
+  const lockedUntil = new Date(now.getTime() + minutes * 60 * 1000);
+  const rawUnlockToken = settings.sendUnlockEmail ? crypto.randomBytes(32).toString('hex') : undefined;
+
+  await adapter.setLockout({
+    userId: user.id,
+    // The counter starts over for the next lock period
+    failedAttempts: 0,
+    lockCount,
+    lockedUntil,
+    unlockToken: rawUnlockToken ? hashUnlockToken(rawUnlockToken) : row.unlockToken,
+    updatedAt: now
+  });
+
+  if (rawUnlockToken) {
+    await sendUnlockEmail(user.email, rawUnlockToken, lockedUntil, config);
+  }
+
+  return { locked: true, lockedUntil, failedAttempts: 0 };
+}
+
+/**
+ * Clear failure counters after a successful sign-in
+ *
+ * @param userId - User ID
+ * @param config - NextAuth-Simple configuration
+ */
+export async function recordSuccessfulLogin(
+  userId: string,
+  config: NextAuthSimpleConfig
+): Promise<void> {
+  if (!getLockoutSettings(config).enabled) {
+    return;
+  }
+
+  await getAdapter(config).deleteLockout(userId);
+}
+
+/**
+ * Unlock a user account (admin API)
+ *
+ * Clears the lock and the failure history, so the next lock starts at the base duration again.
+ *
+ * @param userId - User ID
+ * @param config - NextAuth-Simple configuration
+ * @returns Success status
+ */
+export async function unlockUser(
+  userId: string,
+  config: NextAuthSimpleConfig
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
+  try {
+    await getAdapter(config).deleteLockout(userId);
+
+    return { success: true };
+  } catch (error) {
+    getLogger(config).error('Error unlocking user', { userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to unlock user');
+  }
+}
+
+/**
+ * Unlock a user account with the token from an unlock email
+ *
+ * @param input - Email address and unlock token
+ * @param config - NextAuth-Simple configuration
+ * @returns Success status
+ */
+export async function unlockUserWithToken(
+  input: { email: string; token: string },
+  config: NextAuthSimpleConfig
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
+  try {
+    const adapter = getAdapter(config);
+    const user = await adapter.getUserByEmail(input.email);
+
+    if (!user) {
+      return authError('INVALID_TOKEN', config);
+    }
+
+    const row = await adapter.getLockout(user.id);
+
+    if (!row || !row.unlockToken || row.unlockToken !== hashUnlockToken(input.token)) {
+      return authError('INVALID_TOKEN', config);
+    }
+
+    // Lift the current lock but keep lockCount so repeated abuse still escalates
+    await adapter.setLockout({
+      ...row,
+      failedAttempts: 0,
+      lockedUntil: null,
+      unlockToken: null,
+      updatedAt: new Date()
+    });
+
+    return { success: true };
+  } catch (error) {
+    getLogger(config).error('Error unlocking user with token', { error });
+    return authError('INTERNAL_ERROR', config, 'Failed to unlock user');
+  }
+}
+
+/**
+ * Send the unlock email for a locked account
+ *
+ * @param email - Recipient email
+ * @param token - Raw unlock token
+ * @param lockedUntil - When the lock expires on its own
+ * @param config - NextAuth-Simple configuration
+ */
+async function sendUnlockEmail(
+  email: string,
+  token: string,
+  lockedUntil: Date,
+  config: NextAuthSimpleConfig
+): Promise<void> {
+  const settings = getLockoutSettings(config);
+
+  const baseUrl = process.env.NEXTAUTH_URL || '';
+  const unlockUrl = `${settings.unlockUrl || `${baseUrl}/unlock-account`}?token=${token}&email=${encodeURIComponent(email.toLowerCase())}`;
+
+  const subject = settings.emailSubject || 'Your account has been locked';
+  const html = `
+    <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2>Your account has been locked</h2>
+      <p>We locked your account after several failed sign-in attempts. It will unlock automatically at ${lockedUntil.toUTCString()}.</p>
+      <p>If this was you, click the link below to unlock your account now.</p>
+      <p style="margin: 20px 0;">
+        <a href="${unlockUrl}" style="background-color: #4F46E5; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">
+          Unlock your account
+        </a>
+      </p>
+      <p>If this wasn't you, consider changing your password once your account is unlocked.</p>
+      <p>If the button above doesn't work, copy and paste this URL into your browser:</p>
+      <p style="word-break: break-all; font-size: 14px; color: #666;">${unlockUrl}</p>
+    </div>
+  `;
+
+  const sendEmail = settings.sendEmail ||
+    ((to: string, subject: string, html: string) => defaultSendEmail(to, subject, html, config));
+
+  try {
+    await sendEmail(email.toLowerCase(), subject, html);
+  } catch (error) {
+    getLogger(config).error('Error sending unlock email', { error });
+  }
+}
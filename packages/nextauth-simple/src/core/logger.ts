@@ -0,0 +1,60 @@
+import { type LogFields, type LogLevel, type Logger, type NextAuthSimpleConfig } from './types';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Create a logger writing to the console
+ *
+ * @param options - Lowest level written (default: 'debug')
+ * @returns Console logger
+ */
+export function createConsoleLogger(options: { level?: LogLevel } = {}): Logger {
+  const minLevel = LOG_LEVELS.indexOf(options.level || 'debug');
+
+  const log = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LOG_LEVELS.indexOf(level) < minLevel) {
+      return;
+    }
+
+    // Fields are only printed when there are any
+    const args: unknown[] = fields && Object.keys(fields).length > 0 ? [fields] : [];
+    console[level](`[nextauth-simple] ${message}`, ...args);
+  };
+
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+}
+
+// Default logger
+export const consoleLogger: Logger = createConsoleLogger();
+
+// Logger discarding every entry, e.g. for tests
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+/**
+ * Get the logger of a configuration
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns `config.logger`, or the console logger
+ */
+export function getLogger(config?: NextAuthSimpleConfig): Logger {
+  return config?.logger || consoleLogger;
+}
+
+/**
+ * Add fields to every entry of a logger
+ *
+ * @param logger - Logger
+ * @param fields - Fields added to each entry; fields of the entry take precedence
+ * @returns Logger with the fields
+ */
+export function withLogFields(logger: Logger, fields: LogFields): Logger {
+  const log = (level: LogLevel) => (message: string, entryFields?: LogFields) =>
+    logger[level](message, { ...fields, ...entryFields });
+
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+}
@@ -1,41 +1,194 @@
 import { type NextRequest, NextResponse } from 'next/server';
-import { getSessionFromCookie } from './session';
-import { type NextAuthSimpleConfig } from './types';
+import { evaluateRouteRule, findRouteRule, matchesPath } from './routes';
+import { getSessionHintClaims, getSessionHintCookieName, verifySessionHint } from './session-hint';
+import { getSessionCookieName } from './cookies';
+import { authError } from './errors';
+import {
+  type AuthMiddlewareConfig,
+  type NextAuthSimpleConfig,
+  type RouteRule,
+  type SessionClaims
+} from './types';
+import { getLogger } from './logger';
 
 /**
  * Middleware function for protecting routes based on authentication status
- * 
+ *
+ * Strategies (config.middleware.strategy):
+ * - 'database' (default): full session lookup; needs the Node.js runtime
+ * - 'hint': verifies the signed session hint cookie with WebCrypto and falls back
+ *   to the session endpoint once the hint has expired; Edge compatible
+ * - 'fetch': asks the session endpoint on every request; Edge compatible
+ *
  * @param req - The Next.js request object
  * @param config - Configuration options for NextAuth-Simple
  * @returns NextResponse object
  */
 export async function authMiddleware(
   req: NextRequest,
-  config: NextAuthSimpleConfig
+  config: AuthMiddlewareConfig
 ) {
-  const { loginUrl = '/login', publicPaths = [] } = config;
+  const {
+    loginUrl = '/login',
+    publicPaths = [],
+    routes = [],
+    forbiddenUrl,
+    authenticatedRedirectUrl
+  } = config;
+  const { sessionUrl = '/api/auth/session' } = config.middleware || {};
   const path = req.nextUrl.pathname;
-  
+
+  // The session endpoint must be public, or fetching it would recurse
+  if (path === sessionUrl) {
+    return NextResponse.next();
+  }
+
+  // Paths without a rule just require a session
+  const rule: RouteRule = findRouteRule(path, routes) || { path };
+  const isPublic = rule.authenticated === false || publicPaths.some(publicPath => matchesPath(path, publicPath));
+  const isLoginPage = !!authenticatedRedirectUrl && path === loginUrl;
+
   // Check if the path is public
-  if (publicPaths.some(publicPath => 
-    publicPath instanceof RegExp 
-      ? publicPath.test(path) 
-      : path === publicPath || path.startsWith(`${publicPath}/`)
-  )) {
+  if (isPublic && !isLoginPage) {
     return NextResponse.next();
   }
-  
-  // Get session from cookie with O(1) lookup
-  const session = await getSessionFromCookie(req, config);
-  
+
+  // Renewed session cookies are written to the response
+  const response = NextResponse.next();
+  const claims = await getRequestClaims(req, config, response, rule);
+
+  // Signed-in users have no business on the login page
+  if (isLoginPage) {
+    return claims
+      ? NextResponse.redirect(new URL(authenticatedRedirectUrl, req.url))
+      : response;
+  }
+
+  const decision = evaluateRouteRule(rule, claims);
+
   // If no session, redirect to login
-  if (!session) {
+  if (decision === 'unauthenticated') {
     const url = req.nextUrl.clone();
     url.pathname = loginUrl;
     url.searchParams.set('callbackUrl', encodeURIComponent(req.url));
     return NextResponse.redirect(url);
   }
-  
+
+  // Signed in, but the route rule denies access
+  if (decision === 'forbidden') {
+    if (forbiddenUrl) {
+      return NextResponse.redirect(new URL(forbiddenUrl, req.url));
+    }
+
+    const { code, error } = authError('FORBIDDEN', config);
+    return NextResponse.json({ code, error }, { status: 403 });
+  }
+
   // User is authenticated, proceed
-  return NextResponse.next();
+  return response;
+}
+
+/**
+ * Resolve the session claims of a request using the configured strategy
+ *
+ * @param req - The Next.js request object
+ * @param config - Configuration options for NextAuth-Simple
+ * @param response - Response that receives renewed cookies
+ * @param rule - Route rule the claims are needed for
+ * @returns Session claims, or null when signed out
+ */
+async function getRequestClaims(
+  req: NextRequest,
+  config: AuthMiddlewareConfig,
+  response: NextResponse,
+  rule: RouteRule
+): Promise<SessionClaims | null> {
+  const { strategy = 'database', sessionUrl = '/api/auth/session' } = config.middleware || {};
+
+  if (strategy === 'database') {
+    if (!config.db && !config.adapter) {
+      throw new Error('authMiddleware requires `db` or `adapter` for the database strategy');
+    }
+
+    // Imported lazily so the Edge strategies never load the database client
+    const { getSessionFromCookie } = await import('./session');
+    const { getSessionClaims } = await import('./session-claims');
+
+    // Get session from cookie with O(1) lookup
+    const session = await getSessionFromCookie(req, config as NextAuthSimpleConfig, response);
+    return session ? getSessionClaims(session, config as NextAuthSimpleConfig, [rule]) : null;
+  }
+
+  if (!req.cookies.get(getSessionCookieName(config))) {
+    return null;
+  }
+
+  if (strategy === 'hint') {
+    const hint = await verifySessionHint(req.cookies.get(getSessionHintCookieName(config))?.value, config);
+
+    if (hint) {
+      return getSessionHintClaims(hint);
+    }
+  }
+
+  // Without a valid hint, revalidate against the session endpoint (which also re-issues the hint)
+  return fetchSessionClaims(req, sessionUrl, response, config);
+}
+
+/**
+ * Validate the session through the internal session endpoint
+ *
+ * The endpoint is fetched from the configured origin: the request's Host header
+ * is client-controlled, and a forged one would let any server answer with claims.
+ *
+ * @param req - The Next.js request object
+ * @param sessionUrl - Path of the session endpoint
+ * @param response - Response that receives any cookies set by the endpoint
+ * @param config - Configuration options for NextAuth-Simple
+ * @returns Session claims, or null if the endpoint returned no session
+ */
+async function fetchSessionClaims(
+  req: NextRequest,
+  sessionUrl: string,
+  response: NextResponse,
+  config: AuthMiddlewareConfig
+): Promise<SessionClaims | null> {
+  const origin = config.middleware?.sessionOrigin || process.env.NEXTAUTH_URL;
+
+  if (!origin) {
+    getLogger(config).error('authMiddleware requires middleware.sessionOrigin or NEXTAUTH_URL to fetch the session');
+    return null;
+  }
+
+  try {
+    const res = await fetch(new URL(sessionUrl, origin), {
+      headers: { cookie: req.headers.get('cookie') || '' },
+      cache: 'no-store'
+    });
+
+    if (!res.ok) {
+      return null;
+    }
+
+    // Forward renewed session and hint cookies to the browser
+    for (const cookie of res.headers.getSetCookie()) {
+      response.headers.append('set-cookie', cookie);
+    }
+
+    const data = await res.json();
+
+    if (!data.session) {
+      return null;
+    }
+
+    // Endpoints that do not return claims still satisfy rules that only require a session
+    return data.claims || {
+      userId: data.user?.id,
+      sessionId: data.session.id,
+      twoFactorVerified: !!data.session.twoFactorVerified
+    };
+  } catch (error) {
+    getLogger(config).error('Error fetching session', { error });
+    return null;
+  }
 }
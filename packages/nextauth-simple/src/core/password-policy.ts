@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { commonPasswords } from './common-passwords';
+import { getAuthErrorMessage } from './errors';
+import { type AuthErrorCode, type NextAuthSimpleConfig, type PasswordPolicy, type PasswordPolicyFailure } from './types';
+
+/**
+ * Get the password policy of a configuration
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns `security.passwordPolicy`, or the default policy
+ */
+export function getPasswordPolicy(config: NextAuthSimpleConfig): PasswordPolicy {
+  return config.security?.passwordPolicy || {};
+}
+
+/**
+ * Check a new password against a password policy
+ *
+ * Every rule is evaluated, so all failures can be shown at once. Messages
+ * come from the locale table of `config.errors`, like those of results.
+ *
+ * @param password - Plaintext password
+ * @param policy - Password policy
+ * @param context - Email address of the account, for the disallowEmail rule
+ * @param config - NextAuth-Simple configuration with `errors.messages`
+ * @returns Whether the password is allowed, and the failed rules
+ */
+export async function checkPasswordPolicy(
+  password: string,
+  policy: PasswordPolicy,
+  context: { email?: string } = {},
+  config: NextAuthSimpleConfig = {}
+): Promise<{ valid: boolean; failures: PasswordPolicyFailure[] }> {
+  const { minLength = 8, maxLength = 128 } = policy;
+  const failures: PasswordPolicyFailure[] = [];
+  const lowered = (password || '').toLowerCase();
+
+  const message = (code: AuthErrorCode, limit?: number) =>
+    getAuthErrorMessage(code, config).replace('{limit}', String(limit));
+
+  if (!password || password.length < minLength) {
+    failures.push({ rule: 'minLength', code: 'PASSWORD_TOO_SHORT', limit: minLength, message: message('PASSWORD_TOO_SHORT', minLength) });
+  }
+
+  if (password && password.length > maxLength) {
+    failures.push({ rule: 'maxLength', code: 'PASSWORD_TOO_LONG', limit: maxLength, message: message('PASSWORD_TOO_LONG', maxLength) });
+  }
+
+  if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+    failures.push({ rule: 'lowercase', code: 'PASSWORD_NO_LOWERCASE', message: message('PASSWORD_NO_LOWERCASE') });
+  }
+
+  if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+    failures.push({ rule: 'uppercase', code: 'PASSWORD_NO_UPPERCASE', message: message('PASSWORD_NO_UPPERCASE') });
+  }
+
+  if (policy.requireDigit && !/\p{Nd}/u.test(password)) {
+    failures.push({ rule: 'digit', code: 'PASSWORD_NO_DIGIT', message: message('PASSWORD_NO_DIGIT') });
+  }
+
+  if (policy.requireSymbol && !/[^\p{L}\p{Nd}]/u.test(password)) {
+    failures.push({ rule: 'symbol', code: 'PASSWORD_NO_SYMBOL', message: message('PASSWORD_NO_SYMBOL') });
+  }
+
+  // Local parts shorter than three characters would reject too many passwords
+  const localPart = context.email?.split('@')[0].toLowerCase();
+  if (policy.disallowEmail && localPart && localPart.length >= 3 && lowered.includes(localPart)) {
+    failures.push({ rule: 'email', code: 'PASSWORD_CONTAINS_EMAIL', message: message('PASSWORD_CONTAINS_EMAIL') });
+  }
+
+  if (policy.disallowCommon && (commonPasswords.has(lowered) || policy.commonPasswords?.some(common => common.toLowerCase() === lowered))) {
+    failures.push({ rule: 'common', code: 'PASSWORD_TOO_COMMON', message: message('PASSWORD_TOO_COMMON') });
+  }
+
+  if (policy.breachedPasswords && password) {
+    const digest = crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+    const breached = typeof policy.breachedPasswords === 'function'
+      ? await policy.breachedPasswords(digest)
+      : policy.breachedPasswords.has(digest);
+
+    if (breached) {
+      failures.push({ rule: 'breached', code: 'PASSWORD_BREACHED', message: message('PASSWORD_BREACHED') });
+    }
+  }
+
+  return { valid: failures.length === 0, failures };
+}
@@ -0,0 +1,324 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import {
+  BROWSER_HASH_PREFIX,
+  PBKDF2_ITERATIONS,
+  PBKDF2_PREFIX,
+  browserHashVerify,
+  getPbkdf2Iterations,
+  loadBcrypt,
+  pbkdf2Hash,
+  pbkdf2Verify
+} from '../utils/password';
+import { authError } from './errors';
+import { type AuthErrorCode, type NextAuthSimpleConfig, type PasswordHasher } from './types';
+import { getLogger } from './logger';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const BCRYPT_PATTERN = /^\$2[abxy]?\$(\d{2})\$/;
+
+/**
+ * Parse a PHC string such as `$scrypt$ln=17,r=8,p=1$<salt>$<hash>`
+ */
+function parsePhcString(hash: string): { id: string; params: Record<string, number>; salt: Buffer; digest: Buffer } | null {
+  const [empty, id, params, salt, digest] = hash.split('$');
+
+  if (empty !== '' || !id || !params || !salt || !digest) {
+    return null;
+  }
+
+  return {
+    id,
+    params: Object.fromEntries(params.split(',').map(param => {
+      const [key, value] = param.split('=');
+      return [key, Number(value)];
+    })),
+    salt: Buffer.from(salt, 'base64'),
+    digest: Buffer.from(digest, 'base64')
+  };
+}
+
+/**
+ * Encode bytes as unpadded base64, as used in PHC strings
+ */
+function toPhcBase64(bytes: Buffer): string {
+  return bytes.toString('base64').replace(/=+$/, '');
+}
+
+/**
+ * bcrypt password hasher (`$2b$<cost>$...` hashes)
+ */
+export class BcryptHasher implements PasswordHasher {
+  readonly algorithm = 'bcrypt';
+  private workFactor: number;
+
+  constructor(options: { workFactor?: number } = {}) {
+    this.workFactor = options.workFactor ?? 12;
+  }
+
+  async hash(password: string): Promise<string> {
+    const bcrypt = await loadBcrypt();
+
+    if (!bcrypt) {
+      throw new Error('The bcrypt module is not available; configure another security.passwordHasher');
+    }
+
+    return bcrypt.hash(password, this.workFactor);
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    const bcrypt = await loadBcrypt();
+    return !!bcrypt && bcrypt.compare(password, hash);
+  }
+
+  identifies(hash: string): boolean {
+    return BCRYPT_PATTERN.test(hash);
+  }
+
+  needsRehash(hash: string): boolean {
+    const match = BCRYPT_PATTERN.exec(hash);
+    return !!match && Number(match[1]) !== this.workFactor;
+  }
+}
+
+/**
+ * PBKDF2-HMAC-SHA256 password hasher using WebCrypto, for runtimes without bcrypt
+ * (`$pbkdf2-sha256$i=<iterations>$<salt>$<hash>`)
+ */
+export class Pbkdf2Hasher implements PasswordHasher {
+  readonly algorithm = 'pbkdf2-sha256';
+  private iterations: number;
+
+  constructor(options: { iterations?: number } = {}) {
+    this.iterations = options.iterations ?? PBKDF2_ITERATIONS;
+  }
+
+  async hash(password: string): Promise<string> {
+    return pbkdf2Hash(password, this.iterations);
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    return pbkdf2Verify(password, hash);
+  }
+
+  identifies(hash: string): boolean {
+    return hash.startsWith(PBKDF2_PREFIX);
+  }
+
+  needsRehash(hash: string): boolean {
+    return getPbkdf2Iterations(hash) !== this.iterations;
+  }
+}
+
+/**
+ * scrypt password hasher using Node's built-in implementation
+ * (`$scrypt$ln=<log2 N>,r=<block size>,p=<parallelization>$<salt>$<hash>`)
+ */
+export class ScryptHasher implements PasswordHasher {
+  readonly algorithm = 'scrypt';
+  private cost: number;
+  private blockSize: number;
+  private parallelization: number;
+
+  /**
+   * @param options - log2 of the CPU/memory cost (default: 17), block size (default: 8) and parallelization (default: 1)
+   */
+  constructor(options: { cost?: number; blockSize?: number; parallelization?: number } = {}) {
+    this.cost = options.cost ?? 17;
+    this.blockSize = options.blockSize ?? 8;
+    this.parallelization = options.parallelization ?? 1;
+  }
+
+  async hash(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const digest = await this.derive(password, salt, this.cost, this.blockSize, this.parallelization);
+
+    return `$scrypt$ln=${this.cost},r=${this.blockSize},p=${this.parallelization}$${toPhcBase64(salt)}$${toPhcBase64(digest)}`;
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    const parsed = parsePhcString(hash);
+
+    if (!parsed || parsed.id !== 'scrypt') {
+      return false;
+    }
+
+    const { ln, r, p } = parsed.params;
+    const digest = await this.derive(password, parsed.salt, ln, r, p, parsed.digest.length);
+
+    return crypto.timingSafeEqual(digest, parsed.digest);
+  }
+
+  identifies(hash: string): boolean {
+    return hash.startsWith('$scrypt$');
+  }
+
+  needsRehash(hash: string): boolean {
+    const parsed = parsePhcString(hash);
+
+    if (!parsed) {
+      return true;
+    }
+
+    const { ln, r, p } = parsed.params;
+    return ln !== this.cost || r !== this.blockSize || p !== this.parallelization;
+  }
+
+  private derive(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number, keyLength = 32) {
+    const N = 2 ** cost;
+
+    // Node rejects derivations above 32 MiB of memory unless maxmem is raised
+    return scrypt(password.normalize('NFKC'), salt, keyLength, {
+      N,
+      r: blockSize,
+      p: parallelization,
+      maxmem: 256 * N * blockSize
+    });
+  }
+}
+
+// Unsalted SHA-256 from earlier versions: accepted once at login, then upgraded
+const browserHashHasher: PasswordHasher = {
+  algorithm: 'browser-hash',
+  hash: async () => {
+    throw new Error('browser-hash digests are never written');
+  },
+  verify: browserHashVerify,
+  identifies: hash => hash.startsWith(BROWSER_HASH_PREFIX),
+  needsRehash: () => true
+};
+
+/**
+ * Whether a hash falls below the minimum work factors accepted in production
+ *
+ * Only known formats are judged; hashes of custom hashers are trusted.
+ */
+function isWeakPasswordHash(hash: string): boolean {
+  if (hash.startsWith(BROWSER_HASH_PREFIX)) {
+    return true;
+  }
+
+  const bcrypt = BCRYPT_PATTERN.exec(hash);
+  if (bcrypt) {
+    return Number(bcrypt[1]) < 10;
+  }
+
+  const iterations = getPbkdf2Iterations(hash);
+  if (iterations !== null) {
+    return iterations < PBKDF2_ITERATIONS;
+  }
+
+  const argon2 = /^\$argon2id\$v=\d+\$m=(\d+),t=(\d+),p=\d+\$/.exec(hash);
+  if (argon2) {
+    return Number(argon2[1]) < 19456 || Number(argon2[2]) < 2;
+  }
+
+  const parsed = parsePhcString(hash);
+  if (parsed?.id === 'scrypt') {
+    return parsed.params.ln < 15;
+  }
+
+  return false;
+}
+
+/**
+ * Get the hasher used for new passwords
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns `security.passwordHasher`, else bcrypt with `security.bcryptWorkFactor`,
+ * else PBKDF2 where the bcrypt module is unavailable
+ */
+export async function getPasswordHasher(config: NextAuthSimpleConfig): Promise<PasswordHasher> {
+  if (config.security?.passwordHasher) {
+    return config.security.passwordHasher;
+  }
+
+  return (await loadBcrypt())
+    ? new BcryptHasher({ workFactor: config.security?.bcryptWorkFactor })
+    : new Pbkdf2Hasher();
+}
+
+/**
+ * Hash a password with the configured hasher
+ *
+ * In production, hashes below the minimum work factors are refused.
+ *
+ * @param password - Plaintext password
+ * @param config - NextAuth-Simple configuration
+ * @returns Self-describing hash string
+ */
+export async function hashPassword(password: string, config: NextAuthSimpleConfig): Promise<string> {
+  const hasher = await getPasswordHasher(config);
+  const hash = await hasher.hash(password);
+
+  if (process.env.NODE_ENV === 'production' && isWeakPasswordHash(hash)) {
+    throw new Error(`Refusing to store a weak ${hasher.algorithm} password hash in production`);
+  }
+
+  return hash;
+}
+
+/**
+ * Check at startup that the configured hasher is strong enough
+ *
+ * Weak hashers are an error in production and a warning elsewhere.
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Success status
+ */
+export async function checkPasswordHashing(
+  config: NextAuthSimpleConfig
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
+  try {
+    const hasher = await getPasswordHasher(config);
+
+    if (!isWeakPasswordHash(await hasher.hash('nextauth-simple-probe'))) {
+      return { success: true };
+    }
+
+    const error = `Password hasher ${hasher.algorithm} is below the minimum work factors`;
+
+    if (process.env.NODE_ENV === 'production') {
+      return authError('CONFIGURATION_ERROR', config, error);
+    }
+
+    getLogger(config).warn(`${error}; this is refused in production`, { algorithm: hasher.algorithm });
+    return { success: true };
+  } catch (error) {
+    getLogger(config).error('Error checking password hashing', { error });
+    return authError('CONFIGURATION_ERROR', config, 'Password hashing is not available');
+  }
+}
+
+/**
+ * Verify a password against a stored hash of any known algorithm
+ *
+ * @param password - Plaintext password
+ * @param hash - Stored hash
+ * @param config - NextAuth-Simple configuration
+ * @returns Whether the password matches and whether the hash should be replaced
+ * by one from the configured hasher
+ */
+export async function verifyPassword(
+  password: string,
+  hash: string,
+  config: NextAuthSimpleConfig
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  const current = await getPasswordHasher(config);
+  const legacy = config.security?.legacyPasswordHashers || [new BcryptHasher(), new ScryptHasher(), new Pbkdf2Hasher()];
+
+  // The configured hasher wins when several recognise the hash
+  const hasher = [current, ...legacy, browserHashHasher].find(candidate => candidate.identifies(hash));
+
+  if (!hasher || !(await hasher.verify(password, hash))) {
+    return { valid: false, needsRehash: false };
+  }
+
+  return { valid: true, needsRehash: hasher !== current || current.needsRehash(hash) };
+}
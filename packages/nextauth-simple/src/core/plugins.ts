@@ -0,0 +1,214 @@
+import { type NextRequest } from 'next/server';
+import { type Table } from 'drizzle-orm';
+import { mergeAuthHooks } from './events';
+import {
+  type AuthEvent,
+  type AuthEventMap,
+  type AuthHook,
+  type AuthHookResult,
+  type AuthHooks,
+  type DatabaseDialect,
+  type NextAuthSimpleConfig
+} from './types';
+
+/**
+ * Plugin API
+ *
+ * Third-party features are defined with `definePlugin` and registered through
+ * `config.plugins`. A plugin contributes tables and migrations (applied by
+ * `applyMigrations`), lifecycle hooks (added by `integrateFeatures`) and
+ * routes (served by `createAuthHandlers` after the built-in routes).
+ */
+
+// Issue reported by a config schema
+export interface PluginConfigIssue {
+  message: string;
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+// Validator of plugin options following the Standard Schema interface, as implemented by Zod, Valibot and ArkType
+export interface PluginConfigSchema<TOptions = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) =>
+      | { value: TOptions; issues?: undefined }
+      | { issues: ReadonlyArray<PluginConfigIssue> }
+      | Promise<{ value: TOptions; issues?: undefined } | { issues: ReadonlyArray<PluginConfigIssue> }>;
+  };
+}
+
+// Versioned schema migration of a plugin
+export interface PluginMigration {
+  id: string; // '<plugin id>/<version>_<name>', recorded once applied; never edit a released migration
+  tables?: string[]; // Keys of the plugin's tables created by this migration
+  statements?: (dialect: DatabaseDialect) => string[]; // Further idempotent DDL run after the tables
+}
+
+// Hook of a plugin, which also receives the plugin's options
+export type PluginHook<E extends AuthEvent, TOptions> = (
+  payload: AuthEventMap[E],
+  config: NextAuthSimpleConfig,
+  options: TOptions
+) => Promise<AuthHookResult | void> | AuthHookResult | void;
+
+export type PluginHooks<TOptions> = { [E in AuthEvent]?: PluginHook<E, TOptions>[] };
+
+// Context passed to a plugin route handler
+export interface PluginRouteContext<TOptions> {
+  req: NextRequest;
+  config: NextAuthSimpleConfig;
+  params: Record<string, string>;
+  options: TOptions;
+}
+
+// Route served by createAuthHandlers
+export interface PluginRoute<TOptions> {
+  method: 'GET' | 'POST' | 'DELETE';
+  path: string; // Segments after the base path, ':name' captures a segment
+  handle: (context: PluginRouteContext<TOptions>) => Promise<Response>;
+}
+
+export interface AuthPluginDefinition<TOptions> {
+  id: string; // Unique plugin ID, also the prefix of its migration IDs
+  configSchema?: PluginConfigSchema<TOptions>; // Validates the options at initialization
+  tables?: Partial<Record<DatabaseDialect, Record<string, Table>>>; // Drizzle tables by dialect
+  migrations?: PluginMigration[]; // In the order they are applied
+  hooks?: PluginHooks<TOptions>;
+  routes?: PluginRoute<TOptions>[];
+}
+
+// Plugin registered in `config.plugins`
+export interface AuthPlugin<TOptions = any> extends AuthPluginDefinition<TOptions> {
+  options: TOptions;
+}
+
+const PLUGIN_ID_PATTERN = /^[A-Za-z][\w-]*$/;
+
+// Options as returned by the config schema (e.g. with defaults applied), by plugin
+const validatedOptions = new WeakMap<AuthPlugin, unknown>();
+
+/**
+ * Define a plugin
+ *
+ * @example
+ * export const ssoBridge = definePlugin({
+ *   id: 'ssoBridge',
+ *   configSchema: z.object({ issuer: z.string().url() }),
+ *   routes: [{ method: 'GET', path: 'sso/callback', handle: async ({ req, options }) => ... }]
+ * });
+ *
+ * const config = { ...defaultConfig, plugins: [ssoBridge({ issuer: 'https://sso.example.com' })] };
+ *
+ * @param definition - Plugin definition
+ * @returns Function creating the plugin from its options
+ */
+export function definePlugin<TOptions = undefined>(
+  definition: AuthPluginDefinition<TOptions>
+): (options: TOptions) => AuthPlugin<TOptions> {
+  const { id, tables = {}, migrations = [] } = definition;
+
+  if (!PLUGIN_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid plugin id "${id}": use letters, digits, '-' and '_', starting with a letter`);
+  }
+
+  for (const migration of migrations) {
+    if (!migration.id.startsWith(`${id}/`)) {
+      throw new Error(`Migration ${migration.id} of plugin ${id} must start with "${id}/"`);
+    }
+
+    for (const key of migration.tables || []) {
+      if (!Object.values(tables).some(dialectTables => dialectTables && key in dialectTables)) {
+        throw new Error(`Migration ${migration.id} of plugin ${id} creates unknown table ${key}`);
+      }
+    }
+  }
+
+  return options => ({ ...definition, options });
+}
+
+/**
+ * Validate the registered plugins and their options
+ *
+ * The options returned by each config schema, e.g. with defaults applied, are
+ * what the plugin's hooks and routes receive from then on.
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Validation result
+ */
+export async function validatePlugins(
+  config: NextAuthSimpleConfig
+): Promise<{ valid: boolean; errors: string[] }> {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const dialect = config.db?.dialect || 'postgres';
+
+  for (const plugin of config.plugins || []) {
+    if (seen.has(plugin.id)) {
+      errors.push(`Plugin ${plugin.id} is registered more than once`);
+      continue;
+    }
+    seen.add(plugin.id);
+
+    // Migrations are only rendered for the configured dialect
+    if (config.db && plugin.migrations?.some(migration => migration.tables?.length) && !plugin.tables?.[dialect]) {
+      errors.push(`Plugin ${plugin.id} has no tables for ${dialect}`);
+    }
+
+    if (plugin.configSchema) {
+      const result = await plugin.configSchema['~standard'].validate(plugin.options);
+
+      if (!result.issues) {
+        validatedOptions.set(plugin, result.value);
+      }
+
+      for (const issue of result.issues || []) {
+        const path = issue.path?.map(segment => typeof segment === 'object' ? String(segment.key) : String(segment)).join('.');
+        errors.push(`Plugin ${plugin.id}: ${path ? `${path}: ` : ''}${issue.message}`);
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Get the options of a plugin, as validated by its config schema once `validatePlugins` ran
+ */
+function getPluginOptions(plugin: AuthPlugin): unknown {
+  return validatedOptions.has(plugin) ? validatedOptions.get(plugin) : plugin.options;
+}
+
+/**
+ * Get the lifecycle hooks of the registered plugins
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Plugin hooks, in the order the plugins are registered
+ */
+export function getPluginHooks(config: NextAuthSimpleConfig): AuthHooks {
+  return mergeAuthHooks(...(config.plugins || []).map(plugin => Object.fromEntries(
+    Object.entries(plugin.hooks || {}).map(([event, hooks]) => [
+      event,
+      (hooks || []).map((hook: PluginHook<any, unknown>): AuthHook<any> =>
+        (payload, hookConfig) => hook(payload, hookConfig, getPluginOptions(plugin)))
+    ])
+  )));
+}
+
+/**
+ * Get the routes of the registered plugins
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Routes with the plugin options bound
+ */
+export function getPluginRoutes(config: NextAuthSimpleConfig): {
+  method: PluginRoute<unknown>['method'];
+  path: string;
+  handle: (context: Omit<PluginRouteContext<unknown>, 'options'>) => Promise<Response>;
+}[] {
+  return (config.plugins || []).flatMap(plugin => (plugin.routes || []).map(route => ({
+    method: route.method,
+    path: route.path,
+    handle: (context: Omit<PluginRouteContext<unknown>, 'options'>) => route.handle({ ...context, options: getPluginOptions(plugin) })
+  })));
+}
@@ -0,0 +1,313 @@
+import { type NextRequest } from 'next/server';
+import { eq, is, sql } from 'drizzle-orm';
+import { MySqlTable } from 'drizzle-orm/mysql-core';
+import { type MySql2Database } from 'drizzle-orm/mysql2';
+import { rateLimits } from '../db/schema';
+import { type BundledTables, type DrizzleDatabase, type PostgresTables, type QueryDatabase } from '../db/tables';
+import {
+  type NextAuthSimpleConfig,
+  type RateLimitEntry,
+  type RateLimitStore
+} from './types';
+
+/**
+ * In-memory rate limit store
+ *
+ * Counters live in the current process only, so limits are not shared between
+ * server instances. Use DrizzleRateLimitStore for multi-instance deployments.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    return this.current(key);
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    // Read and write without yielding, so concurrent increments cannot overwrite each other
+    const existing = this.current(key);
+
+    const entry: RateLimitEntry = existing
+      ? { count: existing.count + 1, resetAt: existing.resetAt }
+      : { count: 1, resetAt: new Date(Date.now() + windowMs) };
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private current(key: string): RateLimitEntry | null {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    // Drop expired windows lazily
+    if (Date.now() >= entry.resetAt.getTime()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry;
+  }
+}
+
+/**
+ * Database-backed rate limit store using the `rate_limits` table
+ */
+export class DrizzleRateLimitStore implements RateLimitStore {
+  private client: QueryDatabase;
+  private table: PostgresTables['rateLimits'];
+  private mysql: boolean;
+
+  constructor(client: DrizzleDatabase, table: BundledTables['rateLimits'] = rateLimits) {
+    this.client = client as unknown as QueryDatabase;
+    this.table = table as PostgresTables['rateLimits'];
+    this.mysql = is(table, MySqlTable);
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const rows = await this.client
+      .select()
+      .from(this.table)
+      .where(eq(this.table.key, key))
+      .limit(1)
+      .execute();
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const row = rows[0];
+
+    if (Date.now() >= new Date(row.resetAt).getTime()) {
+      return null;
+    }
+
+    return { count: row.count, resetAt: new Date(row.resetAt) };
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const { table } = this;
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    // Window elapsed - restart the counter, otherwise bump it. A single upsert
+    // keeps concurrent attempts from overwriting each other's count.
+    const elapsed = sql`${table.resetAt} <= ${sql.param(now, table.resetAt)}`;
+    const set = {
+      count: sql`case when ${elapsed} then 1 else ${table.count} + 1 end`,
+      resetAt: sql`case when ${elapsed} then ${sql.param(resetAt, table.resetAt)} else ${table.resetAt} end`,
+      updatedAt: now
+    };
+
+    const values = { key, count: 1, resetAt, updatedAt: now };
+
+    // MySQL has no RETURNING; its assignments run in order, so count is set before reset_at
+    if (this.mysql) {
+      const client = this.client as unknown as MySql2Database;
+      await client.insert(table as unknown as MySqlTable).values(values).onDuplicateKeyUpdate({ set }).execute();
+    } else {
+      const [row] = await this.client.insert(table).values(values).onConflictDoUpdate({ target: table.key, set }).returning().execute();
+      return { count: row.count, resetAt: new Date(row.resetAt) };
+    }
+
+    const [row] = await this.client.select().from(table).where(eq(table.key, key)).limit(1).execute();
+    return { count: row.count, resetAt: new Date(row.resetAt) };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client
+      .delete(this.table)
+      .where(eq(this.table.key, key))
+      .execute();
+  }
+}
+
+// Shared fallback store used when no store is configured
+const defaultStore = new MemoryRateLimitStore();
+
+/**
+ * Resolve rate limit settings from configuration
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Effective rate limit settings
+ */
+function getRateLimitSettings(config: NextAuthSimpleConfig) {
+  const { enabled = true, maxAttempts = 5, windowMs = 5 * 60 * 1000, store = defaultStore } =
+    config.security?.rateLimit || {};
+
+  return { enabled, maxAttempts, windowMs, store };
+}
+
+/**
+ * Build the counter keys for an attempt, one per identifier
+ *
+ * @param scope - Entry point being limited (e.g. 'login')
+ * @param identifiers - Identifiers to count failures against
+ * @returns Rate limit keys
+ */
+export function getRateLimitKeys(
+  scope: string,
+  identifiers: { email?: string; userId?: string; ip?: string }
+): string[] {
+  const keys: string[] = [];
+
+  if (identifiers.email) keys.push(`${scope}:email:${identifiers.email.toLowerCase()}`);
+  if (identifiers.userId) keys.push(`${scope}:user:${identifiers.userId}`);
+  if (identifiers.ip) keys.push(`${scope}:ip:${identifiers.ip}`);
+
+  return keys;
+}
+
+/**
+ * Get the client IP address from a request
+ *
+ * Clients can send any `x-forwarded-for` header, so it is only read when
+ * `security.trustedProxies` is set: each trusted proxy appends the address it
+ * received the request from, and the entry that many hops from the right is
+ * the client. Otherwise the platform IP (`req.ip`) is used.
+ *
+ * @param req - Optional NextRequest object
+ * @param config - NextAuth-Simple configuration
+ * @returns Client IP address or undefined
+ */
+export function getClientIp(req?: NextRequest, config?: NextAuthSimpleConfig): string | undefined {
+  if (!req) {
+    return undefined;
+  }
+
+  const trustedProxies = config?.security?.trustedProxies || 0;
+
+  if (trustedProxies > 0) {
+    const forwardedFor = req.headers?.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean);
+
+    if (forwardedFor?.length) {
+      return forwardedFor[Math.max(forwardedFor.length - trustedProxies, 0)];
+    }
+
+    const realIp = req.headers?.get('x-real-ip');
+    if (realIp) {
+      return realIp;
+    }
+  }
+
+  return req.ip || undefined;
+}
+
+/**
+ * Check whether any of the given keys has exhausted its attempts
+ *
+ * @param keys - Rate limit keys
+ * @param config - NextAuth-Simple configuration
+ * @returns Whether the attempt is limited and seconds until it is allowed again
+ */
+export async function checkRateLimit(
+  keys: string[],
+  config: NextAuthSimpleConfig
+): Promise<{ limited: boolean; retryAfter?: number }> {
+  const { enabled, maxAttempts, store } = getRateLimitSettings(config);
+
+  if (!enabled) {
+    return { limited: false };
+  }
+
+  let retryAfterMs = 0;
+
+  for (const key of keys) {
+    const entry = await store.get(key);
+
+    if (entry && entry.count >= maxAttempts) {
+      retryAfterMs = Math.max(retryAfterMs, entry.resetAt.getTime() - Date.now());
+    }
+  }
+
+  if (retryAfterMs > 0) {
+    return { limited: true, retryAfter: Math.ceil(retryAfterMs / 1000) };
+  }
+
+  return { limited: false };
+}
+
+/**
+ * Count an attempt against every key before it is verified
+ *
+ * Each counter is incremented atomically by the store, so concurrent attempts
+ * cannot all pass a check that reads the counter first.
+ *
+ * @param keys - Rate limit keys
+ * @param config - NextAuth-Simple configuration
+ * @returns Whether the attempt exceeds the limit and seconds until it is allowed again
+ */
+export async function consumeRateLimit(
+  keys: string[],
+  config: NextAuthSimpleConfig
+): Promise<{ limited: boolean; retryAfter?: number }> {
+  const { enabled, maxAttempts, windowMs, store } = getRateLimitSettings(config);
+
+  if (!enabled) {
+    return { limited: false };
+  }
+
+  let retryAfterMs = 0;
+
+  for (const key of keys) {
+    const entry = await store.increment(key, windowMs);
+
+    if (entry.count > maxAttempts) {
+      retryAfterMs = Math.max(retryAfterMs, entry.resetAt.getTime() - Date.now(), 1);
+    }
+  }
+
+  if (retryAfterMs > 0) {
+    return { limited: true, retryAfter: Math.ceil(retryAfterMs / 1000) };
+  }
+
+  return { limited: false };
+}
+
+/**
+ * Record a failed attempt against every key
+ *
+ * @param keys - Rate limit keys
+ * @param config - NextAuth-Simple configuration
+ */
+export async function recordFailedAttempt(
+  keys: string[],
+  config: NextAuthSimpleConfig
+): Promise<void> {
+  const { enabled, windowMs, store } = getRateLimitSettings(config);
+
+  if (!enabled) {
+    return;
+  }
+
+  for (const key of keys) {
+    await store.increment(key, windowMs);
+  }
+}
+
+/**
+ * Clear the counters for the given keys (e.g. after a successful attempt)
+ *
+ * @param keys - Rate limit keys
+ * @param config - NextAuth-Simple configuration
+ */
+export async function resetRateLimit(
+  keys: string[],
+  config: NextAuthSimpleConfig
+): Promise<void> {
+  const { enabled, store } = getRateLimitSettings(config);
+
+  if (!enabled) {
+    return;
+  }
+
+  for (const key of keys) {
+    await store.reset(key);
+  }
+}
@@ -0,0 +1,118 @@
+import { and, eq, gt, is, lt } from 'drizzle-orm';
+import { MySqlTable } from 'drizzle-orm/mysql-core';
+import { type MySql2Database } from 'drizzle-orm/mysql2';
+import { revokedSessions } from '../db/schema';
+import { type BundledTables, type DrizzleDatabase, type PostgresTables, type QueryDatabase } from '../db/tables';
+import { type NextAuthSimpleConfig, type RevocationStore } from './types';
+
+/**
+ * In-memory revocation store
+ *
+ * Revocations live in the current process only. Use DrizzleRevocationStore when
+ * running more than one server instance.
+ */
+export class MemoryRevocationStore implements RevocationStore {
+  private entries = new Map<string, Date>();
+
+  async revoke(jti: string, expiresAt: Date): Promise<void> {
+    this.purge();
+    this.entries.set(jti, expiresAt);
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    const expiresAt = this.entries.get(jti);
+    return !!expiresAt && expiresAt.getTime() > Date.now();
+  }
+
+  // Expired tokens are rejected anyway, so their revocations can be forgotten
+  private purge(): void {
+    const now = Date.now();
+    for (const [jti, expiresAt] of this.entries) {
+      if (expiresAt.getTime() <= now) {
+        this.entries.delete(jti);
+      }
+    }
+  }
+}
+
+/**
+ * Database-backed revocation store using the `revoked_sessions` table
+ */
+export class DrizzleRevocationStore implements RevocationStore {
+  private client: QueryDatabase;
+  private table: PostgresTables['revokedSessions'];
+  private mysql: boolean;
+
+  constructor(client: DrizzleDatabase, table: BundledTables['revokedSessions'] = revokedSessions) {
+    this.client = client as unknown as QueryDatabase;
+    this.table = table as PostgresTables['revokedSessions'];
+    this.mysql = is(table, MySqlTable);
+  }
+
+  async revoke(jti: string, expiresAt: Date): Promise<void> {
+    await this.client
+      .delete(this.table)
+      .where(lt(this.table.expiresAt, new Date()))
+      .execute();
+
+    // MySQL has no ON CONFLICT clause; re-setting the key makes a repeated revocation a no-op
+    if (this.mysql) {
+      const client = this.client as unknown as MySql2Database;
+      await client.insert(this.table as unknown as MySqlTable).values({ jti, expiresAt }).onDuplicateKeyUpdate({ set: { jti } }).execute();
+    } else {
+      await this.client.insert(this.table).values({ jti, expiresAt }).onConflictDoNothing().execute();
+    }
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    const rows = await this.client
+      .select()
+      .from(this.table)
+      .where(and(eq(this.table.jti, jti), gt(this.table.expiresAt, new Date())))
+      .limit(1)
+      .execute();
+
+    return rows.length > 0;
+  }
+}
+
+/**
+ * Revoke a stateless session
+ *
+ * @param jti - Session ID from the token payload
+ * @param expiresAt - Token expiry
+ * @param config - NextAuth-Simple configuration
+ */
+export async function revokeSessionToken(
+  jti: string,
+  expiresAt: Date,
+  config: NextAuthSimpleConfig
+): Promise<void> {
+  const store = config.session?.jwt?.revocationStore;
+
+  if (!store) {
+    return;
+  }
+
+  await store.revoke(jti, expiresAt);
+}
+
+/**
+ * Check whether a stateless session has been revoked
+ *
+ * @param jti - Session ID from the token payload
+ * @param config - NextAuth-Simple configuration
+ * @returns Whether the session has been revoked
+ */
+export async function isSessionTokenRevoked(
+  jti: string,
+  config: NextAuthSimpleConfig
+): Promise<boolean> {
+  const store = config.session?.jwt?.revocationStore;
+
+  if (!store) {
+    return false;
+  }
+
+  return store.isRevoked(jti);
+}
@@ -0,0 +1,94 @@
+import { type RouteRule, type SessionClaims } from './types';
+
+/**
+ * Route rule matching
+ *
+ * Edge compatible: no database access, the claims are resolved by the caller.
+ */
+
+/**
+ * Check whether a path matches a pattern
+ *
+ * Strings match the exact path and everything below it, RegExps are tested as is.
+ *
+ * @param path - Request path
+ * @param pattern - Path pattern
+ * @returns Whether the path matches
+ */
+export function matchesPath(path: string, pattern: string | RegExp): boolean {
+  return pattern instanceof RegExp
+    ? pattern.test(path)
+    : path === pattern || path.startsWith(`${pattern}/`);
+}
+
+/**
+ * Find the rule that applies to a path
+ *
+ * @param path - Request path
+ * @param routes - Configured route rules
+ * @returns First matching rule or null
+ */
+export function findRouteRule(path: string, routes: RouteRule[] = []): RouteRule | null {
+  return routes.find(rule => matchesPath(path, rule.path)) || null;
+}
+
+/**
+ * Check whether rules need claims beyond the session itself
+ *
+ * @param rules - Route rules
+ * @returns Which claims have to be resolved
+ */
+export function getRequiredClaims(rules: RouteRule[] = []): {
+  roles: boolean;
+  permissions: boolean;
+  verifiedEmail: boolean;
+} {
+  return {
+    roles: rules.some(rule => !!rule.roles?.length),
+    permissions: rules.some(rule => !!rule.permissions?.length),
+    verifiedEmail: rules.some(rule => !!rule.verifiedEmail)
+  };
+}
+
+/**
+ * Evaluate a route rule against the claims of a session
+ *
+ * @param rule - Matching route rule
+ * @param claims - Session claims, or null when signed out
+ * @returns 'allowed', 'unauthenticated' (sign in first) or 'forbidden'
+ */
+export function evaluateRouteRule(
+  rule: RouteRule,
+  claims: SessionClaims | null
+): 'allowed' | 'unauthenticated' | 'forbidden' {
+  if (rule.authenticated === false) {
+    return 'allowed';
+  }
+
+  if (!claims) {
+    return 'unauthenticated';
+  }
+
+  if (rule.roles?.length && !rule.roles.some(role => claims.roles?.includes(role))) {
+    return 'forbidden';
+  }
+
+  // The RBAC wildcard '*' grants every permission
+  if (
+    rule.permissions?.length &&
+    !claims.permissions?.includes('*') &&
+    !rule.permissions.every(permission => claims.permissions?.includes(permission))
+  ) {
+    return 'forbidden';
+  }
+
+  if (rule.twoFactorVerified && !claims.twoFactorVerified) {
+    return 'forbidden';
+  }
+
+  if (rule.verifiedEmail && !claims.verifiedEmail) {
+    return 'forbidden';
+  }
+
+  return 'allowed';
+}
@@ -0,0 +1,49 @@
+import { getRequiredClaims } from './routes';
+import { type NextAuthSimpleConfig, type RouteRule, type Session, type SessionClaims } from './types';
+
+/**
+ * Resolve the claims of a session that route rules are evaluated against
+ *
+ * Only the claims the given rules need are loaded, so sessions on routes without
+ * role or verification requirements cost no extra queries.
+ *
+ * @param session - Validated session
+ * @param config - NextAuth-Simple configuration
+ * @param rules - Rules the claims are needed for (default: all configured routes)
+ * @returns Session claims
+ */
+export async function getSessionClaims(
+  session: Omit<Session, 'token'>,
+  config: NextAuthSimpleConfig,
+  rules: RouteRule[] = config.routes || []
+): Promise<SessionClaims> {
+  const required = getRequiredClaims(rules);
+
+  const claims: SessionClaims = {
+    userId: session.userId,
+    sessionId: session.id,
+    twoFactorVerified: !!session.twoFactorVerified
+  };
+
+  if ((required.roles || required.permissions) && config.features?.rbac?.enabled) {
+    const { getUserPermissions, getUserRoles } = await import('../features/rbac');
+
+    if (required.roles) {
+      const result = await getUserRoles(session.userId, config);
+      claims.roles = (result.roles || []).map(role => role.name);
+    }
+
+    if (required.permissions) {
+      const result = await getUserPermissions(session.userId, config);
+      claims.permissions = result.permissions || [];
+    }
+  }
+
+  if (required.verifiedEmail && config.features?.verification?.enabled) {
+    const { getUserVerificationStatus } = await import('../features/verification');
+    const result = await getUserVerificationStatus(session.userId, config);
+    claims.verifiedEmail = !!result.status?.verified;
+  }
+
+  return claims;
+}
@@ -0,0 +1,164 @@
+import { type CookieHandler } from '../cookie-handler';
+import { base64UrlDecode, base64UrlEncode, deriveKey, getSubtle } from '../utils/webcrypto';
+import { getSessionTokenKeys } from './jwt';
+import { getCookieName, setCookie } from './cookies';
+import { type AuthMiddlewareConfig, type Session, type SessionClaims, type SessionHint } from './types';
+
+/**
+ * Session hint cookie
+ *
+ * A short-lived, HMAC-signed cookie stating "session X of user Y was valid at
+ * sign-in or at the last full validation". It lets authMiddleware check the
+ * session in the Edge runtime without a database connection. Route handlers
+ * still validate the session cookie itself.
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Get the name of the session hint cookie
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Hint cookie name (the session cookie name with a '-hint' suffix)
+ */
+export function getSessionHintCookieName(config: AuthMiddlewareConfig): string {
+  return getCookieName(config, 'hint');
+}
+
+/**
+ * Check whether session hints are enabled
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Whether the middleware uses the 'hint' strategy
+ */
+export function isSessionHintEnabled(config: AuthMiddlewareConfig): boolean {
+  return config.middleware?.strategy === 'hint';
+}
+
+/**
+ * Create a signed session hint
+ *
+ * @param session - Session the hint is issued for
+ * @param config - NextAuth-Simple configuration
+ * @param claims - Optional claims for route rules
+ * @returns Hint cookie value and its expiry
+ */
+export async function createSessionHint(
+  session: Pick<Session, 'id' | 'userId' | 'expiresAt'>,
+  config: AuthMiddlewareConfig,
+  claims?: SessionClaims
+): Promise<{ value: string; expiresAt: Date }> {
+  const { hintMaxAgeSeconds = 300 } = config.middleware || {};
+  const [key] = getSessionTokenKeys(config);
+
+  const expiresAt = new Date(Math.min(
+    Date.now() + hintMaxAgeSeconds * 1000,
+    new Date(session.expiresAt).getTime()
+  ));
+
+  const hint: SessionHint = {
+    sid: session.id,
+    sub: session.userId,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+    kid: key.id
+  };
+
+  if (claims) {
+    const { userId: _, sessionId: __, ...rest } = claims;
+    hint.claims = rest;
+  }
+
+  const payload = base64UrlEncode(JSON.stringify(hint));
+  const signingKey = await deriveKey(key.secret, 'hint');
+  const signature = await getSubtle().sign('HMAC', signingKey, encoder.encode(payload));
+
+  return { value: `${payload}.${base64UrlEncode(new Uint8Array(signature))}`, expiresAt };
+}
+
+/**
+ * Verify a session hint
+ *
+ * @param value - Hint cookie value
+ * @param config - NextAuth-Simple configuration
+ * @returns Hint payload, or null if the hint is missing, invalid or expired
+ */
+export async function verifySessionHint(
+  value: string | undefined,
+  config: AuthMiddlewareConfig
+): Promise<SessionHint | null> {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const [payload, signature] = value.split('.');
+
+    if (!payload || !signature) {
+      return null;
+    }
+
+    const hint = JSON.parse(decoder.decode(base64UrlDecode(payload))) as SessionHint;
+    const key = getSessionTokenKeys(config).find(candidate => candidate.id === hint.kid);
+
+    if (!key) {
+      return null;
+    }
+
+    const signingKey = await deriveKey(key.secret, 'hint');
+    const valid = await getSubtle().verify('HMAC', signingKey, base64UrlDecode(signature), encoder.encode(payload));
+
+    if (!valid || typeof hint.exp !== 'number' || hint.exp * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return hint;
+  } catch (error) {
+    // Malformed or tampered hints are treated as missing
+    return null;
+  }
+}
+
+/**
+ * Get the claims carried by a verified session hint
+ *
+ * @param hint - Verified session hint
+ * @returns Session claims
+ */
+export function getSessionHintClaims(hint: SessionHint): SessionClaims {
+  return { ...hint.claims, userId: hint.sub, sessionId: hint.sid };
+}
+
+/**
+ * Issue or refresh the session hint cookie
+ *
+ * The hint is only re-issued once half of its lifetime has elapsed, so reading
+ * the session on every request does not rewrite the cookie every time.
+ *
+ * @param cookieHandler - Cookie handler for the current request
+ * @param session - Validated session
+ * @param config - NextAuth-Simple configuration
+ * @param getClaims - Resolves the claims for route rules, only called when a new hint is issued
+ */
+export async function setSessionHintCookie(
+  cookieHandler: CookieHandler,
+  session: Pick<Session, 'id' | 'userId' | 'expiresAt'>,
+  config: AuthMiddlewareConfig,
+  getClaims?: () => Promise<SessionClaims>
+): Promise<void> {
+  if (!isSessionHintEnabled(config)) {
+    return;
+  }
+
+  const { hintMaxAgeSeconds = 300 } = config.middleware || {};
+  const name = getSessionHintCookieName(config);
+  const current = await verifySessionHint(cookieHandler.get(name)?.value, config);
+
+  if (current && current.sid === session.id && current.exp * 1000 - Date.now() > (hintMaxAgeSeconds * 1000) / 2) {
+    return;
+  }
+
+  const hint = await createSessionHint(session, config, getClaims ? await getClaims() : undefined);
+
+  setCookie(cookieHandler, name, hint.value, hint.expiresAt, config);
+}
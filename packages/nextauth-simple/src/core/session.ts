@@ -1,7 +1,15 @@
+import crypto from 'crypto';
 import { type NextRequest } from 'next/server';
-import { type NextAuthSimpleConfig, type Session, type User } from './types';
-import { getCookieHandler } from '../cookie-handler';
-import { eq } from 'drizzle-orm';
+import { type AuthErrorCode, type NextAuthSimpleConfig, type Session, type SessionTokenPayload, type User } from './types';
+import { authError } from './errors';
+import { type CookieHandler, getCookieHandler } from '../cookie-handler';
+import { decodeSessionToken, encodeSessionToken } from './jwt';
+import { isSessionTokenRevoked } from './revocation';
+import { isSessionHintEnabled, setSessionHintCookie } from './session-hint';
+import { getSessionClaims } from './session-claims';
+import { getSessionCookieName, setCookie } from './cookies';
+import { getAdapter } from '../adapters';
+import { getLogger } from './logger';
 
 /**
  * Get session from cookie
@@ -17,16 +25,19 @@ export async function getSessionFromCookie(
   res?: any
 ): Promise<(Omit<Session, 'token'> & { user: Omit<User, 'password'> }) | null> {
   try {
-    const cookieHandler = getCookieHandler(req, res);
-    const token = cookieHandler.get('nextauth-simple-session')?.value;
+    const cookieHandler = getCookieHandler(req, res, config);
+    const token = cookieHandler.get(getSessionCookieName(config))?.value;
 
     if (!token) {
       return null;
     }
 
-    return getSessionByToken(token, config);
+    const session = await getSessionByToken(token, config, cookieHandler);
+    await refreshSessionHint(cookieHandler, session, config);
+
+    return session;
   } catch (error) {
-    console.error('Error getting session from cookie:', error);
+    getLogger(config).error('Error getting session from cookie', { error });
     return null;
   }
 }
@@ -45,18 +56,100 @@ export async function getServerSession(
   res?: any
 ): Promise<(Omit<Session, 'token'> & { user: Omit<User, 'password'> }) | null> {
   try {
-    const cookieHandler = getCookieHandler(req, res);
-    const token = cookieHandler.get('nextauth-simple-session')?.value;
+    const cookieHandler = getCookieHandler(req, res, config);
+    const token = cookieHandler.get(getSessionCookieName(config))?.value;
 
     if (!token) {
       return null;
     }
 
-    return getSessionByToken(token, config);
+    const session = await getSessionByToken(token, config, cookieHandler);
+    await refreshSessionHint(cookieHandler, session, config);
+
+    return session;
   } catch (error) {
-    console.error('Error getting server session:', error);
+    getLogger(config).error('Error getting server session', { error });
+    return null;
+  }
+}
+
+/**
+ * Keep the middleware session hint cookie in step with a fully validated session
+ * 
+ * @param cookieHandler - Cookie handler for the current request
+ * @param session - Validated session, or null
+ * @param config - NextAuth-Simple configuration
+ */
+async function refreshSessionHint(
+  cookieHandler: CookieHandler,
+  session: Omit<Session, 'token'> | null,
+  config: NextAuthSimpleConfig
+): Promise<void> {
+  if (!session || !isSessionHintEnabled(config)) {
+    return;
+  }
+
+  try {
+    await setSessionHintCookie(cookieHandler, session, config, () => getSessionClaims(session, config));
+  } catch (error) {
+    // Ignore - cookies are read-only in Server Components
+  }
+}
+
+/**
+ * Hash a session token for storage and lookup
+ * 
+ * Only the digest is stored, so a read-only database leak does not expose usable tokens.
+ * 
+ * @param token - Raw session token (cookie value)
+ * @param config - NextAuth-Simple configuration
+ * @returns Hex digest (HMAC-SHA256 with config.secret, or SHA-256)
+ */
+export function hashSessionToken(token: string, config: NextAuthSimpleConfig): string {
+  if (config.secret) {
+    return crypto.createHmac('sha256', config.secret).update(token).digest('hex');
+  }
+
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Write the session cookie
+ * 
+ * @param cookieHandler - Cookie handler for the current request
+ * @param token - Session token
+ * @param expiresAt - Cookie expiry
+ * @param config - NextAuth-Simple configuration
+ */
+export function setSessionCookie(
+  cookieHandler: CookieHandler,
+  token: string,
+  expiresAt: Date,
+  config: NextAuthSimpleConfig
+): void {
+  setCookie(cookieHandler, getSessionCookieName(config), token, expiresAt, config);
+}
+
+/**
+ * Get the absolute expiry of a session
+ * 
+ * @param createdAt - When the session was created
+ * @param config - NextAuth-Simple configuration
+ * @returns Absolute expiry date, or null if no maximum lifetime is configured
+ */
+export function getAbsoluteExpiry(
+  createdAt: Date,
+  config: NextAuthSimpleConfig
+): Date | null {
+  const maxLifetimeDays = config.session?.maxLifetimeDays;
+
+  if (!maxLifetimeDays) {
     return null;
   }
+
+  const absoluteExpiry = new Date(createdAt);
+  absoluteExpiry.setDate(absoluteExpiry.getDate() + maxLifetimeDays);
+  return absoluteExpiry;
 }
 
 /**
@@ -64,53 +157,48 @@ export async function getServerSession(
  * 
  * @param token - Session token
  * @param config - NextAuth-Simple configuration
+ * @param cookieHandler - Optional cookie handler used to re-issue renewed session cookies
  * @returns Session object or null
  */
 async function getSessionByToken(
   token: string,
-  config: NextAuthSimpleConfig
+  config: NextAuthSimpleConfig,
+  cookieHandler?: CookieHandler
 ): Promise<(Omit<Session, 'token'> & { user: Omit<User, 'password'> }) | null> {
   try {
-    const { db } = config;
+    // Stateless sessions carry everything in the token - no database round-trips
+    if (config.session?.strategy === 'jwt') {
+      return getSessionFromSessionToken(token, config, cookieHandler);
+    }
+
+    const adapter = getAdapter(config);
 
-    // Get session from database - O(1) with indexed token field
-    const sessions = await db.client
-      .select()
-      .from(db.tables.sessions)
-      .where(eq(db.tables.sessions.token, token))
-      .limit(1)
-      .execute();
+    // Get session and user by token digest - O(1) with indexed token field
+    const result = await adapter.getSessionAndUser(hashSessionToken(token, config));
 
-    if (!sessions || sessions.length === 0) {
+    if (!result) {
       return null;
     }
 
-    const session = sessions[0] as Session;
+    let session = result.session;
+    const user = result.user;
+    const now = new Date();
+    const absoluteExpiry = getAbsoluteExpiry(new Date(session.createdAt), config);
 
-    // Check if session is expired
-    if (new Date() > new Date(session.expiresAt)) {
+    // Check if session is expired or past its absolute lifetime
+    if (now > new Date(session.expiresAt) || (absoluteExpiry && now > absoluteExpiry)) {
       // Delete expired session
-      await db.client
-        .delete(db.tables.sessions)
-        .where(eq(db.tables.sessions.id, session.id))
-        .execute();
+      await adapter.deleteSession(session.id);
 
       return null;
     }
 
-    // Get user from database - O(1) with indexed id field
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where(eq(db.tables.users.id, session.userId))
-      .limit(1)
-      .execute();
-
-    if (!users || users.length === 0) {
-      return null;
+    // Rolling sessions: renew once enough of the lifetime has elapsed
+    if (config.session?.rolling) {
+      session = await renewSession(session, token, config, cookieHandler);
     }
 
-    const user = users[0] as User;
+    session = await touchSession(session, config);
 
     // Return session with user (excluding sensitive fields)
     const { token: _, ...sessionWithoutToken } = session;
@@ -121,7 +209,238 @@ async function getSessionByToken(
       user: userWithoutPassword
     };
   } catch (error) {
-    console.error('Error getting session by token:', error);
+    getLogger(config).error('Error getting session by token', { error });
+    return null;
+  }
+}
+
+/**
+ * Build the payload of a stateless session token
+ * 
+ * @param session - Session (without token)
+ * @param user - User summary
+ * @returns Token payload
+ */
+export function createSessionTokenPayload(
+  session: Omit<Session, 'token'>,
+  user: Omit<User, 'password'>
+): SessionTokenPayload {
+  return {
+    jti: session.id,
+    sub: session.userId,
+    user,
+    iat: Math.floor(new Date(session.updatedAt).getTime() / 1000),
+    exp: Math.floor(new Date(session.expiresAt).getTime() / 1000),
+    createdAt: Math.floor(new Date(session.createdAt).getTime() / 1000),
+    twoFactorVerified: !!session.twoFactorVerified
+  };
+}
+
+/**
+ * Get session from a stateless (jwt strategy) session token
+ * 
+ * @param token - Signed and encrypted session token
+ * @param config - NextAuth-Simple configuration
+ * @param cookieHandler - Optional cookie handler used to re-issue renewed session cookies
+ * @returns Session object or null
+ */
+async function getSessionFromSessionToken(
+  token: string,
+  config: NextAuthSimpleConfig,
+  cookieHandler?: CookieHandler
+): Promise<(Omit<Session, 'token'> & { user: Omit<User, 'password'> }) | null> {
+  const payload = await decodeSessionToken(token, config);
+
+  if (!payload) {
+    return null;
+  }
+
+  const createdAt = new Date(payload.createdAt * 1000);
+  const absoluteExpiry = getAbsoluteExpiry(createdAt, config);
+
+  if (absoluteExpiry && new Date() > absoluteExpiry) {
+    return null;
+  }
+
+  if (await isSessionTokenRevoked(payload.jti, config)) {
     return null;
   }
+
+  // Dates do not survive JSON serialization
+  const user = {
+    ...payload.user,
+    createdAt: new Date(payload.user.createdAt),
+    updatedAt: new Date(payload.user.updatedAt)
+  };
+
+  let session: Omit<Session, 'token'> = {
+    id: payload.jti,
+    userId: payload.sub,
+    expiresAt: new Date(payload.exp * 1000),
+    twoFactorVerified: !!payload.twoFactorVerified,
+    createdAt,
+    updatedAt: new Date(payload.iat * 1000)
+  };
+
+  // Rolling sessions: renewing re-issues the token with a later expiry
+  if (config.session?.rolling && cookieHandler) {
+    const renewedExpiry = getRenewedExpiry(session, config);
+
+    if (renewedExpiry) {
+      const renewed = { ...session, expiresAt: renewedExpiry, updatedAt: new Date() };
+
+      try {
+        const renewedToken = await encodeSessionToken(createSessionTokenPayload(renewed, user), config);
+        setSessionCookie(cookieHandler, renewedToken, renewedExpiry, config);
+        session = renewed;
+      } catch (error) {
+        // Ignore - cookies are read-only in Server Components, the current token stays valid
+      }
+    }
+  }
+
+  return { ...session, user };
+}
+
+/**
+ * Get the new expiry for a rolling session, if the renewal threshold has been reached
+ * 
+ * @param session - Current session
+ * @param config - NextAuth-Simple configuration
+ * @returns New expiry, or null if the session should not be renewed
+ */
+function getRenewedExpiry(
+  session: Omit<Session, 'token'>,
+  config: NextAuthSimpleConfig
+): Date | null {
+  const { sessionExpiryDays = 30 } = config.security || {};
+  const { renewAfterFraction = 0.5 } = config.session || {};
+
+  const now = new Date();
+  const lifetimeMs = sessionExpiryDays * 24 * 60 * 60 * 1000;
+
+  // Time elapsed since the session was issued or last renewed
+  const elapsedMs = lifetimeMs - (new Date(session.expiresAt).getTime() - now.getTime());
+  if (elapsedMs < lifetimeMs * renewAfterFraction) {
+    return null;
+  }
+
+  let expiresAt = new Date(now.getTime() + lifetimeMs);
+
+  // Renewals can never push the session past its absolute lifetime
+  const absoluteExpiry = getAbsoluteExpiry(new Date(session.createdAt), config);
+  if (absoluteExpiry && absoluteExpiry < expiresAt) {
+    expiresAt = absoluteExpiry;
+  }
+
+  if (expiresAt.getTime() <= new Date(session.expiresAt).getTime()) {
+    return null;
+  }
+
+  return expiresAt;
+}
+
+/**
+ * Record session activity, at most once per `activityUpdateMinutes`
+ * 
+ * @param session - Current session
+ * @param config - NextAuth-Simple configuration
+ * @returns Session with its (possibly) updated lastActiveAt
+ */
+async function touchSession(
+  session: Session,
+  config: NextAuthSimpleConfig
+): Promise<Session> {
+  const { activityUpdateMinutes = 5 } = config.session || {};
+  const now = new Date();
+  const lastActiveAt = session.lastActiveAt ? new Date(session.lastActiveAt) : null;
+
+  if (lastActiveAt && now.getTime() - lastActiveAt.getTime() < activityUpdateMinutes * 60 * 1000) {
+    return session;
+  }
+
+  try {
+    await getAdapter(config).updateSession(session.id, { lastActiveAt: now });
+  } catch (error) {
+    // Activity tracking is best effort and must not invalidate the session
+    getLogger(config).error('Error updating session activity', { error });
+    return session;
+  }
+
+  return { ...session, lastActiveAt: now };
+}
+
+/**
+ * Extend a session's expiry if the configured renewal threshold has been reached
+ * 
+ * The expiry is only stored once the cookie has been re-issued, so a renewal
+ * attempted where cookies are read-only is retried on a later request.
+ * 
+ * @param session - Current session
+ * @param token - Session token (to re-issue the cookie)
+ * @param config - NextAuth-Simple configuration
+ * @param cookieHandler - Optional cookie handler used to re-issue the cookie
+ * @returns Session with its (possibly) updated expiry
+ */
+async function renewSession(
+  session: Session,
+  token: string,
+  config: NextAuthSimpleConfig,
+  cookieHandler?: CookieHandler
+): Promise<Session> {
+  const expiresAt = getRenewedExpiry(session, config);
+
+  if (!expiresAt || !cookieHandler) {
+    return session;
+  }
+
+  try {
+    setSessionCookie(cookieHandler, token, expiresAt, config);
+  } catch (error) {
+    // Ignore - cookies are read-only in Server Components, the current expiry stays
+    return session;
+  }
+
+  const now = new Date();
+  await getAdapter(config).updateSession(session.id, { expiresAt, updatedAt: now });
+
+  return { ...session, expiresAt, updatedAt: now };
+}
+
+/**
+ * Migrate sessions created before token hashing
+ * 
+ * Run once after upgrading. Rows whose token is not already a digest are either
+ * rehashed in place (users stay signed in) or deleted (everyone signs in again).
+ * 
+ * @param config - NextAuth-Simple configuration
+ * @param options - 'rehash' (default) or 'invalidate'
+ * @returns Number of migrated sessions
+ */
+export async function migrateSessionTokens(
+  config: NextAuthSimpleConfig,
+  options: { strategy?: 'rehash' | 'invalidate' } = {}
+): Promise<{ success: boolean; migrated?: number; code?: AuthErrorCode; error?: string }> {
+  try {
+    const { strategy = 'rehash' } = options;
+    const adapter = getAdapter(config);
+
+    const sessions = await adapter.listSessions();
+
+    // Digests are 64 hex characters; the previous plaintext tokens were UUIDs
+    const plaintextSessions = sessions.filter(session => !/^[0-9a-f]{64}$/.test(session.token));
+
+    for (const session of plaintextSessions) {
+      if (strategy === 'invalidate') {
+        await adapter.deleteSession(session.id);
+      } else {
+        await adapter.updateSession(session.id, { token: hashSessionToken(session.token, config) });
+      }
+    }
+
+    return { success: true, migrated: plaintextSessions.length };
+  } catch (error) {
+    getLogger(config).error('Error migrating session tokens', { error });
+    return authError('INTERNAL_ERROR', config, 'Failed to migrate session tokens');
+  }
 }
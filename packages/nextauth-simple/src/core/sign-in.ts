@@ -0,0 +1,92 @@
+import { type NextRequest } from 'next/server';
+import { getAdapter } from '../adapters';
+import { createTwoFactorChallenge, isTwoFactorEnabled } from '../features/twoFactor';
+import { createSession } from './auth';
+import { authError } from './errors';
+import { runAuthHooks } from './events';
+import { getLockoutStatus } from './lockout';
+import { type AuthResult, type NextAuthSimpleConfig, type SignInMethod } from './types';
+import { getLogger } from './logger';
+
+/**
+ * Complete a sign-in once a login method has identified the user
+ *
+ * Every login method ends here, so the same checks apply before a session is
+ * issued: account lockout, the preLogin hooks (e.g. account verification) and
+ * the second factor of users who enabled 2FA. When the second factor is still
+ * missing, a challenge is returned instead of a session.
+ *
+ * @param userId - ID of the user identified by the login method
+ * @param options - Login method, and whether the second factor was verified
+ * @param config - NextAuth-Simple configuration
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
+ * @returns Authentication result with the session, or with `twoFactorRequired` and a challenge token
+ */
+export async function completeSignIn(
+  userId: string,
+  options: { method: SignInMethod; twoFactorVerified?: boolean },
+  config: NextAuthSimpleConfig,
+  req?: NextRequest,
+  res?: any
+): Promise<AuthResult> {
+  try {
+    const { method, twoFactorVerified = false } = options;
+    const user = await getAdapter(config).getUser(userId);
+
+    if (!user) {
+      return authError('USER_NOT_FOUND', config);
+    }
+
+    const lockout = await getLockoutStatus(userId, config);
+    if (lockout.locked) {
+      return { ...authError('ACCOUNT_LOCKED', config), locked: true, lockedUntil: lockout.lockedUntil };
+    }
+
+    const { password: _, ...userWithoutPassword } = user;
+
+    // Hooks may still refuse the sign-in, e.g. for unverified accounts
+    const preLogin = await runAuthHooks('preLogin', { user: userWithoutPassword, method }, config);
+    if (!preLogin.success) {
+      return { success: false, code: preLogin.code, error: preLogin.error };
+    }
+
+    // No login method skips the second factor of users who enabled it
+    if (!twoFactorVerified && config.features?.twoFactor?.enabled && await isTwoFactorEnabled(userId, config)) {
+      const challenge = await createTwoFactorChallenge(userId, config);
+
+      if (!challenge.success) {
+        return { success: false, code: challenge.code || 'INTERNAL_ERROR', error: challenge.error || 'Failed to create two-factor challenge' };
+      }
+
+      return {
+        success: true,
+        user: userWithoutPassword,
+        userId,
+        code: 'TWO_FACTOR_REQUIRED',
+        twoFactorRequired: true,
+        challengeToken: challenge.challengeToken
+      };
+    }
+
+    const session = await createSession(userId, config, req, res, { twoFactorVerified });
+    const { token: __, ...sessionWithoutToken } = session;
+    await runAuthHooks('postLogin', { user: userWithoutPassword, session: sessionWithoutToken, method }, config);
+
+    return {
+      success: true,
+      user: userWithoutPassword,
+      userId,
+      session: {
+        id: session.id,
+        userId: session.userId,
+        expiresAt: session.expiresAt,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt
+      }
+    };
+  } catch (error) {
+    getLogger(config).error('Error completing sign-in', { userId, error });
+    return authError('INTERNAL_ERROR', config, 'Login failed');
+  }
+}
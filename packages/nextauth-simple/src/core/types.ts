@@ -2,32 +2,299 @@
  * Type definitions for NextAuth-Simple
  */
 
+import { type DrizzleAdapterTables } from '../adapters/drizzle';
+import { type AuthAdapter } from '../adapters/types';
+import { type DrizzleDatabase } from '../db/tables';
+import { type AuthPlugin } from './plugins';
+
+// SQL dialects with bundled table schemas
+export type DatabaseDialect = 'postgres' | 'sqlite' | 'mysql';
+
 // Configuration options for NextAuth-Simple
 export interface NextAuthSimpleConfig {
   // Base configuration properties (e.g., database, secret, etc.)
   [key: string]: any; // Placeholder; replace with actual properties if known
-  // Database connection configuration
-  db: {
-    client: any; // Drizzle client
-    tables: {
-      users: any; // Users table schema
-      sessions: any; // Sessions table schema
-    };
+  // Server-side secret used to key token digests (HMAC-SHA256); falls back to plain SHA-256
+  secret?: string;
+  // Storage adapter used for all reads and writes (default: DrizzleAdapter built from `db`)
+  adapter?: AuthAdapter;
+  // Database connection configuration, required unless an adapter is given
+  db?: {
+    client: DrizzleDatabase; // Drizzle client
+    dialect?: DatabaseDialect; // Selects the bundled feature tables (default: 'postgres')
+    tables: DrizzleAdapterTables; // Users and sessions tables; feature tables default to the bundled ones
   };
   // Security settings
   security?: {
     bcryptWorkFactor?: number; // Default: 12
+    passwordHasher?: PasswordHasher; // Hashes new passwords (default: BcryptHasher with bcryptWorkFactor, Pbkdf2Hasher without bcrypt)
+    legacyPasswordHashers?: PasswordHasher[]; // Verify hashes of other algorithms until they are upgraded (default: bcrypt, scrypt, PBKDF2)
+    passwordPolicy?: PasswordPolicy; // Rules for new passwords (default: at least 8 characters)
     sessionExpiryDays?: number; // Default: 30
+    trustedProxies?: number; // Reverse proxies appending to x-forwarded-for (default: 0, use the platform IP)
     rateLimit?: {
+      enabled?: boolean; // Default: true
       maxAttempts?: number; // Default: 5
       windowMs?: number; // Default: 5 * 60 * 1000 (5 minutes)
+      store?: RateLimitStore; // Default: in-memory store (per process)
+    };
+    lockout?: {
+      enabled?: boolean; // Default: false
+      maxFailedAttempts?: number; // Consecutive failures before locking (default: 10)
+      baseLockoutMinutes?: number; // First lock duration, doubled on each further lock (default: 15)
+      maxLockoutMinutes?: number; // Upper bound for the lock duration (default: 24 * 60)
+      sendUnlockEmail?: boolean; // Email the user an unlock link when locked (default: false)
+      unlockUrl?: string; // Page handling the unlock link (default: NEXTAUTH_URL + '/unlock-account')
+      emailSubject?: string; // Unlock email subject line
+      sendEmail?: (to: string, subject: string, html: string) => Promise<boolean>; // Custom email sending function
     };
   };
+  // Session settings
+  session?: {
+    rolling?: boolean; // Extend active sessions on use (default: false)
+    renewAfterFraction?: number; // Fraction of the lifetime that must elapse before renewing (default: 0.5)
+    maxLifetimeDays?: number; // Absolute lifetime from sign-in that renewals can never exceed
+    activityUpdateMinutes?: number; // Minimum interval between lastActiveAt updates (default: 5)
+    strategy?: 'database' | 'jwt'; // Where session state lives (default: 'database')
+    jwt?: {
+      keys?: { id: string; secret: string }[]; // Signing/encryption keys, current key first (default: config.secret)
+      revocationStore?: RevocationStore; // Revoked token IDs, so logout takes effect immediately
+    };
+  };
+  // Cookie settings, applied to every cookie the library sets
+  cookies?: {
+    name?: string; // Session cookie name without prefix (default: 'nextauth-simple-session')
+    prefix?: '__Host-' | '__Secure-'; // Cookie name prefix enforced by browsers (default: none)
+    domain?: string; // e.g. '.example.com' to share sessions across subdomains (not allowed with '__Host-')
+    path?: string; // Default: '/'
+    sameSite?: 'strict' | 'lax' | 'none'; // Default: 'strict'; 'lax' lets OAuth return redirects carry the cookie
+    secure?: boolean; // Default: true in production
+  };
+  // CSRF protection for state-changing auth requests
+  csrf?: {
+    enabled?: boolean; // Default: true
+    headerName?: string; // Header carrying the token (default: 'x-csrf-token')
+    trustedOrigins?: string[]; // Extra origins accepted by the Origin/Referer check, e.g. 'https://app.example.com'
+  };
+  // Middleware settings
+  middleware?: {
+    strategy?: 'database' | 'hint' | 'fetch'; // How authMiddleware validates sessions (default: 'database')
+    sessionUrl?: string; // Session endpoint used by 'fetch' and as the 'hint' fallback (default: '/api/auth/session')
+    sessionOrigin?: string; // Absolute origin the session endpoint is fetched from, never the request's Host (default: NEXTAUTH_URL)
+    hintMaxAgeSeconds?: number; // Lifetime of the signed session hint cookie (default: 300)
+  };
+  // Access rules checked by authMiddleware, first match wins
+  routes?: RouteRule[];
+  // Lifecycle hooks run by the sign-in and registration flows; integrateFeatures adds those of enabled features
+  hooks?: AuthHooks;
+  // Third-party features created with definePlugin
+  plugins?: AuthPlugin[];
+  // Receives the library's log entries (default: consoleLogger; noopLogger silences them)
+  logger?: Logger;
+  // Messages of failed results
+  errors?: {
+    locale?: string; // Locale of the `error` message of results (default: 'en')
+    messages?: Record<string, AuthErrorMessages>; // Message overrides by locale, e.g. { de: { INVALID_CREDENTIALS: '...' } }
+  };
   // URLs
   loginUrl?: string; // Default: '/login'
+  forbiddenUrl?: string; // Redirect target when a route rule denies access (default: 403 response)
+  authenticatedRedirectUrl?: string; // Redirect signed-in users away from loginUrl to this URL (default: disabled)
   publicPaths?: (string | RegExp)[]; // Paths that don't require authentication
 }
 
+// Access requirements for a path (pattern matching works like publicPaths)
+export interface RouteRule {
+  path: string | RegExp;
+  authenticated?: boolean; // false makes the path public (default: true)
+  roles?: string[]; // User needs at least one of these roles (RBAC feature)
+  permissions?: string[]; // User needs all of these permissions (RBAC feature)
+  twoFactorVerified?: boolean; // Session must have been completed with a second factor
+  verifiedEmail?: boolean; // User must have verified their account (Verification feature)
+}
+
+// Authorization data of a session, as evaluated against route rules
+export interface SessionClaims {
+  userId: string;
+  sessionId: string;
+  roles?: string[];
+  permissions?: string[];
+  twoFactorVerified?: boolean;
+  verifiedEmail?: boolean;
+}
+
+// Configuration accepted by authMiddleware; `db` (or `adapter`) is only required by the 'database' middleware strategy
+export type AuthMiddlewareConfig = Partial<NextAuthSimpleConfig>;
+
+// Payload of the signed session hint cookie read by the Edge middleware
+export interface SessionHint {
+  sid: string; // Session ID
+  sub: string; // User ID
+  exp: number; // Hint expiry (seconds), never later than the session expiry
+  kid: string; // ID of the signing key
+  claims?: Omit<SessionClaims, 'userId' | 'sessionId'>; // Only the claims the route rules need
+}
+
+// Failed attempt counter tracked by a rate limit store
+export interface RateLimitEntry {
+  count: number;
+  resetAt: Date;
+}
+
+// Storage backend for failed attempt counters
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>;
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  reset(key: string): Promise<void>;
+}
+
+// Rules new passwords must satisfy on registration, reset and change
+export interface PasswordPolicy {
+  minLength?: number; // Default: 8
+  maxLength?: number; // Default: 128
+  requireLowercase?: boolean; // Default: false
+  requireUppercase?: boolean; // Default: false
+  requireDigit?: boolean; // Default: false
+  requireSymbol?: boolean; // Default: false
+  disallowEmail?: boolean; // Reject passwords containing the email's local part (default: false)
+  disallowCommon?: boolean; // Reject passwords from the bundled common-password list (default: false)
+  commonPasswords?: string[]; // Extra passwords rejected by disallowCommon, e.g. the product name
+  breachedPasswords?: ReadonlySet<string> | ((sha1: string) => boolean | Promise<boolean>); // Uppercase SHA-1 hex digests of breached passwords
+}
+
+// Rule a password failed, with the parameters needed to describe it
+export type PasswordPolicyFailure =
+  | { rule: 'minLength' | 'maxLength'; code: AuthErrorCode; limit: number; message: string }
+  | { rule: 'lowercase' | 'uppercase' | 'digit' | 'symbol' | 'email' | 'common' | 'breached'; code: AuthErrorCode; message: string };
+
+// Password hashing algorithm producing self-describing hash strings
+export interface PasswordHasher {
+  algorithm: string; // e.g. 'bcrypt', 'scrypt', 'argon2id'
+  hash(password: string): Promise<string>;
+  verify(password: string, hash: string): Promise<boolean>;
+  identifies(hash: string): boolean; // Whether the hash was produced by this algorithm
+  needsRehash(hash: string): boolean; // Whether the hash was produced with other parameters than this hasher's
+}
+
+// Severity of a log entry
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Structured context of a log entry
+export interface LogFields {
+  [key: string]: unknown;
+  userId?: string;
+  feature?: string; // Feature that logged the entry, e.g. 'twoFactor'
+  requestId?: string; // Set for entries logged while createAuthHandlers serves a request
+  error?: unknown; // Caught error
+}
+
+// Destination of log entries, e.g. an adapter for pino or winston
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+// Machine-readable reason of a failed result; `error` holds the human message
+export type AuthErrorCode =
+  | 'INVALID_INPUT' // Required fields are missing or malformed
+  | 'INVALID_EMAIL'
+  | 'WEAK_PASSWORD' // See passwordPolicyFailures
+  | 'PASSWORD_TOO_SHORT' // Codes of passwordPolicyFailures; `{limit}` in their messages is replaced
+  | 'PASSWORD_TOO_LONG'
+  | 'PASSWORD_NO_LOWERCASE'
+  | 'PASSWORD_NO_UPPERCASE'
+  | 'PASSWORD_NO_DIGIT'
+  | 'PASSWORD_NO_SYMBOL'
+  | 'PASSWORD_CONTAINS_EMAIL'
+  | 'PASSWORD_TOO_COMMON'
+  | 'PASSWORD_BREACHED'
+  | 'INVALID_CREDENTIALS'
+  | 'USER_EXISTS'
+  | 'USER_NOT_FOUND'
+  | 'ACCOUNT_LOCKED'
+  | 'ACCOUNT_NOT_VERIFIED'
+  | 'ACCOUNT_ALREADY_VERIFIED'
+  | 'RATE_LIMITED'
+  | 'TWO_FACTOR_REQUIRED' // Also set on sign-ins waiting for the second factor
+  | 'TWO_FACTOR_NOT_SET_UP'
+  | 'TWO_FACTOR_ALREADY_ENABLED'
+  | 'INVALID_TWO_FACTOR_CODE'
+  | 'INVALID_CHALLENGE'
+  | 'INVALID_TOKEN'
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_USED'
+  | 'INVALID_STATE' // OAuth state is missing or expired
+  | 'OAUTH_FAILED'
+  | 'NOT_AUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'CSRF_INVALID'
+  | 'NOT_FOUND'
+  | 'ALREADY_EXISTS'
+  | 'FEATURE_DISABLED'
+  | 'UNSUPPORTED' // Not possible with the configured session strategy
+  | 'HOOK_REJECTED'
+  | 'EMAIL_FAILED'
+  | 'CONFIGURATION_ERROR'
+  | 'INTERNAL_ERROR';
+
+// Messages of error codes in one locale
+export type AuthErrorMessages = Partial<Record<AuthErrorCode, string>>;
+
+// Failed result
+export interface AuthError {
+  success: false;
+  code: AuthErrorCode;
+  error: string;
+}
+
+// Way a user identified themselves; 'twoFactor' completes a sign-in started by another method
+export type SignInMethod = 'password' | 'magicUrl' | 'social' | 'passkey' | 'twoFactor';
+
+// Lifecycle events of the sign-in and registration flows, with their payloads
+export interface AuthEventMap {
+  preLogin: { user: Omit<User, 'password'>; method: SignInMethod }; // The user is identified, no session exists yet
+  postLogin: { user: Omit<User, 'password'>; session: Omit<Session, 'token'>; method: SignInMethod };
+  preRegistration: { email: string }; // Input is valid and the email is not taken
+  postRegistration: { user: Omit<User, 'password'>; session: Omit<Session, 'token'> };
+}
+
+export type AuthEvent = keyof AuthEventMap;
+
+// Outcome of a hook; a failed pre-event hook aborts the flow with its error
+export interface AuthHookResult {
+  success: boolean;
+  code?: AuthErrorCode; // Default: 'HOOK_REJECTED'
+  error?: string;
+}
+
+// Hook run for an auth event; returning nothing counts as success
+export type AuthHook<E extends AuthEvent = AuthEvent> = (
+  payload: AuthEventMap[E],
+  config: NextAuthSimpleConfig
+) => Promise<AuthHookResult | void> | AuthHookResult | void;
+
+// Hooks of each auth event, run in order
+export type AuthHooks = { [E in AuthEvent]?: AuthHook<E>[] };
+
+// Revoked stateless session IDs (jti), kept until the token would have expired
+export interface RevocationStore {
+  revoke(jti: string, expiresAt: Date): Promise<void>;
+  isRevoked(jti: string): Promise<boolean>;
+}
+
+// Payload of a stateless (jwt strategy) session token
+export interface SessionTokenPayload {
+  jti: string; // Session ID
+  sub: string; // User ID
+  user: Omit<User, 'password'>; // User summary
+  iat: number; // Issued at (seconds)
+  exp: number; // Expires at (seconds)
+  createdAt: number; // Original sign-in time (seconds), used for the absolute lifetime
+  twoFactorVerified?: boolean;
+}
+
 // User type
 export interface User {
   id: string;
@@ -43,18 +310,42 @@ export interface Session {
   userId: string;
   token: string;
   expiresAt: Date;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  deviceLabel?: string | null; // Parsed from the user agent, e.g. 'Chrome on macOS'
+  lastActiveAt?: Date | null;
+  twoFactorVerified?: boolean; // Whether sign-in was completed with a second factor
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Session as shown on an "active sessions" page
+export interface ActiveSession extends Omit<Session, 'token'> {
+  isCurrent: boolean; // Whether this is the session of the current request
+}
+
 // Authentication result
 export interface AuthResult {
   success: boolean;
   user?: Omit<User, 'password'>;
+  code?: AuthErrorCode;
   error?: string;
   session?: Omit<Session, 'token'>;
   userId?: string;
-  twoFactorRequired?: boolean;
+  twoFactorRequired?: boolean; // Set when the sign-in waits for the second factor; no session was created
+  challengeToken?: string; // Two-factor challenge to answer with the code
+  rateLimited?: boolean; // Set when the attempt was rejected by the rate limiter
+  retryAfter?: number; // Seconds until another attempt is allowed
+  locked?: boolean; // Set when the account is locked out
+  lockedUntil?: Date;
+  passwordPolicyFailures?: PasswordPolicyFailure[]; // Set when a new password breaks the password policy
+}
+
+// Account lockout status
+export interface LockoutStatus {
+  locked: boolean;
+  lockedUntil?: Date;
+  failedAttempts: number;
 }
 
 // Registration input
@@ -69,10 +360,20 @@ export interface LoginInput {
   password: string;
 }
 
+// Change password input
+export interface ChangePasswordInput {
+  userId: string;
+  currentPassword: string;
+  newPassword: string;
+}
+
 // Session context for client components
 export interface SessionContextType {
   session: Omit<Session, 'token'> | null;
   user: Omit<User, 'password'> | null;
   status: 'loading' | 'authenticated' | 'unauthenticated';
   refetch: () => Promise<void>;
+  listSessions: () => Promise<ActiveSession[]>;
+  revokeSession: (sessionId: string) => Promise<boolean>;
+  revokeOtherSessions: () => Promise<boolean>;
 }
@@ -0,0 +1,154 @@
+import { is, sql, SQL, type Column, type Table } from 'drizzle-orm';
+import {
+  getTableConfig as getMysqlTableConfig,
+  MySqlDialect,
+  type MySqlDatabase,
+  type MySqlTable,
+  type PreparedQueryHKTBase,
+  type QueryResultHKT as MySqlQueryResultHKT
+} from 'drizzle-orm/mysql-core';
+import { getTableConfig as getPgTableConfig, PgDialect, type PgDatabase, type PgTable, type QueryResultHKT } from 'drizzle-orm/pg-core';
+import {
+  getTableConfig as getSqliteTableConfig,
+  SQLiteSyncDialect,
+  type BaseSQLiteDatabase,
+  type SQLiteTable
+} from 'drizzle-orm/sqlite-core';
+import { type DatabaseDialect } from '../core/types';
+import { type DrizzleDatabase } from './tables';
+
+const sqlDialects = {
+  postgres: new PgDialect(),
+  sqlite: new SQLiteSyncDialect(),
+  mysql: new MySqlDialect()
+};
+
+interface TableDefinition {
+  name: string;
+  columns: Column[];
+  indexes: { config: { name?: string; columns: (Column | SQL)[]; unique?: boolean } }[];
+  foreignKeys: {
+    reference: () => { columns: Column[]; foreignTable: Table; foreignColumns: Column[] };
+    onDelete?: string;
+    getName(): string;
+  }[];
+}
+
+/**
+ * Get the name, columns, indexes and foreign keys of a table
+ */
+function getTableDefinition(table: Table, dialect: DatabaseDialect): TableDefinition {
+  switch (dialect) {
+    case 'sqlite':
+      return getSqliteTableConfig(table as SQLiteTable);
+    case 'mysql':
+      return getMysqlTableConfig(table as MySqlTable);
+    default:
+      return getPgTableConfig(table as PgTable);
+  }
+}
+
+/**
+ * Quote an identifier for a SQL dialect
+ */
+function quoteIdentifier(name: string, dialect: DatabaseDialect): string {
+  return dialect === 'mysql' ? `\`${name}\`` : `"${name}"`;
+}
+
+/**
+ * Render a column default as a SQL literal or expression
+ */
+function renderDefault(column: Column, dialect: DatabaseDialect): string {
+  if (is(column.default, SQL)) {
+    return sqlDialects[dialect].sqlToQuery(column.default).sql;
+  }
+
+  const value = column.mapToDriverValue(column.default);
+
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  return String(value);
+}
+
+/**
+ * Quote a list of columns (or index expressions) for a SQL dialect
+ */
+function quoteColumns(columns: (Column | SQL)[], dialect: DatabaseDialect): string {
+  return columns
+    .map(column => is(column, SQL) ? sqlDialects[dialect].sqlToQuery(column).sql : quoteIdentifier(column.name, dialect))
+    .join(', ');
+}
+
+/**
+ * Build the CREATE TABLE and CREATE INDEX statements for a bundled table
+ *
+ * MySQL has no `CREATE INDEX IF NOT EXISTS`, so its indexes are declared
+ * inside the CREATE TABLE statement instead.
+ *
+ * @param table - Drizzle table of the given dialect
+ * @param dialect - SQL dialect
+ * @returns Idempotent DDL statements, table first
+ */
+export function createTableStatements(table: Table, dialect: DatabaseDialect): string[] {
+  const { name, columns, indexes, foreignKeys } = getTableDefinition(table, dialect);
+  const tableName = quoteIdentifier(name, dialect);
+
+  const definitions = columns.map(column => {
+    let definition = `${quoteIdentifier(column.name, dialect)} ${column.getSQLType()}`;
+    if (column.primary) definition += ' PRIMARY KEY';
+    if (column.notNull) definition += ' NOT NULL';
+    if (column.isUnique) definition += ' UNIQUE';
+    if (column.default !== undefined) definition += ` DEFAULT ${renderDefault(column, dialect)}`;
+    return definition;
+  });
+
+  for (const foreignKey of foreignKeys) {
+    const { columns: fkColumns, foreignTable, foreignColumns } = foreignKey.reference();
+    const foreignName = getTableDefinition(foreignTable, dialect).name;
+    let definition = `CONSTRAINT ${quoteIdentifier(foreignKey.getName(), dialect)} FOREIGN KEY (${quoteColumns(fkColumns, dialect)})`;
+    definition += ` REFERENCES ${quoteIdentifier(foreignName, dialect)} (${quoteColumns(foreignColumns, dialect)})`;
+    if (foreignKey.onDelete) definition += ` ON DELETE ${foreignKey.onDelete.toUpperCase()}`;
+    definitions.push(definition);
+  }
+
+  if (dialect === 'mysql') {
+    for (const { config } of indexes) {
+      definitions.push(`${config.unique ? 'UNIQUE INDEX' : 'INDEX'} ${quoteIdentifier(config.name!, dialect)} (${quoteColumns(config.columns, dialect)})`);
+    }
+  }
+
+  const statements = [`CREATE TABLE IF NOT EXISTS ${tableName} (\n  ${definitions.join(',\n  ')}\n)`];
+
+  if (dialect !== 'mysql') {
+    for (const { config } of indexes) {
+      statements.push(
+        `CREATE ${config.unique ? 'UNIQUE INDEX' : 'INDEX'} IF NOT EXISTS ${quoteIdentifier(config.name!, dialect)} ON ${tableName} (${quoteColumns(config.columns, dialect)})`
+      );
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Execute a raw SQL statement with a Drizzle client
+ *
+ * @param client - Drizzle client
+ * @param dialect - SQL dialect of the client
+ * @param statement - SQL statement
+ */
+export async function executeStatement(client: DrizzleDatabase, dialect: DatabaseDialect, statement: string): Promise<void> {
+  // Drizzle's SQLite clients run statements with `run`, the others with `execute`
+  switch (dialect) {
+    case 'sqlite':
+      await (client as BaseSQLiteDatabase<'sync' | 'async', unknown>).run(sql.raw(statement));
+      break;
+    case 'mysql':
+      await (client as MySqlDatabase<MySqlQueryResultHKT, PreparedQueryHKTBase>).execute(sql.raw(statement));
+      break;
+    default:
+      await (client as PgDatabase<QueryResultHKT>).execute(sql.raw(statement));
+  }
+}
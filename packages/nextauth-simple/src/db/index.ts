@@ -1,8 +1,12 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import * as schema from './schema';
+import * as sqliteSchema from './sqlite-schema';
+import * as mysqlSchema from './mysql-schema';
 
-export { schema };
+export { schema, sqliteSchema, mysqlSchema };
+export { getBundledTables, type BundledTables, type DrizzleDatabase } from './tables';
+export { applyMigrations, getMigrations, type Migration } from './migrations';
 
 /**
  * Create a Drizzle ORM client for PostgreSQL
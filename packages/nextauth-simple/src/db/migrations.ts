@@ -0,0 +1,865 @@
+import { type DatabaseDialect, type NextAuthSimpleConfig } from '../core/types';
+import { DrizzleRateLimitStore } from '../core/rate-limit';
+import { DrizzleRevocationStore } from '../core/revocation';
+import { createTableStatements, executeStatement } from './ddl';
+import { getBundledTables, type PostgresTables, type QueryDatabase } from './tables';
+import { getLogger } from '../core/logger';
+
+/**
+ * Versioned schema migration of a core or feature area
+ */
+export interface Migration {
+  id: string; // '<feature>/<version>_<name>', recorded once applied
+  feature: string;
+  statements: string[]; // DDL for the configured dialect
+}
+
+interface MigrationDefinition {
+  id: string;
+  feature: string;
+  enabled: (config: NextAuthSimpleConfig) => boolean;
+  statements: Record<DatabaseDialect, string[]>;
+}
+
+// Table recording the applied migrations
+const migrationsTableStatements: Record<DatabaseDialect, string> = {
+  postgres: `CREATE TABLE IF NOT EXISTS "auth_migrations" (
+  "id" text PRIMARY KEY NOT NULL,
+  "applied_at" timestamp NOT NULL DEFAULT now()
+)`,
+  sqlite: `CREATE TABLE IF NOT EXISTS "auth_migrations" (
+  "id" text PRIMARY KEY NOT NULL,
+  "applied_at" integer NOT NULL DEFAULT (unixepoch() * 1000)
+)`,
+  mysql: `CREATE TABLE IF NOT EXISTS \`auth_migrations\` (
+  \`id\` varchar(255) PRIMARY KEY NOT NULL,
+  \`applied_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3)
+)`
+};
+
+// Released migrations, in the order they are applied. Statements are frozen
+// SQL rather than rendered from the table definitions, so a released
+// migration never changes: schema changes ship as a new version instead.
+const migrationDefinitions: MigrationDefinition[] = [
+  {
+    id: 'core/0001_create_users_and_sessions',
+    feature: 'core',
+    enabled: () => true,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "users" (
+  "id" uuid PRIMARY KEY NOT NULL,
+  "email" text NOT NULL UNIQUE,
+  "password" text NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+)`,
+        `CREATE TABLE IF NOT EXISTS "sessions" (
+  "id" uuid PRIMARY KEY NOT NULL,
+  "user_id" uuid NOT NULL,
+  "token" text NOT NULL UNIQUE,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "sessions_user_id_idx" ON "sessions" ("user_id")`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "users" (
+  "id" text PRIMARY KEY NOT NULL,
+  "email" text NOT NULL UNIQUE,
+  "password" text NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "updated_at" integer NOT NULL DEFAULT (unixepoch() * 1000)
+)`,
+        `CREATE TABLE IF NOT EXISTS "sessions" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "token" text NOT NULL UNIQUE,
+  "expires_at" integer NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "updated_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "sessions_user_id_idx" ON "sessions" ("user_id")`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`users\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`email\` varchar(255) NOT NULL UNIQUE,
+  \`password\` text NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3)
+)`,
+        `CREATE TABLE IF NOT EXISTS \`sessions\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36) NOT NULL,
+  \`token\` varchar(255) NOT NULL UNIQUE,
+  \`expires_at\` datetime(3) NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT \`sessions_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE,
+  INDEX \`sessions_user_id_idx\` (\`user_id\`)
+)`
+      ]
+    }
+  },
+  {
+    id: 'core/0002_create_rate_limits',
+    feature: 'core',
+    enabled: config => config.security?.rateLimit?.store instanceof DrizzleRateLimitStore,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "rate_limits" (
+  "key" text PRIMARY KEY NOT NULL,
+  "count" integer NOT NULL DEFAULT 0,
+  "reset_at" timestamp NOT NULL,
+  "updated_at" timestamp NOT NULL DEFAULT now()
+)`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "rate_limits" (
+  "key" text PRIMARY KEY NOT NULL,
+  "count" integer NOT NULL DEFAULT 0,
+  "reset_at" integer NOT NULL,
+  "updated_at" integer NOT NULL DEFAULT (unixepoch() * 1000)
+)`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`rate_limits\` (
+  \`key\` varchar(512) PRIMARY KEY NOT NULL,
+  \`count\` int NOT NULL DEFAULT 0,
+  \`reset_at\` datetime(3) NOT NULL,
+  \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3)
+)`
+      ]
+    }
+  },
+  {
+    id: 'core/0003_create_revoked_sessions',
+    feature: 'core',
+    enabled: config => config.session?.jwt?.revocationStore instanceof DrizzleRevocationStore,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "revoked_sessions" (
+  "jti" text PRIMARY KEY NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now()
+)`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "revoked_sessions" (
+  "jti" text PRIMARY KEY NOT NULL,
+  "expires_at" integer NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000)
+)`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`revoked_sessions\` (
+  \`jti\` varchar(255) PRIMARY KEY NOT NULL,
+  \`expires_at\` datetime(3) NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3)
+)`
+      ]
+    }
+  },
+  {
+    id: 'core/0004_add_session_metadata_columns',
+    feature: 'core',
+    enabled: () => true,
+    statements: {
+      postgres: [
+        `ALTER TABLE "sessions"
+  ADD COLUMN IF NOT EXISTS "ip_address" text,
+  ADD COLUMN IF NOT EXISTS "user_agent" text,
+  ADD COLUMN IF NOT EXISTS "device_label" text,
+  ADD COLUMN IF NOT EXISTS "last_active_at" timestamp,
+  ADD COLUMN IF NOT EXISTS "two_factor_verified" boolean NOT NULL DEFAULT false`
+      ],
+      sqlite: [
+        `ALTER TABLE "sessions" ADD COLUMN "ip_address" text`,
+        `ALTER TABLE "sessions" ADD COLUMN "user_agent" text`,
+        `ALTER TABLE "sessions" ADD COLUMN "device_label" text`,
+        `ALTER TABLE "sessions" ADD COLUMN "last_active_at" integer`,
+        `ALTER TABLE "sessions" ADD COLUMN "two_factor_verified" integer NOT NULL DEFAULT 0`
+      ],
+      mysql: [
+        `ALTER TABLE \`sessions\`
+  ADD COLUMN \`ip_address\` varchar(45),
+  ADD COLUMN \`user_agent\` text,
+  ADD COLUMN \`device_label\` varchar(255),
+  ADD COLUMN \`last_active_at\` datetime(3),
+  ADD COLUMN \`two_factor_verified\` boolean NOT NULL DEFAULT false`
+      ]
+    }
+  },
+  {
+    id: 'lockout/0001_create_account_lockouts',
+    feature: 'lockout',
+    enabled: config => !!config.security?.lockout?.enabled,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "account_lockouts" (
+  "user_id" uuid PRIMARY KEY NOT NULL,
+  "failed_attempts" integer NOT NULL DEFAULT 0,
+  "lock_count" integer NOT NULL DEFAULT 0,
+  "locked_until" timestamp,
+  "unlock_token" text,
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "account_lockouts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "account_lockouts" (
+  "user_id" text PRIMARY KEY NOT NULL,
+  "failed_attempts" integer NOT NULL DEFAULT 0,
+  "lock_count" integer NOT NULL DEFAULT 0,
+  "locked_until" integer,
+  "unlock_token" text,
+  "updated_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  CONSTRAINT "account_lockouts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`account_lockouts\` (
+  \`user_id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`failed_attempts\` int NOT NULL DEFAULT 0,
+  \`lock_count\` int NOT NULL DEFAULT 0,
+  \`locked_until\` datetime(3),
+  \`unlock_token\` varchar(255),
+  \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT \`account_lockouts_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE
+)`
+      ]
+    }
+  },
+  {
+    id: 'twoFactor/0001_create_two_factor_tables',
+    feature: 'twoFactor',
+    enabled: config => !!config.features?.twoFactor?.enabled,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "users_two_factor" (
+  "user_id" uuid PRIMARY KEY NOT NULL,
+  "secret" text NOT NULL,
+  "enabled" boolean NOT NULL DEFAULT false,
+  "backup_codes" text,
+  "verified_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "users_two_factor_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE TABLE IF NOT EXISTS "two_factor_recovery_codes" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" uuid NOT NULL,
+  "code" text NOT NULL,
+  "used" boolean NOT NULL DEFAULT false,
+  "used_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "two_factor_recovery_codes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "two_factor_recovery_codes_user_id_idx" ON "two_factor_recovery_codes" ("user_id")`,
+        `CREATE TABLE IF NOT EXISTS "two_factor_challenges" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" uuid NOT NULL,
+  "token" text NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "two_factor_challenges_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "two_factor_challenges_user_id_idx" ON "two_factor_challenges" ("user_id")`,
+        `CREATE INDEX IF NOT EXISTS "two_factor_challenges_token_idx" ON "two_factor_challenges" ("token")`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "users_two_factor" (
+  "user_id" text PRIMARY KEY NOT NULL,
+  "secret" text NOT NULL,
+  "enabled" integer NOT NULL DEFAULT 0,
+  "backup_codes" text,
+  "verified_at" integer,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "updated_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  CONSTRAINT "users_two_factor_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE TABLE IF NOT EXISTS "two_factor_recovery_codes" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "code" text NOT NULL,
+  "used" integer NOT NULL DEFAULT 0,
+  "used_at" integer,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  CONSTRAINT "two_factor_recovery_codes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "two_factor_recovery_codes_user_id_idx" ON "two_factor_recovery_codes" ("user_id")`,
+        `CREATE TABLE IF NOT EXISTS "two_factor_challenges" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "token" text NOT NULL,
+  "expires_at" integer NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  CONSTRAINT "two_factor_challenges_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "two_factor_challenges_user_id_idx" ON "two_factor_challenges" ("user_id")`,
+        `CREATE INDEX IF NOT EXISTS "two_factor_challenges_token_idx" ON "two_factor_challenges" ("token")`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`users_two_factor\` (
+  \`user_id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`secret\` varchar(255) NOT NULL,
+  \`enabled\` boolean NOT NULL DEFAULT false,
+  \`backup_codes\` text,
+  \`verified_at\` datetime(3),
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT \`users_two_factor_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE
+)`,
+        `CREATE TABLE IF NOT EXISTS \`two_factor_recovery_codes\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36) NOT NULL,
+  \`code\` varchar(255) NOT NULL,
+  \`used\` boolean NOT NULL DEFAULT false,
+  \`used_at\` datetime(3),
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT \`two_factor_recovery_codes_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE,
+  INDEX \`two_factor_recovery_codes_user_id_idx\` (\`user_id\`)
+)`,
+        `CREATE TABLE IF NOT EXISTS \`two_factor_challenges\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36) NOT NULL,
+  \`token\` varchar(255) NOT NULL,
+  \`expires_at\` datetime(3) NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT \`two_factor_challenges_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE,
+  INDEX \`two_factor_challenges_user_id_idx\` (\`user_id\`),
+  INDEX \`two_factor_challenges_token_idx\` (\`token\`)
+)`
+      ]
+    }
+  },
+  {
+    id: 'magicUrl/0001_create_magic_url_tokens',
+    feature: 'magicUrl',
+    enabled: config => !!config.features?.magicUrl?.enabled,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "magic_url_tokens" (
+  "id" text PRIMARY KEY NOT NULL,
+  "email" text NOT NULL,
+  "token" text NOT NULL UNIQUE,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "used_at" timestamp,
+  "callback_url" text
+)`,
+        `CREATE INDEX IF NOT EXISTS "magic_url_tokens_email_idx" ON "magic_url_tokens" ("email")`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "magic_url_tokens" (
+  "id" text PRIMARY KEY NOT NULL,
+  "email" text NOT NULL,
+  "token" text NOT NULL UNIQUE,
+  "expires_at" integer NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "used_at" integer,
+  "callback_url" text
+)`,
+        `CREATE INDEX IF NOT EXISTS "magic_url_tokens_email_idx" ON "magic_url_tokens" ("email")`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`magic_url_tokens\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`email\` varchar(255) NOT NULL,
+  \`token\` varchar(255) NOT NULL UNIQUE,
+  \`expires_at\` datetime(3) NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`used_at\` datetime(3),
+  \`callback_url\` text,
+  INDEX \`magic_url_tokens_email_idx\` (\`email\`)
+)`
+      ]
+    }
+  },
+  {
+    id: 'social/0001_create_social_accounts',
+    feature: 'social',
+    enabled: config => !!config.features?.social?.enabled,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "social_accounts" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" uuid NOT NULL,
+  "provider" text NOT NULL,
+  "provider_account_id" text NOT NULL,
+  "refresh_token" text,
+  "access_token" text,
+  "expires_at" timestamp,
+  "token_type" text,
+  "scope" text,
+  "id_token" text,
+  "profile" jsonb,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "social_accounts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "social_accounts_user_id_idx" ON "social_accounts" ("user_id")`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS "social_accounts_provider_account_idx" ON "social_accounts" ("provider", "provider_account_id")`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "social_accounts" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "provider" text NOT NULL,
+  "provider_account_id" text NOT NULL,
+  "refresh_token" text,
+  "access_token" text,
+  "expires_at" integer,
+  "token_type" text,
+  "scope" text,
+  "id_token" text,
+  "profile" text,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "updated_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  CONSTRAINT "social_accounts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "social_accounts_user_id_idx" ON "social_accounts" ("user_id")`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS "social_accounts_provider_account_idx" ON "social_accounts" ("provider", "provider_account_id")`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`social_accounts\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36) NOT NULL,
+  \`provider\` varchar(64) NOT NULL,
+  \`provider_account_id\` varchar(255) NOT NULL,
+  \`refresh_token\` text,
+  \`access_token\` text,
+  \`expires_at\` datetime(3),
+  \`token_type\` varchar(64),
+  \`scope\` text,
+  \`id_token\` text,
+  \`profile\` json,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT \`social_accounts_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE,
+  INDEX \`social_accounts_user_id_idx\` (\`user_id\`),
+  UNIQUE INDEX \`social_accounts_provider_account_idx\` (\`provider\`, \`provider_account_id\`)
+)`
+      ]
+    }
+  },
+  {
+    id: 'passwordReset/0001_create_password_reset_tokens',
+    feature: 'passwordReset',
+    enabled: config => !!config.features?.passwordReset?.enabled,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" uuid NOT NULL,
+  "token" text NOT NULL UNIQUE,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "used_at" timestamp,
+  CONSTRAINT "password_reset_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "password_reset_tokens_user_id_idx" ON "password_reset_tokens" ("user_id")`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "token" text NOT NULL UNIQUE,
+  "expires_at" integer NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "used_at" integer,
+  CONSTRAINT "password_reset_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "password_reset_tokens_user_id_idx" ON "password_reset_tokens" ("user_id")`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`password_reset_tokens\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36) NOT NULL,
+  \`token\` varchar(255) NOT NULL UNIQUE,
+  \`expires_at\` datetime(3) NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`used_at\` datetime(3),
+  CONSTRAINT \`password_reset_tokens_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE,
+  INDEX \`password_reset_tokens_user_id_idx\` (\`user_id\`)
+)`
+      ]
+    }
+  },
+  {
+    id: 'rbac/0001_create_roles',
+    feature: 'rbac',
+    enabled: config => !!config.features?.rbac?.enabled,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "roles" (
+  "id" text PRIMARY KEY NOT NULL,
+  "name" text NOT NULL UNIQUE,
+  "description" text,
+  "permissions" jsonb NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+)`,
+        `CREATE TABLE IF NOT EXISTS "user_roles" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" uuid NOT NULL,
+  "role_id" text NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "user_roles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+  CONSTRAINT "user_roles_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles" ("id") ON DELETE CASCADE
+)`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS "user_roles_user_role_idx" ON "user_roles" ("user_id", "role_id")`,
+        `CREATE INDEX IF NOT EXISTS "user_roles_role_id_idx" ON "user_roles" ("role_id")`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "roles" (
+  "id" text PRIMARY KEY NOT NULL,
+  "name" text NOT NULL UNIQUE,
+  "description" text,
+  "permissions" text NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "updated_at" integer NOT NULL DEFAULT (unixepoch() * 1000)
+)`,
+        `CREATE TABLE IF NOT EXISTS "user_roles" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "role_id" text NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "updated_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  CONSTRAINT "user_roles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+  CONSTRAINT "user_roles_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles" ("id") ON DELETE CASCADE
+)`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS "user_roles_user_role_idx" ON "user_roles" ("user_id", "role_id")`,
+        `CREATE INDEX IF NOT EXISTS "user_roles_role_id_idx" ON "user_roles" ("role_id")`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`roles\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`name\` varchar(255) NOT NULL UNIQUE,
+  \`description\` text,
+  \`permissions\` json NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3)
+)`,
+        `CREATE TABLE IF NOT EXISTS \`user_roles\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36) NOT NULL,
+  \`role_id\` varchar(36) NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT \`user_roles_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE,
+  CONSTRAINT \`user_roles_role_id_roles_id_fk\` FOREIGN KEY (\`role_id\`) REFERENCES \`roles\` (\`id\`) ON DELETE CASCADE,
+  UNIQUE INDEX \`user_roles_user_role_idx\` (\`user_id\`, \`role_id\`),
+  INDEX \`user_roles_role_id_idx\` (\`role_id\`)
+)`
+      ]
+    }
+  },
+  {
+    id: 'passkeys/0001_create_webauthn_tables',
+    feature: 'passkeys',
+    enabled: config => !!config.features?.passkeys?.enabled,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "webauthn_credentials" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" uuid NOT NULL,
+  "credential_id" text NOT NULL UNIQUE,
+  "public_key" text NOT NULL,
+  "counter" text NOT NULL,
+  "transports" jsonb,
+  "device_type" text,
+  "backed" boolean DEFAULT false,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "last_used_at" timestamp,
+  CONSTRAINT "webauthn_credentials_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "webauthn_credentials_user_id_idx" ON "webauthn_credentials" ("user_id")`,
+        `CREATE TABLE IF NOT EXISTS "webauthn_challenges" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" uuid,
+  "challenge" text NOT NULL UNIQUE,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "used_at" timestamp,
+  CONSTRAINT "webauthn_challenges_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "webauthn_challenges_user_id_idx" ON "webauthn_challenges" ("user_id")`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "webauthn_credentials" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "credential_id" text NOT NULL UNIQUE,
+  "public_key" text NOT NULL,
+  "counter" text NOT NULL,
+  "transports" text,
+  "device_type" text,
+  "backed" integer DEFAULT 0,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "last_used_at" integer,
+  CONSTRAINT "webauthn_credentials_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "webauthn_credentials_user_id_idx" ON "webauthn_credentials" ("user_id")`,
+        `CREATE TABLE IF NOT EXISTS "webauthn_challenges" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text,
+  "challenge" text NOT NULL UNIQUE,
+  "expires_at" integer NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "used_at" integer,
+  CONSTRAINT "webauthn_challenges_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "webauthn_challenges_user_id_idx" ON "webauthn_challenges" ("user_id")`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`webauthn_credentials\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36) NOT NULL,
+  \`credential_id\` varchar(512) NOT NULL UNIQUE,
+  \`public_key\` text NOT NULL,
+  \`counter\` varchar(32) NOT NULL,
+  \`transports\` json,
+  \`device_type\` varchar(32),
+  \`backed\` boolean DEFAULT false,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`last_used_at\` datetime(3),
+  CONSTRAINT \`webauthn_credentials_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE,
+  INDEX \`webauthn_credentials_user_id_idx\` (\`user_id\`)
+)`,
+        `CREATE TABLE IF NOT EXISTS \`webauthn_challenges\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36),
+  \`challenge\` varchar(255) NOT NULL UNIQUE,
+  \`expires_at\` datetime(3) NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`used_at\` datetime(3),
+  CONSTRAINT \`webauthn_challenges_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE,
+  INDEX \`webauthn_challenges_user_id_idx\` (\`user_id\`)
+)`
+      ]
+    }
+  },
+  {
+    id: 'verification/0001_create_verification_tables',
+    feature: 'verification',
+    enabled: config => !!config.features?.verification?.enabled,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "account_verification_tokens" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" uuid NOT NULL,
+  "token" text NOT NULL UNIQUE,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "used_at" timestamp,
+  CONSTRAINT "account_verification_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "account_verification_tokens_user_id_idx" ON "account_verification_tokens" ("user_id")`,
+        `CREATE TABLE IF NOT EXISTS "user_verification_status" (
+  "user_id" uuid PRIMARY KEY NOT NULL,
+  "verified" boolean NOT NULL DEFAULT false,
+  "verified_at" timestamp,
+  "verification_method" text,
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "user_verification_status_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "account_verification_tokens" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "token" text NOT NULL UNIQUE,
+  "expires_at" integer NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  "used_at" integer,
+  CONSTRAINT "account_verification_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`,
+        `CREATE INDEX IF NOT EXISTS "account_verification_tokens_user_id_idx" ON "account_verification_tokens" ("user_id")`,
+        `CREATE TABLE IF NOT EXISTS "user_verification_status" (
+  "user_id" text PRIMARY KEY NOT NULL,
+  "verified" integer NOT NULL DEFAULT 0,
+  "verified_at" integer,
+  "verification_method" text,
+  "updated_at" integer NOT NULL DEFAULT (unixepoch() * 1000),
+  CONSTRAINT "user_verification_status_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+)`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`account_verification_tokens\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36) NOT NULL,
+  \`token\` varchar(255) NOT NULL UNIQUE,
+  \`expires_at\` datetime(3) NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  \`used_at\` datetime(3),
+  CONSTRAINT \`account_verification_tokens_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE,
+  INDEX \`account_verification_tokens_user_id_idx\` (\`user_id\`)
+)`,
+        `CREATE TABLE IF NOT EXISTS \`user_verification_status\` (
+  \`user_id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`verified\` boolean NOT NULL DEFAULT false,
+  \`verified_at\` datetime(3),
+  \`verification_method\` varchar(32),
+  \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT \`user_verification_status_user_id_users_id_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE
+)`
+      ]
+    }
+  },
+  {
+    id: 'audit/0001_create_audit_logs',
+    feature: 'audit',
+    enabled: config => !!config.features?.audit?.enabled,
+    statements: {
+      postgres: [
+        `CREATE TABLE IF NOT EXISTS "audit_logs" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text,
+  "action" text NOT NULL,
+  "resource" text,
+  "resource_id" text,
+  "details" jsonb,
+  "ip_address" text,
+  "user_agent" text,
+  "status" text NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now()
+)`,
+        `CREATE INDEX IF NOT EXISTS "audit_logs_user_id_idx" ON "audit_logs" ("user_id")`,
+        `CREATE INDEX IF NOT EXISTS "audit_logs_action_idx" ON "audit_logs" ("action")`,
+        `CREATE INDEX IF NOT EXISTS "audit_logs_created_at_idx" ON "audit_logs" ("created_at")`
+      ],
+      sqlite: [
+        `CREATE TABLE IF NOT EXISTS "audit_logs" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text,
+  "action" text NOT NULL,
+  "resource" text,
+  "resource_id" text,
+  "details" text,
+  "ip_address" text,
+  "user_agent" text,
+  "status" text NOT NULL,
+  "created_at" integer NOT NULL DEFAULT (unixepoch() * 1000)
+)`,
+        `CREATE INDEX IF NOT EXISTS "audit_logs_user_id_idx" ON "audit_logs" ("user_id")`,
+        `CREATE INDEX IF NOT EXISTS "audit_logs_action_idx" ON "audit_logs" ("action")`,
+        `CREATE INDEX IF NOT EXISTS "audit_logs_created_at_idx" ON "audit_logs" ("created_at")`
+      ],
+      mysql: [
+        `CREATE TABLE IF NOT EXISTS \`audit_logs\` (
+  \`id\` varchar(36) PRIMARY KEY NOT NULL,
+  \`user_id\` varchar(36),
+  \`action\` varchar(255) NOT NULL,
+  \`resource\` varchar(255),
+  \`resource_id\` varchar(255),
+  \`details\` json,
+  \`ip_address\` varchar(45),
+  \`user_agent\` text,
+  \`status\` varchar(32) NOT NULL,
+  \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  INDEX \`audit_logs_user_id_idx\` (\`user_id\`),
+  INDEX \`audit_logs_action_idx\` (\`action\`),
+  INDEX \`audit_logs_created_at_idx\` (\`created_at\`)
+)`
+      ]
+    }
+  }
+];
+
+/**
+ * Get the migrations of the core tables, all enabled features and the registered plugins
+ *
+ * Statements are rendered for `db.dialect` (default: 'postgres').
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Migrations in the order they must be applied
+ */
+export function getMigrations(config: NextAuthSimpleConfig): Migration[] {
+  const dialect = config.db?.dialect || 'postgres';
+
+  const builtIn = migrationDefinitions
+    .filter(definition => definition.enabled(config))
+    .map(({ id, feature, statements }) => ({ id, feature, statements: statements[dialect] }));
+
+  // Plugin migrations follow, in the order the plugins are registered
+  const plugins = (config.plugins || []).flatMap(plugin => (plugin.migrations || []).map(migration => ({
+    id: migration.id,
+    feature: plugin.id,
+    statements: [
+      ...(migration.tables || []).flatMap(key => createTableStatements(plugin.tables![dialect]![key], dialect)),
+      ...(migration.statements?.(dialect) || [])
+    ]
+  })));
+
+  return [...builtIn, ...plugins];
+}
+
+/**
+ * Apply pending migrations and record them in the `auth_migrations` table
+ *
+ * Migrations run in order and stop at the first failure. CREATE statements
+ * are idempotent, and columns are added by a single ALTER TABLE statement on
+ * PostgreSQL (with IF NOT EXISTS) and MySQL, so a failed migration is safe to
+ * run again there.
+ *
+ * @param config - NextAuth-Simple configuration
+ * @returns Success status and the ids of the migrations applied by this call
+ */
+export async function applyMigrations(
+  config: NextAuthSimpleConfig
+): Promise<{ success: boolean; applied?: string[]; error?: string }> {
+  const { db } = config;
+
+  // Custom adapters manage their own storage
+  if (!db) {
+    return { success: true, applied: [] };
+  }
+
+  const dialect = db.dialect || 'postgres';
+  const client = db.client as unknown as QueryDatabase;
+  const { migrations: migrationsTable } = getBundledTables(dialect) as PostgresTables;
+  const applied: string[] = [];
+
+  try {
+    await executeStatement(db.client, dialect, migrationsTableStatements[dialect]);
+  } catch (error) {
+    getLogger(config).error('Error creating migrations table', { error });
+    return { success: false, applied, error: 'Failed to create migrations table' };
+  }
+
+  let done: Set<string>;
+
+  try {
+    const rows = await client.select({ id: migrationsTable.id }).from(migrationsTable);
+    done = new Set(rows.map(row => row.id));
+  } catch (error) {
+    getLogger(config).error('Error reading applied migrations', { error });
+    return { success: false, applied, error: 'Failed to read applied migrations' };
+  }
+
+  for (const migration of getMigrations(config)) {
+    if (done.has(migration.id)) {
+      continue;
+    }
+
+    try {
+      for (const statement of migration.statements) {
+        await executeStatement(db.client, dialect, statement);
+      }
+
+      await client.insert(migrationsTable).values({ id: migration.id, appliedAt: new Date() });
+      applied.push(migration.id);
+    } catch (error) {
+      getLogger(config).error('Error applying migration', { migrationId: migration.id, error });
+      return { success: false, applied, error: `Failed to apply migration ${migration.id}` };
+    }
+  }
+
+  return { success: true, applied };
+}
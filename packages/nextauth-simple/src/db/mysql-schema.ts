@@ -0,0 +1,88 @@
+import { boolean, datetime, index, int, mysqlTable, text, varchar } from 'drizzle-orm/mysql-core';
+import { relations, sql } from 'drizzle-orm';
+
+// Millisecond precision keeps session ordering and expiry checks in line with the other dialects
+const now = sql`CURRENT_TIMESTAMP(3)`;
+
+/**
+ * Users table schema
+ */
+export const users = mysqlTable('users', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  email: varchar('email', { length: 255 }).notNull().unique(),
+  password: text('password').notNull(),
+  createdAt: datetime('created_at', { fsp: 3 }).notNull().default(now),
+  updatedAt: datetime('updated_at', { fsp: 3 }).notNull().default(now)
+});
+
+/**
+ * Sessions table schema
+ */
+export const sessions = mysqlTable('sessions', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: varchar('token', { length: 255 }).notNull().unique(), // Digest of the session token, never the raw value
+  expiresAt: datetime('expires_at', { fsp: 3 }).notNull(),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  userAgent: text('user_agent'),
+  deviceLabel: varchar('device_label', { length: 255 }), // e.g. 'Chrome on macOS'
+  lastActiveAt: datetime('last_active_at', { fsp: 3 }),
+  twoFactorVerified: boolean('two_factor_verified').notNull().default(false),
+  createdAt: datetime('created_at', { fsp: 3 }).notNull().default(now),
+  updatedAt: datetime('updated_at', { fsp: 3 }).notNull().default(now)
+}, (table) => ({
+  userIdIdx: index('sessions_user_id_idx').on(table.userId)
+}));
+
+/**
+ * Rate limit counters schema (used by DrizzleRateLimitStore)
+ */
+export const rateLimits = mysqlTable('rate_limits', {
+  key: varchar('key', { length: 512 }).primaryKey().notNull(), // e.g. 'login:email:user@example.com'
+  count: int('count').notNull().default(0),
+  resetAt: datetime('reset_at', { fsp: 3 }).notNull(),
+  updatedAt: datetime('updated_at', { fsp: 3 }).notNull().default(now)
+});
+
+/**
+ * Account lockout state schema (progressive lockout after failed logins)
+ */
+export const accountLockouts = mysqlTable('account_lockouts', {
+  userId: varchar('user_id', { length: 36 }).primaryKey().notNull().references(() => users.id, { onDelete: 'cascade' }),
+  failedAttempts: int('failed_attempts').notNull().default(0), // Consecutive failures since the last lock
+  lockCount: int('lock_count').notNull().default(0), // Number of locks so far, drives the backoff
+  lockedUntil: datetime('locked_until', { fsp: 3 }),
+  unlockToken: varchar('unlock_token', { length: 255 }), // SHA-256 digest of the emailed unlock token
+  updatedAt: datetime('updated_at', { fsp: 3 }).notNull().default(now)
+});
+
+/**
+ * Revoked stateless session IDs schema (used by DrizzleRevocationStore)
+ */
+export const revokedSessions = mysqlTable('revoked_sessions', {
+  jti: varchar('jti', { length: 255 }).primaryKey().notNull(),
+  expiresAt: datetime('expires_at', { fsp: 3 }).notNull(), // Rows can be purged once the token has expired
+  createdAt: datetime('created_at', { fsp: 3 }).notNull().default(now)
+});
+
+/**
+ * Applied migrations schema (written by applyMigrations)
+ */
+export const migrations = mysqlTable('auth_migrations', {
+  id: varchar('id', { length: 255 }).primaryKey().notNull(), // e.g. 'twoFactor/0001_create_two_factor_tables'
+  appliedAt: datetime('applied_at', { fsp: 3 }).notNull().default(now)
+});
+
+/**
+ * Relations between tables
+ */
+export const usersRelations = relations(users, ({ many }) => ({
+  sessions: many(sessions)
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id]
+  })
+}));
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { boolean, index, integer, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 /**
@@ -18,10 +18,56 @@ export const users = pgTable('users', {
 export const sessions = pgTable('sessions', {
   id: uuid('id').primaryKey().notNull(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  token: text('token').notNull().unique(),
+  token: text('token').notNull().unique(), // Digest of the session token, never the raw value
   expiresAt: timestamp('expires_at').notNull(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  deviceLabel: text('device_label'), // e.g. 'Chrome on macOS'
+  lastActiveAt: timestamp('last_active_at'),
+  twoFactorVerified: boolean('two_factor_verified').notNull().default(false),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow()
+}, (table) => ({
+  userIdIdx: index('sessions_user_id_idx').on(table.userId)
+}));
+
+/**
+ * Rate limit counters schema (used by DrizzleRateLimitStore)
+ */
+export const rateLimits = pgTable('rate_limits', {
+  key: text('key').primaryKey().notNull(), // e.g. 'login:email:user@example.com'
+  count: integer('count').notNull().default(0),
+  resetAt: timestamp('reset_at').notNull(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow()
+});
+
+/**
+ * Account lockout state schema (progressive lockout after failed logins)
+ */
+export const accountLockouts = pgTable('account_lockouts', {
+  userId: uuid('user_id').primaryKey().notNull().references(() => users.id, { onDelete: 'cascade' }),
+  failedAttempts: integer('failed_attempts').notNull().default(0), // Consecutive failures since the last lock
+  lockCount: integer('lock_count').notNull().default(0), // Number of locks so far, drives the backoff
+  lockedUntil: timestamp('locked_until'),
+  unlockToken: text('unlock_token'), // SHA-256 digest of the emailed unlock token
+  updatedAt: timestamp('updated_at').notNull().defaultNow()
+});
+
+/**
+ * Revoked stateless session IDs schema (used by DrizzleRevocationStore)
+ */
+export const revokedSessions = pgTable('revoked_sessions', {
+  jti: text('jti').primaryKey().notNull(),
+  expiresAt: timestamp('expires_at').notNull(), // Rows can be purged once the token has expired
+  createdAt: timestamp('created_at').notNull().defaultNow()
+});
+
+/**
+ * Applied migrations schema (written by applyMigrations)
+ */
+export const migrations = pgTable('auth_migrations', {
+  id: text('id').primaryKey().notNull(), // e.g. 'twoFactor/0001_create_two_factor_tables'
+  appliedAt: timestamp('applied_at').notNull().defaultNow()
 });
 
 /**
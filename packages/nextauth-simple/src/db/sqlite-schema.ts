@@ -0,0 +1,88 @@
+import { index, integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { relations, sql } from 'drizzle-orm';
+
+// SQLite has no timestamp type; dates are stored as milliseconds since the epoch
+const now = sql`(unixepoch() * 1000)`;
+
+/**
+ * Users table schema
+ */
+export const users = sqliteTable('users', {
+  id: text('id').primaryKey().notNull(),
+  email: text('email').notNull().unique(),
+  password: text('password').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull().default(now),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull().default(now)
+});
+
+/**
+ * Sessions table schema
+ */
+export const sessions = sqliteTable('sessions', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(), // Digest of the session token, never the raw value
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }).notNull(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  deviceLabel: text('device_label'), // e.g. 'Chrome on macOS'
+  lastActiveAt: integer('last_active_at', { mode: 'timestamp_ms' }),
+  twoFactorVerified: integer('two_factor_verified', { mode: 'boolean' }).notNull().default(false),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull().default(now),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull().default(now)
+}, (table) => ({
+  userIdIdx: index('sessions_user_id_idx').on(table.userId)
+}));
+
+/**
+ * Rate limit counters schema (used by DrizzleRateLimitStore)
+ */
+export const rateLimits = sqliteTable('rate_limits', {
+  key: text('key').primaryKey().notNull(), // e.g. 'login:email:user@example.com'
+  count: integer('count').notNull().default(0),
+  resetAt: integer('reset_at', { mode: 'timestamp_ms' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull().default(now)
+});
+
+/**
+ * Account lockout state schema (progressive lockout after failed logins)
+ */
+export const accountLockouts = sqliteTable('account_lockouts', {
+  userId: text('user_id').primaryKey().notNull().references(() => users.id, { onDelete: 'cascade' }),
+  failedAttempts: integer('failed_attempts').notNull().default(0), // Consecutive failures since the last lock
+  lockCount: integer('lock_count').notNull().default(0), // Number of locks so far, drives the backoff
+  lockedUntil: integer('locked_until', { mode: 'timestamp_ms' }),
+  unlockToken: text('unlock_token'), // SHA-256 digest of the emailed unlock token
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull().default(now)
+});
+
+/**
+ * Revoked stateless session IDs schema (used by DrizzleRevocationStore)
+ */
+export const revokedSessions = sqliteTable('revoked_sessions', {
+  jti: text('jti').primaryKey().notNull(),
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }).notNull(), // Rows can be purged once the token has expired
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull().default(now)
+});
+
+/**
+ * Applied migrations schema (written by applyMigrations)
+ */
+export const migrations = sqliteTable('auth_migrations', {
+  id: text('id').primaryKey().notNull(), // e.g. 'twoFactor/0001_create_two_factor_tables'
+  appliedAt: integer('applied_at', { mode: 'timestamp_ms' }).notNull().default(now)
+});
+
+/**
+ * Relations between tables
+ */
+export const usersRelations = relations(users, ({ many }) => ({
+  sessions: many(sessions)
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id]
+  })
+}));
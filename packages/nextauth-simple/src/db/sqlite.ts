@@ -0,0 +1,19 @@
+import { drizzle } from 'drizzle-orm/libsql';
+import { createClient } from '@libsql/client';
+import * as sqliteSchema from './sqlite-schema';
+
+export { sqliteSchema };
+
+/**
+ * Create a Drizzle ORM client for SQLite / libSQL
+ *
+ * Imported from `nextauth-simple/sqlite` so `@libsql/client` stays optional.
+ *
+ * @param url - Database URL, e.g. 'file:auth.db', ':memory:' or a libsql:// URL
+ * @param options - Auth token for remote libSQL databases
+ * @returns Drizzle ORM client
+ */
+export function createSqliteClient(url: string, options: { authToken?: string } = {}) {
+  const client = createClient({ url, authToken: options.authToken });
+  return drizzle(client, { schema: sqliteSchema });
+}
@@ -0,0 +1,132 @@
+import * as postgresCore from './schema';
+import * as sqliteCore from './sqlite-schema';
+import * as mysqlCore from './mysql-schema';
+import * as postgresAudit from '../features/audit/db/schema';
+import * as sqliteAudit from '../features/audit/db/sqlite-schema';
+import * as mysqlAudit from '../features/audit/db/mysql-schema';
+import * as postgresMagicUrl from '../features/magicUrl/db/schema';
+import * as sqliteMagicUrl from '../features/magicUrl/db/sqlite-schema';
+import * as mysqlMagicUrl from '../features/magicUrl/db/mysql-schema';
+import * as postgresPasskeys from '../features/passkeys/db/schema';
+import * as sqlitePasskeys from '../features/passkeys/db/sqlite-schema';
+import * as mysqlPasskeys from '../features/passkeys/db/mysql-schema';
+import * as postgresPassword from '../features/password/db/schema';
+import * as sqlitePassword from '../features/password/db/sqlite-schema';
+import * as mysqlPassword from '../features/password/db/mysql-schema';
+import * as postgresRbac from '../features/rbac/db/schema';
+import * as sqliteRbac from '../features/rbac/db/sqlite-schema';
+import * as mysqlRbac from '../features/rbac/db/mysql-schema';
+import * as postgresSocial from '../features/social/db/schema';
+import * as sqliteSocial from '../features/social/db/sqlite-schema';
+import * as mysqlSocial from '../features/social/db/mysql-schema';
+import * as postgresTwoFactor from '../features/twoFactor/db/schema';
+import * as sqliteTwoFactor from '../features/twoFactor/db/sqlite-schema';
+import * as mysqlTwoFactor from '../features/twoFactor/db/mysql-schema';
+import * as postgresVerification from '../features/verification/db/schema';
+import * as sqliteVerification from '../features/verification/db/sqlite-schema';
+import * as mysqlVerification from '../features/verification/db/mysql-schema';
+import { type MySqlDatabase, type PreparedQueryHKTBase, type QueryResultHKT as MySqlQueryResultHKT } from 'drizzle-orm/mysql-core';
+import { type PgDatabase, type QueryResultHKT as PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { type BaseSQLiteDatabase } from 'drizzle-orm/sqlite-core';
+import { type DatabaseDialect } from '../core/types';
+
+// Core and feature tables of each dialect, keyed by purpose
+const postgresTables = {
+  users: postgresCore.users,
+  sessions: postgresCore.sessions,
+  rateLimits: postgresCore.rateLimits,
+  accountLockouts: postgresCore.accountLockouts,
+  revokedSessions: postgresCore.revokedSessions,
+  usersTwoFactor: postgresTwoFactor.usersTwoFactorTable,
+  twoFactorRecoveryCodes: postgresTwoFactor.twoFactorRecoveryCodesTable,
+  twoFactorChallenges: postgresTwoFactor.twoFactorChallengesTable,
+  magicUrlTokens: postgresMagicUrl.magicUrlTokensTable,
+  passwordResetTokens: postgresPassword.passwordResetTokensTable,
+  accountVerificationTokens: postgresVerification.accountVerificationTokensTable,
+  userVerificationStatus: postgresVerification.userVerificationStatusTable,
+  socialAccounts: postgresSocial.socialAccountsTable,
+  webAuthnCredentials: postgresPasskeys.webAuthnCredentialsTable,
+  webAuthnChallenges: postgresPasskeys.webAuthnChallengesTable,
+  roles: postgresRbac.rolesTable,
+  userRoles: postgresRbac.userRolesTable,
+  auditLogs: postgresAudit.auditLogsTable,
+  migrations: postgresCore.migrations
+};
+
+const sqliteTables = {
+  users: sqliteCore.users,
+  sessions: sqliteCore.sessions,
+  rateLimits: sqliteCore.rateLimits,
+  accountLockouts: sqliteCore.accountLockouts,
+  revokedSessions: sqliteCore.revokedSessions,
+  usersTwoFactor: sqliteTwoFactor.usersTwoFactorTable,
+  twoFactorRecoveryCodes: sqliteTwoFactor.twoFactorRecoveryCodesTable,
+  twoFactorChallenges: sqliteTwoFactor.twoFactorChallengesTable,
+  magicUrlTokens: sqliteMagicUrl.magicUrlTokensTable,
+  passwordResetTokens: sqlitePassword.passwordResetTokensTable,
+  accountVerificationTokens: sqliteVerification.accountVerificationTokensTable,
+  userVerificationStatus: sqliteVerification.userVerificationStatusTable,
+  socialAccounts: sqliteSocial.socialAccountsTable,
+  webAuthnCredentials: sqlitePasskeys.webAuthnCredentialsTable,
+  webAuthnChallenges: sqlitePasskeys.webAuthnChallengesTable,
+  roles: sqliteRbac.rolesTable,
+  userRoles: sqliteRbac.userRolesTable,
+  auditLogs: sqliteAudit.auditLogsTable,
+  migrations: sqliteCore.migrations
+};
+
+const mysqlTables = {
+  users: mysqlCore.users,
+  sessions: mysqlCore.sessions,
+  rateLimits: mysqlCore.rateLimits,
+  accountLockouts: mysqlCore.accountLockouts,
+  revokedSessions: mysqlCore.revokedSessions,
+  usersTwoFactor: mysqlTwoFactor.usersTwoFactorTable,
+  twoFactorRecoveryCodes: mysqlTwoFactor.twoFactorRecoveryCodesTable,
+  twoFactorChallenges: mysqlTwoFactor.twoFactorChallengesTable,
+  magicUrlTokens: mysqlMagicUrl.magicUrlTokensTable,
+  passwordResetTokens: mysqlPassword.passwordResetTokensTable,
+  accountVerificationTokens: mysqlVerification.accountVerificationTokensTable,
+  userVerificationStatus: mysqlVerification.userVerificationStatusTable,
+  socialAccounts: mysqlSocial.socialAccountsTable,
+  webAuthnCredentials: mysqlPasskeys.webAuthnCredentialsTable,
+  webAuthnChallenges: mysqlPasskeys.webAuthnChallengesTable,
+  roles: mysqlRbac.rolesTable,
+  userRoles: mysqlRbac.userRolesTable,
+  auditLogs: mysqlAudit.auditLogsTable,
+  migrations: mysqlCore.migrations
+};
+
+// Bundled tables of any supported dialect, keyed by purpose
+export type BundledTables = typeof postgresTables | typeof sqliteTables | typeof mysqlTables;
+
+// Bundled PostgreSQL tables; those of the other dialects have the same keys and columns
+export type PostgresTables = typeof postgresTables;
+
+// Query builder that queries of every dialect are typed against: the builders
+// and bundled tables of SQLite and MySQL share the PostgreSQL API and column keys,
+// so only dialect-specific clauses narrow the client further
+export type QueryDatabase = PgDatabase<PgQueryResultHKT>;
+
+// Drizzle database client of any supported dialect
+export type DrizzleDatabase =
+  | PgDatabase<PgQueryResultHKT, Record<string, unknown>>
+  | BaseSQLiteDatabase<'sync' | 'async', unknown, Record<string, unknown>>
+  | MySqlDatabase<MySqlQueryResultHKT, PreparedQueryHKTBase, Record<string, unknown>>;
+
+/**
+ * Get the bundled core and feature tables for a SQL dialect
+ *
+ * @param dialect - SQL dialect (default: 'postgres')
+ * @returns Tables keyed by purpose
+ */
+export function getBundledTables(dialect: DatabaseDialect = 'postgres'): BundledTables {
+  switch (dialect) {
+    case 'sqlite':
+      return sqliteTables;
+    case 'mysql':
+      return mysqlTables;
+    default:
+      return postgresTables;
+  }
+}
@@ -0,0 +1,25 @@
+import { mysqlTable, varchar, text, datetime, json, index } from 'drizzle-orm/mysql-core';
+import { sql } from 'drizzle-orm';
+
+const now = sql`CURRENT_TIMESTAMP(3)`;
+
+/**
+ * Audit Logging schema extensions (MySQL)
+ */
+export const auditLogsTable = mysqlTable('audit_logs', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }),
+  action: varchar('action', { length: 255 }).notNull(),
+  resource: varchar('resource', { length: 255 }),
+  resourceId: varchar('resource_id', { length: 255 }),
+  details: json('details'),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  userAgent: text('user_agent'),
+  status: varchar('status', { length: 32 }).notNull(), // 'success', 'failure', etc.
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull()
+}, (table) => ({
+  // No foreign key: the trail outlives deleted users and may name other actors
+  userIdIdx: index('audit_logs_user_id_idx').on(table.userId),
+  actionIdx: index('audit_logs_action_idx').on(table.action),
+  createdAtIdx: index('audit_logs_created_at_idx').on(table.createdAt)
+}));
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
 
 /**
  * Audit Logging schema extensions
@@ -14,4 +14,9 @@ export const auditLogsTable = pgTable('audit_logs', {
   userAgent: text('user_agent'),
   status: text('status').notNull(), // 'success', 'failure', etc.
   createdAt: timestamp('created_at').defaultNow().notNull()
-});
+}, (table) => ({
+  // No foreign key: the trail outlives deleted users and may name other actors
+  userIdIdx: index('audit_logs_user_id_idx').on(table.userId),
+  actionIdx: index('audit_logs_action_idx').on(table.action),
+  createdAtIdx: index('audit_logs_created_at_idx').on(table.createdAt)
+}));
@@ -0,0 +1,25 @@
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+
+const now = sql`(unixepoch() * 1000)`;
+
+/**
+ * Audit Logging schema extensions (SQLite)
+ */
+export const auditLogsTable = sqliteTable('audit_logs', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id'),
+  action: text('action').notNull(),
+  resource: text('resource'),
+  resourceId: text('resource_id'),
+  details: text('details', { mode: 'json' }),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  status: text('status').notNull(), // 'success', 'failure', etc.
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull()
+}, (table) => ({
+  // No foreign key: the trail outlives deleted users and may name other actors
+  userIdIdx: index('audit_logs_user_id_idx').on(table.userId),
+  actionIdx: index('audit_logs_action_idx').on(table.action),
+  createdAtIdx: index('audit_logs_created_at_idx').on(table.createdAt)
+}));
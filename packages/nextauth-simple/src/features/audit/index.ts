@@ -6,7 +6,10 @@ import {
   type NextAuthSimpleConfigWithAudit,
   type AuditLog
 } from './types';
-import { auditLogsTable } from './db/schema';
+import { authError } from '../../core/errors';
+import { type AuthErrorCode } from '../../core/types';
+import { getAdapter } from '../../adapters';
+import { getLogger } from '../../core/logger';
 
 /**
  * Create an audit log entry
@@ -18,13 +21,12 @@ import { auditLogsTable } from './db/schema';
 export async function createAuditLog(
   input: CreateAuditLogInput,
   config: NextAuthSimpleConfigWithAudit
-): Promise<{ success: boolean; error?: string; log?: AuditLog }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string; log?: AuditLog }> {
   try {
-    const { db } = config;
     const auditConfig = config.features?.audit;
     
     if (!auditConfig?.enabled) {
-      return { success: false, error: 'Audit logging is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Audit logging is not enabled');
     }
     
     // Check if this type of action should be logged
@@ -49,15 +51,15 @@ export async function createAuditLog(
       createdAt: now
     };
     
-    await db.client.insert(auditLogsTable).values(log).execute();
+    await getAdapter(config).createAuditLog(log);
     
     return {
       success: true,
       log
     };
   } catch (error) {
-    console.error('Error creating audit log:', error);
-    return { success: false, error: 'Failed to create audit log' };
+    getLogger(config).error('Error creating audit log', { feature: 'audit', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to create audit log');
   }
 }
 
@@ -73,77 +75,23 @@ export async function queryAuditLogs(
   config: NextAuthSimpleConfigWithAudit
 ): Promise<AuditLogQueryResult> {
   try {
-    const { db } = config;
     const auditConfig = config.features?.audit;
     
     if (!auditConfig?.enabled) {
-      return { success: false, error: 'Audit logging is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Audit logging is not enabled');
     }
     
-    // Build query
-    let query = db.client.select().from(auditLogsTable);
-    
-    // Apply filters
-    if (options.userId) {
-      query = query.where((eb: any) => eb.eq(auditLogsTable.userId, options.userId));
-    }
-    
-    if (options.action) {
-      query = query.where((eb: any) => eb.eq(auditLogsTable.action, options.action));
-    }
-    
-    if (options.resource) {
-      query = query.where((eb: any) => eb.eq(auditLogsTable.resource, options.resource));
-    }
-    
-    if (options.resourceId) {
-      query = query.where((eb: any) => eb.eq(auditLogsTable.resourceId, options.resourceId));
-    }
-    
-    if (options.status) {
-      query = query.where((eb: any) => eb.eq(auditLogsTable.status, options.status));
-    }
-    
-    if (options.startDate) {
-      query = query.where((eb: any) => eb.gte(auditLogsTable.createdAt, options.startDate));
-    }
-    
-    if (options.endDate) {
-      query = query.where((eb: any) => eb.lte(auditLogsTable.createdAt, options.endDate));
-    }
-    
-    // Get total count
-    const countQuery = query.toSQL();
-    const countResult = await db.client.execute(
-      `SELECT COUNT(*) as total FROM (${countQuery.sql}) as count_query`,
-      countQuery.params
-    );
-    
-    const total = parseInt(countResult[0]?.total || '0', 10);
-    
-    // Apply pagination
-    if (options.limit) {
-      query = query.limit(options.limit);
-    }
-    
-    if (options.offset) {
-      query = query.offset(options.offset);
-    }
-    
-    // Order by creation date, newest first
-    query = query.orderBy((eb: any) => eb.desc(auditLogsTable.createdAt));
-    
-    // Execute query
-    const logs = await query.execute();
+    // Filtered and paginated, newest first
+    const { logs, total } = await getAdapter(config).queryAuditLogs(options);
     
     return {
       success: true,
-      logs: logs as AuditLog[],
+      logs,
       total
     };
   } catch (error) {
-    console.error('Error querying audit logs:', error);
-    return { success: false, error: 'Failed to query audit logs' };
+    getLogger(config).error('Error querying audit logs', { feature: 'audit', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to query audit logs');
   }
 }
 
@@ -155,13 +103,12 @@ export async function queryAuditLogs(
  */
 export async function cleanupAuditLogs(
   config: NextAuthSimpleConfigWithAudit
-): Promise<{ success: boolean; error?: string; deletedCount?: number }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string; deletedCount?: number }> {
   try {
-    const { db } = config;
     const auditConfig = config.features?.audit;
     
     if (!auditConfig?.enabled) {
-      return { success: false, error: 'Audit logging is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Audit logging is not enabled');
     }
     
     const retentionDays = auditConfig.retentionDays || 90;
@@ -171,18 +118,15 @@ export async function cleanupAuditLogs(
     cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
     
     // Delete old logs
-    const result = await db.client
-      .delete(auditLogsTable)
-      .where((eb: any) => eb.lt(auditLogsTable.createdAt, cutoffDate))
-      .execute();
+    const deletedCount = await getAdapter(config).deleteAuditLogsBefore(cutoffDate);
     
     return {
       success: true,
-      deletedCount: result.rowCount
+      deletedCount
     };
   } catch (error) {
-    console.error('Error cleaning up audit logs:', error);
-    return { success: false, error: 'Failed to clean up audit logs' };
+    getLogger(config).error('Error cleaning up audit logs', { feature: 'audit', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to clean up audit logs');
   }
 }
 
@@ -196,34 +140,28 @@ export async function cleanupAuditLogs(
 export async function getAuditLog(
   id: string,
   config: NextAuthSimpleConfigWithAudit
-): Promise<{ success: boolean; error?: string; log?: AuditLog }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string; log?: AuditLog }> {
   try {
-    const { db } = config;
     const auditConfig = config.features?.audit;
     
     if (!auditConfig?.enabled) {
-      return { success: false, error: 'Audit logging is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Audit logging is not enabled');
     }
     
     // Get log
-    const logs = await db.client
-      .select()
-      .from(auditLogsTable)
-      .where((eb: any) => eb.eq(auditLogsTable.id, id))
-      .limit(1)
-      .execute();
+    const log = await getAdapter(config).getAuditLog(id);
     
-    if (logs.length === 0) {
-      return { success: false, error: 'Audit log not found' };
+    if (!log) {
+      return authError('NOT_FOUND', config, 'Audit log not found');
     }
     
     return {
       success: true,
-      log: logs[0] as AuditLog
+      log
     };
   } catch (error) {
-    console.error('Error getting audit log:', error);
-    return { success: false, error: 'Failed to get audit log' };
+    getLogger(config).error('Error getting audit log', { feature: 'audit', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to get audit log');
   }
 }
 
@@ -1,11 +1,11 @@
-import { NextAuthSimpleConfig } from '../../core/types';
-import { NextAuthSimpleConfigWithTwoFactor } from '../twoFactor/types';
-import { NextAuthSimpleConfigWithMagicUrl } from '../magicUrl/types';
-import { NextAuthSimpleConfigWithSocial } from '../social/types';
-import { NextAuthSimpleConfigWithPasswordReset } from '../password/types';
-import { NextAuthSimpleConfigWithRbac } from '../rbac/types';
-import { NextAuthSimpleConfigWithPasskeys } from '../passkeys/types';
-import { NextAuthSimpleConfigWithVerification } from '../verification/types';
+import { AuthErrorCode, NextAuthSimpleConfig } from '../../core/types';
+import { TwoFactorConfig } from '../twoFactor/types';
+import { MagicUrlConfig } from '../magicUrl/types';
+import { SocialLoginConfig } from '../social/types';
+import { PasswordResetConfig } from '../password/types';
+import { RbacConfig } from '../rbac/types';
+import { PasskeysConfig } from '../passkeys/types';
+import { VerificationConfig } from '../verification/types';
 
 /**
  * Audit Logging configuration
@@ -27,13 +27,13 @@ export interface AuditConfig {
  */
 export interface NextAuthSimpleConfigWithAudit extends NextAuthSimpleConfig {
   features?: {
-    twoFactor?: NextAuthSimpleConfigWithTwoFactor['features'];
-    magicUrl?: NextAuthSimpleConfigWithMagicUrl['features'];
-    social?: NextAuthSimpleConfigWithSocial['features'];
-    passwordReset?: NextAuthSimpleConfigWithPasswordReset['features'];
-    rbac?: NextAuthSimpleConfigWithRbac['features'];
-    passkeys?: NextAuthSimpleConfigWithPasskeys['features'];
-    verification?: NextAuthSimpleConfigWithVerification['features'];
+    twoFactor?: TwoFactorConfig;
+    magicUrl?: MagicUrlConfig;
+    social?: SocialLoginConfig;
+    passwordReset?: PasswordResetConfig;
+    rbac?: RbacConfig;
+    passkeys?: PasskeysConfig;
+    verification?: VerificationConfig;
     audit?: AuditConfig;
     // Other features will be added here
   };
@@ -89,6 +89,7 @@ export interface AuditLogQueryOptions {
  */
 export interface AuditLogQueryResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   logs?: AuditLog[];
   total?: number;
@@ -1,4 +1,11 @@
-import { NextAuthSimpleConfig } from '../core/types';
+import { AuthErrorCode, AuthHooks, NextAuthSimpleConfig } from '../core/types';
+import { authError } from '../core/errors';
+import { mergeAuthHooks } from '../core/events';
+import { getPluginHooks } from '../core/plugins';
+import { applyMigrations } from '../db/migrations';
+import { createAuditLog } from './audit';
+import { assignDefaultRoleToUser } from './rbac';
+import { getUserVerificationStatus, isVerificationRequired } from './verification';
 import { TwoFactorConfig } from './twoFactor/types';
 import { MagicUrlConfig } from './magicUrl/types';
 import { SocialLoginConfig } from './social/types';
@@ -7,6 +14,7 @@ import { RbacConfig } from './rbac/types';
 import { PasskeysConfig } from './passkeys/types';
 import { VerificationConfig } from './verification/types';
 import { AuditConfig } from './audit/types';
+import { getLogger } from '../core/logger';
 
 /**
  * Complete NextAuthSimpleConfig with all features
@@ -30,6 +38,7 @@ export interface NextAuthSimpleConfigWithAllFeatures extends NextAuthSimpleConfi
 
 // Re-export all feature modules
 export * from './twoFactor';
+export * from './twoFactor/auth';
 export * from './magicUrl';
 export * from './social';
 export * from './password';
@@ -56,20 +65,20 @@ export * from './audit/types';
  */
 export async function initializeFeatures(
   config: NextAuthSimpleConfigWithAllFeatures
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
   try {
     // Initialize RBAC if enabled
     if (config.features?.rbac?.enabled) {
       const { initializeDefaultRoles } = await import('./rbac');
-      await initializeDefaultRoles(config as any);
+      await initializeDefaultRoles(config);
     }
 
     // Initialize other features as needed
 
     return { success: true };
   } catch (error) {
-    console.error('Error initializing features:', error);
-    return { success: false, error: 'Failed to initialize features' };
+    getLogger(config).error('Error initializing features', { error });
+    return authError('INTERNAL_ERROR', config, 'Failed to initialize features');
   }
 }
 
@@ -84,9 +93,21 @@ export function validateFeatureConfig(
 ): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
 
-  // Validate database connection
-  if (!config.db || !config.db.client || !config.db.tables) {
-    errors.push('Database configuration is required for all features');
+  // Validate storage
+  if (!config.adapter && (!config.db || !config.db.client || !config.db.tables)) {
+    errors.push('A storage adapter or database configuration is required');
+  }
+
+  // Validate cookie config
+  if (config.cookies?.prefix === '__Host-' && config.cookies.domain) {
+    errors.push('Cookies with the __Host- prefix cannot set a domain');
+  }
+
+  // Validate stateless session config
+  if (config.session?.strategy === 'jwt') {
+    if (!config.secret && !config.session.jwt?.keys?.length) {
+      errors.push('The jwt session strategy requires a secret or session.jwt.keys');
+    }
   }
 
   // Validate Two-Factor Authentication config
@@ -150,198 +171,84 @@ export function validateFeatureConfig(
 /**
  * Create database schema for all enabled features
  * 
+ * @deprecated Use `applyMigrations`, which also reports the applied migrations
+ * 
  * @param config - NextAuth-Simple configuration with all features
  * @returns Success status
  */
 export async function createFeatureSchemas(
   config: NextAuthSimpleConfigWithAllFeatures
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const { db } = config;
-
-    // Import all schema tables
-    const { users, sessions } = await import('../db/schema');
-
-    // Feature schemas
-    let schemas: any[] = [users, sessions];
-
-    // Add Two-Factor Authentication schema
-    if (config.features?.twoFactor?.enabled) {
-      const { usersTwoFactorTable, twoFactorRecoveryCodesTable, twoFactorChallengesTable } = await import('./twoFactor/db/schema');
-      schemas = [...schemas, usersTwoFactorTable, twoFactorRecoveryCodesTable, twoFactorChallengesTable];
-    }
-
-    // Add Magic URL schema
-    if (config.features?.magicUrl?.enabled) {
-      const { magicUrlTokensTable } = await import('./magicUrl/db/schema');
-      schemas = [...schemas, magicUrlTokensTable];
-    }
-
-    // Add Social Login schema
-    if (config.features?.social?.enabled) {
-      const { socialAccountsTable } = await import('./social/db/schema');
-      schemas = [...schemas, socialAccountsTable];
-    }
-
-    // Add Password Reset schema
-    if (config.features?.passwordReset?.enabled) {
-      const { passwordResetTokensTable } = await import('./password/db/schema');
-      schemas = [...schemas, passwordResetTokensTable];
-    }
-
-    // Add RBAC schema
-    if (config.features?.rbac?.enabled) {
-      const { rolesTable, userRolesTable } = await import('./rbac/db/schema');
-      schemas = [...schemas, rolesTable, userRolesTable];
-    }
-
-    // Add Passkeys schema
-    if (config.features?.passkeys?.enabled) {
-      const { webAuthnCredentialsTable, webAuthnChallengesTable } = await import('./passkeys/db/schema');
-      schemas = [...schemas, webAuthnCredentialsTable, webAuthnChallengesTable];
-    }
-
-    // Add Account Verification schema
-    if (config.features?.verification?.enabled) {
-      const { accountVerificationTokensTable, userVerificationStatusTable } = await import('./verification/db/schema');
-      schemas = [...schemas, accountVerificationTokensTable, userVerificationStatusTable];
-    }
-
-    // Add Audit Logging schema
-    if (config.features?.audit?.enabled) {
-      const { auditLogsTable } = await import('./audit/db/schema');
-      schemas = [...schemas, auditLogsTable];
-    }
-
-    // Create all tables
-    for (const schema of schemas) {
-      try {
-        await db.client.execute(`
-          CREATE TABLE IF NOT EXISTS "${schema.name}" (
-            ${Object.entries(schema.columns).map(([name, column]: [string, any]) => {
-          let columnDef = `"${name}" ${column.dataType}`;
-          if (column.primaryKey) columnDef += ' PRIMARY KEY';
-          if (column.notNull) columnDef += ' NOT NULL';
-          if (column.unique) columnDef += ' UNIQUE';
-          if (column.default) columnDef += ` DEFAULT ${column.default}`;
-          return columnDef;
-        }).join(',\n')}
-          )
-        `);
-      } catch (error) {
-        console.error(`Error creating table ${schema.name}:`, error);
-      }
-    }
-
-    return { success: true };
-  } catch (error) {
-    console.error('Error creating feature schemas:', error);
-    return { success: false, error: 'Failed to create feature schemas' };
-  }
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
+  const { success, error } = await applyMigrations(config);
+  return error ? authError('INTERNAL_ERROR', config, error) : { success };
 }
 
 /**
  * Integrate all features with the authentication flow
  * 
+ * The hooks of features, then those of plugins, run before the hooks already
+ * in `config.hooks`.
+ * 
  * @param config - NextAuth-Simple configuration with all features
  * @returns Integrated configuration
  */
 export function integrateFeatures(
   config: NextAuthSimpleConfigWithAllFeatures
 ): NextAuthSimpleConfigWithAllFeatures {
-  // Create a deep copy of the config
-  const integratedConfig = JSON.parse(JSON.stringify(config));
-
-  // Add hooks for feature integration
-  integratedConfig._hooks = {
-    // Pre-login hooks
-    preLogin: async (email: string, password: string) => {
-      // Example: Check if account verification is required
-      if (config.features?.verification?.enabled && config.features.verification.requireVerification) {
-        const { getUserVerificationStatus } = await import('./verification');
-        const user = await getUserByEmail(email, config);
-
-        if (user) {
-          const verificationStatus = await getUserVerificationStatus(user.id, config as any);
-          if (verificationStatus.success && verificationStatus.status && !verificationStatus.status.verified) {
-            return { success: false, error: 'Account not verified' };
-          }
-        }
-      }
-
-      return { success: true };
-    },
-
-    // Post-login hooks
-    postLogin: async (userId: string, sessionId: string) => {
-      // Example: Log successful login
-      if (config.features?.audit?.enabled) {
-        const { createAuditLog } = await import('./audit');
-        await createAuditLog({
-          userId,
-          action: 'login.success',
-          resource: 'session',
-          resourceId: sessionId,
-          status: 'success'
-        }, config as any);
-      }
-
-      return { success: true };
-    },
-
-    // Pre-registration hooks
-    preRegistration: async (email: string, password: string) => {
-      return { success: true };
-    },
-
-    // Post-registration hooks
-    postRegistration: async (userId: string) => {
-      // Example: Assign default role to new user
-      if (config.features?.rbac?.enabled) {
-        const { assignDefaultRoleToUser } = await import('./rbac');
-        await assignDefaultRoleToUser(userId, config as any);
-      }
-
-      // Example: Log successful registration
-      if (config.features?.audit?.enabled) {
-        const { createAuditLog } = await import('./audit');
-        await createAuditLog({
-          userId,
-          action: 'register.success',
-          resource: 'user',
-          resourceId: userId,
-          status: 'success'
-        }, config as any);
-      }
-
-      return { success: true };
-    }
+  // A shallow copy keeps the database client, adapter and email functions
+  return {
+    ...config,
+    hooks: mergeAuthHooks(getFeatureHooks(config), getPluginHooks(config), config.hooks)
   };
-
-  return integratedConfig;
 }
 
 /**
- * Helper function to get user by email
+ * Get the lifecycle hooks of the enabled features
  * 
- * @param email - User email
- * @param config - NextAuth-Simple configuration
- * @returns User or null
+ * @param config - NextAuth-Simple configuration with all features
+ * @returns Feature hooks
  */
-async function getUserByEmail(email: string, config: NextAuthSimpleConfig): Promise<any | null> {
-  try {
-    const { db } = config;
+function getFeatureHooks(config: NextAuthSimpleConfigWithAllFeatures): AuthHooks {
+  const hooks: AuthHooks = { preLogin: [], postLogin: [], postRegistration: [] };
 
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.email, email.toLowerCase()))
-      .limit(1)
-      .execute();
+  // Unverified accounts cannot sign in
+  if (isVerificationRequired(config)) {
+    hooks.preLogin!.push(async ({ user }) => {
+      const verificationStatus = await getUserVerificationStatus(user.id, config);
 
-    return users.length > 0 ? users[0] : null;
-  } catch (error) {
-    console.error('Error getting user by email:', error);
-    return null;
+      if (verificationStatus.success && !verificationStatus.status?.verified) {
+        return authError('ACCOUNT_NOT_VERIFIED', config);
+      }
+    });
   }
+
+  // New users get the default role
+  if (config.features?.rbac?.enabled) {
+    hooks.postRegistration!.push(({ user }) => assignDefaultRoleToUser(user.id, config));
+  }
+
+  if (config.features?.audit?.enabled) {
+    hooks.postLogin!.push(({ user, session }) => createAuditLog({
+      userId: user.id,
+      action: 'login.success',
+      resource: 'session',
+      resourceId: session.id,
+      details: session.deviceLabel ? { device: session.deviceLabel } : undefined,
+      ipAddress: session.ipAddress || undefined,
+      userAgent: session.userAgent || undefined,
+      status: 'success'
+    }, config));
+
+    hooks.postRegistration!.push(({ user, session }) => createAuditLog({
+      userId: user.id,
+      action: 'register.success',
+      resource: 'user',
+      resourceId: user.id,
+      ipAddress: session.ipAddress || undefined,
+      userAgent: session.userAgent || undefined,
+      status: 'success'
+    }, config));
+  }
+
+  return hooks;
 }
@@ -0,0 +1,19 @@
+import { mysqlTable, varchar, text, datetime, index } from 'drizzle-orm/mysql-core';
+import { sql } from 'drizzle-orm';
+
+const now = sql`CURRENT_TIMESTAMP(3)`;
+
+/**
+ * Magic URL (Passwordless Email) schema extensions (MySQL)
+ */
+export const magicUrlTokensTable = mysqlTable('magic_url_tokens', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  email: varchar('email', { length: 255 }).notNull(),
+  token: varchar('token', { length: 255 }).notNull().unique(),
+  expiresAt: datetime('expires_at', { fsp: 3 }).notNull(),
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull(),
+  usedAt: datetime('used_at', { fsp: 3 }),
+  callbackUrl: text('callback_url')
+}, (table) => ({
+  emailIdx: index('magic_url_tokens_email_idx').on(table.email)
+}));
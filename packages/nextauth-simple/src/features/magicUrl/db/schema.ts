@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, index } from 'drizzle-orm/pg-core';
 
 /**
  * Magic URL (Passwordless Email) schema extensions
@@ -11,4 +11,6 @@ export const magicUrlTokensTable = pgTable('magic_url_tokens', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
   usedAt: timestamp('used_at'),
   callbackUrl: text('callback_url')
-});
+}, (table) => ({
+  emailIdx: index('magic_url_tokens_email_idx').on(table.email)
+}));
@@ -0,0 +1,19 @@
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+
+const now = sql`(unixepoch() * 1000)`;
+
+/**
+ * Magic URL (Passwordless Email) schema extensions (SQLite)
+ */
+export const magicUrlTokensTable = sqliteTable('magic_url_tokens', {
+  id: text('id').primaryKey().notNull(),
+  email: text('email').notNull(),
+  token: text('token').notNull().unique(),
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull(),
+  usedAt: integer('used_at', { mode: 'timestamp_ms' }),
+  callbackUrl: text('callback_url')
+}, (table) => ({
+  emailIdx: index('magic_url_tokens_email_idx').on(table.email)
+}));
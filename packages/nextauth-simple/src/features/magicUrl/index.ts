@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { type NextRequest } from 'next/server';
 import { 
   type MagicUrlLoginInput, 
   type MagicUrlVerifyInput, 
@@ -6,8 +7,13 @@ import {
   type MagicUrlVerifyResult,
   type NextAuthSimpleConfigWithMagicUrl
 } from './types';
-import { magicUrlTokensTable } from './db/schema';
-import { createSession } from '../../core/auth';
+import { getAdapter } from '../../adapters';
+import { registerPasswordlessUser } from '../../core/auth';
+import { completeSignIn } from '../../core/sign-in';
+import { authError } from '../../core/errors';
+import { getLockoutStatus } from '../../core/lockout';
+import { getLogger } from '../../core/logger';
+import { type NextAuthSimpleConfig } from '../../core/types';
 
 /**
  * Default email sending function
@@ -15,12 +21,16 @@ import { createSession } from '../../core/auth';
  * @param to - Recipient email
  * @param subject - Email subject
  * @param html - Email HTML content
+ * @param config - NextAuth-Simple configuration
  * @returns Promise resolving to success status
  */
-async function defaultSendEmail(to: string, subject: string, html: string): Promise<boolean> {
-  console.log(`[Magic URL Email] To: ${to}, Subject: ${subject}`);
-  console.log(`[Magic URL Email] Content: ${html}`);
-  console.log('[Magic URL Email] This is a placeholder. Implement your own email sending function.');
+async function defaultSendEmail(
+  to: string,
+  subject: string,
+  html: string,
+  config: NextAuthSimpleConfig
+): Promise<boolean> {
+  getLogger(config).warn('No email sending function configured; set features.magicUrl.sendEmail', { feature: 'magicUrl', to, subject });
   return true;
 }
 
@@ -46,16 +56,15 @@ export async function createMagicUrlLogin(
 ): Promise<MagicUrlLoginResult> {
   try {
     const { email, callbackUrl } = input;
-    const { db } = config;
     const magicUrlConfig = config.features?.magicUrl;
     
     if (!magicUrlConfig?.enabled) {
-      return { success: false, error: 'Magic URL authentication is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Magic URL authentication is not enabled');
     }
     
     // Validate email
     if (!email || !email.includes('@') || email.length < 5) {
-      return { success: false, error: 'Invalid email address' };
+      return authError('INVALID_EMAIL', config);
     }
     
     // Generate token
@@ -67,14 +76,14 @@ export async function createMagicUrlLogin(
     expiresAt.setMinutes(expiresAt.getMinutes() + expiryMinutes);
     
     // Store token
-    await db.client.insert(magicUrlTokensTable).values({
+    await getAdapter(config).createMagicUrlToken({
       id: crypto.randomUUID(),
       email: email.toLowerCase(),
       token,
       expiresAt,
       createdAt: new Date(),
       callbackUrl: callbackUrl || ''
-    }).execute();
+    });
     
     // Generate magic link
     const baseUrl = process.env.NEXTAUTH_URL || '';
@@ -98,7 +107,8 @@ export async function createMagicUrlLogin(
     `;
     
     // Send email
-    const sendEmail = magicUrlConfig.sendEmail || defaultSendEmail;
+    const sendEmail = magicUrlConfig.sendEmail ||
+      ((to: string, subject: string, html: string) => defaultSendEmail(to, subject, html, config));
     const emailSent = await sendEmail(
       email.toLowerCase(),
       subject,
@@ -106,7 +116,7 @@ export async function createMagicUrlLogin(
     );
     
     if (!emailSent) {
-      return { success: false, error: 'Failed to send email' };
+      return authError('EMAIL_FAILED', config);
     }
     
     return {
@@ -114,8 +124,8 @@ export async function createMagicUrlLogin(
       emailSent: true
     };
   } catch (error) {
-    console.error('Error creating magic URL login:', error);
-    return { success: false, error: 'Failed to create magic URL login' };
+    getLogger(config).error('Error creating magic URL login', { feature: 'magicUrl', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to create magic URL login');
   }
 }
 
@@ -124,107 +134,69 @@ export async function createMagicUrlLogin(
  * 
  * @param input - Magic URL verification input
  * @param config - NextAuth-Simple configuration with Magic URL
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
  * @returns Magic URL verification result
  */
 export async function verifyMagicUrlToken(
   input: MagicUrlVerifyInput,
-  config: NextAuthSimpleConfigWithMagicUrl
+  config: NextAuthSimpleConfigWithMagicUrl,
+  req?: NextRequest,
+  res?: any
 ): Promise<MagicUrlVerifyResult> {
   try {
     const { token, email } = input;
-    const { db } = config;
     const magicUrlConfig = config.features?.magicUrl;
     
     if (!magicUrlConfig?.enabled) {
-      return { success: false, error: 'Magic URL authentication is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Magic URL authentication is not enabled');
     }
     
+    const adapter = getAdapter(config);
+    
     // Find token
-    const tokens = await db.client
-      .select()
-      .from(magicUrlTokensTable)
-      .where((eb: any) => eb.and(
-        eb.eq(magicUrlTokensTable.token, token),
-        eb.eq(magicUrlTokensTable.email, email.toLowerCase())
-      ))
-      .limit(1)
-      .execute();
-    
-    if (tokens.length === 0) {
-      return { success: false, error: 'Invalid or expired token' };
-    }
+    const magicToken = await adapter.getMagicUrlToken(token, email);
     
-    const magicToken = tokens[0];
+    if (!magicToken) {
+      return authError('INVALID_TOKEN', config, 'Invalid or expired token');
+    }
     
     // Check if token is expired
     if (new Date() > new Date(magicToken.expiresAt)) {
-      return { success: false, error: 'Token has expired' };
+      return authError('TOKEN_EXPIRED', config);
     }
     
     // Check if token is already used
     if (magicToken.usedAt) {
-      return { success: false, error: 'Token has already been used' };
+      return authError('TOKEN_USED', config);
     }
     
-    // Mark token as used
-    await db.client
-      .update(magicUrlTokensTable)
-      .set({
-        usedAt: new Date()
-      })
-      .where((eb: any) => eb.eq(magicUrlTokensTable.id, magicToken.id))
-      .execute();
-    
-    // Find or create user
-    let user;
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.email, email.toLowerCase()))
-      .limit(1)
-      .execute();
-    
-    if (users.length > 0) {
-      // User exists
-      user = users[0];
-    } else {
-      // Create new user
-      const userId = crypto.randomUUID();
-      const now = new Date();
-      
-      // Generate a random password (user won't need this)
-      const randomPassword = crypto.randomBytes(32).toString('hex');
-      
-      const newUser = {
-        id: userId,
-        email: email.toLowerCase(),
-        password: randomPassword, // This is just a placeholder
-        createdAt: now,
-        updatedAt: now
-      };
-      
-      await db.client.insert(db.tables.users).values(newUser).execute();
-      user = newUser;
-    }
+    // Find existing user
+    const user = await adapter.getUserByEmail(email);
     
-    // Create session
-    const session = await createSession(user.id, config);
-    
-    // Return success with user (excluding password)
-    const { password: _, ...userWithoutPassword } = user;
-    return { 
-      success: true, 
-      user: userWithoutPassword,
-      session: {
-        id: session.id,
-        userId: session.userId,
-        expiresAt: session.expiresAt,
-        createdAt: session.createdAt,
-        updatedAt: session.updatedAt
+    // Respect account lockout (the token stays valid until the lock expires)
+    if (user) {
+      const lockout = await getLockoutStatus(user.id, config);
+      if (lockout.locked) {
+        return { ...authError('ACCOUNT_LOCKED', config), locked: true, lockedUntil: lockout.lockedUntil };
       }
-    };
+    }
+    
+    // Mark token as used
+    await adapter.markMagicUrlTokenUsed(magicToken.id);
+    
+    // New users are registered, which also creates their first session;
+    // others get the session, or the two-factor challenge
+    const result = user
+      ? await completeSignIn(user.id, { method: 'magicUrl' }, config, req, res)
+      : await registerPasswordlessUser(email, config, req, res);
+    
+    // Hand back where the link was requested to land
+    return result.success && magicToken.callbackUrl
+      ? { ...result, callbackUrl: magicToken.callbackUrl }
+      : result;
   } catch (error) {
-    console.error('Error verifying magic URL token:', error);
-    return { success: false, error: 'Failed to verify magic URL token' };
+    getLogger(config).error('Error verifying magic URL token', { feature: 'magicUrl', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to verify magic URL token');
   }
 }
@@ -1,5 +1,5 @@
-import { NextAuthSimpleConfig } from '../../core/types';
-import { NextAuthSimpleConfigWithTwoFactor } from '../twoFactor/types';
+import { AuthErrorCode, NextAuthSimpleConfig } from '../../core/types';
+import { TwoFactorConfig } from '../twoFactor/types';
 
 /**
  * Magic URL (Passwordless Email) configuration
@@ -18,7 +18,7 @@ export interface MagicUrlConfig {
  */
 export interface NextAuthSimpleConfigWithMagicUrl extends NextAuthSimpleConfig {
   features?: {
-    twoFactor?: NextAuthSimpleConfigWithTwoFactor['features'];
+    twoFactor?: TwoFactorConfig;
     magicUrl?: MagicUrlConfig;
     // Other features will be added here
   };
@@ -45,6 +45,7 @@ export interface MagicUrlVerifyInput {
  */
 export interface MagicUrlLoginResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   emailSent?: boolean;
 }
@@ -54,7 +55,13 @@ export interface MagicUrlLoginResult {
  */
 export interface MagicUrlVerifyResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   user?: any;
   session?: any;
+  locked?: boolean; // Set when the account is locked out
+  lockedUntil?: Date;
+  twoFactorRequired?: boolean; // Set when the sign-in waits for the second factor; no session was created
+  challengeToken?: string; // Two-factor challenge to answer with the code
+  callbackUrl?: string; // Where the link was requested to land after sign-in
 }
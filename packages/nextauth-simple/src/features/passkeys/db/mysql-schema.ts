@@ -0,0 +1,34 @@
+import { mysqlTable, varchar, text, boolean, datetime, json, index } from 'drizzle-orm/mysql-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/mysql-schema';
+
+const now = sql`CURRENT_TIMESTAMP(3)`;
+
+/**
+ * WebAuthn (Passkeys) schema extensions (MySQL)
+ */
+export const webAuthnCredentialsTable = mysqlTable('webauthn_credentials', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  credentialId: varchar('credential_id', { length: 512 }).notNull().unique(),
+  publicKey: text('public_key').notNull(),
+  counter: varchar('counter', { length: 32 }).notNull(),
+  transports: json('transports'), // Array of transports
+  deviceType: varchar('device_type', { length: 32 }), // 'platform', 'cross-platform', etc.
+  backed: boolean('backed').default(false),
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull(),
+  lastUsedAt: datetime('last_used_at', { fsp: 3 })
+}, (table) => ({
+  userIdIdx: index('webauthn_credentials_user_id_idx').on(table.userId)
+}));
+
+export const webAuthnChallengesTable = mysqlTable('webauthn_challenges', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }).references(() => users.id, { onDelete: 'cascade' }),
+  challenge: varchar('challenge', { length: 255 }).notNull().unique(),
+  expiresAt: datetime('expires_at', { fsp: 3 }).notNull(),
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull(),
+  usedAt: datetime('used_at', { fsp: 3 })
+}, (table) => ({
+  userIdIdx: index('webauthn_challenges_user_id_idx').on(table.userId)
+}));
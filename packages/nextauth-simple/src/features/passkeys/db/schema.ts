@@ -1,11 +1,12 @@
-import { pgTable, text, boolean, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, text, boolean, timestamp, jsonb, uuid, index } from 'drizzle-orm/pg-core';
+import { users } from '../../../db/schema';
 
 /**
  * WebAuthn (Passkeys) schema extensions
  */
 export const webAuthnCredentialsTable = pgTable('webauthn_credentials', {
   id: text('id').primaryKey().notNull(),
-  userId: text('user_id').notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   credentialId: text('credential_id').notNull().unique(),
   publicKey: text('public_key').notNull(),
   counter: text('counter').notNull(),
@@ -14,13 +15,17 @@ export const webAuthnCredentialsTable = pgTable('webauthn_credentials', {
   backed: boolean('backed').default(false),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   lastUsedAt: timestamp('last_used_at')
-});
+}, (table) => ({
+  userIdIdx: index('webauthn_credentials_user_id_idx').on(table.userId)
+}));
 
 export const webAuthnChallengesTable = pgTable('webauthn_challenges', {
   id: text('id').primaryKey().notNull(),
-  userId: text('user_id'),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
   challenge: text('challenge').notNull().unique(),
   expiresAt: timestamp('expires_at').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   usedAt: timestamp('used_at')
-});
+}, (table) => ({
+  userIdIdx: index('webauthn_challenges_user_id_idx').on(table.userId)
+}));
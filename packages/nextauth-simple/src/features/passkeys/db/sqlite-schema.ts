@@ -0,0 +1,34 @@
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/sqlite-schema';
+
+const now = sql`(unixepoch() * 1000)`;
+
+/**
+ * WebAuthn (Passkeys) schema extensions (SQLite)
+ */
+export const webAuthnCredentialsTable = sqliteTable('webauthn_credentials', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  credentialId: text('credential_id').notNull().unique(),
+  publicKey: text('public_key').notNull(),
+  counter: text('counter').notNull(),
+  transports: text('transports', { mode: 'json' }), // Array of transports
+  deviceType: text('device_type'), // 'platform', 'cross-platform', etc.
+  backed: integer('backed', { mode: 'boolean' }).default(false),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull(),
+  lastUsedAt: integer('last_used_at', { mode: 'timestamp_ms' })
+}, (table) => ({
+  userIdIdx: index('webauthn_credentials_user_id_idx').on(table.userId)
+}));
+
+export const webAuthnChallengesTable = sqliteTable('webauthn_challenges', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  challenge: text('challenge').notNull().unique(),
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull(),
+  usedAt: integer('used_at', { mode: 'timestamp_ms' })
+}, (table) => ({
+  userIdIdx: index('webauthn_challenges_user_id_idx').on(table.userId)
+}));
@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { type NextRequest } from 'next/server';
 import { 
   type RegistrationOptionsInput,
   type RegistrationVerificationInput,
@@ -10,10 +11,14 @@ import {
   type AuthenticationVerificationResult,
   type GetCredentialsResult,
   type NextAuthSimpleConfigWithPasskeys,
+  type WebAuthnChallenge,
   type WebAuthnCredential
 } from './types';
-import { webAuthnCredentialsTable, webAuthnChallengesTable } from './db/schema';
-import { createSession } from '../../core/auth';
+import { getAdapter } from '../../adapters';
+import { completeSignIn } from '../../core/sign-in';
+import { authError } from '../../core/errors';
+import { type AuthErrorCode } from '../../core/types';
+import { getLogger } from '../../core/logger';
 
 // Base64URL encoding/decoding functions
 function base64UrlEncode(buffer: Buffer): string {
@@ -37,6 +42,127 @@ function generateChallenge(): string {
   return base64UrlEncode(crypto.randomBytes(32));
 }
 
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * Get the relying party ID and origin that signed client data must match
+ * 
+ * @param config - NextAuth-Simple configuration with Passkeys
+ * @returns Relying party ID and expected origin
+ */
+function getRelyingParty(config: NextAuthSimpleConfigWithPasskeys): { rpID: string; origin: string } {
+  const passkeysConfig = config.features?.passkeys;
+  const origin = new URL(passkeysConfig?.origin || process.env.NEXTAUTH_URL || '').origin;
+
+  return { rpID: passkeysConfig?.rpID || new URL(origin).hostname, origin };
+}
+
+/**
+ * Parse client data and check it was produced for this relying party
+ * 
+ * @param clientDataJSON - Base64url client data
+ * @param type - Expected ceremony, 'webauthn.create' or 'webauthn.get'
+ * @param config - NextAuth-Simple configuration with Passkeys
+ * @returns Challenge of the client data, or null if the client data does not match
+ */
+function verifyClientData(
+  clientDataJSON: string,
+  type: 'webauthn.create' | 'webauthn.get',
+  config: NextAuthSimpleConfigWithPasskeys
+): string | null {
+  let clientData;
+  try {
+    clientData = JSON.parse(base64UrlDecode(clientDataJSON).toString('utf8'));
+  } catch (error) {
+    return null;
+  }
+
+  if (clientData.type !== type || clientData.origin !== getRelyingParty(config).origin || typeof clientData.challenge !== 'string') {
+    return null;
+  }
+
+  return clientData.challenge;
+}
+
+/**
+ * Parse authenticator data and check its relying party and user flags
+ * 
+ * @param authenticatorData - Authenticator data bytes
+ * @param config - NextAuth-Simple configuration with Passkeys
+ * @returns Flags, signature counter and attested credential ID, or null if the data does not match
+ */
+function verifyAuthenticatorData(
+  authenticatorData: Buffer,
+  config: NextAuthSimpleConfigWithPasskeys
+): { flags: number; counter: number; credentialId?: string } | null {
+  if (authenticatorData.length < 37) {
+    return null;
+  }
+
+  const rpIdHash = crypto.createHash('sha256').update(getRelyingParty(config).rpID).digest();
+  if (!crypto.timingSafeEqual(authenticatorData.subarray(0, 32), rpIdHash)) {
+    return null;
+  }
+
+  const flags = authenticatorData[32];
+  if (!(flags & FLAG_USER_PRESENT)) {
+    return null;
+  }
+
+  if (config.features?.passkeys?.userVerification === 'required' && !(flags & FLAG_USER_VERIFIED)) {
+    return null;
+  }
+
+  const counter = authenticatorData.readUInt32BE(33);
+
+  // Attested credential data: AAGUID (16 bytes), ID length (2 bytes), ID, public key
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA && authenticatorData.length >= 55) {
+    const length = authenticatorData.readUInt16BE(53);
+    return { flags, counter, credentialId: base64UrlEncode(authenticatorData.subarray(55, 55 + length)) };
+  }
+
+  return { flags, counter };
+}
+
+/**
+ * Import a public key
+ * 
+ * @param publicKey - Base64url SubjectPublicKeyInfo
+ * @returns Key object, or null if the key cannot be parsed
+ */
+function importPublicKey(publicKey: string): crypto.KeyObject | null {
+  try {
+    return crypto.createPublicKey({ key: base64UrlDecode(publicKey), format: 'der', type: 'spki' });
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Verify an assertion signature with a stored public key
+ * 
+ * @param publicKey - Base64url SubjectPublicKeyInfo
+ * @param authenticatorData - Authenticator data bytes
+ * @param clientDataJSON - Base64url client data
+ * @param signature - Base64url signature
+ * @returns Whether the signature is valid
+ */
+function verifySignature(publicKey: string, authenticatorData: Buffer, clientDataJSON: string, signature: string): boolean {
+  const key = importPublicKey(publicKey);
+  if (!key) {
+    return false;
+  }
+
+  const clientDataHash = crypto.createHash('sha256').update(base64UrlDecode(clientDataJSON)).digest();
+
+  // ES256 signatures are DER encoded, RS256 signatures use PKCS#1 v1.5
+  return crypto.verify('sha256', Buffer.concat([authenticatorData, clientDataHash]), key, base64UrlDecode(signature));
+}
+
 /**
  * Store a WebAuthn challenge in the database
  * 
@@ -50,7 +176,6 @@ async function storeChallenge(
   userId: string | undefined,
   config: NextAuthSimpleConfigWithPasskeys
 ): Promise<string> {
-  const { db } = config;
   const passkeysConfig = config.features?.passkeys;
   
   // Calculate expiry time
@@ -61,13 +186,13 @@ async function storeChallenge(
   // Store challenge
   const challengeId = crypto.randomUUID();
   
-  await db.client.insert(webAuthnChallengesTable).values({
+  await getAdapter(config).createWebAuthnChallenge({
     id: challengeId,
     userId,
     challenge,
     expiresAt,
     createdAt: new Date()
-  }).execute();
+  });
   
   return challengeId;
 }
@@ -77,48 +202,35 @@ async function storeChallenge(
  * 
  * @param challenge - Challenge string
  * @param config - NextAuth-Simple configuration with Passkeys
- * @returns Whether the challenge is valid
+ * @returns The stored challenge, or null if it is unknown, expired or used
  */
 async function verifyAndConsumeChallenge(
   challenge: string,
   config: NextAuthSimpleConfigWithPasskeys
-): Promise<boolean> {
-  const { db } = config;
+): Promise<WebAuthnChallenge | null> {
+  const adapter = getAdapter(config);
   
   // Find challenge
-  const challenges = await db.client
-    .select()
-    .from(webAuthnChallengesTable)
-    .where((eb: any) => eb.eq(webAuthnChallengesTable.challenge, challenge))
-    .limit(1)
-    .execute();
+  const dbChallenge = await adapter.getWebAuthnChallenge(challenge);
   
-  if (challenges.length === 0) {
-    return false;
+  if (!dbChallenge) {
+    return null;
   }
   
-  const dbChallenge = challenges[0];
-  
   // Check if challenge is expired
   if (new Date() > new Date(dbChallenge.expiresAt)) {
-    return false;
+    return null;
   }
   
   // Check if challenge is already used
   if (dbChallenge.usedAt) {
-    return false;
+    return null;
   }
   
   // Mark challenge as used
-  await db.client
-    .update(webAuthnChallengesTable)
-    .set({
-      usedAt: new Date()
-    })
-    .where((eb: any) => eb.eq(webAuthnChallengesTable.id, dbChallenge.id))
-    .execute();
+  await adapter.markWebAuthnChallengeUsed(dbChallenge.id);
   
-  return true;
+  return dbChallenge;
 }
 
 /**
@@ -137,7 +249,7 @@ export async function getRegistrationOptions(
     const passkeysConfig = config.features?.passkeys;
     
     if (!passkeysConfig?.enabled) {
-      return { success: false, error: 'WebAuthn (Passkeys) is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'WebAuthn (Passkeys) is not enabled');
     }
     
     // Generate challenge
@@ -150,7 +262,7 @@ export async function getRegistrationOptions(
     const existingCredentials = await getUserCredentials(userId, config);
     
     // Create registration options
-    const rpID = passkeysConfig.rpID || new URL(passkeysConfig.origin || process.env.NEXTAUTH_URL || '').hostname;
+    const { rpID } = getRelyingParty(config);
     
     const options = {
       challenge,
@@ -186,8 +298,8 @@ export async function getRegistrationOptions(
       challenge
     };
   } catch (error) {
-    console.error('Error getting registration options:', error);
-    return { success: false, error: 'Failed to get registration options' };
+    getLogger(config).error('Error getting registration options', { feature: 'passkeys', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to get registration options');
   }
 }
 
@@ -204,35 +316,46 @@ export async function verifyRegistration(
 ): Promise<RegistrationVerificationResult> {
   try {
     const { userId, credential } = input;
-    const { db } = config;
     const passkeysConfig = config.features?.passkeys;
     
     if (!passkeysConfig?.enabled) {
-      return { success: false, error: 'WebAuthn (Passkeys) is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'WebAuthn (Passkeys) is not enabled');
     }
     
-    // Verify challenge
-    const isValidChallenge = await verifyAndConsumeChallenge(credential.response.clientDataJSON.challenge, config);
+    const { clientDataJSON, authenticatorData, publicKey } = credential?.response || {};
+    if (!credential?.id || !clientDataJSON || !authenticatorData || !publicKey) {
+      return authError('INVALID_INPUT', config, 'Invalid credential');
+    }
+    
+    // Verify challenge, which must have been issued to this user
+    const challenge = verifyClientData(clientDataJSON, 'webauthn.create', config);
+    const dbChallenge = challenge ? await verifyAndConsumeChallenge(challenge, config) : null;
     
-    if (!isValidChallenge) {
-      return { success: false, error: 'Invalid or expired challenge' };
+    if (!dbChallenge || dbChallenge.userId !== userId) {
+      return authError('INVALID_CHALLENGE', config);
     }
     
-    // Verify credential
+    // Verify the authenticator data belongs to this relying party and credential
     const credentialId = credential.id;
-    const publicKey = credential.response.attestationObject.authData.credentialPublicKey;
-    const counter = credential.response.attestationObject.authData.counter.toString();
+    const parsed = verifyAuthenticatorData(base64UrlDecode(authenticatorData), config);
+    
+    if (!parsed || parsed.credentialId !== credentialId) {
+      return authError('INVALID_INPUT', config, 'Invalid authenticator data');
+    }
+    
+    // Only keys the registration options asked for (ES256 on P-256, RS256)
+    const key = importPublicKey(publicKey);
+    
+    if (!key || key.asymmetricKeyType !== 'rsa' && !(key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1')) {
+      return authError('INVALID_INPUT', config, 'Unsupported public key algorithm');
+    }
     
     // Check if credential already exists
-    const existingCredentials = await db.client
-      .select()
-      .from(webAuthnCredentialsTable)
-      .where((eb: any) => eb.eq(webAuthnCredentialsTable.credentialId, credentialId))
-      .limit(1)
-      .execute();
-    
-    if (existingCredentials.length > 0) {
-      return { success: false, error: 'Credential already exists' };
+    const adapter = getAdapter(config);
+    const existingCredential = await adapter.getWebAuthnCredential(credentialId);
+    
+    if (existingCredential) {
+      return authError('ALREADY_EXISTS', config, 'Credential already exists');
     }
     
     // Store credential
@@ -244,22 +367,22 @@ export async function verifyRegistration(
       userId,
       credentialId,
       publicKey,
-      counter,
+      counter: parsed.counter.toString(),
       transports: credential.response.transports,
-      deviceType: credential.response.authenticatorAttachment,
-      backed: credential.response.authenticatorData?.flags?.backupEligibility || false,
+      deviceType: credential.authenticatorAttachment,
+      backed: !!(parsed.flags & FLAG_BACKUP_ELIGIBLE),
       createdAt: now
     };
     
-    await db.client.insert(webAuthnCredentialsTable).values(newCredential).execute();
+    await adapter.createWebAuthnCredential(newCredential);
     
     return {
       success: true,
       credential: newCredential
     };
   } catch (error) {
-    console.error('Error verifying registration:', error);
-    return { success: false, error: 'Failed to verify registration' };
+    getLogger(config).error('Error verifying registration', { feature: 'passkeys', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to verify registration');
   }
 }
 
@@ -276,11 +399,10 @@ export async function getAuthenticationOptions(
 ): Promise<AuthenticationOptionsResult> {
   try {
     const { userId, userVerification } = input;
-    const { db } = config;
     const passkeysConfig = config.features?.passkeys;
     
     if (!passkeysConfig?.enabled) {
-      return { success: false, error: 'WebAuthn (Passkeys) is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'WebAuthn (Passkeys) is not enabled');
     }
     
     // Generate challenge
@@ -296,7 +418,7 @@ export async function getAuthenticationOptions(
       const userCredentials = await getUserCredentials(userId, config);
       
       if (!userCredentials.success || !userCredentials.credentials?.length) {
-        return { success: false, error: 'No credentials found for this user' };
+        return authError('NOT_FOUND', config, 'No credentials found for this user');
       }
       
       allowCredentials = userCredentials.credentials.map(cred => ({
@@ -307,7 +429,7 @@ export async function getAuthenticationOptions(
     }
     
     // Create authentication options
-    const rpID = passkeysConfig.rpID || new URL(passkeysConfig.origin || process.env.NEXTAUTH_URL || '').hostname;
+    const { rpID } = getRelyingParty(config);
     
     const options = {
       challenge,
@@ -323,105 +445,88 @@ export async function getAuthenticationOptions(
       challenge
     };
   } catch (error) {
-    console.error('Error getting authentication options:', error);
-    return { success: false, error: 'Failed to get authentication options' };
+    getLogger(config).error('Error getting authentication options', { feature: 'passkeys', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to get authentication options');
   }
 }
 
 /**
  * Verify WebAuthn authentication
  * 
+ * Checks the challenge, the origin and relying party, the signature against the
+ * registered public key and the signature counter before signing the user in.
+ * 
  * @param input - Authentication verification input
  * @param config - NextAuth-Simple configuration with Passkeys
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
  * @returns Authentication verification result
  */
 export async function verifyAuthentication(
   input: AuthenticationVerificationInput,
-  config: NextAuthSimpleConfigWithPasskeys
+  config: NextAuthSimpleConfigWithPasskeys,
+  req?: NextRequest,
+  res?: any
 ): Promise<AuthenticationVerificationResult> {
   try {
     const { credential } = input;
-    const { db } = config;
     const passkeysConfig = config.features?.passkeys;
     
     if (!passkeysConfig?.enabled) {
-      return { success: false, error: 'WebAuthn (Passkeys) is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'WebAuthn (Passkeys) is not enabled');
+    }
+    
+    const { clientDataJSON, authenticatorData, signature } = credential?.response || {};
+    if (!credential?.id || !clientDataJSON || !authenticatorData || !signature) {
+      return authError('INVALID_INPUT', config, 'Invalid credential');
     }
     
     // Verify challenge
-    const isValidChallenge = await verifyAndConsumeChallenge(credential.response.clientDataJSON.challenge, config);
+    const challenge = verifyClientData(clientDataJSON, 'webauthn.get', config);
+    const dbChallenge = challenge ? await verifyAndConsumeChallenge(challenge, config) : null;
     
-    if (!isValidChallenge) {
-      return { success: false, error: 'Invalid or expired challenge' };
+    if (!dbChallenge) {
+      return authError('INVALID_CHALLENGE', config);
     }
     
     // Find credential
     const credentialId = credential.id;
+    const adapter = getAdapter(config);
     
-    const credentials = await db.client
-      .select()
-      .from(webAuthnCredentialsTable)
-      .where((eb: any) => eb.eq(webAuthnCredentialsTable.credentialId, credentialId))
-      .limit(1)
-      .execute();
+    const dbCredential = await adapter.getWebAuthnCredential(credentialId);
     
-    if (credentials.length === 0) {
-      return { success: false, error: 'Credential not found' };
+    // Challenges issued for a user only accept that user's credentials
+    if (!dbCredential || (dbChallenge.userId && dbChallenge.userId !== dbCredential.userId)) {
+      return authError('INVALID_CREDENTIALS', config, 'Invalid passkey');
     }
     
-    const dbCredential = credentials[0] as WebAuthnCredential;
-    
-    // Verify signature using public key
-    // Note: In a real implementation, you would verify the signature here
-    // using the stored public key and the authenticator data
-    
-    // Update counter
-    const newCounter = credential.response.authenticatorData.counter.toString();
-    
-    await db.client
-      .update(webAuthnCredentialsTable)
-      .set({
-        counter: newCounter,
-        lastUsedAt: new Date()
-      })
-      .where((eb: any) => eb.eq(webAuthnCredentialsTable.id, dbCredential.id))
-      .execute();
-    
-    // Get user
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.id, dbCredential.userId))
-      .limit(1)
-      .execute();
-    
-    if (users.length === 0) {
-      return { success: false, error: 'User not found' };
+    const authenticatorDataBytes = base64UrlDecode(authenticatorData);
+    const parsed = verifyAuthenticatorData(authenticatorDataBytes, config);
+    
+    // The authenticator signs its data and the client data with the registered key
+    if (!parsed || !verifySignature(dbCredential.publicKey, authenticatorDataBytes, clientDataJSON, signature)) {
+      return authError('INVALID_CREDENTIALS', config, 'Invalid passkey');
     }
     
-    const user = users[0];
+    // A counter that stops increasing points to a cloned authenticator (counterless ones always report 0)
+    const storedCounter = Number(dbCredential.counter);
+    if ((parsed.counter > 0 || storedCounter > 0) && parsed.counter <= storedCounter) {
+      getLogger(config).warn('Passkey signature counter did not increase', { feature: 'passkeys', userId: dbCredential.userId });
+      return authError('INVALID_CREDENTIALS', config, 'Invalid passkey');
+    }
     
-    // Create session
-    const session = await createSession(dbCredential.userId, config);
+    await adapter.updateWebAuthnCredential(dbCredential.id, {
+      counter: parsed.counter.toString(),
+      lastUsedAt: new Date()
+    });
     
-    // Return success with user (excluding password)
-    const { password: _, ...userWithoutPassword } = user;
+    // Issue the session, or the two-factor challenge
+    const result = await completeSignIn(dbCredential.userId, { method: 'passkey' }, config, req, res);
     
-    return {
-      success: true,
-      credential: dbCredential,
-      user: userWithoutPassword,
-      session: {
-        id: session.id,
-        userId: session.userId,
-        expiresAt: session.expiresAt,
-        createdAt: session.createdAt,
-        updatedAt: session.updatedAt
-      }
-    };
+    return result.success ? { ...result, credential: dbCredential } : result;
   } catch (error) {
-    console.error('Error verifying authentication:', error);
-    return { success: false, error: 'Failed to verify authentication' };
+    getLogger(config).error('Error verifying authentication', { feature: 'passkeys', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to verify authentication');
   }
 }
 
@@ -437,27 +542,22 @@ export async function getUserCredentials(
   config: NextAuthSimpleConfigWithPasskeys
 ): Promise<GetCredentialsResult> {
   try {
-    const { db } = config;
     const passkeysConfig = config.features?.passkeys;
     
     if (!passkeysConfig?.enabled) {
-      return { success: false, error: 'WebAuthn (Passkeys) is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'WebAuthn (Passkeys) is not enabled');
     }
     
     // Get credentials
-    const credentials = await db.client
-      .select()
-      .from(webAuthnCredentialsTable)
-      .where((eb: any) => eb.eq(webAuthnCredentialsTable.userId, userId))
-      .execute();
+    const credentials = await getAdapter(config).listWebAuthnCredentials(userId);
     
     return {
       success: true,
-      credentials: credentials as WebAuthnCredential[]
+      credentials
     };
   } catch (error) {
-    console.error('Error getting user credentials:', error);
-    return { success: false, error: 'Failed to get user credentials' };
+    getLogger(config).error('Error getting user credentials', { feature: 'passkeys', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to get user credentials');
   }
 }
 
@@ -473,39 +573,29 @@ export async function deleteCredential(
   credentialId: string,
   userId: string,
   config: NextAuthSimpleConfigWithPasskeys
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
   try {
-    const { db } = config;
     const passkeysConfig = config.features?.passkeys;
     
     if (!passkeysConfig?.enabled) {
-      return { success: false, error: 'WebAuthn (Passkeys) is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'WebAuthn (Passkeys) is not enabled');
     }
     
+    const adapter = getAdapter(config);
+    
     // Find credential
-    const credentials = await db.client
-      .select()
-      .from(webAuthnCredentialsTable)
-      .where((eb: any) => eb.and(
-        eb.eq(webAuthnCredentialsTable.credentialId, credentialId),
-        eb.eq(webAuthnCredentialsTable.userId, userId)
-      ))
-      .limit(1)
-      .execute();
-    
-    if (credentials.length === 0) {
-      return { success: false, error: 'Credential not found or does not belong to user' };
+    const existingCredential = await adapter.getWebAuthnCredential(credentialId);
+    
+    if (!existingCredential || existingCredential.userId !== userId) {
+      return authError('NOT_FOUND', config, 'Credential not found or does not belong to user');
     }
     
     // Delete credential
-    await db.client
-      .delete(webAuthnCredentialsTable)
-      .where((eb: any) => eb.eq(webAuthnCredentialsTable.credentialId, credentialId))
-      .execute();
+    await adapter.deleteWebAuthnCredential(credentialId);
     
     return { success: true };
   } catch (error) {
-    console.error('Error deleting credential:', error);
-    return { success: false, error: 'Failed to delete credential' };
+    getLogger(config).error('Error deleting credential', { feature: 'passkeys', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to delete credential');
   }
 }
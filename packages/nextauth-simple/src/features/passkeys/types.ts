@@ -1,9 +1,9 @@
-import { NextAuthSimpleConfig } from '../../core/types';
-import { NextAuthSimpleConfigWithTwoFactor } from '../twoFactor/types';
-import { NextAuthSimpleConfigWithMagicUrl } from '../magicUrl/types';
-import { NextAuthSimpleConfigWithSocial } from '../social/types';
-import { NextAuthSimpleConfigWithPasswordReset } from '../password/types';
-import { NextAuthSimpleConfigWithRbac } from '../rbac/types';
+import { AuthErrorCode, NextAuthSimpleConfig } from '../../core/types';
+import { TwoFactorConfig } from '../twoFactor/types';
+import { MagicUrlConfig } from '../magicUrl/types';
+import { SocialLoginConfig } from '../social/types';
+import { PasswordResetConfig } from '../password/types';
+import { RbacConfig } from '../rbac/types';
 
 /**
  * WebAuthn (Passkeys) configuration
@@ -24,11 +24,11 @@ export interface PasskeysConfig {
  */
 export interface NextAuthSimpleConfigWithPasskeys extends NextAuthSimpleConfig {
   features?: {
-    twoFactor?: NextAuthSimpleConfigWithTwoFactor['features'];
-    magicUrl?: NextAuthSimpleConfigWithMagicUrl['features'];
-    social?: NextAuthSimpleConfigWithSocial['features'];
-    passwordReset?: NextAuthSimpleConfigWithPasswordReset['features'];
-    rbac?: NextAuthSimpleConfigWithRbac['features'];
+    twoFactor?: TwoFactorConfig;
+    magicUrl?: MagicUrlConfig;
+    social?: SocialLoginConfig;
+    passwordReset?: PasswordResetConfig;
+    rbac?: RbacConfig;
     passkeys?: PasskeysConfig;
     // Other features will be added here
   };
@@ -41,8 +41,8 @@ export interface WebAuthnCredential {
   id: string;
   userId: string;
   credentialId: string;
-  publicKey: string;
-  counter: string;
+  publicKey: string; // Base64url SubjectPublicKeyInfo
+  counter: string; // Signature counter of the authenticator
   transports?: string[];
   deviceType?: string;
   backed?: boolean;
@@ -73,12 +73,42 @@ export interface RegistrationOptionsInput {
   authenticatorAttachment?: 'platform' | 'cross-platform';
 }
 
+/**
+ * Credential from navigator.credentials.create(), as serialized by `toJSON()`
+ *
+ * Binary fields are base64url encoded.
+ */
+export interface RegistrationCredentialJSON {
+  id: string;
+  authenticatorAttachment?: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string; // response.getAuthenticatorData()
+    publicKey: string; // SubjectPublicKeyInfo from response.getPublicKey()
+    transports?: string[];
+  };
+}
+
+/**
+ * Credential from navigator.credentials.get(), as serialized by `toJSON()`
+ *
+ * Binary fields are base64url encoded.
+ */
+export interface AuthenticationCredentialJSON {
+  id: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+  };
+}
+
 /**
  * Registration verification input
  */
 export interface RegistrationVerificationInput {
   userId: string;
-  credential: any; // Credential from navigator.credentials.create()
+  credential: RegistrationCredentialJSON;
 }
 
 /**
@@ -93,7 +123,7 @@ export interface AuthenticationOptionsInput {
  * Authentication verification input
  */
 export interface AuthenticationVerificationInput {
-  credential: any; // Credential from navigator.credentials.get()
+  credential: AuthenticationCredentialJSON;
 }
 
 /**
@@ -101,6 +131,7 @@ export interface AuthenticationVerificationInput {
  */
 export interface RegistrationOptionsResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   options?: any; // PublicKeyCredentialCreationOptions
   challenge?: string;
@@ -111,6 +142,7 @@ export interface RegistrationOptionsResult {
  */
 export interface RegistrationVerificationResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   credential?: WebAuthnCredential;
 }
@@ -120,6 +152,7 @@ export interface RegistrationVerificationResult {
  */
 export interface AuthenticationOptionsResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   options?: any; // PublicKeyCredentialRequestOptions
   challenge?: string;
@@ -130,10 +163,15 @@ export interface AuthenticationOptionsResult {
  */
 export interface AuthenticationVerificationResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   credential?: WebAuthnCredential;
   user?: any;
   session?: any;
+  locked?: boolean; // Set when the account is locked out
+  lockedUntil?: Date;
+  twoFactorRequired?: boolean; // Set when the sign-in waits for the second factor; no session was created
+  challengeToken?: string; // Two-factor challenge to answer with the code
 }
 
 /**
@@ -141,6 +179,7 @@ export interface AuthenticationVerificationResult {
  */
 export interface GetCredentialsResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   credentials?: WebAuthnCredential[];
 }
@@ -0,0 +1,19 @@
+import { mysqlTable, varchar, datetime, index } from 'drizzle-orm/mysql-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/mysql-schema';
+
+const now = sql`CURRENT_TIMESTAMP(3)`;
+
+/**
+ * Password Reset schema extensions (MySQL)
+ */
+export const passwordResetTokensTable = mysqlTable('password_reset_tokens', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: varchar('token', { length: 255 }).notNull().unique(),
+  expiresAt: datetime('expires_at', { fsp: 3 }).notNull(),
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull(),
+  usedAt: datetime('used_at', { fsp: 3 })
+}, (table) => ({
+  userIdIdx: index('password_reset_tokens_user_id_idx').on(table.userId)
+}));
@@ -1,13 +1,16 @@
-import { pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { users } from '../../../db/schema';
 
 /**
  * Password Reset schema extensions
  */
 export const passwordResetTokensTable = pgTable('password_reset_tokens', {
   id: text('id').primaryKey().notNull(),
-  userId: text('user_id').notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   token: text('token').notNull().unique(),
   expiresAt: timestamp('expires_at').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   usedAt: timestamp('used_at')
-});
+}, (table) => ({
+  userIdIdx: index('password_reset_tokens_user_id_idx').on(table.userId)
+}));
@@ -0,0 +1,19 @@
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/sqlite-schema';
+
+const now = sql`(unixepoch() * 1000)`;
+
+/**
+ * Password Reset schema extensions (SQLite)
+ */
+export const passwordResetTokensTable = sqliteTable('password_reset_tokens', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull(),
+  usedAt: integer('used_at', { mode: 'timestamp_ms' })
+}, (table) => ({
+  userIdIdx: index('password_reset_tokens_user_id_idx').on(table.userId)
+}));
@@ -1,5 +1,8 @@
 import crypto from 'crypto';
-import { hashPassword } from '../../utils/password';
+import { hashPassword } from '../../core/password';
+import { checkPasswordPolicy, getPasswordPolicy } from '../../core/password-policy';
+import { authError } from '../../core/errors';
+import { type NextAuthSimpleConfig, type PasswordPolicy } from '../../core/types';
 import { 
   type PasswordResetRequestInput, 
   type PasswordResetVerifyInput, 
@@ -9,7 +12,8 @@ import {
   type PasswordResetCompleteResult,
   type NextAuthSimpleConfigWithPasswordReset
 } from './types';
-import { passwordResetTokensTable } from './db/schema';
+import { getAdapter } from '../../adapters';
+import { getLogger } from '../../core/logger';
 
 /**
  * Default email sending function
@@ -17,12 +21,16 @@ import { passwordResetTokensTable } from './db/schema';
  * @param to - Recipient email
  * @param subject - Email subject
  * @param html - Email HTML content
+ * @param config - NextAuth-Simple configuration
  * @returns Promise resolving to success status
  */
-async function defaultSendEmail(to: string, subject: string, html: string): Promise<boolean> {
-  console.log(`[Password Reset Email] To: ${to}, Subject: ${subject}`);
-  console.log(`[Password Reset Email] Content: ${html}`);
-  console.log('[Password Reset Email] This is a placeholder. Implement your own email sending function.');
+async function defaultSendEmail(
+  to: string,
+  subject: string,
+  html: string,
+  config: NextAuthSimpleConfig
+): Promise<boolean> {
+  getLogger(config).warn('No email sending function configured; set features.passwordReset.sendEmail', { feature: 'passwordReset', to, subject });
   return true;
 }
 
@@ -35,6 +43,21 @@ function generatePasswordResetToken(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
+/**
+ * Get the password policy for reset passwords
+ * 
+ * @param config - NextAuth-Simple configuration with Password Reset
+ * @returns Password policy, honouring the deprecated `minimumPasswordLength`
+ */
+function getResetPasswordPolicy(config: NextAuthSimpleConfigWithPasswordReset): PasswordPolicy {
+  const policy = getPasswordPolicy(config);
+  const minimumPasswordLength = config.features?.passwordReset?.minimumPasswordLength;
+
+  return minimumPasswordLength && policy.minLength === undefined
+    ? { ...policy, minLength: minimumPasswordLength }
+    : policy;
+}
+
 /**
  * Request a password reset
  * 
@@ -48,34 +71,28 @@ export async function requestPasswordReset(
 ): Promise<PasswordResetRequestResult> {
   try {
     const { email, redirectUrl } = input;
-    const { db } = config;
     const passwordResetConfig = config.features?.passwordReset;
     
     if (!passwordResetConfig?.enabled) {
-      return { success: false, error: 'Password reset is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Password reset is not enabled');
     }
     
     // Validate email
     if (!email || !email.includes('@') || email.length < 5) {
-      return { success: false, error: 'Invalid email address' };
+      return authError('INVALID_EMAIL', config);
     }
     
+    const adapter = getAdapter(config);
+    
     // Find user by email
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.email, email.toLowerCase()))
-      .limit(1)
-      .execute();
+    const user = await adapter.getUserByEmail(email);
     
     // If user doesn't exist, still return success for security reasons
     // This prevents user enumeration
-    if (users.length === 0) {
+    if (!user) {
       return { success: true, emailSent: true };
     }
     
-    const user = users[0];
-    
     // Generate token
     const token = generatePasswordResetToken();
     
@@ -85,19 +102,16 @@ export async function requestPasswordReset(
     expiresAt.setMinutes(expiresAt.getMinutes() + expiryMinutes);
     
     // Delete any existing tokens for this user
-    await db.client
-      .delete(passwordResetTokensTable)
-      .where((eb: any) => eb.eq(passwordResetTokensTable.userId, user.id))
-      .execute();
+    await adapter.deletePasswordResetTokens(user.id);
     
     // Store token
-    await db.client.insert(passwordResetTokensTable).values({
+    await adapter.createPasswordResetToken({
       id: crypto.randomUUID(),
       userId: user.id,
       token,
       expiresAt,
       createdAt: new Date()
-    }).execute();
+    });
     
     // Generate reset link
     const baseUrl = process.env.NEXTAUTH_URL || '';
@@ -123,7 +137,8 @@ export async function requestPasswordReset(
     `;
     
     // Send email
-    const sendEmail = passwordResetConfig.sendEmail || defaultSendEmail;
+    const sendEmail = passwordResetConfig.sendEmail ||
+      ((to: string, subject: string, html: string) => defaultSendEmail(to, subject, html, config));
     const emailSent = await sendEmail(
       email.toLowerCase(),
       subject,
@@ -131,7 +146,7 @@ export async function requestPasswordReset(
     );
     
     if (!emailSent) {
-      return { success: false, error: 'Failed to send email' };
+      return authError('EMAIL_FAILED', config);
     }
     
     return {
@@ -139,8 +154,8 @@ export async function requestPasswordReset(
       emailSent: true
     };
   } catch (error) {
-    console.error('Error requesting password reset:', error);
-    return { success: false, error: 'Failed to request password reset' };
+    getLogger(config).error('Error requesting password reset', { feature: 'passwordReset', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to request password reset');
   }
 }
 
@@ -157,52 +172,36 @@ export async function verifyPasswordResetToken(
 ): Promise<PasswordResetVerifyResult> {
   try {
     const { token, email } = input;
-    const { db } = config;
     const passwordResetConfig = config.features?.passwordReset;
     
     if (!passwordResetConfig?.enabled) {
-      return { success: false, error: 'Password reset is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Password reset is not enabled');
     }
     
+    const adapter = getAdapter(config);
+    
     // Find user by email
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.email, email.toLowerCase()))
-      .limit(1)
-      .execute();
-    
-    if (users.length === 0) {
-      return { success: false, error: 'Invalid token' };
-    }
+    const user = await adapter.getUserByEmail(email);
     
-    const user = users[0];
+    if (!user) {
+      return authError('INVALID_TOKEN', config);
+    }
     
     // Find token
-    const tokens = await db.client
-      .select()
-      .from(passwordResetTokensTable)
-      .where((eb: any) => eb.and(
-        eb.eq(passwordResetTokensTable.token, token),
-        eb.eq(passwordResetTokensTable.userId, user.id)
-      ))
-      .limit(1)
-      .execute();
-    
-    if (tokens.length === 0) {
-      return { success: false, error: 'Invalid token' };
-    }
+    const resetToken = await adapter.getPasswordResetToken(token, user.id);
     
-    const resetToken = tokens[0];
+    if (!resetToken) {
+      return authError('INVALID_TOKEN', config);
+    }
     
     // Check if token is expired
     if (new Date() > new Date(resetToken.expiresAt)) {
-      return { success: false, error: 'Token has expired' };
+      return authError('TOKEN_EXPIRED', config);
     }
     
     // Check if token is already used
     if (resetToken.usedAt) {
-      return { success: false, error: 'Token has already been used' };
+      return authError('TOKEN_USED', config);
     }
     
     return {
@@ -211,8 +210,8 @@ export async function verifyPasswordResetToken(
       userId: user.id
     };
   } catch (error) {
-    console.error('Error verifying password reset token:', error);
-    return { success: false, error: 'Failed to verify token' };
+    getLogger(config).error('Error verifying password reset token', { feature: 'passwordReset', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to verify token');
   }
 }
 
@@ -229,57 +228,53 @@ export async function completePasswordReset(
 ): Promise<PasswordResetCompleteResult> {
   try {
     const { token, email, password } = input;
-    const { db } = config;
     const passwordResetConfig = config.features?.passwordReset;
     
     if (!passwordResetConfig?.enabled) {
-      return { success: false, error: 'Password reset is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Password reset is not enabled');
     }
     
-    // Validate password
-    const minLength = passwordResetConfig.minimumPasswordLength || 8;
-    if (!password || password.length < minLength) {
-      return { success: false, error: `Password must be at least ${minLength} characters long` };
+    // Check password against the configured policy
+    const policy = await checkPasswordPolicy(password, getResetPasswordPolicy(config), { email }, config);
+    if (!policy.valid) {
+      return { ...authError('WEAK_PASSWORD', config, policy.failures[0].message), passwordPolicyFailures: policy.failures };
     }
     
     // Verify token first
     const verifyResult = await verifyPasswordResetToken({ token, email }, config);
     
-    if (!verifyResult.success || !verifyResult.valid) {
-      return { success: false, error: verifyResult.error || 'Invalid token' };
+    if (!verifyResult.success) {
+      return { success: false, code: verifyResult.code, error: verifyResult.error };
+    }
+    
+    if (!verifyResult.valid) {
+      return authError('INVALID_TOKEN', config);
     }
     
-    const userId = verifyResult.userId;
+    const userId = verifyResult.userId!;
+    const adapter = getAdapter(config);
     
     // Hash new password
-    const bcryptWorkFactor = config.security?.bcryptWorkFactor || 12;
-    const hashedPassword = await hashPassword(password, bcryptWorkFactor);
+    const hashedPassword = await hashPassword(password, config);
     
     // Update user password
-    await db.client
-      .update(db.tables.users)
-      .set({
-        password: hashedPassword,
-        updatedAt: new Date()
-      })
-      .where((eb: any) => eb.eq(db.tables.users.id, userId))
-      .execute();
+    await adapter.updateUser(userId, {
+      password: hashedPassword,
+      updatedAt: new Date()
+    });
     
     // Mark token as used
-    await db.client
-      .update(passwordResetTokensTable)
-      .set({
-        usedAt: new Date()
-      })
-      .where((eb: any) => eb.eq(passwordResetTokensTable.token, token))
-      .execute();
+    const resetToken = await adapter.getPasswordResetToken(token, userId);
+    if (resetToken) {
+      await adapter.markPasswordResetTokenUsed(resetToken.id);
+    }
     
     return {
       success: true,
       passwordUpdated: true
     };
   } catch (error) {
-    console.error('Error completing password reset:', error);
-    return { success: false, error: 'Failed to reset password' };
+    getLogger(config).error('Error completing password reset', { feature: 'passwordReset', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to reset password');
   }
 }
@@ -1,7 +1,7 @@
-import { NextAuthSimpleConfig } from '../../core/types';
-import { NextAuthSimpleConfigWithTwoFactor } from '../twoFactor/types';
-import { NextAuthSimpleConfigWithMagicUrl } from '../magicUrl/types';
-import { NextAuthSimpleConfigWithSocial } from '../social/types';
+import { AuthErrorCode, NextAuthSimpleConfig, PasswordPolicyFailure } from '../../core/types';
+import { TwoFactorConfig } from '../twoFactor/types';
+import { MagicUrlConfig } from '../magicUrl/types';
+import { SocialLoginConfig } from '../social/types';
 
 /**
  * Password Reset configuration
@@ -13,7 +13,7 @@ export interface PasswordResetConfig {
   emailFrom?: string; // From email address
   redirectUrl?: string; // URL to redirect to after password reset
   sendEmail?: (to: string, subject: string, html: string) => Promise<boolean>; // Custom email sending function
-  minimumPasswordLength?: number; // Minimum password length (default: 8)
+  minimumPasswordLength?: number; // Deprecated: use security.passwordPolicy.minLength
 }
 
 /**
@@ -21,9 +21,9 @@ export interface PasswordResetConfig {
  */
 export interface NextAuthSimpleConfigWithPasswordReset extends NextAuthSimpleConfig {
   features?: {
-    twoFactor?: NextAuthSimpleConfigWithTwoFactor['features'];
-    magicUrl?: NextAuthSimpleConfigWithMagicUrl['features'];
-    social?: NextAuthSimpleConfigWithSocial['features'];
+    twoFactor?: TwoFactorConfig;
+    magicUrl?: MagicUrlConfig;
+    social?: SocialLoginConfig;
     passwordReset?: PasswordResetConfig;
     // Other features will be added here
   };
@@ -59,6 +59,7 @@ export interface PasswordResetCompleteInput {
  */
 export interface PasswordResetRequestResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   emailSent?: boolean;
 }
@@ -68,6 +69,7 @@ export interface PasswordResetRequestResult {
  */
 export interface PasswordResetVerifyResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   valid?: boolean;
   userId?: string;
@@ -78,6 +80,8 @@ export interface PasswordResetVerifyResult {
  */
 export interface PasswordResetCompleteResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   passwordUpdated?: boolean;
+  passwordPolicyFailures?: PasswordPolicyFailure[]; // Set when the new password breaks the password policy
 }
@@ -0,0 +1,28 @@
+import { mysqlTable, varchar, text, datetime, json, index, uniqueIndex } from 'drizzle-orm/mysql-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/mysql-schema';
+
+const now = sql`CURRENT_TIMESTAMP(3)`;
+
+/**
+ * Role-Based Access Control schema extensions (MySQL)
+ */
+export const rolesTable = mysqlTable('roles', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  name: varchar('name', { length: 255 }).notNull().unique(),
+  description: text('description'),
+  permissions: json('permissions').notNull(), // Array of permission strings
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull(),
+  updatedAt: datetime('updated_at', { fsp: 3 }).default(now).notNull()
+});
+
+export const userRolesTable = mysqlTable('user_roles', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  roleId: varchar('role_id', { length: 36 }).notNull().references(() => rolesTable.id, { onDelete: 'cascade' }),
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull(),
+  updatedAt: datetime('updated_at', { fsp: 3 }).default(now).notNull()
+}, (table) => ({
+  userRoleIdx: uniqueIndex('user_roles_user_role_idx').on(table.userId, table.roleId),
+  roleIdIdx: index('user_roles_role_id_idx').on(table.roleId)
+}));
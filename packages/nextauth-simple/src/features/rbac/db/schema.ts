@@ -1,4 +1,5 @@
-import { pgTable, text, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, jsonb, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { users } from '../../../db/schema';
 
 /**
  * Role-Based Access Control schema extensions
@@ -14,8 +15,11 @@ export const rolesTable = pgTable('roles', {
 
 export const userRolesTable = pgTable('user_roles', {
   id: text('id').primaryKey().notNull(),
-  userId: text('user_id').notNull(),
-  roleId: text('role_id').notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  roleId: text('role_id').notNull().references(() => rolesTable.id, { onDelete: 'cascade' }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull()
-});
+}, (table) => ({
+  userRoleIdx: uniqueIndex('user_roles_user_role_idx').on(table.userId, table.roleId),
+  roleIdIdx: index('user_roles_role_id_idx').on(table.roleId)
+}));
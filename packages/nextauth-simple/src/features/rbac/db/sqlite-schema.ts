@@ -0,0 +1,28 @@
+import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/sqlite-schema';
+
+const now = sql`(unixepoch() * 1000)`;
+
+/**
+ * Role-Based Access Control schema extensions (SQLite)
+ */
+export const rolesTable = sqliteTable('roles', {
+  id: text('id').primaryKey().notNull(),
+  name: text('name').notNull().unique(),
+  description: text('description'),
+  permissions: text('permissions', { mode: 'json' }).notNull(), // Array of permission strings
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).default(now).notNull()
+});
+
+export const userRolesTable = sqliteTable('user_roles', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  roleId: text('role_id').notNull().references(() => rolesTable.id, { onDelete: 'cascade' }),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).default(now).notNull()
+}, (table) => ({
+  userRoleIdx: uniqueIndex('user_roles_user_role_idx').on(table.userId, table.roleId),
+  roleIdIdx: index('user_roles_role_id_idx').on(table.roleId)
+}));
@@ -11,7 +11,10 @@ import {
   type NextAuthSimpleConfigWithRbac,
   type Role
 } from './types';
-import { rolesTable, userRolesTable } from './db/schema';
+import { authError } from '../../core/errors';
+import { type AuthErrorCode } from '../../core/types';
+import { getAdapter } from '../../adapters';
+import { getLogger } from '../../core/logger';
 
 // In-memory permission cache
 const permissionCache: Record<string, { permissions: string[], timestamp: number }> = {};
@@ -29,23 +32,19 @@ export async function createRole(
 ): Promise<RoleResult> {
   try {
     const { name, description, permissions } = input;
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
+    const adapter = getAdapter(config);
+
     // Check if role with same name already exists
-    const existingRoles = await db.client
-      .select()
-      .from(rolesTable)
-      .where((eb: any) => eb.eq(rolesTable.name, name))
-      .limit(1)
-      .execute();
+    const existingRole = await adapter.getRoleByName(name);
 
-    if (existingRoles.length > 0) {
-      return { success: false, error: 'Role with this name already exists' };
+    if (existingRole) {
+      return authError('ALREADY_EXISTS', config, 'Role with this name already exists');
     }
 
     // Create role
@@ -61,15 +60,15 @@ export async function createRole(
       updatedAt: now
     };
 
-    await db.client.insert(rolesTable).values(role).execute();
+    await adapter.createRole(role);
 
     return {
       success: true,
       role
     };
   } catch (error) {
-    console.error('Error creating role:', error);
-    return { success: false, error: 'Failed to create role' };
+    getLogger(config).error('Error creating role', { feature: 'rbac', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to create role');
   }
 }
 
@@ -86,44 +85,32 @@ export async function updateRole(
 ): Promise<RoleResult> {
   try {
     const { id, name, description, permissions } = input;
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
+    const adapter = getAdapter(config);
+
     // Check if role exists
-    const existingRoles = await db.client
-      .select()
-      .from(rolesTable)
-      .where((eb: any) => eb.eq(rolesTable.id, id))
-      .limit(1)
-      .execute();
-
-    if (existingRoles.length === 0) {
-      return { success: false, error: 'Role not found' };
+    const existingRole = await adapter.getRole(id);
+
+    if (!existingRole) {
+      return authError('NOT_FOUND', config, 'Role not found');
     }
 
     // Check if new name conflicts with existing role
     if (name) {
-      const nameConflicts = await db.client
-        .select()
-        .from(rolesTable)
-        .where((eb: any) => eb.and(
-          eb.eq(rolesTable.name, name),
-          eb.ne(rolesTable.id, id)
-        ))
-        .limit(1)
-        .execute();
-
-      if (nameConflicts.length > 0) {
-        return { success: false, error: 'Role with this name already exists' };
+      const nameConflict = await adapter.getRoleByName(name);
+
+      if (nameConflict && nameConflict.id !== id) {
+        return authError('ALREADY_EXISTS', config, 'Role with this name already exists');
       }
     }
 
     // Update role
-    const updateData: any = {
+    const updateData: Partial<Omit<Role, 'id'>> = {
       updatedAt: new Date()
     };
 
@@ -131,30 +118,21 @@ export async function updateRole(
     if (description !== undefined) updateData.description = description;
     if (permissions) updateData.permissions = permissions;
 
-    await db.client
-      .update(rolesTable)
-      .set(updateData)
-      .where((eb: any) => eb.eq(rolesTable.id, id))
-      .execute();
+    await adapter.updateRole(id, updateData);
 
     // Clear permission cache for all users with this role
     clearPermissionCacheForRole(id);
 
     // Get updated role
-    const updatedRoles = await db.client
-      .select()
-      .from(rolesTable)
-      .where((eb: any) => eb.eq(rolesTable.id, id))
-      .limit(1)
-      .execute();
+    const updatedRole = await adapter.getRole(id);
 
     return {
       success: true,
-      role: updatedRoles[0] as Role
+      role: updatedRole || undefined
     };
   } catch (error) {
-    console.error('Error updating role:', error);
-    return { success: false, error: 'Failed to update role' };
+    getLogger(config).error('Error updating role', { feature: 'rbac', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to update role');
   }
 }
 
@@ -168,56 +146,43 @@ export async function updateRole(
 export async function deleteRole(
   id: string,
   config: NextAuthSimpleConfigWithRbac
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
   try {
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
+    const adapter = getAdapter(config);
+
     // Check if role exists
-    const existingRoles = await db.client
-      .select()
-      .from(rolesTable)
-      .where((eb: any) => eb.eq(rolesTable.id, id))
-      .limit(1)
-      .execute();
-
-    if (existingRoles.length === 0) {
-      return { success: false, error: 'Role not found' };
+    const existingRole = await adapter.getRole(id);
+
+    if (!existingRole) {
+      return authError('NOT_FOUND', config, 'Role not found');
     }
 
     // Check if it's the super admin role
-    if (rbacConfig.superAdminRole && existingRoles[0].name === rbacConfig.superAdminRole) {
-      return { success: false, error: 'Cannot delete the super admin role' };
+    if (rbacConfig.superAdminRole && existingRole.name === rbacConfig.superAdminRole) {
+      return authError('FORBIDDEN', config, 'Cannot delete the super admin role');
     }
 
     // Check if it's the default role
-    if (rbacConfig.defaultRole && existingRoles[0].name === rbacConfig.defaultRole) {
-      return { success: false, error: 'Cannot delete the default role' };
+    if (rbacConfig.defaultRole && existingRole.name === rbacConfig.defaultRole) {
+      return authError('FORBIDDEN', config, 'Cannot delete the default role');
     }
 
-    // Delete user role assignments
-    await db.client
-      .delete(userRolesTable)
-      .where((eb: any) => eb.eq(userRolesTable.roleId, id))
-      .execute();
-
-    // Delete role
-    await db.client
-      .delete(rolesTable)
-      .where((eb: any) => eb.eq(rolesTable.id, id))
-      .execute();
+    // Delete role and its user role assignments
+    await adapter.deleteRole(id);
 
     // Clear permission cache for all users with this role
     clearPermissionCacheForRole(id);
 
     return { success: true };
   } catch (error) {
-    console.error('Error deleting role:', error);
-    return { success: false, error: 'Failed to delete role' };
+    getLogger(config).error('Error deleting role', { feature: 'rbac', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to delete role');
   }
 }
 
@@ -233,32 +198,26 @@ export async function getRole(
   config: NextAuthSimpleConfigWithRbac
 ): Promise<RoleResult> {
   try {
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
     // Get role
-    const roles = await db.client
-      .select()
-      .from(rolesTable)
-      .where((eb: any) => eb.eq(rolesTable.id, id))
-      .limit(1)
-      .execute();
-
-    if (roles.length === 0) {
-      return { success: false, error: 'Role not found' };
+    const role = await getAdapter(config).getRole(id);
+
+    if (!role) {
+      return authError('NOT_FOUND', config, 'Role not found');
     }
 
     return {
       success: true,
-      role: roles[0] as Role
+      role
     };
   } catch (error) {
-    console.error('Error getting role:', error);
-    return { success: false, error: 'Failed to get role' };
+    getLogger(config).error('Error getting role', { feature: 'rbac', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to get role');
   }
 }
 
@@ -270,28 +229,24 @@ export async function getRole(
  */
 export async function getAllRoles(
   config: NextAuthSimpleConfigWithRbac
-): Promise<{ success: boolean; error?: string; roles?: Role[] }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string; roles?: Role[] }> {
   try {
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
     // Get all roles
-    const roles = await db.client
-      .select()
-      .from(rolesTable)
-      .execute();
+    const roles = await getAdapter(config).listRoles();
 
     return {
       success: true,
-      roles: roles as Role[]
+      roles
     };
   } catch (error) {
-    console.error('Error getting all roles:', error);
-    return { success: false, error: 'Failed to get roles' };
+    getLogger(config).error('Error getting all roles', { feature: 'rbac', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to get roles');
   }
 }
 
@@ -308,50 +263,33 @@ export async function assignRoleToUser(
 ): Promise<UserRoleResult> {
   try {
     const { userId, roleId } = input;
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
+    const adapter = getAdapter(config);
+
     // Check if user exists
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.id, userId))
-      .limit(1)
-      .execute();
-
-    if (users.length === 0) {
-      return { success: false, error: 'User not found' };
+    const user = await adapter.getUser(userId);
+
+    if (!user) {
+      return authError('USER_NOT_FOUND', config);
     }
 
     // Check if role exists
-    const roles = await db.client
-      .select()
-      .from(rolesTable)
-      .where((eb: any) => eb.eq(rolesTable.id, roleId))
-      .limit(1)
-      .execute();
-
-    if (roles.length === 0) {
-      return { success: false, error: 'Role not found' };
+    const role = await adapter.getRole(roleId);
+
+    if (!role) {
+      return authError('NOT_FOUND', config, 'Role not found');
     }
 
     // Check if assignment already exists
-    const existingAssignments = await db.client
-      .select()
-      .from(userRolesTable)
-      .where((eb: any) => eb.and(
-        eb.eq(userRolesTable.userId, userId),
-        eb.eq(userRolesTable.roleId, roleId)
-      ))
-      .limit(1)
-      .execute();
-
-    if (existingAssignments.length > 0) {
-      return { success: false, error: 'User already has this role' };
+    const existingAssignment = await adapter.getUserRole(userId, roleId);
+
+    if (existingAssignment) {
+      return authError('ALREADY_EXISTS', config, 'User already has this role');
     }
 
     // Create assignment
@@ -366,7 +304,7 @@ export async function assignRoleToUser(
       updatedAt: now
     };
 
-    await db.client.insert(userRolesTable).values(userRole).execute();
+    await adapter.createUserRole(userRole);
 
     // Clear permission cache for this user
     clearPermissionCache(userId);
@@ -376,8 +314,8 @@ export async function assignRoleToUser(
       userRole
     };
   } catch (error) {
-    console.error('Error assigning role to user:', error);
-    return { success: false, error: 'Failed to assign role' };
+    getLogger(config).error('Error assigning role to user', { feature: 'rbac', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to assign role');
   }
 }
 
@@ -393,31 +331,24 @@ export async function removeRoleFromUser(
   userId: string,
   roleId: string,
   config: NextAuthSimpleConfigWithRbac
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
   try {
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
     // Delete assignment
-    await db.client
-      .delete(userRolesTable)
-      .where((eb: any) => eb.and(
-        eb.eq(userRolesTable.userId, userId),
-        eb.eq(userRolesTable.roleId, roleId)
-      ))
-      .execute();
+    await getAdapter(config).deleteUserRole(userId, roleId);
 
     // Clear permission cache for this user
     clearPermissionCache(userId);
 
     return { success: true };
   } catch (error) {
-    console.error('Error removing role from user:', error);
-    return { success: false, error: 'Failed to remove role' };
+    getLogger(config).error('Error removing role from user', { feature: 'rbac', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to remove role');
   }
 }
 
@@ -431,42 +362,33 @@ export async function removeRoleFromUser(
 export async function getUserRoles(
   userId: string,
   config: NextAuthSimpleConfigWithRbac
-): Promise<{ success: boolean; error?: string; roles?: Role[] }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string; roles?: Role[] }> {
   try {
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
+    const adapter = getAdapter(config);
+
     // Get user role assignments
-    const userRoles = await db.client
-      .select()
-      .from(userRolesTable)
-      .where((eb: any) => eb.eq(userRolesTable.userId, userId))
-      .execute();
+    const userRoles = await adapter.listUserRoles(userId);
 
     if (userRoles.length === 0) {
       return { success: true, roles: [] };
     }
 
     // Get role details
-    const roleIds = userRoles.map((ur: any) => ur.roleId);
-
-    const roles = await db.client
-      .select()
-      .from(rolesTable)
-      .where((eb: any) => eb.inArray(rolesTable.id, roleIds))
-      .execute();
+    const roles = await adapter.listRoles(userRoles.map(userRole => userRole.roleId));
 
     return {
       success: true,
-      roles: roles as Role[]
+      roles
     };
   } catch (error) {
-    console.error('Error getting user roles:', error);
-    return { success: false, error: 'Failed to get user roles' };
+    getLogger(config).error('Error getting user roles', { feature: 'rbac', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to get user roles');
   }
 }
 
@@ -486,7 +408,7 @@ export async function checkUserPermission(
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled', hasPermission: false };
+      return { ...authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled'), hasPermission: false };
     }
 
     // Check cache first if enabled
@@ -495,7 +417,7 @@ export async function checkUserPermission(
       if (cachedPermissions) {
         return {
           success: true,
-          hasPermission: cachedPermissions.includes(permission)
+          hasPermission: cachedPermissions.includes('*') || cachedPermissions.includes(permission)
         };
       }
     }
@@ -504,18 +426,18 @@ export async function checkUserPermission(
     const userPermissionsResult = await getUserPermissions(userId, config);
 
     if (!userPermissionsResult.success) {
-      return { success: false, error: userPermissionsResult.error, hasPermission: false };
+      return { success: false, code: userPermissionsResult.code, error: userPermissionsResult.error, hasPermission: false };
     }
 
     const permissions = userPermissionsResult.permissions || [];
 
     return {
       success: true,
-      hasPermission: permissions.includes(permission)
+      hasPermission: permissions.includes('*') || permissions.includes(permission)
     };
   } catch (error) {
-    console.error('Error checking user permission:', error);
-    return { success: false, error: 'Failed to check permission', hasPermission: false };
+    getLogger(config).error('Error checking user permission', { feature: 'rbac', error });
+    return { ...authError('INTERNAL_ERROR', config, 'Failed to check permission'), hasPermission: false };
   }
 }
 
@@ -534,7 +456,7 @@ export async function getUserPermissions(
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
     // Check cache first if enabled
@@ -552,7 +474,7 @@ export async function getUserPermissions(
     const userRolesResult = await getUserRoles(userId, config);
 
     if (!userRolesResult.success) {
-      return { success: false, error: userRolesResult.error };
+      return { success: false, code: userRolesResult.code, error: userRolesResult.error };
     }
 
     const roles = userRolesResult.roles || [];
@@ -579,8 +501,8 @@ export async function getUserPermissions(
       roles
     };
   } catch (error) {
-    console.error('Error getting user permissions:', error);
-    return { success: false, error: 'Failed to get user permissions' };
+    getLogger(config).error('Error getting user permissions', { feature: 'rbac', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to get user permissions');
   }
 }
 
@@ -592,21 +514,18 @@ export async function getUserPermissions(
  */
 export async function initializeDefaultRoles(
   config: NextAuthSimpleConfigWithRbac
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
   try {
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
+    const adapter = getAdapter(config);
+
     // Check if roles already exist
-    const existingRoles = await db.client
-      .select()
-      .from(rolesTable)
-      .limit(1)
-      .execute();
+    const existingRoles = await adapter.listRoles();
 
     if (existingRoles.length > 0) {
       return { success: true }; // Roles already initialized
@@ -617,30 +536,30 @@ export async function initializeDefaultRoles(
 
     // Admin role
     const adminRoleId = crypto.randomUUID();
-    await db.client.insert(rolesTable).values({
+    await adapter.createRole({
       id: adminRoleId,
       name: 'admin',
       description: 'Administrator with full access',
       permissions: ['*'], // Wildcard for all permissions
       createdAt: now,
       updatedAt: now
-    }).execute();
+    });
 
     // User role
     const userRoleId = crypto.randomUUID();
-    await db.client.insert(rolesTable).values({
+    await adapter.createRole({
       id: userRoleId,
       name: 'user',
       description: 'Regular user with basic access',
       permissions: ['profile:read', 'profile:update'],
       createdAt: now,
       updatedAt: now
-    }).execute();
+    });
 
     return { success: true };
   } catch (error) {
-    console.error('Error initializing default roles:', error);
-    return { success: false, error: 'Failed to initialize default roles' };
+    getLogger(config).error('Error initializing default roles', { feature: 'rbac', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to initialize default roles');
   }
 }
 
@@ -654,41 +573,36 @@ export async function initializeDefaultRoles(
 export async function assignDefaultRoleToUser(
   userId: string,
   config: NextAuthSimpleConfigWithRbac
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
   try {
-    const { db } = config;
     const rbacConfig = config.features?.rbac;
 
     if (!rbacConfig?.enabled) {
-      return { success: false, error: 'Role-based access control is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Role-based access control is not enabled');
     }
 
     const defaultRoleName = rbacConfig.defaultRole || 'user';
 
     // Get default role
-    const roles = await db.client
-      .select()
-      .from(rolesTable)
-      .where((eb: any) => eb.eq(rolesTable.name, defaultRoleName))
-      .limit(1)
-      .execute();
-
-    if (roles.length === 0) {
-      return { success: false, error: 'Default role not found' };
+    const defaultRole = await getAdapter(config).getRoleByName(defaultRoleName);
+
+    if (!defaultRole) {
+      return authError('NOT_FOUND', config, 'Default role not found');
     }
 
-    const roleId = roles[0].id;
+    const roleId = defaultRole.id;
 
     // Assign role to user
     const result = await assignRoleToUser({ userId, roleId }, config);
 
     return {
       success: result.success,
+      code: result.code,
       error: result.error
     };
   } catch (error) {
-    console.error('Error assigning default role to user:', error);
-    return { success: false, error: 'Failed to assign default role' };
+    getLogger(config).error('Error assigning default role to user', { feature: 'rbac', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to assign default role');
   }
 }
 
@@ -1,8 +1,8 @@
-import { NextAuthSimpleConfig } from '../../core/types';
-import { NextAuthSimpleConfigWithTwoFactor } from '../twoFactor/types';
-import { NextAuthSimpleConfigWithMagicUrl } from '../magicUrl/types';
-import { NextAuthSimpleConfigWithSocial } from '../social/types';
-import { NextAuthSimpleConfigWithPasswordReset } from '../password/types';
+import { AuthErrorCode, NextAuthSimpleConfig } from '../../core/types';
+import { TwoFactorConfig } from '../twoFactor/types';
+import { MagicUrlConfig } from '../magicUrl/types';
+import { SocialLoginConfig } from '../social/types';
+import { PasswordResetConfig } from '../password/types';
 
 /**
  * Role-Based Access Control configuration
@@ -20,10 +20,10 @@ export interface RbacConfig {
  */
 export interface NextAuthSimpleConfigWithRbac extends NextAuthSimpleConfig {
   features?: {
-    twoFactor?: NextAuthSimpleConfigWithTwoFactor['features'];
-    magicUrl?: NextAuthSimpleConfigWithMagicUrl['features'];
-    social?: NextAuthSimpleConfigWithSocial['features'];
-    passwordReset?: NextAuthSimpleConfigWithPasswordReset['features'];
+    twoFactor?: TwoFactorConfig;
+    magicUrl?: MagicUrlConfig;
+    social?: SocialLoginConfig;
+    passwordReset?: PasswordResetConfig;
     rbac?: RbacConfig;
     // Other features will be added here
   };
@@ -92,6 +92,7 @@ export interface CheckPermissionInput {
  */
 export interface RoleResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   role?: Role;
 }
@@ -101,6 +102,7 @@ export interface RoleResult {
  */
 export interface UserRoleResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   userRole?: UserRole;
 }
@@ -110,6 +112,7 @@ export interface UserRoleResult {
  */
 export interface PermissionCheckResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   hasPermission: boolean;
 }
@@ -119,6 +122,7 @@ export interface PermissionCheckResult {
  */
 export interface UserPermissionsResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   permissions?: string[];
   roles?: Role[];
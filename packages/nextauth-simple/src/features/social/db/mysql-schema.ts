@@ -0,0 +1,27 @@
+import { mysqlTable, varchar, text, datetime, json, index, uniqueIndex } from 'drizzle-orm/mysql-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/mysql-schema';
+
+const now = sql`CURRENT_TIMESTAMP(3)`;
+
+/**
+ * Social Login schema extensions (MySQL)
+ */
+export const socialAccountsTable = mysqlTable('social_accounts', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  provider: varchar('provider', { length: 64 }).notNull(), // 'google', 'apple', etc.
+  providerAccountId: varchar('provider_account_id', { length: 255 }).notNull(),
+  refreshToken: text('refresh_token'),
+  accessToken: text('access_token'),
+  expiresAt: datetime('expires_at', { fsp: 3 }),
+  tokenType: varchar('token_type', { length: 64 }),
+  scope: text('scope'),
+  idToken: text('id_token'),
+  profile: json('profile'), // Store the full profile data
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull(),
+  updatedAt: datetime('updated_at', { fsp: 3 }).default(now).notNull()
+}, (table) => ({
+  userIdIdx: index('social_accounts_user_id_idx').on(table.userId),
+  providerAccountIdx: uniqueIndex('social_accounts_provider_account_idx').on(table.provider, table.providerAccountId)
+}));
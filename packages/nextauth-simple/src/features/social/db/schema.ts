@@ -1,11 +1,12 @@
-import { pgTable, text, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, jsonb, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { users } from '../../../db/schema';
 
 /**
  * Social Login schema extensions
  */
 export const socialAccountsTable = pgTable('social_accounts', {
   id: text('id').primaryKey().notNull(),
-  userId: text('user_id').notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   provider: text('provider').notNull(), // 'google', 'apple', etc.
   providerAccountId: text('provider_account_id').notNull(),
   refreshToken: text('refresh_token'),
@@ -17,4 +18,7 @@ export const socialAccountsTable = pgTable('social_accounts', {
   profile: jsonb('profile'), // Store the full profile data
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull()
-});
+}, (table) => ({
+  userIdIdx: index('social_accounts_user_id_idx').on(table.userId),
+  providerAccountIdx: uniqueIndex('social_accounts_provider_account_idx').on(table.provider, table.providerAccountId)
+}));
@@ -0,0 +1,27 @@
+import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/sqlite-schema';
+
+const now = sql`(unixepoch() * 1000)`;
+
+/**
+ * Social Login schema extensions (SQLite)
+ */
+export const socialAccountsTable = sqliteTable('social_accounts', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  provider: text('provider').notNull(), // 'google', 'apple', etc.
+  providerAccountId: text('provider_account_id').notNull(),
+  refreshToken: text('refresh_token'),
+  accessToken: text('access_token'),
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }),
+  tokenType: text('token_type'),
+  scope: text('scope'),
+  idToken: text('id_token'),
+  profile: text('profile', { mode: 'json' }), // Store the full profile data
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).default(now).notNull()
+}, (table) => ({
+  userIdIdx: index('social_accounts_user_id_idx').on(table.userId),
+  providerAccountIdx: uniqueIndex('social_accounts_provider_account_idx').on(table.provider, table.providerAccountId)
+}));
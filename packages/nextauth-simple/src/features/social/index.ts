@@ -1,7 +1,10 @@
+import { type NextRequest } from 'next/server';
 import { GoogleProvider } from './providers/google';
 import { AppleProvider } from './providers/apple';
 import { GitHubProvider } from './providers/github';
 import { NextAuthSimpleConfigWithSocial, SocialAuthResult } from './types';
+import { authError } from '../../core/errors';
+import { getLogger } from '../../core/logger';
 
 /**
  * Create a social login provider instance
@@ -49,20 +52,24 @@ export function getSocialAuthorizationUrl(
  * @param code - Authorization code
  * @param state - State parameter
  * @param config - NextAuth-Simple configuration with social
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
  * @returns Social auth result
  */
 export async function handleSocialCallback(
   provider: string,
   code: string,
   state: string,
-  config: NextAuthSimpleConfigWithSocial
+  config: NextAuthSimpleConfigWithSocial,
+  req?: NextRequest,
+  res?: any
 ): Promise<SocialAuthResult> {
   try {
     const providerInstance = createProvider(provider, config);
-    return await providerInstance.handleCallback(code, state);
+    return await providerInstance.handleCallback(code, state, req, res);
   } catch (error) {
-    console.error(`Error handling ${provider} callback:`, error);
-    return { success: false, error: `Authentication with ${provider} failed` };
+    getLogger(config).error('Error handling OAuth callback', { feature: 'social', provider, error });
+    return authError('OAUTH_FAILED', config, `Authentication with ${provider} failed`);
   }
 }
 
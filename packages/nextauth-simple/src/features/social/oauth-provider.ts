@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { type NextRequest } from 'next/server';
 import {
   type SocialAuthResult,
   type SocialProfile,
@@ -7,8 +8,11 @@ import {
   type NextAuthSimpleConfigWithSocial,
   SocialLoginConfig
 } from './types';
-import { socialAccountsTable } from './db/schema';
-import { createSession } from '../../core/auth';
+import { getAdapter } from '../../adapters';
+import { registerPasswordlessUser } from '../../core/auth';
+import { completeSignIn } from '../../core/sign-in';
+import { authError } from '../../core/errors';
+import { getLogger } from '../../core/logger';
 
 /**
  * Base class for OAuth providers
@@ -63,35 +67,37 @@ export abstract class OAuthProvider {
    * 
    * @param code - Authorization code
    * @param state - State parameter
+   * @param req - Optional NextRequest object (for Pages Router)
+   * @param res - Optional Response object (for Pages Router)
    * @returns Social auth result
    */
-  public async handleCallback(code: string, state: string): Promise<SocialAuthResult> {
+  public async handleCallback(code: string, state: string, req?: NextRequest, res?: any): Promise<SocialAuthResult> {
     try {
       // Decode and validate state
       const decodedState = this.decodeState(state);
       if (!decodedState || Date.now() - decodedState.createdAt > 10 * 60 * 1000) {
-        return { success: false, error: 'Invalid or expired state' };
+        return authError('INVALID_STATE', this.config);
       }
 
       // Exchange code for tokens
       const tokenResponse = await this.exchangeCodeForTokens(code);
       if (!tokenResponse.access_token) {
-        return { success: false, error: 'Failed to obtain access token' };
+        return authError('OAUTH_FAILED', this.config, 'Failed to obtain access token');
       }
 
       // Get user profile
       const profile = await this.getUserProfile(tokenResponse.access_token);
       if (!profile || !profile.id) {
-        return { success: false, error: 'Failed to obtain user profile' };
+        return authError('OAUTH_FAILED', this.config, 'Failed to obtain user profile');
       }
 
       // Find or create user
-      const result = await this.findOrCreateUser(profile, tokenResponse, decodedState.provider);
+      const result = await this.findOrCreateUser(profile, tokenResponse, decodedState.provider, req, res);
 
       return result;
     } catch (error) {
-      console.error(`Error handling ${this.providerName} callback:`, error);
-      return { success: false, error: `Authentication with ${this.providerName} failed` };
+      getLogger(this.config).error('Error handling OAuth callback', { feature: 'social', provider: this.providerName, error });
+      return authError('OAUTH_FAILED', this.config, `Authentication with ${this.providerName} failed`);
     }
   }
 
@@ -132,89 +138,63 @@ export abstract class OAuthProvider {
    * @param profile - Social profile
    * @param tokens - OAuth tokens
    * @param provider - Provider name
+   * @param req - Optional NextRequest object (for Pages Router)
+   * @param res - Optional Response object (for Pages Router)
    * @returns Social auth result
    */
   protected async findOrCreateUser(
     profile: SocialProfile,
     tokens: OAuthTokenResponse,
-    provider: string
+    provider: string,
+    req?: NextRequest,
+    res?: any
   ): Promise<SocialAuthResult> {
-    const { db } = this.config;
+    const adapter = getAdapter(this.config);
 
     // Check if social account exists
-    const accounts = await db.client
-      .select()
-      .from(socialAccountsTable)
-      .where((eb: any) => eb.and(
-        eb.eq(socialAccountsTable.provider, provider),
-        eb.eq(socialAccountsTable.providerAccountId, profile.id)
-      ))
-      .limit(1)
-      .execute();
+    const account = await adapter.getSocialAccount(provider, profile.id);
 
     let userId: string;
+    let registration: SocialAuthResult | undefined;
 
-    if (accounts.length > 0) {
+    if (account) {
       // Account exists, update tokens
-      const account = accounts[0];
       userId = account.userId;
 
-      await db.client
-        .update(socialAccountsTable)
-        .set({
-          accessToken: tokens.access_token,
-          refreshToken: tokens.refresh_token,
-          expiresAt: tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000) : null,
-          tokenType: tokens.token_type,
-          scope: tokens.scope,
-          idToken: tokens.id_token,
-          profile: profile,
-          updatedAt: new Date()
-        })
-        .where((eb: any) => eb.eq(socialAccountsTable.id, account.id))
-        .execute();
+      await adapter.updateSocialAccount(account.id, {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        expiresAt: tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000) : null,
+        tokenType: tokens.token_type,
+        scope: tokens.scope,
+        idToken: tokens.id_token,
+        profile: profile,
+        updatedAt: new Date()
+      });
     } else {
-      // Account doesn't exist, check if user exists by email
-      let user;
-
-      if (profile.email) {
-        const users = await db.client
-          .select()
-          .from(db.tables.users)
-          .where((eb: any) => eb.eq(db.tables.users.email, profile.email?.toLowerCase()))
-          .limit(1)
-          .execute();
-
-        if (users.length > 0) {
-          // User exists, link account
-          user = users[0];
-        }
-      }
+      // Account doesn't exist, check if user exists by email (the account is linked to it)
+      const user = profile.email ? await adapter.getUserByEmail(profile.email) : null;
 
       if (!user) {
-        // Create new user
-        const now = new Date();
-        userId = crypto.randomUUID();
-
-        // Generate a random password (user won't need this)
-        const randomPassword = crypto.randomBytes(32).toString('hex');
-
-        const newUser = {
-          id: userId,
-          email: profile.email?.toLowerCase() || `${provider}_${profile.id}@example.com`,
-          password: randomPassword,
-          createdAt: now,
-          updatedAt: now
-        };
-
-        await db.client.insert(db.tables.users).values(newUser).execute();
-        user = newUser;
+        // New users are registered, which also creates their first session
+        registration = await registerPasswordlessUser(
+          profile.email || `${provider}_${profile.id}@example.com`,
+          this.config,
+          req,
+          res
+        );
+
+        if (!registration.success) {
+          return registration;
+        }
+
+        userId = registration.user.id;
       } else {
         userId = user.id;
       }
 
       // Create social account
-      await db.client.insert(socialAccountsTable).values({
+      await adapter.createSocialAccount({
         id: crypto.randomUUID(),
         userId,
         provider,
@@ -228,38 +208,18 @@ export abstract class OAuthProvider {
         profile,
         createdAt: new Date(),
         updatedAt: new Date()
-      }).execute();
+      });
     }
 
-    // Get user
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.id, userId))
-      .limit(1)
-      .execute();
+    // Issue the session, or the two-factor challenge
+    const result = registration || await completeSignIn(userId, { method: 'social' }, this.config, req, res);
 
-    if (users.length === 0) {
-      return { success: false, error: 'User not found' };
+    if (!result.success) {
+      return result;
     }
 
-    const user = users[0];
-
-    // Create session
-    const session = await createSession(userId, this.config);
-
-    // Return success with user (excluding password)
-    const { password: _, ...userWithoutPassword } = user;
     return {
-      success: true,
-      user: userWithoutPassword,
-      session: {
-        id: session.id,
-        userId: session.userId,
-        expiresAt: session.expiresAt,
-        createdAt: session.createdAt,
-        updatedAt: session.updatedAt
-      },
+      ...result,
       profile,
       account: {
         provider,
@@ -304,7 +264,7 @@ export abstract class OAuthProvider {
     try {
       return JSON.parse(Buffer.from(encodedState, 'base64').toString());
     } catch (error) {
-      console.error('Error decoding state:', error);
+      getLogger(this.config).error('Error decoding state', { feature: 'social', error });
       return null;
     }
   }
@@ -1,5 +1,6 @@
 import { OAuthProvider } from '../oauth-provider';
 import { NextAuthSimpleConfigWithSocial, SocialProfile } from '../types';
+import { getLogger } from '../../../core/logger';
 
 /**
  * Apple OAuth provider
@@ -72,7 +73,7 @@ export class AppleProvider extends OAuthProvider {
       
       return JSON.parse(jsonPayload);
     } catch (error) {
-      console.error('Error parsing JWT:', error);
+      getLogger(this.config).error('Error parsing JWT', { feature: 'social', error });
       throw new Error('Failed to parse ID token');
     }
   }
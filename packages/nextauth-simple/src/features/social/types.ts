@@ -1,6 +1,6 @@
-import { NextAuthSimpleConfig } from '../../core/types';
-import { NextAuthSimpleConfigWithTwoFactor } from '../twoFactor/types';
-import { NextAuthSimpleConfigWithMagicUrl } from '../magicUrl/types';
+import { AuthErrorCode, NextAuthSimpleConfig } from '../../core/types';
+import { TwoFactorConfig } from '../twoFactor/types';
+import { MagicUrlConfig } from '../magicUrl/types';
 
 /**
  * Social provider configuration
@@ -37,8 +37,8 @@ export interface SocialLoginConfig {
  */
 export interface NextAuthSimpleConfigWithSocial extends NextAuthSimpleConfig {
   features?: {
-    twoFactor?: NextAuthSimpleConfigWithTwoFactor['features'];
-    magicUrl?: NextAuthSimpleConfigWithMagicUrl['features'];
+    twoFactor?: TwoFactorConfig;
+    magicUrl?: MagicUrlConfig;
     social?: SocialLoginConfig;
     // Other features will be added here
   };
@@ -60,6 +60,7 @@ export interface SocialProfile {
  */
 export interface SocialAuthResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   user?: any;
   session?: any;
@@ -69,6 +70,10 @@ export interface SocialAuthResult {
     providerAccountId: string;
     [key: string]: any;
   };
+  locked?: boolean; // Set when the account is locked out
+  lockedUntil?: Date;
+  twoFactorRequired?: boolean; // Set when the sign-in waits for the second factor; no session was created
+  challengeToken?: string; // Two-factor challenge to answer with the code
 }
 
 /**
@@ -1,115 +1,69 @@
-import { type AuthResult, type LoginInput, type NextAuthSimpleConfig } from '../../core/types';
+import { type NextRequest } from 'next/server';
+import { type AuthResult, type LoginInput } from '../../core/types';
 import { loginUser as coreLoginUser } from '../../core/auth';
-import { NextAuthSimpleConfigWithTwoFactor, TwoFactorVerifyInput } from './types';
-import { createTwoFactorChallenge, isTwoFactorEnabled, verifyTwoFactorCode } from './index';
+import { completeSignIn } from '../../core/sign-in';
+import { authError } from '../../core/errors';
+import { NextAuthSimpleConfigWithTwoFactor, TwoFactorLoginInput } from './types';
+import { verifyTwoFactorCode } from './index';
+import { getLogger } from '../../core/logger';
 
 /**
  * Enhanced login function with Two-Factor Authentication support
  * 
+ * @deprecated `loginUser` asks for the second factor itself; use it directly
+ * 
  * @param input - Login input containing email and password
  * @param config - NextAuth-Simple configuration with 2FA
+ * @param req - Optional NextRequest object (used for rate limiting)
  * @returns Authentication result, potentially with 2FA challenge
  */
 export async function loginUserWithTwoFactor(
   input: LoginInput,
-  config: NextAuthSimpleConfigWithTwoFactor
-): Promise<AuthResult & { requiresTwoFactor?: boolean; challengeToken?: string }> {
-  try {
-    // First, perform the basic email/password authentication
-    const basicAuthResult = await coreLoginUser(input, config);
-    
-    // If basic auth failed, return the error
-    if (!basicAuthResult.success || !basicAuthResult.user) {
-      return basicAuthResult;
-    }
-    
-    // Check if 2FA is enabled for this user
-    const twoFactorEnabled = config.features?.twoFactor?.enabled && 
-      await isTwoFactorEnabled(basicAuthResult.user.id, config as NextAuthSimpleConfigWithTwoFactor);
-    
-    // If 2FA is not enabled, return the basic auth result
-    if (!twoFactorEnabled) {
-      return basicAuthResult;
-    }
-    
-    // Create a 2FA challenge
-    const challengeResult = await createTwoFactorChallenge(
-      basicAuthResult.user.id, 
-      config as NextAuthSimpleConfigWithTwoFactor
-    );
-    
-    if (!challengeResult.success) {
-      return { ...basicAuthResult, requiresTwoFactor: true };
-    }
-    
-    // Return result indicating 2FA is required
-    return {
-      success: true,
-      user: basicAuthResult.user,
-      requiresTwoFactor: true,
-      challengeToken: challengeResult.challengeToken
-    };
-  } catch (error) {
-    console.error('Error in login with two-factor:', error);
-    return { success: false, error: 'Login failed' };
-  }
+  config: NextAuthSimpleConfigWithTwoFactor,
+  req?: NextRequest
+): Promise<AuthResult & { requiresTwoFactor?: boolean }> {
+  const result = await coreLoginUser(input, config, req);
+  return { ...result, requiresTwoFactor: result.twoFactorRequired };
 }
 
 /**
  * Complete Two-Factor Authentication challenge
  * 
- * @param input - Two-factor verification input
+ * @param input - Two-factor verification input with the challenge token of the first factor
  * @param config - NextAuth-Simple configuration with 2FA
+ * @param req - Optional NextRequest object (for Pages Router)
+ * @param res - Optional Response object (for Pages Router)
  * @returns Authentication result
  */
 export async function completeTwoFactorLogin(
-  input: TwoFactorVerifyInput,
-  config: NextAuthSimpleConfigWithTwoFactor
+  input: TwoFactorLoginInput,
+  config: NextAuthSimpleConfigWithTwoFactor,
+  req?: NextRequest,
+  res?: any
 ): Promise<AuthResult> {
   try {
+    // Without the challenge, a code alone would skip the first factor
+    if (!input.challengeToken) {
+      return authError('INVALID_CHALLENGE', config, 'Challenge token is required');
+    }
+
     // Verify the 2FA code
-    const verifyResult = await verifyTwoFactorCode(input, config);
+    const verifyResult = await verifyTwoFactorCode(input, config, req);
     
     if (!verifyResult.success) {
-      return { success: false, error: verifyResult.error || 'Two-factor verification failed' };
-    }
-    
-    // Get user
-    const { userId } = input;
-    const { db } = config;
-    
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.id, userId))
-      .limit(1)
-      .execute();
-    
-    if (users.length === 0) {
-      return { success: false, error: 'User not found' };
+      return {
+        success: false,
+        code: verifyResult.code,
+        error: verifyResult.error,
+        rateLimited: verifyResult.rateLimited,
+        retryAfter: verifyResult.retryAfter
+      };
     }
     
-    const user = users[0];
-    
-    // Create session (similar to core loginUser)
-    const { createSession } = await import('../../core/auth');
-    const session = await createSession(userId, config);
-    
-    // Return success with user (excluding password)
-    const { password: _, ...userWithoutPassword } = user;
-    return { 
-      success: true, 
-      user: userWithoutPassword,
-      session: {
-        id: session.id,
-        userId: session.userId,
-        expiresAt: session.expiresAt,
-        createdAt: session.createdAt,
-        updatedAt: session.updatedAt
-      }
-    };
+    // Lockout and hooks are checked again before the session is created
+    return await completeSignIn(input.userId, { method: 'twoFactor', twoFactorVerified: true }, config, req, res);
   } catch (error) {
-    console.error('Error completing two-factor login:', error);
-    return { success: false, error: 'Two-factor authentication failed' };
+    getLogger(config).error('Error completing two-factor login', { feature: 'twoFactor', userId: input.userId, error });
+    return authError('INTERNAL_ERROR', config, 'Two-factor authentication failed');
   }
 }
@@ -0,0 +1,40 @@
+import { mysqlTable, varchar, text, boolean, datetime, index } from 'drizzle-orm/mysql-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/mysql-schema';
+
+const now = sql`CURRENT_TIMESTAMP(3)`;
+
+/**
+ * Two-Factor Authentication schema extensions (MySQL)
+ */
+export const usersTwoFactorTable = mysqlTable('users_two_factor', {
+  userId: varchar('user_id', { length: 36 }).primaryKey().notNull().references(() => users.id, { onDelete: 'cascade' }),
+  secret: varchar('secret', { length: 255 }).notNull(),
+  enabled: boolean('enabled').default(false).notNull(),
+  backupCodes: text('backup_codes'), // JSON string of hashed backup codes
+  verifiedAt: datetime('verified_at', { fsp: 3 }),
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull(),
+  updatedAt: datetime('updated_at', { fsp: 3 }).default(now).notNull()
+});
+
+export const twoFactorRecoveryCodesTable = mysqlTable('two_factor_recovery_codes', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  code: varchar('code', { length: 255 }).notNull(), // Hashed recovery code
+  used: boolean('used').default(false).notNull(),
+  usedAt: datetime('used_at', { fsp: 3 }),
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull()
+}, (table) => ({
+  userIdIdx: index('two_factor_recovery_codes_user_id_idx').on(table.userId)
+}));
+
+export const twoFactorChallengesTable = mysqlTable('two_factor_challenges', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: varchar('token', { length: 255 }).notNull(), // Challenge token for the session
+  expiresAt: datetime('expires_at', { fsp: 3 }).notNull(),
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull()
+}, (table) => ({
+  userIdIdx: index('two_factor_challenges_user_id_idx').on(table.userId),
+  tokenIdx: index('two_factor_challenges_token_idx').on(table.token)
+}));
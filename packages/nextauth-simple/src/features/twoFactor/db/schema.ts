@@ -1,10 +1,11 @@
-import { pgTable, text, boolean, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, text, boolean, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { users } from '../../../db/schema';
 
 /**
  * Two-Factor Authentication schema extensions
  */
 export const usersTwoFactorTable = pgTable('users_two_factor', {
-  userId: text('user_id').primaryKey().notNull(),
+  userId: uuid('user_id').primaryKey().notNull().references(() => users.id, { onDelete: 'cascade' }),
   secret: text('secret').notNull(),
   enabled: boolean('enabled').default(false).notNull(),
   backupCodes: text('backup_codes'), // JSON string of hashed backup codes
@@ -15,17 +16,22 @@ export const usersTwoFactorTable = pgTable('users_two_factor', {
 
 export const twoFactorRecoveryCodesTable = pgTable('two_factor_recovery_codes', {
   id: text('id').primaryKey().notNull(),
-  userId: text('user_id').notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   code: text('code').notNull(), // Hashed recovery code
   used: boolean('used').default(false).notNull(),
   usedAt: timestamp('used_at'),
   createdAt: timestamp('created_at').defaultNow().notNull()
-});
+}, (table) => ({
+  userIdIdx: index('two_factor_recovery_codes_user_id_idx').on(table.userId)
+}));
 
 export const twoFactorChallengesTable = pgTable('two_factor_challenges', {
   id: text('id').primaryKey().notNull(),
-  userId: text('user_id').notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   token: text('token').notNull(), // Challenge token for the session
   expiresAt: timestamp('expires_at').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull()
-});
+}, (table) => ({
+  userIdIdx: index('two_factor_challenges_user_id_idx').on(table.userId),
+  tokenIdx: index('two_factor_challenges_token_idx').on(table.token)
+}));
@@ -0,0 +1,40 @@
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/sqlite-schema';
+
+const now = sql`(unixepoch() * 1000)`;
+
+/**
+ * Two-Factor Authentication schema extensions (SQLite)
+ */
+export const usersTwoFactorTable = sqliteTable('users_two_factor', {
+  userId: text('user_id').primaryKey().notNull().references(() => users.id, { onDelete: 'cascade' }),
+  secret: text('secret').notNull(),
+  enabled: integer('enabled', { mode: 'boolean' }).default(false).notNull(),
+  backupCodes: text('backup_codes'), // JSON string of hashed backup codes
+  verifiedAt: integer('verified_at', { mode: 'timestamp_ms' }),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).default(now).notNull()
+});
+
+export const twoFactorRecoveryCodesTable = sqliteTable('two_factor_recovery_codes', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  code: text('code').notNull(), // Hashed recovery code
+  used: integer('used', { mode: 'boolean' }).default(false).notNull(),
+  usedAt: integer('used_at', { mode: 'timestamp_ms' }),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull()
+}, (table) => ({
+  userIdIdx: index('two_factor_recovery_codes_user_id_idx').on(table.userId)
+}));
+
+export const twoFactorChallengesTable = sqliteTable('two_factor_challenges', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: text('token').notNull(), // Challenge token for the session
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull()
+}, (table) => ({
+  userIdIdx: index('two_factor_challenges_user_id_idx').on(table.userId),
+  tokenIdx: index('two_factor_challenges_token_idx').on(table.token)
+}));
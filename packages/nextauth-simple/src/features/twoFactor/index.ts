@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { type NextRequest } from 'next/server';
 import { 
   type TwoFactorSetupInput, 
   type TwoFactorVerifyInput, 
@@ -17,7 +18,11 @@ import {
   verifyRecoveryCode,
   generateChallengeToken
 } from './utils';
-import { usersTwoFactorTable, twoFactorRecoveryCodesTable, twoFactorChallengesTable } from './db/schema';
+import { getAdapter } from '../../adapters';
+import { checkRateLimit, getClientIp, getRateLimitKeys, recordFailedAttempt, resetRateLimit } from '../../core/rate-limit';
+import { authError } from '../../core/errors';
+import { type AuthErrorCode } from '../../core/types';
+import { getLogger } from '../../core/logger';
 
 /**
  * Setup two-factor authentication for a user
@@ -31,38 +36,27 @@ export async function setupTwoFactor(
   config: NextAuthSimpleConfigWithTwoFactor
 ): Promise<TwoFactorSetupResult> {
   try {
-    const { db } = config;
     const twoFactorConfig = config.features?.twoFactor;
     
     if (!twoFactorConfig?.enabled) {
-      return { success: false, error: 'Two-factor authentication is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Two-factor authentication is not enabled');
     }
     
+    const adapter = getAdapter(config);
+    
     // Get user email for the OTP auth URL
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.id, userId))
-      .limit(1)
-      .execute();
-    
-    if (users.length === 0) {
-      return { success: false, error: 'User not found' };
-    }
+    const user = await adapter.getUser(userId);
     
-    const user = users[0];
+    if (!user) {
+      return authError('USER_NOT_FOUND', config);
+    }
     
     // Check if 2FA is already set up
-    const existingSetup = await db.client
-      .select()
-      .from(usersTwoFactorTable)
-      .where((eb: any) => eb.eq(usersTwoFactorTable.userId, userId))
-      .limit(1)
-      .execute();
+    const existingSetup = await adapter.getTwoFactor(userId);
     
     // If already set up, return error
-    if (existingSetup.length > 0) {
-      return { success: false, error: 'Two-factor authentication is already set up' };
+    if (existingSetup) {
+      return authError('TWO_FACTOR_ALREADY_ENABLED', config, 'Two-factor authentication is already set up');
     }
     
     // Generate TOTP secret
@@ -83,14 +77,14 @@ export async function setupTwoFactor(
     
     // Store initial 2FA setup (not yet verified)
     const now = new Date();
-    await db.client.insert(usersTwoFactorTable).values({
+    await adapter.createTwoFactor({
       userId,
       secret,
       enabled: false,
       backupCodes: JSON.stringify(hashedCodes),
       createdAt: now,
       updatedAt: now
-    }).execute();
+    });
     
     return {
       success: true,
@@ -100,8 +94,8 @@ export async function setupTwoFactor(
       recoveryCodes
     };
   } catch (error) {
-    console.error('Error setting up two-factor authentication:', error);
-    return { success: false, error: 'Failed to set up two-factor authentication' };
+    getLogger(config).error('Error setting up two-factor authentication', { feature: 'twoFactor', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to set up two-factor authentication');
   }
 }
 
@@ -118,58 +112,48 @@ export async function verifyAndEnableTwoFactor(
 ): Promise<TwoFactorResult> {
   try {
     const { userId, code } = input;
-    const { db } = config;
     const twoFactorConfig = config.features?.twoFactor;
     
     if (!twoFactorConfig?.enabled) {
-      return { success: false, error: 'Two-factor authentication is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Two-factor authentication is not enabled');
     }
     
+    const adapter = getAdapter(config);
+    
     // Get 2FA setup
-    const setups = await db.client
-      .select()
-      .from(usersTwoFactorTable)
-      .where((eb: any) => eb.eq(usersTwoFactorTable.userId, userId))
-      .limit(1)
-      .execute();
-    
-    if (setups.length === 0) {
-      return { success: false, error: 'Two-factor authentication is not set up' };
-    }
+    const setup = await adapter.getTwoFactor(userId);
     
-    const setup = setups[0];
+    if (!setup) {
+      return authError('TWO_FACTOR_NOT_SET_UP', config);
+    }
     
     // If already verified, return error
     if (setup.enabled) {
-      return { success: false, error: 'Two-factor authentication is already enabled' };
+      return authError('TWO_FACTOR_ALREADY_ENABLED', config);
     }
     
     // Verify the TOTP code
     const isValid = verifyTotpToken(setup.secret, code, config);
     
     if (!isValid) {
-      return { success: false, error: 'Invalid verification code' };
+      return authError('INVALID_TWO_FACTOR_CODE', config);
     }
     
     // Update 2FA setup to enabled and verified
     const now = new Date();
-    await db.client
-      .update(usersTwoFactorTable)
-      .set({
-        enabled: true,
-        verifiedAt: now,
-        updatedAt: now
-      })
-      .where((eb: any) => eb.eq(usersTwoFactorTable.userId, userId))
-      .execute();
+    await adapter.updateTwoFactor(userId, {
+      enabled: true,
+      verifiedAt: now,
+      updatedAt: now
+    });
     
     return {
       success: true,
       verified: true
     };
   } catch (error) {
-    console.error('Error verifying two-factor authentication:', error);
-    return { success: false, error: 'Failed to verify two-factor authentication' };
+    getLogger(config).error('Error verifying two-factor authentication', { feature: 'twoFactor', userId: input.userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to verify two-factor authentication');
   }
 }
 
@@ -185,11 +169,10 @@ export async function createTwoFactorChallenge(
   config: NextAuthSimpleConfigWithTwoFactor
 ): Promise<TwoFactorResult> {
   try {
-    const { db } = config;
     const twoFactorConfig = config.features?.twoFactor;
     
     if (!twoFactorConfig?.enabled) {
-      return { success: false, error: 'Two-factor authentication is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Two-factor authentication is not enabled');
     }
     
     // Generate challenge token
@@ -201,21 +184,21 @@ export async function createTwoFactorChallenge(
     expiresAt.setMinutes(expiresAt.getMinutes() + expiryMinutes);
     
     // Store challenge
-    await db.client.insert(twoFactorChallengesTable).values({
+    await getAdapter(config).createTwoFactorChallenge({
       id: crypto.randomUUID(),
       userId,
       token: challengeToken,
       expiresAt,
       createdAt: new Date()
-    }).execute();
+    });
     
     return {
       success: true,
       challengeToken
     };
   } catch (error) {
-    console.error('Error creating two-factor challenge:', error);
-    return { success: false, error: 'Failed to create two-factor challenge' };
+    getLogger(config).error('Error creating two-factor challenge', { feature: 'twoFactor', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to create two-factor challenge');
   }
 }
 
@@ -224,74 +207,66 @@ export async function createTwoFactorChallenge(
  * 
  * @param input - Two-factor verification input
  * @param config - NextAuth-Simple configuration with 2FA
+ * @param req - Optional NextRequest object (used for rate limiting)
  * @returns Two-factor verification result
  */
 export async function verifyTwoFactorCode(
   input: TwoFactorVerifyInput,
-  config: NextAuthSimpleConfigWithTwoFactor
+  config: NextAuthSimpleConfigWithTwoFactor,
+  req?: NextRequest
 ): Promise<TwoFactorResult> {
   try {
     const { userId, code, challengeToken } = input;
-    const { db } = config;
     const twoFactorConfig = config.features?.twoFactor;
     
     if (!twoFactorConfig?.enabled) {
-      return { success: false, error: 'Two-factor authentication is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Two-factor authentication is not enabled');
+    }
+    
+    // Reject early if this user or IP has too many recent failed codes
+    const rateLimitKeys = getRateLimitKeys('two-factor', { userId, ip: getClientIp(req, config) });
+    const rateLimit = await checkRateLimit(rateLimitKeys, config);
+    if (rateLimit.limited) {
+      return { ...authError('RATE_LIMITED', config), rateLimited: true, retryAfter: rateLimit.retryAfter };
     }
     
+    const adapter = getAdapter(config);
+    
     // Verify challenge token if provided
     if (challengeToken) {
-      const challenges = await db.client
-        .select()
-        .from(twoFactorChallengesTable)
-        .where((eb: any) => eb.and(
-          eb.eq(twoFactorChallengesTable.userId, userId),
-          eb.eq(twoFactorChallengesTable.token, challengeToken)
-        ))
-        .limit(1)
-        .execute();
+      const challenge = await adapter.getTwoFactorChallenge(userId, challengeToken);
       
-      if (challenges.length === 0) {
-        return { success: false, error: 'Invalid challenge token' };
+      if (!challenge) {
+        return authError('INVALID_CHALLENGE', config, 'Invalid challenge token');
       }
       
-      const challenge = challenges[0];
-      
       // Check if challenge is expired
       if (new Date() > new Date(challenge.expiresAt)) {
-        return { success: false, error: 'Challenge token expired' };
+        return authError('INVALID_CHALLENGE', config, 'Challenge token expired');
       }
     }
     
     // Get 2FA setup
-    const setups = await db.client
-      .select()
-      .from(usersTwoFactorTable)
-      .where((eb: any) => eb.eq(usersTwoFactorTable.userId, userId))
-      .limit(1)
-      .execute();
-    
-    if (setups.length === 0) {
-      return { success: false, error: 'Two-factor authentication is not set up' };
-    }
+    const setup = await adapter.getTwoFactor(userId);
     
-    const setup = setups[0];
+    if (!setup) {
+      return authError('TWO_FACTOR_NOT_SET_UP', config);
+    }
     
     // Check if 2FA is enabled
     if (!setup.enabled) {
-      return { success: false, error: 'Two-factor authentication is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Two-factor authentication is not enabled');
     }
     
     // Try to verify as TOTP code first
     const isValidTotp = verifyTotpToken(setup.secret, code, config);
     
     if (isValidTotp) {
+      await resetRateLimit(getRateLimitKeys('two-factor', { userId }), config);
+      
       // Clean up challenge if it exists
       if (challengeToken) {
-        await db.client
-          .delete(twoFactorChallengesTable)
-          .where((eb: any) => eb.eq(twoFactorChallengesTable.token, challengeToken))
-          .execute();
+        await adapter.deleteTwoFactorChallenge(challengeToken);
       }
       
       return { success: true, verified: true };
@@ -302,34 +277,30 @@ export async function verifyTwoFactorCode(
     const recoveryCodeIndex = await verifyRecoveryCode(code, hashedCodes);
     
     if (recoveryCodeIndex >= 0) {
+      await resetRateLimit(getRateLimitKeys('two-factor', { userId }), config);
+      
       // Mark recovery code as used
       hashedCodes[recoveryCodeIndex] = 'USED';
       
       // Update backup codes
-      await db.client
-        .update(usersTwoFactorTable)
-        .set({
-          backupCodes: JSON.stringify(hashedCodes),
-          updatedAt: new Date()
-        })
-        .where((eb: any) => eb.eq(usersTwoFactorTable.userId, userId))
-        .execute();
+      await adapter.updateTwoFactor(userId, {
+        backupCodes: JSON.stringify(hashedCodes),
+        updatedAt: new Date()
+      });
       
       // Clean up challenge if it exists
       if (challengeToken) {
-        await db.client
-          .delete(twoFactorChallengesTable)
-          .where((eb: any) => eb.eq(twoFactorChallengesTable.token, challengeToken))
-          .execute();
+        await adapter.deleteTwoFactorChallenge(challengeToken);
       }
       
       return { success: true, verified: true };
     }
     
-    return { userId, success: false, error: 'Invalid verification code' };
+    await recordFailedAttempt(rateLimitKeys, config);
+    return { ...authError('INVALID_TWO_FACTOR_CODE', config), userId };
   } catch (error) {
-    console.error('Error verifying two-factor code:', error);
-    return { success: false, error: 'Failed to verify two-factor code' };
+    getLogger(config).error('Error verifying two-factor code', { feature: 'twoFactor', userId: input.userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to verify two-factor code');
   }
 }
 
@@ -343,26 +314,20 @@ export async function verifyTwoFactorCode(
 export async function disableTwoFactor(
   userId: string,
   config: NextAuthSimpleConfigWithTwoFactor
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
   try {
-    const { db } = config;
+    const adapter = getAdapter(config);
     
     // Delete 2FA setup
-    await db.client
-      .delete(usersTwoFactorTable)
-      .where((eb: any) => eb.eq(usersTwoFactorTable.userId, userId))
-      .execute();
+    await adapter.deleteTwoFactor(userId);
     
     // Delete any challenges
-    await db.client
-      .delete(twoFactorChallengesTable)
-      .where((eb: any) => eb.eq(twoFactorChallengesTable.userId, userId))
-      .execute();
+    await adapter.deleteTwoFactorChallenges(userId);
     
     return { success: true };
   } catch (error) {
-    console.error('Error disabling two-factor authentication:', error);
-    return { success: false, error: 'Failed to disable two-factor authentication' };
+    getLogger(config).error('Error disabling two-factor authentication', { feature: 'twoFactor', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to disable two-factor authentication');
   }
 }
 
@@ -378,22 +343,13 @@ export async function getTwoFactorStatus(
   config: NextAuthSimpleConfigWithTwoFactor
 ): Promise<TwoFactorStatus | null> {
   try {
-    const { db } = config;
-    
     // Get 2FA setup
-    const setups = await db.client
-      .select()
-      .from(usersTwoFactorTable)
-      .where((eb: any) => eb.eq(usersTwoFactorTable.userId, userId))
-      .limit(1)
-      .execute();
-    
-    if (setups.length === 0) {
+    const setup = await getAdapter(config).getTwoFactor(userId);
+    
+    if (!setup) {
       return null;
     }
     
-    const setup = setups[0];
-    
     return {
       enabled: setup.enabled,
       verified: !!setup.verifiedAt,
@@ -401,7 +357,7 @@ export async function getTwoFactorStatus(
       updatedAt: setup.updatedAt
     };
   } catch (error) {
-    console.error('Error getting two-factor status:', error);
+    getLogger(config).error('Error getting two-factor status', { feature: 'twoFactor', userId, error });
     return null;
   }
 }
@@ -421,7 +377,7 @@ export async function isTwoFactorEnabled(
     const status = await getTwoFactorStatus(userId, config);
     return !!status?.enabled;
   } catch (error) {
-    console.error('Error checking two-factor status:', error);
+    getLogger(config).error('Error checking two-factor status', { feature: 'twoFactor', userId, error });
     return false;
   }
 }
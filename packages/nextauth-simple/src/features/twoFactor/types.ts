@@ -1,4 +1,4 @@
-import { type NextAuthSimpleConfig } from '../../core/types';
+import { type AuthErrorCode, type NextAuthSimpleConfig } from '../../core/types';
 
 /**
  * Two-Factor Authentication configuration
@@ -10,6 +10,7 @@ export interface TwoFactorConfig {
   windowSize?: number; // Number of time steps to check before/after current time (default: 1)
   recoveryCodesCount?: number; // Number of recovery codes to generate (default: 8)
   challengeExpiryMinutes?: number; // How long a 2FA challenge is valid for (default: 5 minutes)
+  challengeUrl?: string; // Code entry page after magic URL and social sign-ins; the challenge is kept in a cookie (default: loginUrl)
 }
 
 /**
@@ -39,15 +40,25 @@ export interface TwoFactorVerifyInput {
   challengeToken?: string;
 }
 
+/**
+ * Two-Factor Authentication login input
+ */
+export interface TwoFactorLoginInput extends TwoFactorVerifyInput {
+  challengeToken: string; // Issued when the first factor succeeded
+}
+
 /**
  * Two-Factor Authentication result
  */
 export interface TwoFactorResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   challengeToken?: string; // Token for completing the challenge
   verified?: boolean;
   userId?: string;
+  rateLimited?: boolean; // Set when the attempt was rejected by the rate limiter
+  retryAfter?: number; // Seconds until another attempt is allowed
 }
 
 /**
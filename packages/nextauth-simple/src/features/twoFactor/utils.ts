@@ -10,6 +10,7 @@ import {
   type TwoFactorStatus,
   type NextAuthSimpleConfigWithTwoFactor
 } from './types';
+import { getLogger } from '../../core/logger';
 
 /**
  * Generate a new TOTP secret
@@ -108,7 +109,7 @@ export function verifyTotpToken(
   try {
     return authenticator.verify({ token, secret });
   } catch (error) {
-    console.error('Error verifying TOTP token:', error);
+    getLogger(config).error('Error verifying TOTP token', { feature: 'twoFactor', error });
     return false;
   }
 }
@@ -0,0 +1,27 @@
+import { mysqlTable, varchar, boolean, datetime, index } from 'drizzle-orm/mysql-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/mysql-schema';
+
+const now = sql`CURRENT_TIMESTAMP(3)`;
+
+/**
+ * Account Verification schema extensions (MySQL)
+ */
+export const accountVerificationTokensTable = mysqlTable('account_verification_tokens', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 36 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: varchar('token', { length: 255 }).notNull().unique(),
+  expiresAt: datetime('expires_at', { fsp: 3 }).notNull(),
+  createdAt: datetime('created_at', { fsp: 3 }).default(now).notNull(),
+  usedAt: datetime('used_at', { fsp: 3 })
+}, (table) => ({
+  userIdIdx: index('account_verification_tokens_user_id_idx').on(table.userId)
+}));
+
+export const userVerificationStatusTable = mysqlTable('user_verification_status', {
+  userId: varchar('user_id', { length: 36 }).primaryKey().notNull().references(() => users.id, { onDelete: 'cascade' }),
+  verified: boolean('verified').default(false).notNull(),
+  verifiedAt: datetime('verified_at', { fsp: 3 }),
+  verificationMethod: varchar('verification_method', { length: 32 }), // 'email', 'phone', etc.
+  updatedAt: datetime('updated_at', { fsp: 3 }).default(now).notNull()
+});
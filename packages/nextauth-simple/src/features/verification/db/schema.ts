@@ -1,19 +1,22 @@
-import { pgTable, text, boolean, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, text, boolean, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { users } from '../../../db/schema';
 
 /**
  * Account Verification schema extensions
  */
 export const accountVerificationTokensTable = pgTable('account_verification_tokens', {
   id: text('id').primaryKey().notNull(),
-  userId: text('user_id').notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   token: text('token').notNull().unique(),
   expiresAt: timestamp('expires_at').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   usedAt: timestamp('used_at')
-});
+}, (table) => ({
+  userIdIdx: index('account_verification_tokens_user_id_idx').on(table.userId)
+}));
 
 export const userVerificationStatusTable = pgTable('user_verification_status', {
-  userId: text('user_id').primaryKey().notNull(),
+  userId: uuid('user_id').primaryKey().notNull().references(() => users.id, { onDelete: 'cascade' }),
   verified: boolean('verified').default(false).notNull(),
   verifiedAt: timestamp('verified_at'),
   verificationMethod: text('verification_method'), // 'email', 'phone', etc.
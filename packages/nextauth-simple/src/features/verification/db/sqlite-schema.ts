@@ -0,0 +1,27 @@
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+import { users } from '../../../db/sqlite-schema';
+
+const now = sql`(unixepoch() * 1000)`;
+
+/**
+ * Account Verification schema extensions (SQLite)
+ */
+export const accountVerificationTokensTable = sqliteTable('account_verification_tokens', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).default(now).notNull(),
+  usedAt: integer('used_at', { mode: 'timestamp_ms' })
+}, (table) => ({
+  userIdIdx: index('account_verification_tokens_user_id_idx').on(table.userId)
+}));
+
+export const userVerificationStatusTable = sqliteTable('user_verification_status', {
+  userId: text('user_id').primaryKey().notNull().references(() => users.id, { onDelete: 'cascade' }),
+  verified: integer('verified', { mode: 'boolean' }).default(false).notNull(),
+  verifiedAt: integer('verified_at', { mode: 'timestamp_ms' }),
+  verificationMethod: text('verification_method'), // 'email', 'phone', etc.
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).default(now).notNull()
+});
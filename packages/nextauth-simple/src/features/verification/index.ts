@@ -7,7 +7,10 @@ import {
   type VerificationStatusResult,
   type NextAuthSimpleConfigWithVerification
 } from './types';
-import { accountVerificationTokensTable, userVerificationStatusTable } from './db/schema';
+import { authError } from '../../core/errors';
+import { type AuthErrorCode, type NextAuthSimpleConfig } from '../../core/types';
+import { getAdapter } from '../../adapters';
+import { getLogger } from '../../core/logger';
 
 /**
  * Default email sending function
@@ -15,12 +18,16 @@ import { accountVerificationTokensTable, userVerificationStatusTable } from './d
  * @param to - Recipient email
  * @param subject - Email subject
  * @param html - Email HTML content
+ * @param config - NextAuth-Simple configuration
  * @returns Promise resolving to success status
  */
-async function defaultSendEmail(to: string, subject: string, html: string): Promise<boolean> {
-  console.log(`[Account Verification Email] To: ${to}, Subject: ${subject}`);
-  console.log(`[Account Verification Email] Content: ${html}`);
-  console.log('[Account Verification Email] This is a placeholder. Implement your own email sending function.');
+async function defaultSendEmail(
+  to: string,
+  subject: string,
+  html: string,
+  config: NextAuthSimpleConfig
+): Promise<boolean> {
+  getLogger(config).warn('No email sending function configured; set features.verification.sendEmail', { feature: 'verification', to, subject });
   return true;
 }
 
@@ -46,35 +53,31 @@ export async function requestVerification(
 ): Promise<VerificationRequestResult> {
   try {
     const { userId, email, redirectUrl } = input;
-    const { db } = config;
     const verificationConfig = config.features?.verification;
 
     if (!verificationConfig?.enabled) {
-      return { success: false, error: 'Account verification is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Account verification is not enabled');
     }
 
     // Validate email
     if (!email || !email.includes('@') || email.length < 5) {
-      return { success: false, error: 'Invalid email address' };
+      return authError('INVALID_EMAIL', config);
     }
 
+    const adapter = getAdapter(config);
+
     // Check if user exists
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.id, userId))
-      .limit(1)
-      .execute();
-
-    if (users.length === 0) {
-      return { success: false, error: 'User not found' };
+    const user = await adapter.getUser(userId);
+
+    if (!user) {
+      return authError('USER_NOT_FOUND', config);
     }
 
     // Check if user is already verified
     const verificationStatus = await getUserVerificationStatus(userId, config);
 
     if (verificationStatus.success && verificationStatus.status?.verified) {
-      return { success: false, error: 'Account is already verified' };
+      return authError('ACCOUNT_ALREADY_VERIFIED', config);
     }
 
     // Generate token
@@ -86,19 +89,16 @@ export async function requestVerification(
     expiresAt.setMinutes(expiresAt.getMinutes() + expiryMinutes);
 
     // Delete any existing tokens for this user
-    await db.client
-      .delete(accountVerificationTokensTable)
-      .where((eb: any) => eb.eq(accountVerificationTokensTable.userId, userId))
-      .execute();
+    await adapter.deleteVerificationTokens(userId);
 
     // Store token
-    await db.client.insert(accountVerificationTokensTable).values({
+    await adapter.createVerificationToken({
       id: crypto.randomUUID(),
       userId,
       token,
       expiresAt,
       createdAt: new Date()
-    }).execute();
+    });
 
     // Generate verification link
     const baseUrl = process.env.NEXTAUTH_URL || '';
@@ -124,7 +124,8 @@ export async function requestVerification(
     `;
 
     // Send email
-    const sendEmail = verificationConfig.sendEmail || defaultSendEmail;
+    const sendEmail = verificationConfig.sendEmail ||
+      ((to: string, subject: string, html: string) => defaultSendEmail(to, subject, html, config));
     const emailSent = await sendEmail(
       email.toLowerCase(),
       subject,
@@ -132,7 +133,7 @@ export async function requestVerification(
     );
 
     if (!emailSent) {
-      return { success: false, error: 'Failed to send email' };
+      return authError('EMAIL_FAILED', config);
     }
 
     return {
@@ -140,8 +141,8 @@ export async function requestVerification(
       emailSent: true
     };
   } catch (error) {
-    console.error('Error requesting account verification:', error);
-    return { success: false, error: 'Failed to request account verification' };
+    getLogger(config).error('Error requesting account verification', { feature: 'verification', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to request account verification');
   }
 }
 
@@ -158,104 +159,58 @@ export async function verifyAccount(
 ): Promise<VerificationVerifyResult> {
   try {
     const { token, email } = input;
-    const { db } = config;
     const verificationConfig = config.features?.verification;
 
     if (!verificationConfig?.enabled) {
-      return { success: false, error: 'Account verification is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Account verification is not enabled');
     }
 
+    const adapter = getAdapter(config);
+
     // Find user by email
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.email, email.toLowerCase()))
-      .limit(1)
-      .execute();
-
-    if (users.length === 0) {
-      return { success: false, error: 'User not found' };
-    }
+    const user = await adapter.getUserByEmail(email);
 
-    const user = users[0];
+    if (!user) {
+      return authError('USER_NOT_FOUND', config);
+    }
 
     // Find token
-    const tokens = await db.client
-      .select()
-      .from(accountVerificationTokensTable)
-      .where((eb: any) => eb.and(
-        eb.eq(accountVerificationTokensTable.token, token),
-        eb.eq(accountVerificationTokensTable.userId, user.id)
-      ))
-      .limit(1)
-      .execute();
-
-    if (tokens.length === 0) {
-      return { success: false, error: 'Invalid token' };
-    }
+    const verificationToken = await adapter.getVerificationToken(token, user.id);
 
-    const verificationToken = tokens[0];
+    if (!verificationToken) {
+      return authError('INVALID_TOKEN', config);
+    }
 
     // Check if token is expired
     if (new Date() > new Date(verificationToken.expiresAt)) {
-      return { success: false, error: 'Token has expired' };
+      return authError('TOKEN_EXPIRED', config);
     }
 
     // Check if token is already used
     if (verificationToken.usedAt) {
-      return { success: false, error: 'Token has already been used' };
+      return authError('TOKEN_USED', config);
     }
 
     // Mark token as used
-    await db.client
-      .update(accountVerificationTokensTable)
-      .set({
-        usedAt: new Date()
-      })
-      .where((eb: any) => eb.eq(accountVerificationTokensTable.id, verificationToken.id))
-      .execute();
+    await adapter.markVerificationTokenUsed(verificationToken.id);
 
     // Update user verification status
     const now = new Date();
-
-    // Check if status record exists
-    const statuses = await db.client
-      .select()
-      .from(userVerificationStatusTable)
-      .where((eb: any) => eb.eq(userVerificationStatusTable.userId, user.id))
-      .limit(1)
-      .execute();
-
-    if (statuses.length === 0) {
-      // Create new status record
-      await db.client.insert(userVerificationStatusTable).values({
-        userId: user.id,
-        verified: true,
-        verifiedAt: now,
-        verificationMethod: 'email',
-        updatedAt: now
-      }).execute();
-    } else {
-      // Update existing status record
-      await db.client
-        .update(userVerificationStatusTable)
-        .set({
-          verified: true,
-          verifiedAt: now,
-          verificationMethod: 'email',
-          updatedAt: now
-        })
-        .where((eb: any) => eb.eq(userVerificationStatusTable.userId, user.id))
-        .execute();
-    }
+    await adapter.setVerificationStatus({
+      userId: user.id,
+      verified: true,
+      verifiedAt: now,
+      verificationMethod: 'email',
+      updatedAt: now
+    });
 
     return {
       success: true,
       verified: true
     };
   } catch (error) {
-    console.error('Error verifying account:', error);
-    return { success: false, error: 'Failed to verify account' };
+    getLogger(config).error('Error verifying account', { feature: 'verification', error });
+    return authError('INTERNAL_ERROR', config, 'Failed to verify account');
   }
 }
 
@@ -271,22 +226,16 @@ export async function getUserVerificationStatus(
   config: NextAuthSimpleConfigWithVerification
 ): Promise<VerificationStatusResult> {
   try {
-    const { db } = config;
     const verificationConfig = config.features?.verification;
 
     if (!verificationConfig?.enabled) {
-      return { success: false, error: 'Account verification is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Account verification is not enabled');
     }
 
     // Get verification status
-    const statuses = await db.client
-      .select()
-      .from(userVerificationStatusTable)
-      .where((eb: any) => eb.eq(userVerificationStatusTable.userId, userId))
-      .limit(1)
-      .execute();
-
-    if (statuses.length === 0) {
+    const status = await getAdapter(config).getVerificationStatus(userId);
+
+    if (!status) {
       // No status record, user is not verified
       return {
         success: true,
@@ -299,11 +248,16 @@ export async function getUserVerificationStatus(
 
     return {
       success: true,
-      status: statuses[0]
+      status: {
+        verified: status.verified,
+        verifiedAt: status.verifiedAt || undefined,
+        verificationMethod: status.verificationMethod || undefined,
+        updatedAt: status.updatedAt
+      }
     };
   } catch (error) {
-    console.error('Error getting user verification status:', error);
-    return { success: false, error: 'Failed to get user verification status' };
+    getLogger(config).error('Error getting user verification status', { feature: 'verification', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to get user verification status');
   }
 }
 
@@ -332,64 +286,36 @@ export async function markUserAsVerified(
   userId: string,
   method: string,
   config: NextAuthSimpleConfigWithVerification
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string }> {
   try {
-    const { db } = config;
     const verificationConfig = config.features?.verification;
 
     if (!verificationConfig?.enabled) {
-      return { success: false, error: 'Account verification is not enabled' };
+      return authError('FEATURE_DISABLED', config, 'Account verification is not enabled');
     }
 
+    const adapter = getAdapter(config);
+
     // Check if user exists
-    const users = await db.client
-      .select()
-      .from(db.tables.users)
-      .where((eb: any) => eb.eq(db.tables.users.id, userId))
-      .limit(1)
-      .execute();
-
-    if (users.length === 0) {
-      return { success: false, error: 'User not found' };
+    const user = await adapter.getUser(userId);
+
+    if (!user) {
+      return authError('USER_NOT_FOUND', config);
     }
 
     // Update user verification status
     const now = new Date();
-
-    // Check if status record exists
-    const statuses = await db.client
-      .select()
-      .from(userVerificationStatusTable)
-      .where((eb: any) => eb.eq(userVerificationStatusTable.userId, userId))
-      .limit(1)
-      .execute();
-
-    if (statuses.length === 0) {
-      // Create new status record
-      await db.client.insert(userVerificationStatusTable).values({
-        userId,
-        verified: true,
-        verifiedAt: now,
-        verificationMethod: method,
-        updatedAt: now
-      }).execute();
-    } else {
-      // Update existing status record
-      await db.client
-        .update(userVerificationStatusTable)
-        .set({
-          verified: true,
-          verifiedAt: now,
-          verificationMethod: method,
-          updatedAt: now
-        })
-        .where((eb: any) => eb.eq(userVerificationStatusTable.userId, userId))
-        .execute();
-    }
+    await adapter.setVerificationStatus({
+      userId,
+      verified: true,
+      verifiedAt: now,
+      verificationMethod: method,
+      updatedAt: now
+    });
 
     return { success: true };
   } catch (error) {
-    console.error('Error marking user as verified:', error);
-    return { success: false, error: 'Failed to mark user as verified' };
+    getLogger(config).error('Error marking user as verified', { feature: 'verification', userId, error });
+    return authError('INTERNAL_ERROR', config, 'Failed to mark user as verified');
   }
 }
@@ -1,10 +1,10 @@
-import { NextAuthSimpleConfig } from '../../core/types';
-import { NextAuthSimpleConfigWithTwoFactor } from '../twoFactor/types';
-import { NextAuthSimpleConfigWithMagicUrl } from '../magicUrl/types';
-import { NextAuthSimpleConfigWithSocial } from '../social/types';
-import { NextAuthSimpleConfigWithPasswordReset } from '../password/types';
-import { NextAuthSimpleConfigWithRbac } from '../rbac/types';
-import { NextAuthSimpleConfigWithPasskeys } from '../passkeys/types';
+import { AuthErrorCode, NextAuthSimpleConfig } from '../../core/types';
+import { TwoFactorConfig } from '../twoFactor/types';
+import { MagicUrlConfig } from '../magicUrl/types';
+import { SocialLoginConfig } from '../social/types';
+import { PasswordResetConfig } from '../password/types';
+import { RbacConfig } from '../rbac/types';
+import { PasskeysConfig } from '../passkeys/types';
 
 /**
  * Account Verification configuration
@@ -24,12 +24,12 @@ export interface VerificationConfig {
  */
 export interface NextAuthSimpleConfigWithVerification extends NextAuthSimpleConfig {
   features?: {
-    twoFactor?: NextAuthSimpleConfigWithTwoFactor['features'];
-    magicUrl?: NextAuthSimpleConfigWithMagicUrl['features'];
-    social?: NextAuthSimpleConfigWithSocial['features'];
-    passwordReset?: NextAuthSimpleConfigWithPasswordReset['features'];
-    rbac?: NextAuthSimpleConfigWithRbac['features'];
-    passkeys?: NextAuthSimpleConfigWithPasskeys['features'];
+    twoFactor?: TwoFactorConfig;
+    magicUrl?: MagicUrlConfig;
+    social?: SocialLoginConfig;
+    passwordReset?: PasswordResetConfig;
+    rbac?: RbacConfig;
+    passkeys?: PasskeysConfig;
     verification?: VerificationConfig;
     // Other features will be added here
   };
@@ -57,6 +57,7 @@ export interface VerificationVerifyInput {
  */
 export interface VerificationRequestResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   emailSent?: boolean;
 }
@@ -66,6 +67,7 @@ export interface VerificationRequestResult {
  */
 export interface VerificationVerifyResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   verified?: boolean;
 }
@@ -85,6 +87,7 @@ export interface VerificationStatus {
  */
 export interface VerificationStatusResult {
   success: boolean;
+  code?: AuthErrorCode;
   error?: string;
   status?: VerificationStatus;
 }
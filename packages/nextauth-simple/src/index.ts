@@ -1,13 +1,36 @@
-import { NextAuthSimpleConfig } from './core/types';
-import { NextAuthSimpleConfigWithAllFeatures, validateFeatureConfig, createFeatureSchemas, initializeFeatures, integrateFeatures } from './features';
+import { AuthErrorCode, NextAuthSimpleConfig } from './core/types';
+import { authError } from './core/errors';
+import { applyMigrations } from './db/migrations';
+import { checkPasswordHashing } from './core/password';
+import { validatePlugins } from './core/plugins';
+import { NextAuthSimpleConfigWithAllFeatures, validateFeatureConfig, initializeFeatures, integrateFeatures } from './features';
+import { getLogger } from './core/logger';
 
 // Re-export core functionality
 export * from './core/auth';
 export * from './core/session';
 export * from './core/middleware';
+export * from './core/rate-limit';
+export * from './core/lockout';
+export * from './core/password';
+export * from './core/password-policy';
+export * from './core/events';
+export * from './core/errors';
+export * from './core/logger';
+export * from './core/sign-in';
+export * from './core/plugins';
+export * from './core/jwt';
+export * from './core/revocation';
+export * from './core/cookies';
+export * from './core/csrf';
+export * from './core/session-hint';
+export * from './core/session-claims';
+export * from './core/routes';
+export * from './core/handlers';
 export * from './core/types';
 export * from './core/hooks';
 export * from './db'
+export * from './adapters';
 
 // Re-export all features
 export * from './features';
@@ -20,36 +43,41 @@ export * from './features';
  */
 export async function initializeNextAuthSimple(
   config: NextAuthSimpleConfigWithAllFeatures
-): Promise<{ success: boolean; error?: string; config?: NextAuthSimpleConfigWithAllFeatures }> {
+): Promise<{ success: boolean; code?: AuthErrorCode; error?: string; config?: NextAuthSimpleConfigWithAllFeatures }> {
   try {
     // Validate configuration
     const validation = validateFeatureConfig(config);
 
     if (!validation.valid) {
-      return {
-        success: false,
-        error: `Configuration validation failed: ${validation.errors.join(', ')}`
-      };
+      return authError('CONFIGURATION_ERROR', config, `Configuration validation failed: ${validation.errors.join(', ')}`);
     }
 
-    // Create database schemas for all enabled features
-    const schemaResult = await createFeatureSchemas(config);
+    // Validate registered plugins and their options
+    const pluginValidation = await validatePlugins(config);
 
-    if (!schemaResult.success) {
-      return {
-        success: false,
-        error: `Failed to create database schemas: ${schemaResult.error}`
-      };
+    if (!pluginValidation.valid) {
+      return authError('CONFIGURATION_ERROR', config, `Plugin validation failed: ${pluginValidation.errors.join(', ')}`);
+    }
+
+    // Refuse to start with a password hasher that is too weak for production
+    const hashingResult = await checkPasswordHashing(config);
+
+    if (!hashingResult.success) {
+      return authError('CONFIGURATION_ERROR', config, `Password hashing check failed: ${hashingResult.error}`);
+    }
+
+    // Apply pending migrations for the core tables and all enabled features
+    const migrationResult = await applyMigrations(config);
+
+    if (!migrationResult.success) {
+      return authError('INTERNAL_ERROR', config, `Failed to apply database migrations: ${migrationResult.error}`);
     }
 
     // Initialize all enabled features
     const initResult = await initializeFeatures(config);
 
     if (!initResult.success) {
-      return {
-        success: false,
-        error: `Failed to initialize features: ${initResult.error}`
-      };
+      return authError('INTERNAL_ERROR', config, `Failed to initialize features: ${initResult.error}`);
     }
 
     // Integrate features with core authentication flow
@@ -60,11 +88,12 @@ export async function initializeNextAuthSimple(
       config: integratedConfig
     };
   } catch (error) {
-    console.error('Error initializing NextAuth-Simple:', error);
-    return {
-      success: false,
-      error: `Failed to initialize NextAuth-Simple: ${error instanceof Error ? error.message : String(error)}`
-    };
+    getLogger(config).error('Error initializing NextAuth-Simple', { error });
+    return authError(
+      'INTERNAL_ERROR',
+      config,
+      `Failed to initialize NextAuth-Simple: ${error instanceof Error ? error.message : String(error)}`
+    );
   }
 }
 
@@ -85,10 +114,21 @@ export function createDefaultConfig(
       rateLimit: {
         maxAttempts: 5,
         windowMs: 5 * 60 * 1000 // 5 minutes
+      },
+      lockout: {
+        enabled: false,
+        maxFailedAttempts: 10,
+        baseLockoutMinutes: 15,
+        maxLockoutMinutes: 24 * 60 // 1 day
       }
       // cookieSecure: process.env.NODE_ENV === 'production',
       // cookieSameSite: 'lax'
     },
+    session: {
+      strategy: 'database',
+      rolling: false,
+      renewAfterFraction: 0.5
+    },
     features: {
       // Two-Factor Authentication
       twoFactor: {
@@ -1,55 +1,134 @@
 /**
  * Password utility functions that work in both Node.js and browser environments
+ *
+ * bcrypt is used wherever its native module loads. Elsewhere passwords are
+ * hashed with PBKDF2-HMAC-SHA256 through WebCrypto, which is salted and slow
+ * enough to store.
  */
 
-// Try to import bcrypt, but fall back to a browser-compatible implementation
-let bcryptModule: any;
-
-try {
-  bcryptModule = require('bcrypt');
-} catch (e) {
-  // Provide a browser-compatible fallback
-  bcryptModule = {
-    async hash(password: string, saltRounds: number): Promise<string> {
-      // Simple browser-compatible password hashing (for development only)
-      // In production, passwords should only be hashed server-side with bcrypt
-      console.warn('Using browser fallback for password hashing - NOT SECURE FOR PRODUCTION');
-      const encoder = new TextEncoder();
-      const data = encoder.encode(password);
-      const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-      return `browser-hash:${hashHex}`;
-    },
-    
-    async compare(password: string, hash: string): Promise<boolean> {
-      // Simple comparison for browser-hashed passwords
-      if (hash.startsWith('browser-hash:')) {
-        const encoder = new TextEncoder();
-        const data = encoder.encode(password);
-        const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-        const hashArray = Array.from(new Uint8Array(hashBuffer));
-        const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-        return `browser-hash:${hashHex}` === hash;
-      }
-      
-      // Cannot compare bcrypt hashes in browser
-      console.warn('Cannot verify bcrypt passwords in browser environment');
-      return false;
-    }
-  };
-}
-
-/**
- * Hash a password using bcrypt (or browser fallback)
+import { getLogger } from '../core/logger';
+import { type NextAuthSimpleConfig } from '../core/types';
+import { getSubtle, timingSafeEqual } from './webcrypto';
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600000;
+
+export const PBKDF2_PREFIX = '$pbkdf2-sha256$';
+
+// Unsalted SHA-256 digests written by earlier versions when bcrypt failed to load
+export const BROWSER_HASH_PREFIX = 'browser-hash:';
+
+const encoder = new TextEncoder();
+
+let bcryptModule: Promise<any> | undefined;
+
+/**
+ * Load bcrypt once, resolving to null where the native module is unavailable
+ */
+export function loadBcrypt(): Promise<any> {
+  if (!bcryptModule) {
+    bcryptModule = import('bcrypt').then(module => module.default || module, () => null);
+  }
+  return bcryptModule;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/=+$/, '');
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value + '='.repeat((4 - (value.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function derivePbkdf2(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const subtle = getSubtle();
+  const material = await subtle.importKey('raw', encoder.encode(password.normalize('NFKC')), 'PBKDF2', false, ['deriveBits']);
+  const bits = await subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Hash a password with PBKDF2-HMAC-SHA256
+ *
+ * @param password - Plaintext password
+ * @param iterations - Iteration count (default: 600000)
+ * @returns `$pbkdf2-sha256$i=<iterations>$<salt>$<hash>`
+ */
+export async function pbkdf2Hash(password: string, iterations: number = PBKDF2_ITERATIONS): Promise<string> {
+  const salt = globalThis.crypto.getRandomValues(new Uint8Array(16));
+  const digest = await derivePbkdf2(password, salt, iterations);
+  return `${PBKDF2_PREFIX}i=${iterations}$${toBase64(salt)}$${toBase64(digest)}`;
+}
+
+/**
+ * Get the iteration count of a PBKDF2 hash
+ */
+export function getPbkdf2Iterations(hash: string): number | null {
+  const match = /^\$pbkdf2-sha256\$i=(\d+)\$/.exec(hash);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Verify a password against a PBKDF2 hash
+ */
+export async function pbkdf2Verify(password: string, hash: string): Promise<boolean> {
+  const [, , params, salt, digest] = hash.split('$');
+  const iterations = getPbkdf2Iterations(hash);
+
+  if (!iterations || !params || !salt || !digest) {
+    return false;
+  }
+
+  const derived = await derivePbkdf2(password, fromBase64(salt), iterations);
+  return timingSafeEqual(toBase64(derived), digest);
+}
+
+/**
+ * Verify a password against a legacy `browser-hash:` digest
+ *
+ * Only used to sign in users whose hash is then upgraded; never written.
+ */
+export async function browserHashVerify(password: string, hash: string): Promise<boolean> {
+  const digest = new Uint8Array(await getSubtle().digest('SHA-256', encoder.encode(password)));
+  const hex = Array.from(digest).map(b => b.toString(16).padStart(2, '0')).join('');
+  return timingSafeEqual(`${BROWSER_HASH_PREFIX}${hex}`, hash);
+}
+
+/**
+ * Hash a password using bcrypt (or PBKDF2 where bcrypt is unavailable)
  */
 export async function hashPassword(password: string, workFactor: number = 12): Promise<string> {
-  return bcryptModule.hash(password, workFactor);
+  const bcrypt = await loadBcrypt();
+  return bcrypt ? bcrypt.hash(password, workFactor) : pbkdf2Hash(password);
 }
 
 /**
  * Compare a password with a hash
  */
-export async function comparePassword(password: string, hash: string): Promise<boolean> {
-  return bcryptModule.compare(password, hash);
-}
\ No newline at end of file
+export async function comparePassword(password: string, hash: string, config?: NextAuthSimpleConfig): Promise<boolean> {
+  if (hash.startsWith(PBKDF2_PREFIX)) {
+    return pbkdf2Verify(password, hash);
+  }
+
+  if (hash.startsWith(BROWSER_HASH_PREFIX)) {
+    return browserHashVerify(password, hash);
+  }
+
+  const bcrypt = await loadBcrypt();
+
+  if (!bcrypt) {
+    getLogger(config).warn('Cannot verify bcrypt passwords without the bcrypt module');
+    return false;
+  }
+
+  return bcrypt.compare(password, hash);
+}
@@ -0,0 +1,73 @@
+/**
+ * User agent parsing utilities
+ *
+ * Deliberately small: only enough to show a recognisable device name in session
+ * listings and audit logs, not a full user agent database.
+ */
+
+export interface ParsedUserAgent {
+  browser?: string;
+  os?: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+}
+
+// Order matters: Edge and Opera also contain "Chrome", Chrome also contains "Safari"
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Parse a user agent string
+ *
+ * @param userAgent - User-Agent header value
+ * @returns Browser, operating system and device type
+ */
+export function parseUserAgent(userAgent?: string | null): ParsedUserAgent {
+  if (!userAgent) {
+    return { deviceType: 'unknown' };
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  let deviceType: ParsedUserAgent['deviceType'] = 'desktop';
+  if (/bot|crawler|spider/i.test(userAgent)) {
+    deviceType = 'bot';
+  } else if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    deviceType = 'mobile';
+  }
+
+  return { browser, os, deviceType };
+}
+
+/**
+ * Get a human readable device label, e.g. "Chrome on macOS"
+ *
+ * @param userAgent - User-Agent header value
+ * @returns Device label or null if nothing could be recognised
+ */
+export function getDeviceLabel(userAgent?: string | null): string | null {
+  const { browser, os } = parseUserAgent(userAgent);
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+
+  return browser || os || null;
+}
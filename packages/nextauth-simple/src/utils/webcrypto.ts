@@ -0,0 +1,88 @@
+/**
+ * WebCrypto helpers shared by the Edge-compatible modules
+ *
+ * Only `globalThis.crypto` is used here (no Node.js `crypto` import), so these
+ * helpers run in the Edge runtime as well as Node.js.
+ */
+
+const encoder = new TextEncoder();
+
+// Derived CryptoKeys, cached per secret and purpose
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+export function getSubtle(): SubtleCrypto {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('WebCrypto is not available in this runtime');
+  }
+  return globalThis.crypto.subtle;
+}
+
+export function base64UrlEncode(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Derive a purpose-specific key from a secret with HKDF
+ *
+ * @param secret - Key material
+ * @param purpose - 'encryption' yields an AES-GCM key, anything else an HMAC-SHA256 key
+ * @returns Derived CryptoKey
+ */
+export function deriveKey(secret: string, purpose: string): Promise<CryptoKey> {
+  const cacheKey = `${purpose}:${secret}`;
+  let key = keyCache.get(cacheKey);
+
+  if (!key) {
+    key = (async () => {
+      const subtle = getSubtle();
+      const material = await subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey']);
+      const params = {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: encoder.encode('nextauth-simple'),
+        info: encoder.encode(`nextauth-simple session ${purpose}`)
+      };
+
+      return purpose === 'encryption'
+        ? subtle.deriveKey(params, material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+        : subtle.deriveKey(params, material, { name: 'HMAC', hash: 'SHA-256', length: 256 }, false, ['sign', 'verify']);
+    })();
+    keyCache.set(cacheKey, key);
+  }
+
+  return key;
+}
+
+/**
+ * Compare two strings in constant time
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Whether the strings are equal
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
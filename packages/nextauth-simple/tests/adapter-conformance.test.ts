@@ -0,0 +1,46 @@
+import { getTableName, sql } from 'drizzle-orm';
+import { DrizzleAdapter, MemoryAdapter } from '../src/adapters';
+import { type DatabaseDialect } from '../src/core/types';
+import { applyMigrations, getBundledTables } from '../src/db';
+import { createMysqlClient } from '../src/db/mysql';
+import { createSqliteClient } from '../src/db/sqlite';
+import { describeAdapter } from './adapter-suite';
+
+const features = ['twoFactor', 'magicUrl', 'social', 'passwordReset', 'rbac', 'passkeys', 'verification', 'audit'];
+
+/**
+ * Migrate the tables of every feature and return an adapter on top of them
+ */
+async function createDrizzleAdapter(client: any, dialect: DatabaseDialect) {
+  const tables = getBundledTables(dialect);
+
+  const result = await applyMigrations({
+    db: { client, dialect, tables },
+    security: { lockout: { enabled: true } },
+    features: Object.fromEntries(features.map(feature => [feature, { enabled: true }]))
+  } as any);
+
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  return new DrizzleAdapter(client, tables, dialect);
+}
+
+describeAdapter('Memory', async () => new MemoryAdapter());
+
+describeAdapter('Drizzle (SQLite)', async () => createDrizzleAdapter(createSqliteClient(':memory:'), 'sqlite'));
+
+// Needs a server, e.g. MYSQL_URL=mysql://root@localhost:3306/nextauth_test
+if (process.env.MYSQL_URL) {
+  describeAdapter('Drizzle (MySQL)', async () => {
+    const client = createMysqlClient(process.env.MYSQL_URL!);
+
+    // Children first, so foreign keys never block a drop
+    for (const table of Object.values(getBundledTables('mysql')).reverse()) {
+      await client.execute(sql.raw(`DROP TABLE IF EXISTS \`${getTableName(table)}\``));
+    }
+
+    return createDrizzleAdapter(client, 'mysql');
+  });
+}
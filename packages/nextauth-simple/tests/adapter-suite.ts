@@ -0,0 +1,245 @@
+import { describe, expect, it, beforeEach } from '@jest/globals';
+import { type AuthAdapter } from '../src/adapters';
+import { type Session, type User } from '../src/core/types';
+
+/**
+ * Shared behavior tests run against every storage adapter
+ *
+ * @param name - Adapter name used in test titles
+ * @param createAdapter - Returns an adapter backed by empty storage
+ */
+export function describeAdapter(name: string, createAdapter: () => Promise<AuthAdapter>) {
+  describe(`${name} adapter`, () => {
+    let adapter: AuthAdapter;
+    const now = new Date('2024-06-01T12:00:00.000Z');
+    const later = new Date('2024-06-02T12:00:00.000Z');
+
+    const user = (id: string, email: string): User => ({
+      id,
+      email,
+      password: 'hashed',
+      createdAt: now,
+      updatedAt: now
+    });
+
+    const session = (id: string, userId: string, token: string, updatedAt = now): Session => ({
+      id,
+      userId,
+      token,
+      expiresAt: later,
+      ipAddress: null,
+      userAgent: null,
+      deviceLabel: null,
+      lastActiveAt: now,
+      twoFactorVerified: false,
+      createdAt: now,
+      updatedAt
+    });
+
+    beforeEach(async () => {
+      adapter = await createAdapter();
+      await adapter.createUser(user('user-1', 'alice@example.com'));
+      await adapter.createUser(user('user-2', 'bob@example.com'));
+    });
+
+    it('should store and update users', async () => {
+      expect((await adapter.getUserByEmail('Alice@Example.com'))?.id).toBe('user-1');
+      expect(await adapter.getUser('missing')).toBeNull();
+
+      await adapter.updateUser('user-1', { password: 'rehashed', updatedAt: later });
+
+      const stored = await adapter.getUser('user-1');
+      expect(stored?.password).toBe('rehashed');
+      expect(stored?.updatedAt).toEqual(later);
+
+      await expect(adapter.createUser(user('user-3', 'alice@example.com'))).rejects.toThrow();
+    });
+
+    it('should look up, list and delete sessions', async () => {
+      await adapter.createSession(session('session-1', 'user-1', 'digest-1'));
+      await adapter.createSession(session('session-2', 'user-1', 'digest-2', later));
+      await adapter.createSession(session('session-3', 'user-2', 'digest-3'));
+
+      const found = await adapter.getSessionAndUser('digest-1');
+      expect(found?.session.id).toBe('session-1');
+      expect(found?.session.expiresAt).toEqual(later);
+      expect(found?.session.twoFactorVerified).toBe(false);
+      expect(found?.user.email).toBe('alice@example.com');
+
+      expect((await adapter.listSessions('user-1')).map(s => s.id)).toEqual(['session-2', 'session-1']);
+      expect(await adapter.listSessions()).toHaveLength(3);
+
+      await adapter.updateSession('session-1', { twoFactorVerified: true });
+      expect((await adapter.getSessionAndUser('digest-1'))?.session.twoFactorVerified).toBe(true);
+
+      // Sessions of other users are left alone
+      await adapter.deleteSession('session-3', 'user-1');
+      expect(await adapter.getSessionAndUser('digest-3')).not.toBeNull();
+
+      await adapter.deleteUserSessions('user-1', { exceptToken: 'digest-2' });
+      expect((await adapter.listSessions('user-1')).map(s => s.id)).toEqual(['session-2']);
+
+      await adapter.deleteSessionByToken('digest-2');
+      expect(await adapter.getSessionAndUser('digest-2')).toBeNull();
+    });
+
+    it('should upsert lockout and verification state', async () => {
+      await adapter.setLockout({ userId: 'user-1', failedAttempts: 3, lockCount: 0, lockedUntil: null, unlockToken: null, updatedAt: now });
+      await adapter.setLockout({ userId: 'user-1', failedAttempts: 0, lockCount: 1, lockedUntil: later, unlockToken: 'digest', updatedAt: now });
+
+      const lockout = await adapter.getLockout('user-1');
+      expect(lockout?.lockCount).toBe(1);
+      expect(lockout?.lockedUntil).toEqual(later);
+
+      await adapter.deleteLockout('user-1');
+      expect(await adapter.getLockout('user-1')).toBeNull();
+
+      // Concurrent failures are all counted
+      await Promise.all([1, 2, 3].map(() => adapter.incrementFailedAttempts('user-1', now)));
+      expect((await adapter.incrementFailedAttempts('user-1', later)).failedAttempts).toBe(4);
+      expect((await adapter.getLockout('user-1'))?.updatedAt).toEqual(later);
+      await adapter.deleteLockout('user-1');
+
+      await adapter.setVerificationStatus({ userId: 'user-1', verified: false, updatedAt: now });
+      await adapter.setVerificationStatus({ userId: 'user-1', verified: true, verifiedAt: later, verificationMethod: 'email', updatedAt: later });
+
+      const status = await adapter.getVerificationStatus('user-1');
+      expect(status?.verified).toBe(true);
+      expect(status?.verificationMethod).toBe('email');
+    });
+
+    it('should store two-factor setups and challenges', async () => {
+      await adapter.createTwoFactor({ userId: 'user-1', secret: 'secret', enabled: false, backupCodes: '[]', createdAt: now, updatedAt: now });
+      await adapter.updateTwoFactor('user-1', { enabled: true, verifiedAt: later });
+      expect((await adapter.getTwoFactor('user-1'))?.enabled).toBe(true);
+
+      await adapter.createTwoFactorChallenge({ id: 'challenge-1', userId: 'user-1', token: 'token-1', expiresAt: later, createdAt: now });
+      await adapter.createTwoFactorChallenge({ id: 'challenge-2', userId: 'user-1', token: 'token-2', expiresAt: later, createdAt: now });
+      expect(await adapter.getTwoFactorChallenge('user-2', 'token-1')).toBeNull();
+      expect((await adapter.getTwoFactorChallenge('user-1', 'token-1'))?.id).toBe('challenge-1');
+
+      await adapter.deleteTwoFactorChallenge('token-1');
+      expect(await adapter.getTwoFactorChallenge('user-1', 'token-1')).toBeNull();
+
+      await adapter.deleteTwoFactorChallenges('user-1');
+      expect(await adapter.getTwoFactorChallenge('user-1', 'token-2')).toBeNull();
+
+      await adapter.deleteTwoFactor('user-1');
+      expect(await adapter.getTwoFactor('user-1')).toBeNull();
+    });
+
+    it('should store single-use tokens', async () => {
+      await adapter.createMagicUrlToken({ id: 'magic-1', email: 'alice@example.com', token: 'magic', expiresAt: later, createdAt: now });
+      expect((await adapter.getMagicUrlToken('magic', 'ALICE@example.com'))?.usedAt).toBeFalsy();
+
+      await adapter.markMagicUrlTokenUsed('magic-1');
+      expect((await adapter.getMagicUrlToken('magic', 'alice@example.com'))?.usedAt).toBeInstanceOf(Date);
+
+      await adapter.createPasswordResetToken({ id: 'reset-1', userId: 'user-1', token: 'reset', expiresAt: later, createdAt: now });
+      expect(await adapter.getPasswordResetToken('reset', 'user-2')).toBeNull();
+
+      await adapter.markPasswordResetTokenUsed('reset-1');
+      expect((await adapter.getPasswordResetToken('reset', 'user-1'))?.usedAt).toBeInstanceOf(Date);
+
+      await adapter.deletePasswordResetTokens('user-1');
+      expect(await adapter.getPasswordResetToken('reset', 'user-1')).toBeNull();
+
+      await adapter.createVerificationToken({ id: 'verify-1', userId: 'user-1', token: 'verify', expiresAt: later, createdAt: now });
+      await adapter.markVerificationTokenUsed('verify-1');
+      expect((await adapter.getVerificationToken('verify', 'user-1'))?.usedAt).toBeInstanceOf(Date);
+
+      await adapter.deleteVerificationTokens('user-1');
+      expect(await adapter.getVerificationToken('verify', 'user-1')).toBeNull();
+    });
+
+    it('should store social accounts and passkeys', async () => {
+      await adapter.createSocialAccount({
+        id: 'social-1',
+        userId: 'user-1',
+        provider: 'github',
+        providerAccountId: '42',
+        profile: { login: 'alice' },
+        createdAt: now,
+        updatedAt: now
+      });
+      await adapter.updateSocialAccount('social-1', { accessToken: 'access' });
+
+      const account = await adapter.getSocialAccount('github', '42');
+      expect(account?.accessToken).toBe('access');
+      expect(account?.profile).toEqual({ login: 'alice' });
+
+      await adapter.createWebAuthnChallenge({ id: 'webauthn-1', userId: 'user-1', challenge: 'challenge', expiresAt: later, createdAt: now });
+      await adapter.markWebAuthnChallengeUsed('webauthn-1');
+      expect((await adapter.getWebAuthnChallenge('challenge'))?.usedAt).toBeInstanceOf(Date);
+
+      await adapter.createWebAuthnCredential({
+        id: 'credential-1',
+        userId: 'user-1',
+        credentialId: 'cred',
+        publicKey: 'key',
+        counter: '0',
+        transports: ['usb', 'nfc'],
+        backed: true,
+        createdAt: now
+      });
+      await adapter.updateWebAuthnCredential('credential-1', { counter: '1', lastUsedAt: later });
+
+      const credential = await adapter.getWebAuthnCredential('cred');
+      expect(credential?.counter).toBe('1');
+      expect(credential?.transports).toEqual(['usb', 'nfc']);
+      expect(credential?.backed).toBe(true);
+      expect(await adapter.listWebAuthnCredentials('user-1')).toHaveLength(1);
+
+      await adapter.deleteWebAuthnCredential('cred');
+      expect(await adapter.getWebAuthnCredential('cred')).toBeNull();
+    });
+
+    it('should store roles and assignments', async () => {
+      await adapter.createRole({ id: 'role-1', name: 'admin', permissions: ['*'], createdAt: now, updatedAt: now });
+      await adapter.createRole({ id: 'role-2', name: 'editor', permissions: ['posts:write'], createdAt: now, updatedAt: now });
+      await expect(adapter.createRole({ id: 'role-3', name: 'admin', permissions: [], createdAt: now, updatedAt: now })).rejects.toThrow();
+
+      await adapter.updateRole('role-2', { permissions: ['posts:write', 'posts:delete'] });
+      expect((await adapter.getRoleByName('editor'))?.permissions).toEqual(['posts:write', 'posts:delete']);
+      expect((await adapter.listRoles(['role-2'])).map(role => role.id)).toEqual(['role-2']);
+      expect(await adapter.listRoles([])).toEqual([]);
+      expect(await adapter.listRoles()).toHaveLength(2);
+
+      await adapter.createUserRole({ id: 'assignment-1', userId: 'user-1', roleId: 'role-1', createdAt: now, updatedAt: now });
+      await adapter.createUserRole({ id: 'assignment-2', userId: 'user-1', roleId: 'role-2', createdAt: now, updatedAt: now });
+      expect((await adapter.getUserRole('user-1', 'role-1'))?.id).toBe('assignment-1');
+
+      await adapter.deleteUserRole('user-1', 'role-1');
+      expect(await adapter.getUserRole('user-1', 'role-1')).toBeNull();
+
+      await adapter.deleteRole('role-2');
+      expect(await adapter.getRole('role-2')).toBeNull();
+      expect(await adapter.listUserRoles('user-1')).toEqual([]);
+    });
+
+    it('should query and prune audit logs', async () => {
+      for (let i = 0; i < 5; i++) {
+        await adapter.createAuditLog({
+          id: `log-${i}`,
+          userId: i < 3 ? 'user-1' : 'user-2',
+          action: 'login.success',
+          details: { attempt: i },
+          status: 'success',
+          createdAt: new Date(now.getTime() + i * 1000)
+        });
+      }
+
+      expect((await adapter.getAuditLog('log-0'))?.details).toEqual({ attempt: 0 });
+
+      const page = await adapter.queryAuditLogs({ userId: 'user-1', limit: 2, offset: 1 });
+      expect(page.total).toBe(3);
+      expect(page.logs.map(log => log.id)).toEqual(['log-1', 'log-0']);
+
+      const ranged = await adapter.queryAuditLogs({ startDate: new Date(now.getTime() + 3000) });
+      expect(ranged.logs.map(log => log.id)).toEqual(['log-4', 'log-3']);
+
+      expect(await adapter.deleteAuditLogsBefore(new Date(now.getTime() + 2000))).toBe(2);
+      expect((await adapter.queryAuditLogs({})).total).toBe(3);
+    });
+  });
+}
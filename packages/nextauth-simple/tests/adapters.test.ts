@@ -0,0 +1,22 @@
+import { describe, expect, it } from '@jest/globals';
+import { DrizzleAdapter, getAdapter, type AuthAdapter } from '../src/adapters';
+
+describe('Storage Adapters', () => {
+  it('should prefer a configured adapter', () => {
+    const adapter = {} as AuthAdapter;
+
+    expect(getAdapter({ adapter, db: { client: {} as any, tables: {} as any } })).toBe(adapter);
+  });
+
+  it('should reuse one Drizzle adapter per database configuration', () => {
+    const db = { client: {} as any, tables: {} as any };
+    const adapter = getAdapter({ db });
+
+    expect(adapter).toBeInstanceOf(DrizzleAdapter);
+    expect(getAdapter({ db })).toBe(adapter);
+  });
+
+  it('should throw without an adapter or database', () => {
+    expect(() => getAdapter({})).toThrow('requires either `adapter` or `db`');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { deleteCookie, getCookieOptions, getSessionCookieName, setCookie } from '../src/core/cookies';
+
+describe('Cookies', () => {
+  it('should default to strict, host-only session cookies', () => {
+    expect(getSessionCookieName({})).toBe('nextauth-simple-session');
+    expect(getCookieOptions({})).toEqual({
+      httpOnly: true,
+      secure: false, // NODE_ENV is 'test'
+      sameSite: 'strict',
+      path: '/',
+      domain: undefined
+    });
+  });
+
+  it('should enforce the attributes browsers require for prefixed cookies', () => {
+    const host = { cookies: { prefix: '__Host-' as const, path: '/app', secure: false } };
+    expect(getSessionCookieName(host)).toBe('__Host-nextauth-simple-session');
+    expect(getCookieOptions(host)).toMatchObject({ secure: true, path: '/' });
+    expect(() => getCookieOptions({ cookies: { prefix: '__Host-', domain: '.example.com' } })).toThrow();
+
+    expect(getCookieOptions({ cookies: { prefix: '__Secure-' } }).secure).toBe(true);
+    expect(getCookieOptions({ cookies: { sameSite: 'none' } }).secure).toBe(true);
+  });
+
+  it('should set and delete cookies with the configured domain', () => {
+    const config = { cookies: { name: 'sid', domain: '.example.com', sameSite: 'lax' as const } };
+    const cookieHandler = { get: jest.fn(), set: jest.fn(), delete: jest.fn() };
+    const expires = new Date();
+
+    setCookie(cookieHandler as any, getSessionCookieName(config), 'token', expires, config);
+    deleteCookie(cookieHandler as any, getSessionCookieName(config), config);
+
+    expect(cookieHandler.set).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'sid',
+      value: 'token',
+      domain: '.example.com',
+      sameSite: 'lax',
+      expires
+    }));
+    expect(cookieHandler.delete).toHaveBeenCalledWith('sid', { domain: '.example.com', path: '/' });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { createCsrfToken, verifyCsrfRequest } from '../src/core/csrf';
+
+const mockCookies = {
+  get: jest.fn(),
+  set: jest.fn(),
+  delete: jest.fn()
+};
+
+// Mock dependencies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => mockCookies)
+}));
+
+describe('CSRF Protection', () => {
+  const config = { secret: 'test-secret' };
+
+  const createRequest = (headers: Record<string, string>, method = 'POST') =>
+    new NextRequest('https://example.com/api/auth/login', { method, headers });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCookies.get.mockReturnValue(undefined);
+  });
+
+  it('should issue a signed token and store it in a cookie', async () => {
+    const token = await createCsrfToken(config);
+
+    expect(token.split('.')).toHaveLength(2);
+    expect(mockCookies.set).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'nextauth-simple-session-csrf',
+      value: token,
+      httpOnly: true
+    }));
+  });
+
+  it('should accept a header token matching the cookie', async () => {
+    const token = await createCsrfToken(config);
+
+    const result = await verifyCsrfRequest(createRequest({
+      'x-csrf-token': token,
+      cookie: `nextauth-simple-session-csrf=${token}`
+    }), config);
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject mismatched or unsigned tokens', async () => {
+    const token = await createCsrfToken(config);
+
+    expect((await verifyCsrfRequest(createRequest({
+      'x-csrf-token': 'forged',
+      cookie: `nextauth-simple-session-csrf=${token}`
+    }), config)).valid).toBe(false);
+
+    // A cookie planted from another subdomain cannot carry a valid signature
+    expect((await verifyCsrfRequest(createRequest({
+      'x-csrf-token': 'planted',
+      cookie: 'nextauth-simple-session-csrf=planted'
+    }), config)).valid).toBe(false);
+  });
+
+  it('should fall back to the Origin and Referer headers', async () => {
+    expect((await verifyCsrfRequest(createRequest({ origin: 'https://example.com' }), config)).valid).toBe(true);
+    expect((await verifyCsrfRequest(createRequest({ referer: 'https://example.com/login' }), config)).valid).toBe(true);
+    expect((await verifyCsrfRequest(createRequest({ origin: 'https://evil.example' }), config)).valid).toBe(false);
+    expect((await verifyCsrfRequest(createRequest({}), config)).valid).toBe(false);
+
+    const trusted = { ...config, csrf: { trustedOrigins: ['https://app.example.com'] } };
+    expect((await verifyCsrfRequest(createRequest({ origin: 'https://app.example.com' }), trusted)).valid).toBe(true);
+  });
+
+  it('should not check safe methods', async () => {
+    expect((await verifyCsrfRequest(createRequest({}, 'GET'), config)).valid).toBe(true);
+  });
+});
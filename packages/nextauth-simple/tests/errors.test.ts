@@ -0,0 +1,73 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { MemoryAdapter } from '../src/adapters';
+import { loginUser, registerUser } from '../src/core/auth';
+import { authError, getAuthErrorMessage } from '../src/core/errors';
+import { createAuthHandlers } from '../src/core/handlers';
+import { NextAuthSimpleConfig } from '../src/core/types';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({ get: jest.fn(), set: jest.fn(), delete: jest.fn() }))
+}));
+
+describe('Auth Errors', () => {
+  const config: NextAuthSimpleConfig = {
+    errors: {
+      locale: 'de',
+      messages: {
+        de: { INVALID_CREDENTIALS: 'E-Mail oder Passwort ist falsch' },
+        fr: { INVALID_CREDENTIALS: 'E-mail ou mot de passe incorrect' }
+      }
+    }
+  };
+
+  it('should prefer messages of the locale over default messages', () => {
+    expect(getAuthErrorMessage('INVALID_CREDENTIALS')).toBe('Invalid email or password');
+    expect(getAuthErrorMessage('INVALID_CREDENTIALS', config)).toBe('E-Mail oder Passwort ist falsch');
+    expect(getAuthErrorMessage('INVALID_CREDENTIALS', config, 'fr')).toBe('E-mail ou mot de passe incorrect');
+    expect(getAuthErrorMessage('USER_NOT_FOUND', config)).toBe('User not found');
+
+    expect(authError('INVALID_INPUT', config, 'Email is required')).toEqual({
+      success: false,
+      code: 'INVALID_INPUT',
+      error: 'Email is required'
+    });
+    expect(authError('INVALID_CREDENTIALS', config, 'Current password is incorrect').error).toBe('E-Mail oder Passwort ist falsch');
+  });
+
+  it('should return codes with localized messages from the auth functions and handlers', async () => {
+    const authConfig: NextAuthSimpleConfig = {
+      ...config,
+      adapter: new MemoryAdapter(),
+      security: { bcryptWorkFactor: 4, rateLimit: { enabled: false } },
+      csrf: { enabled: false }
+    };
+
+    await registerUser({ email: 'user@example.com', password: 'Password123' }, authConfig);
+    expect(await registerUser({ email: 'user@example.com', password: 'Password123' }, authConfig)).toEqual({
+      success: false,
+      code: 'USER_EXISTS',
+      error: 'User already exists'
+    });
+
+    expect(await loginUser({ email: 'user@example.com', password: 'wrong-password' }, authConfig)).toEqual({
+      success: false,
+      code: 'INVALID_CREDENTIALS',
+      error: 'E-Mail oder Passwort ist falsch'
+    });
+
+    const { GET, POST } = createAuthHandlers(authConfig);
+    const response = await POST(new NextRequest('https://example.com/api/auth/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'user@example.com' })
+    }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: 'INVALID_INPUT', error: 'Email and password are required' });
+    expect(await (await GET(new NextRequest('https://example.com/api/auth/missing'))).json()).toEqual({
+      code: 'NOT_FOUND',
+      error: 'Not found'
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { MemoryAdapter } from '../src/adapters';
+import { loginUser, registerUser } from '../src/core/auth';
+import { mergeAuthHooks, runAuthHooks } from '../src/core/events';
+import { createAuthHandlers } from '../src/core/handlers';
+import { noopLogger } from '../src/core/logger';
+import { AuthHook, Logger, NextAuthSimpleConfig } from '../src/core/types';
+import {
+  NextAuthSimpleConfigWithAllFeatures,
+  getUserRoles,
+  initializeDefaultRoles,
+  integrateFeatures,
+  markUserAsVerified,
+  queryAuditLogs
+} from '../src/features';
+
+const cookieJar = new Map<string, string>();
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: (name: string) => cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined,
+    set: ({ name, value }: { name: string; value: string }) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name)
+  }))
+}));
+
+describe('Auth Events', () => {
+  const user = { id: 'user-1', email: 'a@b.com', createdAt: new Date(), updatedAt: new Date() };
+
+  beforeEach(() => {
+    cookieJar.clear();
+  });
+
+  it('should stop pre-event hooks at the first failure', async () => {
+    const later = jest.fn<AuthHook<any>>();
+    const config: NextAuthSimpleConfig = {
+      hooks: {
+        preLogin: [() => undefined, () => ({ success: false, error: 'Nope' }), later]
+      }
+    };
+
+    expect(await runAuthHooks('preLogin', { user, method: 'password' }, config)).toEqual({ success: false, code: 'HOOK_REJECTED', error: 'Nope' });
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('should run every post-event hook even when one throws', async () => {
+    const later = jest.fn<AuthHook<any>>();
+    const logError = jest.fn<Logger['error']>();
+    const config: NextAuthSimpleConfig = {
+      logger: { ...noopLogger, error: logError },
+      hooks: {
+        postRegistration: [() => { throw new Error('boom'); }, later]
+      }
+    };
+
+    const session = { id: 'session-1', userId: 'user-1', expiresAt: new Date(), createdAt: new Date(), updatedAt: new Date() };
+    expect(await runAuthHooks('postRegistration', { user, session }, config)).toEqual({ success: true });
+    expect(later).toHaveBeenCalledWith({ user, session }, config);
+    expect(logError).toHaveBeenCalledWith('Error in hook', { event: 'postRegistration', error: expect.any(Error) });
+  });
+
+  it('should merge hooks in order', () => {
+    const first = jest.fn<AuthHook<any>>();
+    const second = jest.fn<AuthHook<any>>();
+
+    expect(mergeAuthHooks({ preLogin: [first] }, undefined, { preLogin: [second], postLogin: [second] })).toEqual({
+      preLogin: [first, second],
+      postLogin: [second]
+    });
+  });
+
+  it('should let registerUser and loginUser be refused by hooks', async () => {
+    const config: NextAuthSimpleConfig = {
+      adapter: new MemoryAdapter(),
+      security: { bcryptWorkFactor: 4, rateLimit: { enabled: false } },
+      hooks: {
+        preRegistration: [({ email }) => email.endsWith('@example.com') ? undefined : { success: false, error: 'Invite only' }],
+        preLogin: [({ user }) => user.email === 'banned@example.com' ? { success: false, error: 'Banned' } : undefined]
+      }
+    };
+
+    expect(await registerUser({ email: 'a@other.com', password: 'Password123' }, config)).toEqual({
+      success: false,
+      code: 'HOOK_REJECTED',
+      error: 'Invite only'
+    });
+    expect((await registerUser({ email: 'banned@example.com', password: 'Password123' }, config)).success).toBe(true);
+    expect(await loginUser({ email: 'banned@example.com', password: 'Password123' }, config)).toEqual({
+      success: false,
+      code: 'HOOK_REJECTED',
+      error: 'Banned'
+    });
+  });
+
+  describe('with integrated features', () => {
+    let config: NextAuthSimpleConfigWithAllFeatures;
+    let appHook: jest.Mock<any>;
+
+    beforeEach(async () => {
+      appHook = jest.fn();
+      const baseConfig: NextAuthSimpleConfigWithAllFeatures = {
+        secret: 'test-secret',
+        adapter: new MemoryAdapter(),
+        security: { bcryptWorkFactor: 4, rateLimit: { enabled: false } },
+        csrf: { enabled: false },
+        hooks: { postRegistration: [appHook] },
+        features: {
+          rbac: { enabled: true, defaultRole: 'user' },
+          audit: { enabled: true },
+          verification: { enabled: true, requireVerification: true, tokenExpiryMinutes: 60 }
+        }
+      };
+
+      await initializeDefaultRoles(baseConfig as any);
+      config = integrateFeatures(baseConfig);
+    });
+
+    it('should keep functions and objects of the original config', () => {
+      expect(config.adapter).toBeInstanceOf(MemoryAdapter);
+      expect(config.hooks?.postRegistration).toContain(appHook);
+    });
+
+    it('should assign the default role and audit registrations', async () => {
+      const { user: registered } = await registerUser({ email: 'new@example.com', password: 'Password123' }, config);
+
+      const { roles } = await getUserRoles(registered!.id, config as any);
+      expect(roles?.map(role => role.name)).toEqual(['user']);
+
+      const { logs } = await queryAuditLogs({ userId: registered!.id }, config as any);
+      expect(logs?.map(log => log.action)).toEqual(['register.success']);
+      expect(appHook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse unverified accounts and audit logins through the handler', async () => {
+      const { user: registered } = await registerUser({ email: 'new@example.com', password: 'Password123' }, config);
+
+      expect(await loginUser({ email: 'new@example.com', password: 'Password123' }, config)).toEqual({
+        success: false,
+        code: 'ACCOUNT_NOT_VERIFIED',
+        error: 'Account not verified'
+      });
+
+      await markUserAsVerified(registered!.id, 'email', config as any);
+
+      const { POST } = createAuthHandlers(config);
+      const response = await POST(new NextRequest('https://example.com/api/auth/login', {
+        method: 'POST',
+        headers: { origin: 'https://example.com', 'content-type': 'application/json', 'user-agent': 'test-agent' },
+        body: JSON.stringify({ email: 'new@example.com', password: 'Password123' })
+      }));
+      expect(response.status).toBe(200);
+
+      const { logs } = await queryAuditLogs({ userId: registered!.id, action: 'login.success' }, config as any);
+      expect(logs).toHaveLength(1);
+      expect(logs![0].userAgent).toBe('test-agent');
+    });
+  });
+});
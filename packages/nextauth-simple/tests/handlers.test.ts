@@ -0,0 +1,220 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { MemoryAdapter } from '../src/adapters';
+import { createAuthHandlers } from '../src/core/handlers';
+import { createSession, loginUser } from '../src/core/auth';
+
+const mockCookies = {
+  get: jest.fn(),
+  set: jest.fn(),
+  delete: jest.fn()
+};
+
+// Mock dependencies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => mockCookies)
+}));
+
+jest.mock('../src/core/auth', () => ({
+  loginUser: jest.fn(),
+  createSession: jest.fn()
+}));
+
+describe('Route Handlers', () => {
+  const config = {
+    secret: 'test-secret',
+    db: {
+      client: {} as any,
+      tables: {
+        users: {},
+        sessions: {}
+      } as any
+    },
+    features: {
+      magicUrl: { enabled: false }
+    }
+  };
+
+  const createRequest = (path: string, method = 'POST', body?: any, headers: Record<string, string> = {}) =>
+    new NextRequest(`https://example.com/api/auth/${path}`, {
+      method,
+      headers: { origin: 'https://example.com', 'content-type': 'application/json', ...headers },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCookies.get.mockReturnValue(undefined);
+  });
+
+  it('should return 404 for unknown routes and routes of disabled features', async () => {
+    const { GET, POST } = createAuthHandlers(config);
+
+    expect((await POST(createRequest('unknown'))).status).toBe(404);
+    expect((await POST(createRequest('magic-url', 'POST', { email: 'test@example.com' }))).status).toBe(404);
+    expect((await GET(createRequest('verify-magic-url?token=x&email=y', 'GET'))).status).toBe(404);
+  });
+
+  it('should reject cross-site requests before dispatching', async () => {
+    const { POST } = createAuthHandlers(config);
+
+    const response = await POST(createRequest('login', 'POST', { email: 'a@b.com', password: 'x' }, {
+      origin: 'https://evil.example'
+    }));
+
+    expect(response.status).toBe(403);
+    expect(loginUser).not.toHaveBeenCalled();
+  });
+
+  it('should sign in through loginUser, which creates the session', async () => {
+    const { POST } = createAuthHandlers(config);
+    const user = { id: 'user-123', email: 'test@example.com' };
+    (loginUser as jest.Mock<any>).mockResolvedValue({ success: true, user, userId: user.id });
+
+    const response = await POST(createRequest('login', 'POST', { email: user.email, password: 'Password123' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, user });
+    expect(loginUser).toHaveBeenCalledWith({ email: user.email, password: 'Password123' }, config, expect.any(NextRequest));
+    expect(createSession).not.toHaveBeenCalled();
+  });
+
+  it('should return the two-factor challenge instead of a session', async () => {
+    const { POST } = createAuthHandlers(config);
+    const user = { id: 'user-123', email: 'test@example.com' };
+    (loginUser as jest.Mock<any>).mockResolvedValue({ success: true, user, userId: user.id, twoFactorRequired: true, challengeToken: 'challenge' });
+
+    const response = await POST(createRequest('login', 'POST', { email: user.email, password: 'Password123' }));
+
+    expect(await response.json()).toEqual({
+      success: true,
+      code: 'TWO_FACTOR_REQUIRED',
+      twoFactorRequired: true,
+      userId: 'user-123',
+      challengeToken: 'challenge'
+    });
+  });
+
+  it('should answer rate-limited logins with 429', async () => {
+    const { POST } = createAuthHandlers(config);
+    (loginUser as jest.Mock<any>).mockResolvedValue({ success: false, error: 'Too many attempts', rateLimited: true, retryAfter: 30 });
+
+    const response = await POST(createRequest('login', 'POST', { email: 'a@b.com', password: 'x' }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('30');
+    expect(createSession).not.toHaveBeenCalled();
+  });
+
+  it('should treat JSON bodies that are not objects as empty input', async () => {
+    const { POST } = createAuthHandlers(config);
+
+    for (const body of ['null', '[]', '"text"']) {
+      const response = await POST(new NextRequest('https://example.com/api/auth/login', {
+        method: 'POST',
+        headers: { origin: 'https://example.com', 'content-type': 'application/json' },
+        body
+      }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: 'INVALID_INPUT' });
+    }
+    expect(loginUser).not.toHaveBeenCalled();
+  });
+
+  it('should redirect a magic link to the callbackUrl it was requested with', async () => {
+    const adapter = new MemoryAdapter();
+    const now = new Date();
+    await adapter.createUser({ id: 'user-123', email: 'test@example.com', password: 'hash', createdAt: now, updatedAt: now });
+    const sendEmail = jest.fn(async (_to: string, _subject: string, _html: string) => true);
+    const { GET, POST } = createAuthHandlers({
+      secret: 'test-secret',
+      adapter,
+      features: { magicUrl: { enabled: true, redirectUrl: '/dashboard', sendEmail } }
+    });
+    (createSession as jest.Mock<any>).mockResolvedValue({ id: 'session-123', userId: 'user-123', token: 'token' });
+
+    await POST(createRequest('magic-url', 'POST', { email: 'test@example.com', callbackUrl: 'https://evil.example/welcome' }));
+    await POST(createRequest('magic-url', 'POST', { email: 'test@example.com', callbackUrl: '/welcome?tab=1' }));
+    const links = sendEmail.mock.calls.map(([, , html]) => html.match(/verify-magic-url\?[^"]+/)![0].replace(/&amp;/g, '&'));
+
+    const offsite = await GET(createRequest(links[0], 'GET'));
+    expect(offsite.headers.get('location')).toBe('https://example.com/dashboard');
+
+    const response = await GET(createRequest(links[1], 'GET'));
+    expect(response.headers.get('location')).toBe('https://example.com/welcome?tab=1');
+  });
+
+  describe('passkeys', () => {
+    const base64Url = (buffer: Buffer) => buffer.toString('base64url');
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+    const createConfig = async () => {
+      const adapter = new MemoryAdapter();
+      const now = new Date();
+      await adapter.createUser({ id: 'user-123', email: 'test@example.com', password: 'hash', createdAt: now, updatedAt: now });
+      await adapter.createWebAuthnCredential({
+        id: 'passkey-1',
+        userId: 'user-123',
+        credentialId: 'credential-1',
+        publicKey: base64Url(publicKey.export({ format: 'der', type: 'spki' })),
+        counter: '0',
+        createdAt: now
+      });
+
+      return {
+        secret: 'test-secret',
+        adapter,
+        features: { passkeys: { enabled: true, rpName: 'Example', origin: 'https://example.com' } }
+      };
+    };
+
+    // Assertion over the challenge of the options, signed like an authenticator would
+    const createAssertion = async (POST: (req: NextRequest) => Promise<Response>, key: crypto.KeyObject) => {
+      const { options } = await (await POST(createRequest('passkeys/authenticate/options'))).json();
+      const clientDataJSON = Buffer.from(JSON.stringify({ type: 'webauthn.get', challenge: options.challenge, origin: 'https://example.com' }));
+      const counter = Buffer.alloc(4);
+      counter.writeUInt32BE(1);
+      const authenticatorData = Buffer.concat([
+        crypto.createHash('sha256').update('example.com').digest(),
+        Buffer.from([0x05]), // User present and verified
+        counter
+      ]);
+      const signature = crypto.sign('sha256', Buffer.concat([authenticatorData, crypto.createHash('sha256').update(clientDataJSON).digest()]), key);
+
+      return {
+        id: 'credential-1',
+        response: {
+          clientDataJSON: base64Url(clientDataJSON),
+          authenticatorData: base64Url(authenticatorData),
+          signature: base64Url(signature)
+        }
+      };
+    };
+
+    it('should reject assertions not signed by the registered key', async () => {
+      const { POST } = createAuthHandlers(await createConfig());
+      const forged = await createAssertion(POST, crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey);
+
+      const response = await POST(createRequest('passkeys/authenticate/verify', 'POST', { credential: forged }));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ code: 'INVALID_CREDENTIALS', error: 'Invalid passkey' });
+      expect(createSession).not.toHaveBeenCalled();
+    });
+
+    it('should sign in with a valid assertion and reject its replay', async () => {
+      const { POST } = createAuthHandlers(await createConfig());
+      (createSession as jest.Mock<any>).mockResolvedValue({ id: 'session-123', userId: 'user-123', token: 'token' });
+      const assertion = await createAssertion(POST, privateKey);
+
+      const response = await POST(createRequest('passkeys/authenticate/verify', 'POST', { credential: assertion }));
+      expect(response.status).toBe(200);
+      expect(createSession).toHaveBeenCalledWith('user-123', expect.anything(), expect.any(NextRequest), undefined, { twoFactorVerified: false });
+
+      const replay = await POST(createRequest('passkeys/authenticate/verify', 'POST', { credential: assertion }));
+      expect(await replay.json()).toMatchObject({ code: 'INVALID_CHALLENGE' });
+    });
+  });
+});
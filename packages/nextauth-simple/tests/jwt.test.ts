@@ -0,0 +1,121 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { decodeSessionToken, encodeSessionToken } from '../src/core/jwt';
+import { MemoryRevocationStore } from '../src/core/revocation';
+import { logoutUser, revokeSession } from '../src/core/auth';
+import { getServerSession } from '../src/core/session';
+
+const mockCookies = {
+  get: jest.fn(),
+  set: jest.fn(),
+  delete: jest.fn()
+};
+
+// Mock dependencies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => mockCookies)
+}));
+
+describe('Stateless Sessions', () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  const payload = {
+    jti: 'session-123',
+    sub: 'user-123',
+    user: {
+      id: 'user-123',
+      email: 'test@example.com',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    },
+    iat: now,
+    exp: now + 3600,
+    createdAt: now
+  };
+
+  const createConfig = (jwt: any = {}) => ({
+    secret: 'test-secret',
+    db: {
+      client: {},
+      tables: {
+        users: {},
+        sessions: {}
+      }
+    },
+    session: {
+      strategy: 'jwt' as const,
+      jwt
+    }
+  }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('encodeSessionToken / decodeSessionToken', () => {
+    it('should round-trip a payload', async () => {
+      const config = createConfig();
+      const token = await encodeSessionToken(payload, config);
+
+      expect(token.split('.')).toHaveLength(5);
+      expect(token).not.toContain('test@example.com');
+
+      const decoded = await decodeSessionToken(token, config);
+      expect(decoded?.jti).toBe('session-123');
+      expect(decoded?.user.email).toBe('test@example.com');
+    });
+
+    it('should reject tampered and expired tokens', async () => {
+      const config = createConfig();
+      const token = await encodeSessionToken(payload, config);
+      const parts = token.split('.');
+      parts[3] = parts[3].slice(0, -2) + (parts[3].endsWith('AA') ? 'BB' : 'AA');
+
+      expect(await decodeSessionToken(parts.join('.'), config)).toBeNull();
+      expect(await decodeSessionToken(token, createConfig({ keys: [{ id: 'default', secret: 'other' }] }))).toBeNull();
+
+      const expired = await encodeSessionToken({ ...payload, exp: now - 1 }, config);
+      expect(await decodeSessionToken(expired, config)).toBeNull();
+    });
+
+    it('should accept tokens issued with a previous key', async () => {
+      const oldKey = { id: 'v1', secret: 'old-secret' };
+      const token = await encodeSessionToken(payload, createConfig({ keys: [oldKey] }));
+
+      const rotated = createConfig({ keys: [{ id: 'v2', secret: 'new-secret' }, oldKey] });
+      expect(await decodeSessionToken(token, rotated)).not.toBeNull();
+
+      const retired = createConfig({ keys: [{ id: 'v2', secret: 'new-secret' }] });
+      expect(await decodeSessionToken(token, retired)).toBeNull();
+    });
+  });
+
+  describe('logoutUser', () => {
+    it('should revoke the session so the token is rejected immediately', async () => {
+      const config = createConfig({ revocationStore: new MemoryRevocationStore() });
+      const token = await encodeSessionToken(payload, config);
+      mockCookies.get.mockReturnValue({ value: token });
+
+      const session = await getServerSession(config);
+      expect(session?.user.email).toBe('test@example.com');
+      expect(session?.user.createdAt).toBeInstanceOf(Date);
+
+      expect(await logoutUser(config)).toEqual({ success: true });
+      expect(mockCookies.delete).toHaveBeenCalledWith(expect.objectContaining({ name: 'nextauth-simple-session' }));
+      expect(await getServerSession(config)).toBeNull();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should only let users revoke the session of their own token', async () => {
+      const config = createConfig({ revocationStore: new MemoryRevocationStore() });
+      mockCookies.get.mockReturnValue({ value: await encodeSessionToken(payload, config) });
+
+      expect(await revokeSession('session-456', config, { userId: 'user-123' })).toMatchObject({ success: false, code: 'FORBIDDEN' });
+      expect(await revokeSession('session-123', config, { userId: 'user-456' })).toMatchObject({ success: false, code: 'FORBIDDEN' });
+      expect(await getServerSession(config)).not.toBeNull();
+
+      expect(await revokeSession('session-123', config, { userId: 'user-123' })).toEqual({ success: true });
+      expect(await getServerSession(config)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { MemoryAdapter } from '../src/adapters';
+import { createAuthHandlers } from '../src/core/handlers';
+import { createConsoleLogger, noopLogger, withLogFields } from '../src/core/logger';
+import { Logger } from '../src/core/types';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({ get: jest.fn(), set: jest.fn(), delete: jest.fn() }))
+}));
+
+describe('Logger', () => {
+  it('should write entries at or above the level to the console', () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const consoleDebug = jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    const logger = createConsoleLogger({ level: 'info' });
+
+    logger.debug('Hidden');
+    logger.warn('Slow hash', { algorithm: 'bcrypt' });
+    logger.warn('No fields', {});
+
+    expect(consoleDebug).not.toHaveBeenCalled();
+    expect(consoleWarn).toHaveBeenNthCalledWith(1, '[nextauth-simple] Slow hash', { algorithm: 'bcrypt' });
+    expect(consoleWarn).toHaveBeenNthCalledWith(2, '[nextauth-simple] No fields');
+
+    consoleWarn.mockRestore();
+    consoleDebug.mockRestore();
+  });
+
+  it('should add fields to every entry', () => {
+    const error = jest.fn<Logger['error']>();
+    const logger = withLogFields({ ...noopLogger, error }, { requestId: 'req-1', feature: 'core' });
+
+    logger.error('Failed', { feature: 'rbac' });
+    expect(error).toHaveBeenCalledWith('Failed', { requestId: 'req-1', feature: 'rbac' });
+  });
+
+  it('should tag entries logged by the route handlers with the request ID', async () => {
+    const error = jest.fn<Logger['error']>();
+    const adapter = new MemoryAdapter();
+    jest.spyOn(adapter, 'getUserByEmail').mockRejectedValue(new Error('Database unavailable'));
+
+    const { POST } = createAuthHandlers({
+      adapter,
+      logger: { ...noopLogger, error },
+      security: { rateLimit: { enabled: false } },
+      csrf: { enabled: false }
+    });
+
+    const response = await POST(new NextRequest('https://example.com/api/auth/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-request-id': 'req-42' },
+      body: JSON.stringify({ email: 'user@example.com', password: 'Password123' })
+    }));
+
+    expect(response.status).toBe(401);
+    expect(error).toHaveBeenCalledWith('Login error', { requestId: 'req-42', error: expect.any(Error) });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { MemoryAdapter } from '../src/adapters';
+import { createSession, loginUser, registerUser, revokeAllSessions } from '../src/core/auth';
+import { getServerSession } from '../src/core/session';
+import { NextAuthSimpleConfig } from '../src/core/types';
+import { assignRoleToUser, checkUserPermission, createRole, deleteRole } from '../src/features/rbac';
+import { NextAuthSimpleConfigWithRbac } from '../src/features/rbac/types';
+
+const cookieJar = new Map<string, string>();
+let readOnlyCookies = false;
+
+// Mock dependencies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: (name: string) => cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined,
+    set: ({ name, value }: { name: string; value: string }) => {
+      // Server Components cannot set cookies
+      if (readOnlyCookies) {
+        throw new Error('Cookies can only be modified in a Server Action or Route Handler');
+      }
+      cookieJar.set(name, value);
+    },
+    delete: (name: string) => cookieJar.delete(name)
+  }))
+}));
+
+describe('Memory Adapter', () => {
+  let config: NextAuthSimpleConfig;
+
+  beforeEach(() => {
+    cookieJar.clear();
+    readOnlyCookies = false;
+    config = {
+      secret: 'test-secret',
+      adapter: new MemoryAdapter(),
+      security: { bcryptWorkFactor: 4, rateLimit: { enabled: false } }
+    };
+  });
+
+  it('should run a complete sign-up, sign-in and sign-out flow', async () => {
+    const registered = await registerUser({ email: 'Test@Example.com', password: 'Password123' }, config);
+    expect(registered.success).toBe(true);
+
+    const duplicate = await registerUser({ email: 'test@example.com', password: 'Password123' }, config);
+    expect(duplicate.success).toBe(false);
+
+    expect((await loginUser({ email: 'test@example.com', password: 'wrong' }, config)).success).toBe(false);
+
+    const login = await loginUser({ email: 'test@example.com', password: 'Password123' }, config);
+    expect(login.success).toBe(true);
+
+    await createSession(login.userId!, config);
+
+    const session = await getServerSession(config);
+    expect(session?.user.email).toBe('test@example.com');
+    expect(session?.user).not.toHaveProperty('password');
+
+    await revokeAllSessions(login.userId!, config);
+    expect(await getServerSession(config)).toBeNull();
+  });
+
+  it('should only extend rolling sessions once the cookie is re-issued', async () => {
+    const rollingConfig: NextAuthSimpleConfig = { ...config, session: { rolling: true } };
+    const { user } = await registerUser({ email: 'test@example.com', password: 'Password123' }, rollingConfig);
+    const session = await createSession(user!.id, rollingConfig);
+
+    // Past the renewal threshold
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    await config.adapter!.updateSession(session.id, { expiresAt });
+
+    readOnlyCookies = true;
+    expect((await getServerSession(rollingConfig))?.expiresAt).toEqual(expiresAt);
+    const stored = async () => (await config.adapter!.listSessions(user!.id)).find(({ id }) => id === session.id);
+    expect((await stored())?.expiresAt).toEqual(expiresAt);
+
+    readOnlyCookies = false;
+    const renewed = await getServerSession(rollingConfig);
+    expect(renewed!.expiresAt.getTime()).toBeGreaterThan(expiresAt.getTime());
+    expect((await stored())?.expiresAt).toEqual(renewed!.expiresAt);
+  });
+
+  it('should store feature data such as roles and assignments', async () => {
+    const rbacConfig: NextAuthSimpleConfigWithRbac = {
+      ...config,
+      features: { rbac: { enabled: true, cachePermissions: false } }
+    };
+
+    const { user } = await registerUser({ email: 'editor@example.com', password: 'Password123' }, config);
+    const userId = user!.id;
+    const { role } = await createRole({ name: 'editor', permissions: ['posts:write'] }, rbacConfig);
+    expect((await createRole({ name: 'editor', permissions: [] }, rbacConfig)).success).toBe(false);
+
+    await assignRoleToUser({ userId, roleId: role!.id }, rbacConfig);
+    expect((await checkUserPermission({ userId, permission: 'posts:write' }, rbacConfig)).hasPermission).toBe(true);
+
+    await deleteRole(role!.id, rbacConfig);
+    expect((await checkUserPermission({ userId, permission: 'posts:write' }, rbacConfig)).hasPermission).toBe(false);
+  });
+
+  it('should return copies so callers cannot change stored rows', async () => {
+    const adapter = new MemoryAdapter();
+    const now = new Date();
+    await adapter.createUser({ id: 'user-1', email: 'a@b.com', password: 'hash', createdAt: now, updatedAt: now });
+
+    const user = await adapter.getUser('user-1');
+    user!.email = 'changed@b.com';
+
+    expect((await adapter.getUser('user-1'))!.email).toBe('a@b.com');
+    await expect(adapter.createUser({ id: 'user-2', email: 'a@b.com', password: 'hash', createdAt: now, updatedAt: now }))
+      .rejects.toThrow('Duplicate value for email');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { sql } from 'drizzle-orm';
+import { getTableConfig, type SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { applyMigrations, getBundledTables, getMigrations } from '../src/db';
+import { createSqliteClient } from '../src/db/sqlite';
+import { DrizzleRateLimitStore } from '../src/core/rate-limit';
+import { DrizzleRevocationStore } from '../src/core/revocation';
+
+const allFeatures = {
+  twoFactor: { enabled: true },
+  magicUrl: { enabled: true },
+  social: { enabled: true },
+  passwordReset: { enabled: true },
+  rbac: { enabled: true },
+  passkeys: { enabled: true },
+  verification: { enabled: true },
+  audit: { enabled: true }
+};
+
+function sqliteConfig(client: any, features: Record<string, { enabled: boolean }> = {}) {
+  const tables = getBundledTables('sqlite');
+  return { db: { client, dialect: 'sqlite', tables }, features } as any;
+}
+
+describe('Migrations', () => {
+  it('should only include the migrations of enabled features', () => {
+    expect(getMigrations({} as any).map(migration => migration.id)).toEqual([
+      'core/0001_create_users_and_sessions',
+      'core/0004_add_session_metadata_columns'
+    ]);
+
+    const ids = getMigrations({ security: { lockout: { enabled: true } }, features: allFeatures } as any).map(migration => migration.id);
+    expect(ids).toEqual([
+      'core/0001_create_users_and_sessions',
+      'core/0004_add_session_metadata_columns',
+      'lockout/0001_create_account_lockouts',
+      'twoFactor/0001_create_two_factor_tables',
+      'magicUrl/0001_create_magic_url_tokens',
+      'social/0001_create_social_accounts',
+      'passwordReset/0001_create_password_reset_tokens',
+      'rbac/0001_create_roles',
+      'passkeys/0001_create_webauthn_tables',
+      'verification/0001_create_verification_tables',
+      'audit/0001_create_audit_logs'
+    ]);
+  });
+
+  // Released migrations must not change; add a new version instead
+  it.each(['postgres', 'sqlite', 'mysql'])('should render stable %s statements', dialect => {
+    const config = { db: { dialect }, security: { lockout: { enabled: true } }, features: allFeatures } as any;
+    expect(getMigrations(config)).toMatchSnapshot();
+  });
+
+  it('should apply pending migrations once and record them', async () => {
+    const client = createSqliteClient(':memory:');
+
+    const first = await applyMigrations(sqliteConfig(client, { twoFactor: { enabled: true } }));
+    expect(first).toEqual({
+      success: true,
+      applied: [
+        'core/0001_create_users_and_sessions',
+        'core/0004_add_session_metadata_columns',
+        'twoFactor/0001_create_two_factor_tables'
+      ]
+    });
+
+    expect(await applyMigrations(sqliteConfig(client, { twoFactor: { enabled: true } }))).toEqual({ success: true, applied: [] });
+
+    // Enabling a feature later only applies its own migration
+    const second = await applyMigrations(sqliteConfig(client, { twoFactor: { enabled: true }, audit: { enabled: true } }));
+    expect(second.applied).toEqual(['audit/0001_create_audit_logs']);
+
+    const tables = getBundledTables('sqlite');
+    const rows = await client.select().from(tables.migrations);
+    expect(rows.map(row => row.id).sort()).toEqual([
+      'audit/0001_create_audit_logs',
+      'core/0001_create_users_and_sessions',
+      'core/0004_add_session_metadata_columns',
+      'twoFactor/0001_create_two_factor_tables'
+    ]);
+
+    const indexes = await client.all<{ name: string }>(sql`SELECT name FROM sqlite_master WHERE type = 'index' AND name LIKE '%_idx'`);
+    expect(indexes.map(index => index.name)).toEqual(expect.arrayContaining([
+      'sessions_user_id_idx',
+      'two_factor_challenges_token_idx',
+      'audit_logs_created_at_idx'
+    ]));
+  });
+
+  it('should stop at the first failing migration without recording it', async () => {
+    const client = createSqliteClient(':memory:');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    // An index squatting on a table name makes the two-factor migration fail
+    await client.run(sql`CREATE TABLE legacy (id TEXT)`);
+    await client.run(sql`CREATE INDEX two_factor_challenges ON legacy (id)`);
+
+    const result = await applyMigrations(sqliteConfig(client, { twoFactor: { enabled: true }, audit: { enabled: true } }));
+    consoleError.mockRestore();
+
+    expect(result).toEqual({
+      success: false,
+      applied: ['core/0001_create_users_and_sessions', 'core/0004_add_session_metadata_columns'],
+      error: 'Failed to apply migration twoFactor/0001_create_two_factor_tables'
+    });
+
+    const rows = await client.select().from(getBundledTables('sqlite').migrations);
+    expect(rows.map(row => row.id)).toEqual(['core/0001_create_users_and_sessions', 'core/0004_add_session_metadata_columns']);
+  });
+
+  it('should add the session columns missing from tables created by earlier versions', async () => {
+    const client = createSqliteClient(':memory:');
+
+    await client.run(sql`CREATE TABLE users (id TEXT PRIMARY KEY NOT NULL, email TEXT NOT NULL UNIQUE, password TEXT NOT NULL, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL)`);
+    await client.run(sql`CREATE TABLE sessions (id TEXT PRIMARY KEY NOT NULL, user_id TEXT NOT NULL, token TEXT NOT NULL UNIQUE, expires_at INTEGER NOT NULL, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL)`);
+    await client.run(sql`INSERT INTO sessions VALUES ('s1', 'u1', 'digest', 0, 0, 0)`);
+
+    expect((await applyMigrations(sqliteConfig(client))).success).toBe(true);
+
+    const rows = await client.select().from(getBundledTables('sqlite').sessions);
+    expect(rows).toEqual([expect.objectContaining({ id: 's1', ipAddress: null, lastActiveAt: null, twoFactorVerified: false })]);
+  });
+
+  it('should leave the frozen migrations in line with the table definitions', async () => {
+    const client = createSqliteClient(':memory:');
+    const tables = getBundledTables('sqlite');
+    const config = sqliteConfig(client, allFeatures);
+    config.security = {
+      lockout: { enabled: true },
+      rateLimit: { store: new DrizzleRateLimitStore(client, tables.rateLimits) }
+    };
+    config.session = { jwt: { revocationStore: new DrizzleRevocationStore(client, tables.revokedSessions) } };
+    expect((await applyMigrations(config)).success).toBe(true);
+
+    for (const table of Object.values(tables)) {
+      const { name, columns } = getTableConfig(table as SQLiteTable);
+      const applied = await client.all<{ name: string }>(sql.raw(`PRAGMA table_info("${name}")`));
+      expect(applied.map(column => column.name).sort()).toEqual(columns.map(column => column.name).sort());
+    }
+  });
+
+  it('should skip migrations when a custom adapter manages storage', async () => {
+    expect(await applyMigrations({} as any)).toEqual({ success: true, applied: [] });
+  });
+});
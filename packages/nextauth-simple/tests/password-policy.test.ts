@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import crypto from 'crypto';
+import { MemoryAdapter } from '../src/adapters';
+import { changePassword, createSession, loginUser, registerUser } from '../src/core/auth';
+import { checkPasswordPolicy } from '../src/core/password-policy';
+import { NextAuthSimpleConfig } from '../src/core/types';
+
+const cookieJar = new Map<string, string>();
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: (name: string) => cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined,
+    set: ({ name, value }: { name: string; value: string }) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name)
+  }))
+}));
+
+const sha1 = (password: string) => crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+
+describe('Password Policy', () => {
+  it('should only check the length by default', async () => {
+    expect(await checkPasswordPolicy('abcdefgh', {})).toEqual({ valid: true, failures: [] });
+    expect((await checkPasswordPolicy('short', {})).failures).toEqual([
+      { rule: 'minLength', code: 'PASSWORD_TOO_SHORT', limit: 8, message: 'Password must be at least 8 characters long' }
+    ]);
+    expect((await checkPasswordPolicy('a'.repeat(129), {})).failures.map(failure => failure.rule)).toEqual(['maxLength']);
+  });
+
+  it('should report every failed rule', async () => {
+    const { valid, failures } = await checkPasswordPolicy('alice', {
+      minLength: 10,
+      requireUppercase: true,
+      requireDigit: true,
+      requireSymbol: true,
+      disallowEmail: true
+    }, { email: 'alice@example.com' });
+
+    expect(valid).toBe(false);
+    expect(failures.map(failure => failure.rule)).toEqual(['minLength', 'uppercase', 'digit', 'symbol', 'email']);
+  });
+
+  it('should accept passwords satisfying character classes', async () => {
+    const policy = { requireLowercase: true, requireUppercase: true, requireDigit: true, requireSymbol: true };
+
+    expect((await checkPasswordPolicy('Tr0ub4dor&3', policy)).valid).toBe(true);
+    expect((await checkPasswordPolicy('TR0UB4DOR&3', policy)).failures.map(failure => failure.rule)).toEqual(['lowercase']);
+  });
+
+  it('should reject common passwords from the bundled and custom dictionaries', async () => {
+    const policy = { disallowCommon: true, commonPasswords: ['CorrectHorse'] };
+
+    expect((await checkPasswordPolicy('Password1', policy)).failures.map(failure => failure.rule)).toEqual(['common']);
+    expect((await checkPasswordPolicy('correcthorse', policy)).failures.map(failure => failure.rule)).toEqual(['common']);
+    expect((await checkPasswordPolicy('Liverpool1', policy)).failures.map(failure => failure.rule)).toEqual(['common']);
+    expect((await checkPasswordPolicy('Password1', {})).valid).toBe(true);
+  });
+
+  it('should take failure messages from the locale table', async () => {
+    const config = {
+      errors: {
+        locale: 'de',
+        messages: { de: { PASSWORD_TOO_SHORT: 'Mindestens {limit} Zeichen', PASSWORD_NO_DIGIT: 'Mindestens eine Ziffer' } }
+      }
+    };
+
+    expect((await checkPasswordPolicy('kurz', { requireDigit: true, requireSymbol: true }, {}, config)).failures).toEqual([
+      { rule: 'minLength', code: 'PASSWORD_TOO_SHORT', limit: 8, message: 'Mindestens 8 Zeichen' },
+      { rule: 'digit', code: 'PASSWORD_NO_DIGIT', message: 'Mindestens eine Ziffer' },
+      { rule: 'symbol', code: 'PASSWORD_NO_SYMBOL', message: 'Password must contain a symbol' }
+    ]);
+  });
+
+  it('should reject breached passwords by SHA-1 digest', async () => {
+    const breached = new Set([sha1('Summer2019!')]);
+
+    expect((await checkPasswordPolicy('Summer2019!', { breachedPasswords: breached })).failures.map(failure => failure.rule)).toEqual(['breached']);
+    expect((await checkPasswordPolicy('Winter2019!', { breachedPasswords: breached })).valid).toBe(true);
+
+    const lookup = jest.fn(async (digest: string) => breached.has(digest));
+    expect((await checkPasswordPolicy('Summer2019!', { breachedPasswords: lookup })).valid).toBe(false);
+    expect(lookup).toHaveBeenCalledWith(sha1('Summer2019!'));
+  });
+
+  describe('with the auth functions', () => {
+    let config: NextAuthSimpleConfig;
+
+    beforeEach(() => {
+      cookieJar.clear();
+      config = {
+        secret: 'test-secret',
+        adapter: new MemoryAdapter(),
+        security: {
+          bcryptWorkFactor: 4,
+          rateLimit: { enabled: false },
+          passwordPolicy: { minLength: 10, requireDigit: true, disallowEmail: true }
+        }
+      };
+    });
+
+    it('should return policy failures from registerUser', async () => {
+      const result = await registerUser({ email: 'alice@example.com', password: 'alice-secret' }, config);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Password must contain a digit');
+      expect(result.passwordPolicyFailures?.map(failure => failure.rule)).toEqual(['digit', 'email']);
+    });
+
+    it('should change the password and sign out other sessions', async () => {
+      const registered = await registerUser({ email: 'bob@example.com', password: 'Correct-horse-1' }, config);
+      const userId = registered.user!.id;
+
+      // Sign in elsewhere, then again here; the jar keeps the current cookie
+      await createSession(userId, config);
+      await createSession(userId, config);
+
+      const wrong = await changePassword({ userId, currentPassword: 'wrong', newPassword: 'Battery-staple-2' }, config);
+      expect(wrong).toEqual({ success: false, code: 'INVALID_CREDENTIALS', error: 'Current password is incorrect' });
+
+      const weak = await changePassword({ userId, currentPassword: 'Correct-horse-1', newPassword: 'short' }, config);
+      expect(weak.success).toBe(false);
+      expect(weak.passwordPolicyFailures?.map(failure => failure.rule)).toEqual(['minLength', 'digit']);
+
+      const changed = await changePassword({ userId, currentPassword: 'Correct-horse-1', newPassword: 'Battery-staple-2' }, config);
+      expect(changed.success).toBe(true);
+
+      // Only the current session remains
+      expect(await (config.adapter as MemoryAdapter).listSessions(userId)).toHaveLength(1);
+
+      expect((await loginUser({ email: 'bob@example.com', password: 'Correct-horse-1' }, config)).success).toBe(false);
+      expect((await loginUser({ email: 'bob@example.com', password: 'Battery-staple-2' }, config)).success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { MemoryAdapter } from '../src/adapters';
+import { Argon2idHasher } from '../src/core/argon2';
+import { loginUser } from '../src/core/auth';
+import { BcryptHasher, Pbkdf2Hasher, ScryptHasher, checkPasswordHashing, hashPassword, verifyPassword } from '../src/core/password';
+import { NextAuthSimpleConfig, PasswordHasher } from '../src/core/types';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({ get: jest.fn(), set: jest.fn(), delete: jest.fn() }))
+}));
+
+// Low work factors keep the tests fast
+const bcrypt = new BcryptHasher({ workFactor: 4 });
+const scrypt = new ScryptHasher({ cost: 10 });
+const argon2id = new Argon2idHasher({ memoryCost: 1024, timeCost: 2 });
+const pbkdf2 = new Pbkdf2Hasher({ iterations: 1000 });
+
+describe('Password Hashing', () => {
+  it.each([bcrypt, scrypt, argon2id, pbkdf2])('should hash and verify with $algorithm', async hasher => {
+    const hash = await hasher.hash('correct horse');
+
+    expect(hasher.identifies(hash)).toBe(true);
+    expect(hasher.needsRehash(hash)).toBe(false);
+    expect(await hasher.verify('correct horse', hash)).toBe(true);
+    expect(await hasher.verify('wrong horse', hash)).toBe(false);
+  });
+
+  it('should produce self-describing hash strings', async () => {
+    expect(await bcrypt.hash('secret')).toMatch(/^\$2[aby]\$04\$/);
+    expect(await scrypt.hash('secret')).toMatch(/^\$scrypt\$ln=10,r=8,p=1\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
+    expect(await argon2id.hash('secret')).toMatch(/^\$argon2id\$v=19\$m=1024,t=2,p=1\$/);
+    expect(await pbkdf2.hash('secret')).toMatch(/^\$pbkdf2-sha256\$i=1000\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
+  });
+
+  it('should flag hashes with other work factors', async () => {
+    const hash = await scrypt.hash('secret');
+
+    expect(new ScryptHasher({ cost: 11 }).needsRehash(hash)).toBe(true);
+    expect(new BcryptHasher({ workFactor: 5 }).needsRehash(await bcrypt.hash('secret'))).toBe(true);
+    expect(new Argon2idHasher({ memoryCost: 2048, timeCost: 2 }).needsRehash(await argon2id.hash('secret'))).toBe(true);
+  });
+
+  it('should verify hashes of legacy algorithms and request a rehash', async () => {
+    const config: NextAuthSimpleConfig = { security: { passwordHasher: scrypt } };
+
+    expect(await verifyPassword('secret', await bcrypt.hash('secret'), config)).toEqual({ valid: true, needsRehash: true });
+    expect(await verifyPassword('secret', await scrypt.hash('secret'), config)).toEqual({ valid: true, needsRehash: false });
+    expect(await verifyPassword('wrong', await bcrypt.hash('secret'), config)).toEqual({ valid: false, needsRehash: false });
+
+    // Algorithms that are neither configured nor legacy are never trusted
+    expect(await verifyPassword('secret', await argon2id.hash('secret'), config)).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it('should upgrade outdated hashes on login', async () => {
+    const adapter = new MemoryAdapter();
+    const now = new Date();
+    await adapter.createUser({ id: 'user-1', email: 'a@b.com', password: await bcrypt.hash('Password123'), createdAt: now, updatedAt: now });
+
+    const config: NextAuthSimpleConfig = {
+      adapter,
+      security: { passwordHasher: argon2id, rateLimit: { enabled: false } }
+    };
+
+    expect((await loginUser({ email: 'a@b.com', password: 'Password123' }, config)).success).toBe(true);
+
+    const upgraded = (await adapter.getUser('user-1'))!.password;
+    expect(upgraded).toMatch(/^\$argon2id\$/);
+
+    // The upgraded hash keeps working and is not replaced again
+    expect((await loginUser({ email: 'a@b.com', password: 'Password123' }, config)).success).toBe(true);
+    expect((await adapter.getUser('user-1'))!.password).toBe(upgraded);
+
+    expect(await hashPassword('Password123', config)).toMatch(/^\$argon2id\$/);
+  });
+
+  it('should upgrade legacy browser-hash digests on login', async () => {
+    const adapter = new MemoryAdapter();
+    const now = new Date();
+    // Unsalted SHA-256 of 'Password123', as written by earlier versions without bcrypt
+    const legacy = 'browser-hash:008c70392e3abfbd0fa47bbc2ed96aa99bd49e159727fcba0f2e6abeb3a9d601';
+    await adapter.createUser({ id: 'user-1', email: 'a@b.com', password: legacy, createdAt: now, updatedAt: now });
+
+    const config: NextAuthSimpleConfig = { adapter, security: { passwordHasher: pbkdf2, rateLimit: { enabled: false } } };
+
+    expect((await loginUser({ email: 'a@b.com', password: 'wrong' }, config)).success).toBe(false);
+    expect((await adapter.getUser('user-1'))!.password).toBe(legacy);
+
+    expect((await loginUser({ email: 'a@b.com', password: 'Password123' }, config)).success).toBe(true);
+    expect((await adapter.getUser('user-1'))!.password).toMatch(/^\$pbkdf2-sha256\$/);
+  });
+
+  describe('in production', () => {
+    const env = process.env.NODE_ENV;
+
+    beforeEach(() => {
+      process.env.NODE_ENV = 'production';
+    });
+
+    afterEach(() => {
+      process.env.NODE_ENV = env;
+    });
+
+    it('should refuse to hash with weak work factors', async () => {
+      const config: NextAuthSimpleConfig = { security: { passwordHasher: bcrypt } };
+
+      await expect(hashPassword('secret', config)).rejects.toThrow('Refusing to store a weak bcrypt password hash');
+      expect(await checkPasswordHashing(config)).toEqual({
+        success: false,
+        code: 'CONFIGURATION_ERROR',
+        error: 'Password hasher bcrypt is below the minimum work factors'
+      });
+    });
+
+    it('should accept the default work factors', async () => {
+      expect(await checkPasswordHashing({ security: { passwordHasher: new Pbkdf2Hasher() } })).toEqual({ success: true });
+      expect(await checkPasswordHashing({ security: { passwordHasher: new Argon2idHasher() } })).toEqual({ success: true });
+    });
+
+    it('should accept hashes of custom hashers', async () => {
+      const custom: PasswordHasher = {
+        algorithm: 'custom',
+        hash: async password => `$custom$${password.length}`,
+        verify: async () => true,
+        identifies: hash => hash.startsWith('$custom$'),
+        needsRehash: () => false
+      };
+
+      expect(await hashPassword('secret', { security: { passwordHasher: custom } })).toBe('$custom$6');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { NextRequest } from 'next/server';
+import { MemoryAdapter } from '../src/adapters';
+import { registerUser } from '../src/core/auth';
+import { createAuthHandlers } from '../src/core/handlers';
+import { PluginConfigSchema, definePlugin, validatePlugins } from '../src/core/plugins';
+import { applyMigrations, getBundledTables, getMigrations } from '../src/db';
+import { createSqliteClient } from '../src/db/sqlite';
+import { users } from '../src/db/sqlite-schema';
+import { integrateFeatures } from '../src/features';
+import { initializeNextAuthSimple } from '../src';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({ get: jest.fn(), set: jest.fn(), delete: jest.fn() }))
+}));
+
+interface SsoOptions {
+  issuer: string;
+}
+
+// Minimal Standard Schema validator, as a schema library would provide
+const ssoOptionsSchema: PluginConfigSchema<SsoOptions> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value: any) => typeof value?.issuer === 'string' && value.issuer.startsWith('https://')
+      ? { value }
+      : { issues: [{ message: 'Expected an https URL', path: ['issuer'] }] }
+  }
+};
+
+const ssoLinks = sqliteTable('sso_links', {
+  userId: text('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  subject: text('subject').notNull().unique()
+});
+
+const linkedUsers: string[] = [];
+
+const ssoBridge = definePlugin<SsoOptions>({
+  id: 'ssoBridge',
+  configSchema: ssoOptionsSchema,
+  tables: { sqlite: { ssoLinks } },
+  migrations: [{ id: 'ssoBridge/0001_create_sso_links', tables: ['ssoLinks'] }],
+  hooks: {
+    postRegistration: [({ user }, config, options) => {
+      linkedUsers.push(`${options.issuer}#${user.email}`);
+    }]
+  },
+  routes: [{
+    method: 'GET',
+    path: 'sso/:provider',
+    handle: async ({ params, options }) => Response.json({ provider: params.provider, issuer: options.issuer })
+  }]
+});
+
+describe('Plugins', () => {
+  it('should reject malformed definitions', () => {
+    expect(() => definePlugin({ id: 'sso bridge' })).toThrow('Invalid plugin id');
+    expect(() => definePlugin({ id: 'sso', migrations: [{ id: 'other/0001_x' }] })).toThrow('must start with "sso/"');
+    expect(() => definePlugin({ id: 'sso', migrations: [{ id: 'sso/0001_x', tables: ['missing'] }] })).toThrow('unknown table missing');
+  });
+
+  it('should validate options and registrations', async () => {
+    expect(await validatePlugins({ plugins: [ssoBridge({ issuer: 'https://sso.example.com' })] })).toEqual({ valid: true, errors: [] });
+
+    const invalid = await validatePlugins({
+      db: { client: {} as any, dialect: 'mysql', tables: {} as any },
+      plugins: [ssoBridge({ issuer: 'http://sso.example.com' }), ssoBridge({ issuer: 'https://sso.example.com' })]
+    });
+    expect(invalid.errors).toEqual([
+      'Plugin ssoBridge has no tables for mysql',
+      'Plugin ssoBridge: issuer: Expected an https URL',
+      'Plugin ssoBridge is registered more than once'
+    ]);
+
+    const result = await initializeNextAuthSimple({ adapter: new MemoryAdapter(), plugins: [ssoBridge({ issuer: 'ftp://x' })] });
+    expect(result).toEqual({
+      success: false,
+      code: 'CONFIGURATION_ERROR',
+      error: 'Plugin validation failed: Plugin ssoBridge: issuer: Expected an https URL'
+    });
+  });
+
+  it('should apply plugin migrations after the built-in ones', async () => {
+    const client = createSqliteClient(':memory:');
+    const config = {
+      db: { client, dialect: 'sqlite' as const, tables: getBundledTables('sqlite') as any },
+      plugins: [ssoBridge({ issuer: 'https://sso.example.com' })]
+    };
+
+    expect(getMigrations(config).map(migration => migration.id)).toEqual([
+      'core/0001_create_users_and_sessions',
+      'core/0004_add_session_metadata_columns',
+      'ssoBridge/0001_create_sso_links'
+    ]);
+    expect(getMigrations(config)[2].statements[0]).toContain('CREATE TABLE IF NOT EXISTS "sso_links"');
+
+    expect(await applyMigrations(config)).toEqual({
+      success: true,
+      applied: ['core/0001_create_users_and_sessions', 'core/0004_add_session_metadata_columns', 'ssoBridge/0001_create_sso_links']
+    });
+    expect(await applyMigrations(config)).toEqual({ success: true, applied: [] });
+  });
+
+  it('should run plugin hooks with the plugin options', async () => {
+    const config = integrateFeatures({
+      adapter: new MemoryAdapter(),
+      security: { bcryptWorkFactor: 4, rateLimit: { enabled: false } },
+      plugins: [ssoBridge({ issuer: 'https://sso.example.com' })]
+    });
+
+    await registerUser({ email: 'new@example.com', password: 'Password123' }, config);
+    expect(linkedUsers).toEqual(['https://sso.example.com#new@example.com']);
+  });
+
+  it('should serve plugin routes after the built-in routes', async () => {
+    const { GET } = createAuthHandlers({ adapter: new MemoryAdapter(), plugins: [ssoBridge({ issuer: 'https://sso.example.com' })] });
+
+    const response = await GET(new NextRequest('https://example.com/api/auth/sso/okta'));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ provider: 'okta', issuer: 'https://sso.example.com' });
+
+    expect((await GET(new NextRequest('https://example.com/api/auth/sso'))).status).toBe(404);
+  });
+
+  it('should pass the options returned by the config schema to routes', async () => {
+    const audit = definePlugin<{ retentionDays?: number }>({
+      id: 'audit',
+      configSchema: {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: (value: any) => ({ value: { retentionDays: 30, ...value } })
+        }
+      },
+      routes: [{ method: 'GET', path: 'audit/options', handle: async ({ options }) => Response.json(options) }]
+    });
+    const config = { adapter: new MemoryAdapter(), plugins: [audit({})] };
+
+    expect(await validatePlugins(config)).toEqual({ valid: true, errors: [] });
+
+    const { GET } = createAuthHandlers(config);
+    const response = await GET(new NextRequest('https://example.com/api/auth/audit/options'));
+    expect(await response.json()).toEqual({ retentionDays: 30 });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import bcrypt from 'bcrypt';
+import { loginUser } from '../src/core/auth';
+import { DrizzleRateLimitStore, MemoryRateLimitStore, checkRateLimit, getClientIp, getRateLimitKeys } from '../src/core/rate-limit';
+import { applyMigrations, getBundledTables } from '../src/db';
+import { createSqliteClient } from '../src/db/sqlite';
+
+// Mock dependencies
+jest.mock('bcrypt');
+jest.mock('next/headers', () => ({
+  cookies: jest.fn().mockReturnValue({
+    set: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn()
+  })
+}));
+
+describe('Rate Limiting', () => {
+  let store: MemoryRateLimitStore;
+
+  // Mock config
+  const createConfig = () => ({
+    db: {
+      client: {
+        select: jest.fn().mockReturnThis(),
+        from: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        insert: jest.fn().mockReturnThis(),
+        values: jest.fn().mockReturnThis(),
+        execute: jest.fn()
+      },
+      tables: {
+        users: { email: {} },
+        sessions: {}
+      }
+    },
+    security: {
+      rateLimit: {
+        maxAttempts: 3,
+        windowMs: 60 * 1000,
+        store
+      }
+    }
+  }) as any;
+
+  const mockUser = {
+    id: '123',
+    email: 'test@example.com',
+    password: '$2b$12$R9h/cIPz0gi.URNNX3kh2OPST9/PgBkqquzi.Ss7KIUgO2t0jWMUW'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new MemoryRateLimitStore();
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    it('should count attempts within a window', async () => {
+      await store.increment('key', 60 * 1000);
+      const entry = await store.increment('key', 60 * 1000);
+
+      expect(entry.count).toBe(2);
+      expect((await store.get('key'))?.count).toBe(2);
+    });
+
+    it('should forget counters once the window has elapsed', async () => {
+      await store.increment('key', -1);
+
+      expect(await store.get('key')).toBeNull();
+    });
+  });
+
+  describe('DrizzleRateLimitStore', () => {
+    const createStore = async () => {
+      const client = createSqliteClient(':memory:');
+      const drizzleStore = new DrizzleRateLimitStore(client, getBundledTables('sqlite').rateLimits);
+      await applyMigrations({ db: { client, dialect: 'sqlite', tables: getBundledTables('sqlite') }, security: { rateLimit: { store: drizzleStore } } } as any);
+      return drizzleStore;
+    };
+
+    it('should count concurrent attempts without losing any', async () => {
+      const drizzleStore = await createStore();
+
+      await Promise.all(Array.from({ length: 5 }, () => drizzleStore.increment('key', 60 * 1000)));
+
+      expect((await drizzleStore.get('key'))?.count).toBe(5);
+    });
+
+    it('should restart the counter once the window has elapsed', async () => {
+      const drizzleStore = await createStore();
+
+      await drizzleStore.increment('key', -1000);
+      const entry = await drizzleStore.increment('key', 60 * 1000);
+
+      expect(entry.count).toBe(1);
+      expect(entry.resetAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('getClientIp', () => {
+    const request = (headers: Record<string, string>, ip?: string) => ({ headers: new Headers(headers), ip }) as any;
+
+    it('should ignore forwarding headers unless proxies are trusted', () => {
+      const req = request({ 'x-forwarded-for': '6.6.6.6', 'x-real-ip': '6.6.6.6' }, '10.0.0.1');
+
+      expect(getClientIp(req, {} as any)).toBe('10.0.0.1');
+    });
+
+    it('should read the client entry behind the trusted proxies', () => {
+      const req = request({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7, 10.0.0.2' });
+
+      expect(getClientIp(req, { security: { trustedProxies: 2 } } as any)).toBe('203.0.113.7');
+      expect(getClientIp(req, { security: { trustedProxies: 5 } } as any)).toBe('6.6.6.6');
+    });
+  });
+
+  describe('loginUser', () => {
+    it('should reject attempts after too many failures for the same email', async () => {
+      const config = createConfig();
+      config.db.client.execute.mockResolvedValue([mockUser] as never);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(false as never);
+
+      for (let i = 0; i < 3; i++) {
+        const result = await loginUser({ email: 'test@example.com', password: 'wrong' }, config);
+        expect(result.error).toBe('Invalid email or password');
+      }
+
+      const result = await loginUser({ email: 'Test@Example.com', password: 'wrong' }, config);
+
+      expect(result.success).toBe(false);
+      expect(result.rateLimited).toBe(true);
+      expect(result.retryAfter).toBeGreaterThan(0);
+      expect(bcrypt.compare).toHaveBeenCalledTimes(3);
+    });
+
+    it('should limit concurrent failed attempts before verifying them', async () => {
+      const config = createConfig();
+      config.db.client.execute.mockResolvedValue([mockUser] as never);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(false as never);
+
+      const results = await Promise.all(
+        Array.from({ length: 8 }, () => loginUser({ email: 'test@example.com', password: 'wrong' }, config))
+      );
+
+      expect(results.filter(result => result.rateLimited)).toHaveLength(5);
+      expect(bcrypt.compare).toHaveBeenCalledTimes(3);
+    });
+
+    it('should clear the email counter after a successful login', async () => {
+      const config = createConfig();
+      config.db.client.execute.mockResolvedValue([mockUser] as never);
+      (bcrypt.compare as jest.Mock)
+        .mockResolvedValueOnce(false as never)
+        .mockResolvedValueOnce(false as never)
+        .mockResolvedValueOnce(true as never);
+
+      await loginUser({ email: 'test@example.com', password: 'wrong' }, config);
+      await loginUser({ email: 'test@example.com', password: 'wrong' }, config);
+      const result = await loginUser({ email: 'test@example.com', password: 'right' }, config);
+
+      expect(result.success).toBe(true);
+      const keys = getRateLimitKeys('login', { email: 'test@example.com' });
+      expect(await checkRateLimit(keys, config)).toEqual({ limited: false });
+      expect(await store.get(keys[0])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { authMiddleware } from '../src/core/middleware';
+import { evaluateRouteRule, findRouteRule } from '../src/core/routes';
+import { createSessionHint } from '../src/core/session-hint';
+
+describe('Route Rules', () => {
+  const routes = [
+    { path: '/admin', roles: ['admin'] },
+    { path: /^\/billing/, permissions: ['billing:read', 'billing:write'] },
+    { path: '/settings/security', twoFactorVerified: true },
+    { path: '/docs', authenticated: false }
+  ];
+
+  const claims = { userId: 'user-123', sessionId: 'session-123' };
+
+  it('should use the first matching rule', () => {
+    expect(findRouteRule('/admin/users', routes)?.roles).toEqual(['admin']);
+    expect(findRouteRule('/administrator', routes)).toBeNull();
+    expect(findRouteRule('/billing/invoices', routes)?.permissions).toHaveLength(2);
+  });
+
+  it('should evaluate requirements against session claims', () => {
+    expect(evaluateRouteRule(routes[0], null)).toBe('unauthenticated');
+    expect(evaluateRouteRule(routes[0], { ...claims, roles: ['editor'] })).toBe('forbidden');
+    expect(evaluateRouteRule(routes[0], { ...claims, roles: ['editor', 'admin'] })).toBe('allowed');
+    expect(evaluateRouteRule(routes[1], { ...claims, permissions: ['billing:read'] })).toBe('forbidden');
+    expect(evaluateRouteRule(routes[1], { ...claims, permissions: ['*'] })).toBe('allowed');
+    expect(evaluateRouteRule(routes[2], { ...claims, twoFactorVerified: true })).toBe('allowed');
+    expect(evaluateRouteRule(routes[3], null)).toBe('allowed');
+  });
+
+  describe('authMiddleware', () => {
+    const config = {
+      secret: 'test-secret',
+      middleware: { strategy: 'hint' as const },
+      routes,
+      authenticatedRedirectUrl: '/dashboard'
+    };
+
+    const session = {
+      id: 'session-123',
+      userId: 'user-123',
+      expiresAt: new Date(Date.now() + 86400000)
+    };
+
+    const request = async (path: string, roles?: string[]) => {
+      const hint = await createSessionHint(session, config, { ...claims, roles });
+      return new NextRequest(`https://example.com${path}`, {
+        headers: { cookie: `nextauth-simple-session=token; nextauth-simple-session-hint=${hint.value}` }
+      });
+    };
+
+    it('should return 403 when the rule denies access', async () => {
+      const response = await authMiddleware(await request('/admin', ['editor']), config);
+      expect(response.status).toBe(403);
+    });
+
+    it('should redirect to forbiddenUrl when configured', async () => {
+      const response = await authMiddleware(await request('/admin', ['editor']), { ...config, forbiddenUrl: '/403' });
+      expect(response.headers.get('location')).toBe('https://example.com/403');
+    });
+
+    it('should allow access when the rule is satisfied', async () => {
+      const response = await authMiddleware(await request('/admin', ['admin']), config);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('location')).toBeNull();
+    });
+
+    it('should redirect signed-in users away from the login page', async () => {
+      const response = await authMiddleware(await request('/login'), config);
+      expect(response.headers.get('location')).toBe('https://example.com/dashboard');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { authMiddleware } from '../src/core/middleware';
+import { createSessionHint, verifySessionHint } from '../src/core/session-hint';
+
+describe('Session Hints', () => {
+  const config = {
+    secret: 'test-secret',
+    middleware: { strategy: 'hint' as const, hintMaxAgeSeconds: 60 }
+  };
+
+  const session = {
+    id: 'session-123',
+    userId: 'user-123',
+    expiresAt: new Date(Date.now() + 86400000)
+  };
+
+  const createRequest = (cookies: Record<string, string>) => new NextRequest('https://example.com/dashboard', {
+    headers: {
+      cookie: Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; ')
+    }
+  });
+
+  it('should issue short-lived hints that verify', async () => {
+    const hint = await createSessionHint(session, config);
+
+    expect(hint.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+
+    const payload = await verifySessionHint(hint.value, config);
+    expect(payload?.sid).toBe('session-123');
+    expect(payload?.sub).toBe('user-123');
+  });
+
+  it('should reject tampered and expired hints', async () => {
+    const hint = await createSessionHint(session, config);
+    const [, signature] = hint.value.split('.');
+    const forged = Buffer.from(JSON.stringify({ sid: 'other', sub: 'admin', exp: 9999999999, kid: 'default' })).toString('base64url');
+
+    expect(await verifySessionHint(`${forged}.${signature}`, config)).toBeNull();
+    expect(await verifySessionHint(hint.value, { ...config, secret: 'other-secret' })).toBeNull();
+
+    const expired = await createSessionHint({ ...session, expiresAt: new Date(Date.now() - 1000) }, config);
+    expect(await verifySessionHint(expired.value, config)).toBeNull();
+  });
+
+  it('should let authMiddleware pass requests with a valid hint without a database', async () => {
+    const hint = await createSessionHint(session, config);
+
+    const response = await authMiddleware(createRequest({
+      'nextauth-simple-session': 'token',
+      ['nextauth-simple-session-hint']: hint.value
+    }), config);
+
+    expect(response.headers.get('location')).toBeNull();
+  });
+
+  describe('session endpoint fallback', () => {
+    const fetchMock = jest.fn(async () => Response.json({ session: { id: 'session-123' }, claims: { userId: 'user-123', sessionId: 'session-123' } }));
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      fetchMock.mockClear();
+    });
+
+    it('should fetch the session from the configured origin, never the Host header', async () => {
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const req = new NextRequest('https://attacker.example/dashboard', { headers: { cookie: 'nextauth-simple-session=token' } });
+
+      const response = await authMiddleware(req, {
+        ...config,
+        middleware: { ...config.middleware, sessionOrigin: 'https://app.example.com' }
+      });
+
+      expect(response.headers.get('location')).toBeNull();
+      expect(String((fetchMock.mock.calls[0] as unknown[])[0])).toBe('https://app.example.com/api/auth/session');
+    });
+
+    it('should treat the request as signed out without a configured origin', async () => {
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const req = new NextRequest('https://attacker.example/dashboard', { headers: { cookie: 'nextauth-simple-session=token' } });
+
+      const response = await authMiddleware(req, { ...config, logger: { debug() {}, info() {}, warn() {}, error() {} } });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(response.headers.get('location')).toContain('/login');
+    });
+  });
+
+  it('should redirect to login without a session cookie', async () => {
+    const hint = await createSessionHint(session, config);
+
+    const response = await authMiddleware(createRequest({ ['nextauth-simple-session-hint']: hint.value }), config);
+
+    expect(response.headers.get('location')).toContain('/login');
+  });
+});
@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { authenticator } from 'otplib';
+import { NextRequest } from 'next/server';
+import { MemoryAdapter } from '../src/adapters';
+import { loginUser, registerUser } from '../src/core/auth';
+import { createAuthHandlers } from '../src/core/handlers';
+import { completeSignIn } from '../src/core/sign-in';
+import { AuthHook, NextAuthSimpleConfig } from '../src/core/types';
+import { verifyMagicUrlToken } from '../src/features/magicUrl';
+import { completeTwoFactorLogin } from '../src/features/twoFactor/auth';
+import { generateTotpSecret } from '../src/features/twoFactor/utils';
+
+const cookieJar = new Map<string, string>();
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: (name: string) => cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined,
+    set: ({ name, value }: { name: string; value: string }) => cookieJar.set(name, value),
+    delete: (cookie: string | { name: string }) => cookieJar.delete(typeof cookie === 'string' ? cookie : cookie.name)
+  }))
+}));
+
+describe('Sign-in pipeline', () => {
+  let adapter: MemoryAdapter;
+  let preLogin: jest.Mock<AuthHook<'preLogin'>>;
+  let config: NextAuthSimpleConfig;
+  let userId: string;
+
+  beforeEach(async () => {
+    adapter = new MemoryAdapter();
+    preLogin = jest.fn<AuthHook<'preLogin'>>();
+    config = {
+      secret: 'test-secret',
+      adapter,
+      security: { bcryptWorkFactor: 4, rateLimit: { enabled: false } },
+      hooks: { preLogin: [preLogin] },
+      features: {
+        magicUrl: { enabled: true, tokenExpiryMinutes: 10 },
+        twoFactor: { enabled: true, issuer: 'Test' }
+      }
+    };
+
+    const { user } = await registerUser({ email: 'user@example.com', password: 'Password123' }, config);
+    userId = user!.id;
+    cookieJar.clear();
+  });
+
+  const enableTwoFactor = async () => {
+    const secret = generateTotpSecret();
+    await adapter.createTwoFactor({
+      userId,
+      secret,
+      enabled: true,
+      backupCodes: null,
+      verifiedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    return secret;
+  };
+
+  it('should issue a session and tell hooks which method was used', async () => {
+    const result = await completeSignIn(userId, { method: 'social' }, config);
+
+    expect(result.success).toBe(true);
+    expect(result.session?.userId).toBe(userId);
+    expect(preLogin).toHaveBeenCalledWith(expect.objectContaining({ method: 'social' }), config);
+    expect(cookieJar.size).toBeGreaterThan(0);
+  });
+
+  it('should require the second factor from every login method', async () => {
+    await enableTwoFactor();
+
+    const password = await loginUser({ email: 'user@example.com', password: 'Password123' }, config);
+    expect(password).toMatchObject({ success: true, twoFactorRequired: true, userId });
+    expect(password.challengeToken).toEqual(expect.any(String));
+    expect(password.session).toBeUndefined();
+
+    await adapter.createMagicUrlToken({
+      id: 'token-1',
+      email: 'user@example.com',
+      token: 'magic-token',
+      expiresAt: new Date(Date.now() + 60_000),
+      createdAt: new Date(),
+      callbackUrl: ''
+    });
+    const magicUrl = await verifyMagicUrlToken({ email: 'user@example.com', token: 'magic-token' }, config as any);
+    expect(magicUrl).toMatchObject({ success: true, twoFactorRequired: true });
+    expect(magicUrl.session).toBeUndefined();
+
+    expect(cookieJar.size).toBe(0);
+  });
+
+  it('should issue the session once the second factor is verified', async () => {
+    const secret = await enableTwoFactor();
+    const { challengeToken } = await loginUser({ email: 'user@example.com', password: 'Password123' }, config);
+
+    // The code alone does not skip the password step
+    const withoutChallenge = await completeTwoFactorLogin(
+      { userId, code: authenticator.generate(secret) } as any,
+      config as any
+    );
+    expect(withoutChallenge).toMatchObject({ success: false, code: 'INVALID_CHALLENGE' });
+    expect(cookieJar.size).toBe(0);
+
+    const result = await completeTwoFactorLogin(
+      { userId, code: authenticator.generate(secret), challengeToken: challengeToken! },
+      config as any
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.session?.userId).toBe(userId);
+    expect(preLogin).toHaveBeenLastCalledWith(expect.objectContaining({ method: 'twoFactor' }), config);
+  });
+
+  it('should keep the challenge of redirect-based sign-ins out of the URL', async () => {
+    const secret = await enableTwoFactor();
+    await adapter.createMagicUrlToken({
+      id: 'token-1',
+      email: 'user@example.com',
+      token: 'magic-token',
+      expiresAt: new Date(Date.now() + 60_000),
+      createdAt: new Date(),
+      callbackUrl: ''
+    });
+    const { GET, POST } = createAuthHandlers({ ...config, csrf: { enabled: false } });
+
+    const redirect = await GET(new NextRequest('https://example.com/api/auth/verify-magic-url?token=magic-token&email=user@example.com'));
+    expect(redirect.headers.get('location')).toBe('https://example.com/login');
+    expect(cookieJar.has('nextauth-simple-session-two-factor-challenge')).toBe(true);
+    expect(cookieJar.has('nextauth-simple-session')).toBe(false);
+
+    const response = await POST(new NextRequest('https://example.com/api/auth/2fa/verify', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ code: authenticator.generate(secret) })
+    }));
+
+    expect(response.status).toBe(200);
+    expect(cookieJar.has('nextauth-simple-session')).toBe(true);
+    expect(cookieJar.has('nextauth-simple-session-two-factor-challenge')).toBe(false);
+  });
+
+  it('should register new magic URL users through the registration hooks', async () => {
+    const postRegistration = jest.fn<AuthHook<'postRegistration'>>();
+    await adapter.createMagicUrlToken({
+      id: 'token-2',
+      email: 'new@example.com',
+      token: 'magic-token',
+      expiresAt: new Date(Date.now() + 60_000),
+      createdAt: new Date(),
+      callbackUrl: ''
+    });
+
+    const result = await verifyMagicUrlToken(
+      { email: 'new@example.com', token: 'magic-token' },
+      { ...config, hooks: { ...config.hooks, postRegistration: [postRegistration] } } as any
+    );
+
+    expect(result).toMatchObject({ success: true, user: { email: 'new@example.com' } });
+    expect(postRegistration).toHaveBeenCalledWith(expect.objectContaining({ user: result.user }), expect.anything());
+
+    // The placeholder password is stored hashed
+    const { password } = (await adapter.getUserByEmail('new@example.com'))!;
+    expect(password).toMatch(/^\$2[aby]\$|^\$pbkdf2-sha256\$/);
+  });
+});
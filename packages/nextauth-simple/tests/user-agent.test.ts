@@ -0,0 +1,27 @@
+import { describe, expect, it } from '@jest/globals';
+import { getDeviceLabel, parseUserAgent } from '../src/utils/user-agent';
+
+describe('User Agent Parsing', () => {
+  it('should recognise common browsers and operating systems', () => {
+    expect(getDeviceLabel(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36'
+    )).toBe('Chrome on macOS');
+    expect(getDeviceLabel(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0'
+    )).toBe('Edge on Windows');
+    expect(getDeviceLabel(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iOS');
+  });
+
+  it('should detect the device type', () => {
+    expect(parseUserAgent('Mozilla/5.0 (Linux; Android 14; Pixel 8) Chrome/124.0 Mobile Safari/537.36').deviceType).toBe('mobile');
+    expect(parseUserAgent('Mozilla/5.0 (iPad; CPU OS 17_4 like Mac OS X) Safari/604.1').deviceType).toBe('tablet');
+    expect(parseUserAgent('Googlebot/2.1 (+http://www.google.com/bot.html)').deviceType).toBe('bot');
+  });
+
+  it('should handle missing or unknown user agents', () => {
+    expect(getDeviceLabel(undefined)).toBeNull();
+    expect(getDeviceLabel('curl/8.4.0')).toBeNull();
+  });
+});